@@ -49,6 +49,7 @@ interface GeminiGenerationConfig {
   topK?: number
   maxOutputTokens?: number
   stopSequences?: string[]
+  responseMimeType?: string
   thinkingConfig?: {
     thinkingBudget?: number
   }
@@ -123,6 +124,7 @@ export interface GeminiRequest {
   maxOutputTokens?: number
   temperature?: number
   thinkingBudget?: number
+  responseFormat?: "text" | "json"
 }
 
 export interface GeminiResponse {
@@ -208,6 +210,9 @@ function buildRequestBody(params: GeminiRequest): GeminiRequestBody {
   if (typeof params.thinkingBudget === "number") {
     genConfig.thinkingConfig = { thinkingBudget: params.thinkingBudget }
   }
+  if (params.responseFormat === "json") {
+    genConfig.responseMimeType = "application/json"
+  }
   if (Object.keys(genConfig).length > 0) {
     body.generationConfig = genConfig
   }
@@ -383,6 +388,7 @@ export const streamGemini = (
     const body = buildRequestBody(params)
 
     let fullText = ""
+    let usage: GeminiResponse["usage"]
 
     fetch(url, {
       method: "POST",
@@ -432,6 +438,14 @@ export const streamGemini = (
                   const parsed: unknown = JSON.parse(payload)
                   const decoded = parseGeminiGenerateResponse(parsed)
                   if (!decoded) continue
+                  // Usage metadata is cumulative; the last chunk has the totals
+                  if (decoded.usageMetadata) {
+                    usage = {
+                      promptTokens: decoded.usageMetadata.promptTokenCount,
+                      completionTokens: decoded.usageMetadata.candidatesTokenCount,
+                      totalTokens: decoded.usageMetadata.totalTokenCount,
+                    }
+                  }
                   const candidate = decoded.candidates[0]
                   if (!candidate) continue
 
@@ -475,6 +489,7 @@ export const streamGemini = (
               content: fullText,
               timestamp: Date.now(),
             },
+            ...(usage && { usage }),
           })
           await emit.end()
         } catch (error) {
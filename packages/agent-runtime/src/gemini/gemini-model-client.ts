@@ -0,0 +1,107 @@
+import { Effect } from "effect"
+import type {
+  ModelClient,
+  ModelMessage,
+  ModelRequest,
+} from "../model/model-client"
+import { generateToolCallId } from "../model/model-client"
+import {
+  createGeminiResponse,
+  streamGemini,
+  type GeminiContent,
+  type GeminiRequest,
+} from "./gemini-client"
+
+// ============================================================================
+// Conversion Helpers (ModelMessage → Gemini Contents)
+// ============================================================================
+
+/**
+ * Convert model messages to Gemini contents.
+ * Tool results become functionResponse parts in a user turn, and consecutive
+ * turns with the same role are merged (Gemini requires user/model alternation).
+ */
+export function modelMessagesToGeminiContents(messages: readonly ModelMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = []
+
+  for (const msg of messages) {
+    const content: GeminiContent =
+      msg.role === "user"
+        ? { role: "user", parts: [{ text: msg.content }] }
+        : msg.role === "tool"
+          ? {
+              role: "user",
+              parts: [{ functionResponse: { name: msg.name, response: { result: msg.content } } }],
+            }
+          : {
+              role: "model",
+              parts: [
+                ...(msg.content ? [{ text: msg.content }] : []),
+                ...(msg.toolCalls ?? []).map((call) => ({
+                  functionCall: { name: call.name, args: call.args },
+                  ...(call.thoughtSignature && { thoughtSignature: call.thoughtSignature }),
+                })),
+              ],
+            }
+
+    if (content.parts.length === 0) continue
+
+    const last = contents[contents.length - 1]
+    if (last && last.role === content.role) {
+      last.parts.push(...content.parts)
+    } else {
+      contents.push(content)
+    }
+  }
+
+  if (contents.length > 0 && contents[0].role === "model") {
+    contents.unshift({ role: "user", parts: [{ text: "(conversation context)" }] })
+  }
+
+  return contents
+}
+
+function toGeminiRequest(apiKey: string, request: ModelRequest): GeminiRequest {
+  const hasTools = (request.tools?.length ?? 0) > 0
+  return {
+    apiKey,
+    model: request.model,
+    contents: modelMessagesToGeminiContents(request.messages),
+    systemInstruction: request.systemInstruction,
+    tools: hasTools ? request.tools : undefined,
+    toolConfig: hasTools ? (request.toolChoice ?? "auto") : "none",
+    maxOutputTokens: request.maxOutputTokens,
+    temperature: request.temperature,
+    thinkingBudget: request.thinkingBudget,
+    responseFormat: request.responseFormat,
+  }
+}
+
+// ============================================================================
+// Gemini Model Client
+// ============================================================================
+
+export interface GeminiModelClientOptions {
+  apiKey: string
+}
+
+/**
+ * ModelClient backed by the Gemini generateContent API.
+ */
+export function createGeminiModelClient(options: GeminiModelClientOptions): ModelClient {
+  return {
+    provider: "gemini",
+    generate: (request) =>
+      createGeminiResponse(toGeminiRequest(options.apiKey, request)).pipe(
+        Effect.map((response) => ({
+          text: response.text,
+          toolCalls: response.functionCalls.map((call) => ({
+            id: generateToolCallId(),
+            ...call,
+          })),
+          usage: response.usage,
+        }))
+      ),
+    stream: (request) => streamGemini(toGeminiRequest(options.apiKey, request)),
+  }
+}
@@ -1,2 +1,34 @@
 export type { GeminiRequest, GeminiResponse, GeminiContent, GeminiFunctionDeclaration, GeminiRole } from "./gemini/gemini-client"
 export { createGeminiResponse, streamGemini, chatMessagesToGeminiContents, GEMINI_DEFAULT_MODEL } from "./gemini/gemini-client"
+export type { GeminiModelClientOptions } from "./gemini/gemini-model-client"
+export { createGeminiModelClient, modelMessagesToGeminiContents } from "./gemini/gemini-model-client"
+export type { OpenAICompatibleClientOptions } from "./openai/openai-client"
+export { createOpenAICompatibleModelClient, modelMessagesToOpenAIMessages } from "./openai/openai-client"
+export type {
+  ModelClient,
+  ModelMessage,
+  ModelRequest,
+  ModelResponse,
+  ModelToolCall,
+  ModelToolDeclaration,
+  ModelUsage,
+} from "./model/model-client"
+export {
+  DEFAULT_MODEL_PROVIDER,
+  parseModelRef,
+  chatMessagesToModelMessages,
+  generateToolCallId,
+} from "./model/model-client"
+export type { ModelProviderConfig, ModelProviderKind } from "./model/providers"
+export { BUILTIN_MODEL_PROVIDERS, createModelClient } from "./model/providers"
+export type {
+  ScriptedErrorKind,
+  ScriptedFixture,
+  ScriptedModelClient,
+  ScriptedTurn,
+} from "./scripted/scripted-client"
+export {
+  ScriptedFixtureSchema,
+  createScriptedModelClient,
+  parseScriptedFixture,
+} from "./scripted/scripted-client"
@@ -0,0 +1,131 @@
+import type { Effect, Stream } from "effect"
+import type { AgentStreamEvent } from "@bibboy/shared"
+
+// ============================================================================
+// Provider-Agnostic Model Types
+// ============================================================================
+
+/** A tool call requested by the model */
+export interface ModelToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+  /** Gemini thought signature, echoed back with the call on the next turn */
+  thoughtSignature?: string
+}
+
+/** A conversation message in provider-neutral form */
+export type ModelMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ModelToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string }
+
+/** Tool function declaration (JSON Schema parameters) */
+export interface ModelToolDeclaration {
+  name: string
+  description: string
+  parameters?: Record<string, unknown>
+}
+
+export interface ModelRequest {
+  /** Model id without the provider prefix */
+  model: string
+  messages: ModelMessage[]
+  systemInstruction?: string
+  tools?: ModelToolDeclaration[]
+  toolChoice?: "auto" | "any" | "none"
+  maxOutputTokens?: number
+  temperature?: number
+  /** Thinking token budget (ignored by providers without thinking support) */
+  thinkingBudget?: number
+  /** Constrain the output to JSON (OpenAI-compatible providers return an object) */
+  responseFormat?: "text" | "json"
+}
+
+export interface ModelUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ModelResponse {
+  text: string
+  toolCalls: ModelToolCall[]
+  usage?: ModelUsage
+}
+
+/**
+ * A chat model backend. Streaming emits `text_delta` and `tool_start` events
+ * (tool execution is left to the caller) followed by a `done` event.
+ */
+export interface ModelClient {
+  readonly provider: string
+  readonly generate: (request: ModelRequest) => Effect.Effect<ModelResponse, Error>
+  readonly stream: (request: ModelRequest) => Stream.Stream<AgentStreamEvent, Error>
+}
+
+// ============================================================================
+// Model References
+// ============================================================================
+
+/** Provider assumed for model refs without a `provider/` prefix */
+export const DEFAULT_MODEL_PROVIDER = "gemini"
+
+/**
+ * Split a `provider/model` ref. Bare model ids belong to the default provider.
+ */
+export function parseModelRef(model: string): { provider: string; modelId: string } {
+  const trimmed = model.trim()
+  const slash = trimmed.indexOf("/")
+  if (slash > 0) {
+    return {
+      provider: trimmed.slice(0, slash).toLowerCase(),
+      modelId: trimmed.slice(slash + 1),
+    }
+  }
+  return { provider: DEFAULT_MODEL_PROVIDER, modelId: trimmed }
+}
+
+// ============================================================================
+// Conversion Helpers (ChatMessage → ModelMessage)
+// ============================================================================
+
+export function generateToolCallId(): string {
+  return `call_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`
+}
+
+/**
+ * Convert ChatMessage history to model messages.
+ * System messages (conversation summaries) are injected as context in the
+ * first user turn, and the conversation always starts with a user turn.
+ */
+export function chatMessagesToModelMessages(
+  messages: ReadonlyArray<{ role: "user" | "assistant" | "system"; content: string }>
+): ModelMessage[] {
+  const result: ModelMessage[] = []
+  const systemParts: string[] = []
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      systemParts.push(msg.content)
+    } else {
+      result.push({ role: msg.role, content: msg.content })
+    }
+  }
+
+  if (systemParts.length > 0) {
+    const contextText = systemParts.join("\n\n")
+    const first = result[0]
+    if (first?.role === "user") {
+      result[0] = { role: "user", content: `${contextText}\n\n${first.content}` }
+    } else {
+      result.unshift({ role: "user", content: contextText })
+    }
+  }
+
+  if (result.length > 0 && result[0].role !== "user") {
+    result.unshift({ role: "user", content: "(conversation context)" })
+  }
+
+  return result
+}
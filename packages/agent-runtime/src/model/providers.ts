@@ -0,0 +1,44 @@
+import { createGeminiModelClient } from "../gemini/gemini-model-client"
+import { createOpenAICompatibleModelClient } from "../openai/openai-client"
+import type { ModelClient } from "./model-client"
+
+// ============================================================================
+// Model Providers
+// ============================================================================
+
+export type ModelProviderKind = "gemini" | "openai-compatible"
+
+export interface ModelProviderConfig {
+  kind: ModelProviderKind
+  /** Chat-completions base URL (openai-compatible only) */
+  baseUrl?: string
+  apiKey?: string
+  /** Whether calls fail fast without an API key */
+  requiresApiKey: boolean
+}
+
+/**
+ * Built-in providers, selected by the prefix of a `provider/model` ref.
+ * Ollama and llama.cpp point at their default local servers.
+ */
+export const BUILTIN_MODEL_PROVIDERS: Readonly<Record<string, ModelProviderConfig>> = {
+  gemini: { kind: "gemini", requiresApiKey: true },
+  google: { kind: "gemini", requiresApiKey: true },
+  openai: { kind: "openai-compatible", baseUrl: "https://api.openai.com/v1", requiresApiKey: true },
+  ollama: { kind: "openai-compatible", baseUrl: "http://localhost:11434/v1", requiresApiKey: false },
+  llamacpp: { kind: "openai-compatible", baseUrl: "http://localhost:8080/v1", requiresApiKey: false },
+}
+
+/**
+ * Create a client for a provider. The caller checks `requiresApiKey` first.
+ */
+export function createModelClient(provider: string, config: ModelProviderConfig): ModelClient {
+  if (config.kind === "gemini") {
+    return createGeminiModelClient({ apiKey: config.apiKey ?? "" })
+  }
+  return createOpenAICompatibleModelClient({
+    provider,
+    baseUrl: config.baseUrl ?? BUILTIN_MODEL_PROVIDERS.openai.baseUrl ?? "",
+    apiKey: config.apiKey,
+  })
+}
@@ -0,0 +1,417 @@
+import { Effect, Stream, Duration, pipe, Schema } from "effect"
+import type { AgentStreamEvent } from "@bibboy/shared"
+import type {
+  ModelClient,
+  ModelMessage,
+  ModelRequest,
+  ModelResponse,
+  ModelToolCall,
+  ModelUsage,
+} from "../model/model-client"
+import { generateToolCallId } from "../model/model-client"
+
+// ============================================================================
+// Chat Completions API Types
+// ============================================================================
+
+interface OpenAIToolCall {
+  id: string
+  type: "function"
+  function: { name: string; arguments: string }
+}
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string }
+
+interface OpenAITool {
+  type: "function"
+  function: { name: string; description: string; parameters?: Record<string, unknown> }
+}
+
+interface OpenAIRequestBody {
+  model: string
+  messages: OpenAIMessage[]
+  tools?: OpenAITool[]
+  tool_choice?: "auto" | "required" | "none"
+  max_tokens?: number
+  temperature?: number
+  response_format?: { type: "text" | "json_object" }
+  stream?: boolean
+  stream_options?: { include_usage: boolean }
+}
+
+const OpenAIUsageSchema = Schema.Struct({
+  prompt_tokens: Schema.Number,
+  completion_tokens: Schema.Number,
+  total_tokens: Schema.Number,
+})
+
+const OpenAIChatCompletionSchema = Schema.Struct({
+  choices: Schema.Array(
+    Schema.Struct({
+      message: Schema.Struct({
+        content: Schema.optional(Schema.NullOr(Schema.String)),
+        tool_calls: Schema.optional(
+          Schema.Array(
+            Schema.Struct({
+              id: Schema.optional(Schema.String),
+              function: Schema.Struct({
+                name: Schema.String,
+                arguments: Schema.optional(Schema.String),
+              }),
+            })
+          )
+        ),
+      }),
+    })
+  ),
+  usage: Schema.optional(Schema.NullOr(OpenAIUsageSchema)),
+})
+
+const OpenAIChatCompletionChunkSchema = Schema.Struct({
+  choices: Schema.optional(
+    Schema.Array(
+      Schema.Struct({
+        delta: Schema.optional(
+          Schema.Struct({
+            content: Schema.optional(Schema.NullOr(Schema.String)),
+            tool_calls: Schema.optional(
+              Schema.Array(
+                Schema.Struct({
+                  index: Schema.optional(Schema.Number),
+                  id: Schema.optional(Schema.String),
+                  function: Schema.optional(
+                    Schema.Struct({
+                      name: Schema.optional(Schema.String),
+                      arguments: Schema.optional(Schema.String),
+                    })
+                  ),
+                })
+              )
+            ),
+          })
+        ),
+      })
+    )
+  ),
+  usage: Schema.optional(Schema.NullOr(OpenAIUsageSchema)),
+})
+
+type OpenAIUsage = Schema.Schema.Type<typeof OpenAIUsageSchema>
+
+const decodeChatCompletion = Schema.decodeUnknownEither(OpenAIChatCompletionSchema)
+const decodeChatCompletionChunk = Schema.decodeUnknownEither(OpenAIChatCompletionChunkSchema)
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 120_000
+
+const TOOL_CHOICE_MODES: Record<string, "auto" | "required" | "none"> = {
+  auto: "auto",
+  any: "required",
+  none: "none",
+}
+
+/** Coerce an unknown caught value to an Error instance */
+function toError(error: unknown): Error {
+  if (error instanceof Error) return error
+  return new Error(String(error))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse tool call arguments. Local servers occasionally emit invalid JSON;
+ * that becomes an empty argument object rather than a failed turn.
+ */
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw?.trim()) return {}
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return isRecord(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function toModelUsage(usage: OpenAIUsage | null | undefined): ModelUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined
+}
+
+/**
+ * Convert model messages to chat-completions messages.
+ */
+export function modelMessagesToOpenAIMessages(
+  messages: readonly ModelMessage[],
+  systemInstruction?: string
+): OpenAIMessage[] {
+  const result: OpenAIMessage[] = systemInstruction
+    ? [{ role: "system", content: systemInstruction }]
+    : []
+
+  for (const msg of messages) {
+    if (msg.role === "tool") {
+      result.push({ role: "tool", tool_call_id: msg.toolCallId, content: msg.content })
+    } else if (msg.role === "assistant" && msg.toolCalls && msg.toolCalls.length > 0) {
+      result.push({
+        role: "assistant",
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      })
+    } else if (msg.role === "assistant") {
+      result.push({ role: "assistant", content: msg.content })
+    } else {
+      result.push({ role: "user", content: msg.content })
+    }
+  }
+
+  return result
+}
+
+function buildRequestBody(request: ModelRequest, stream: boolean): OpenAIRequestBody {
+  const body: OpenAIRequestBody = {
+    model: request.model,
+    messages: modelMessagesToOpenAIMessages(request.messages, request.systemInstruction),
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        ...(tool.parameters && { parameters: tool.parameters }),
+      },
+    }))
+    body.tool_choice = TOOL_CHOICE_MODES[request.toolChoice ?? "auto"] ?? "auto"
+  }
+
+  if (typeof request.maxOutputTokens === "number") {
+    body.max_tokens = request.maxOutputTokens
+  }
+  if (typeof request.temperature === "number") {
+    body.temperature = request.temperature
+  }
+  if (request.responseFormat === "json") {
+    body.response_format = { type: "json_object" }
+  }
+  if (stream) {
+    body.stream = true
+    body.stream_options = { include_usage: true }
+  }
+
+  return body
+}
+
+// ============================================================================
+// OpenAI-Compatible Model Client
+// ============================================================================
+
+export interface OpenAICompatibleClientOptions {
+  /** Provider name reported by the client (e.g. "openai", "ollama") */
+  provider: string
+  /** API base URL including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string
+  /** Bearer token (local servers usually don't need one) */
+  apiKey?: string
+}
+
+/**
+ * ModelClient for any OpenAI-compatible chat-completions endpoint:
+ * OpenAI itself or a local server such as llama.cpp or Ollama.
+ */
+export function createOpenAICompatibleModelClient(
+  options: OpenAICompatibleClientOptions
+): ModelClient {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+  }
+  const label = `${options.provider} API error`
+
+  const generate = (request: ModelRequest): Effect.Effect<ModelResponse, Error> =>
+    Effect.gen(function* () {
+      const response = yield* pipe(
+        Effect.tryPromise({
+          try: () =>
+            fetch(url, {
+              method: "POST",
+              headers,
+              body: JSON.stringify(buildRequestBody(request, false)),
+            }),
+          catch: toError,
+        }),
+        Effect.timeout(Duration.millis(DEFAULT_TIMEOUT_MS))
+      )
+
+      if (!response.ok) {
+        const errorText = yield* Effect.tryPromise({
+          try: () => response.text(),
+          catch: () => new Error(`HTTP ${response.status}`),
+        })
+        return yield* Effect.fail(new Error(`${label} (${response.status}): ${errorText}`))
+      }
+
+      const raw: unknown = yield* Effect.tryPromise({
+        try: () => response.json(),
+        catch: (error) => new Error(`Failed to parse ${options.provider} response: ${String(error)}`),
+      })
+
+      const decoded = decodeChatCompletion(raw)
+      if (decoded._tag === "Left") {
+        return yield* Effect.fail(new Error(`Unexpected ${options.provider} response shape`))
+      }
+
+      const message = decoded.right.choices[0]?.message
+      return {
+        text: message?.content ?? "",
+        toolCalls: (message?.tool_calls ?? []).map((call) => ({
+          id: call.id ?? generateToolCallId(),
+          name: call.function.name,
+          args: parseToolArguments(call.function.arguments),
+        })),
+        usage: toModelUsage(decoded.right.usage),
+      }
+    })
+
+  const stream = (request: ModelRequest): Stream.Stream<AgentStreamEvent, Error> =>
+    Stream.async<AgentStreamEvent, Error>((emit) => {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+
+      let fullText = ""
+      let usage: ModelUsage | undefined
+      // Tool call fragments arrive spread over chunks, keyed by index
+      const pendingCalls = new Map<number, { id?: string; name: string; arguments: string }>()
+
+      fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(buildRequestBody(request, true)),
+        signal: controller.signal,
+      })
+        .then(async (response) => {
+          if (!response.ok) {
+            const errorText = await response.text()
+            await emit.fail(new Error(`${label} (${response.status}): ${errorText}`))
+            return
+          }
+
+          const reader = response.body?.getReader()
+          if (!reader) {
+            await emit.fail(new Error("No response body"))
+            return
+          }
+
+          const decoder = new TextDecoder()
+          let buffer = ""
+
+          try {
+            while (true) {
+              const { done, value } = await reader.read()
+              if (done) break
+
+              buffer += decoder.decode(value, { stream: true })
+              const lines = buffer.split("\n")
+              buffer = lines.pop() || ""
+
+              for (const line of lines) {
+                const trimmed = line.trim()
+                if (!trimmed.startsWith("data:")) continue
+
+                const payload = trimmed.slice(5).trim()
+                if (!payload || payload === "[DONE]") continue
+
+                let parsed: unknown
+                try {
+                  parsed = JSON.parse(payload)
+                } catch {
+                  continue // Ignore malformed chunks
+                }
+                const decoded = decodeChatCompletionChunk(parsed)
+                if (decoded._tag === "Left") continue
+
+                usage = toModelUsage(decoded.right.usage) ?? usage
+                const delta = decoded.right.choices?.[0]?.delta
+                if (!delta) continue
+
+                if (delta.content) {
+                  fullText += delta.content
+                  await emit.single({ type: "text_delta", delta: delta.content })
+                }
+
+                for (const fragment of delta.tool_calls ?? []) {
+                  const index = fragment.index ?? 0
+                  const call = pendingCalls.get(index) ?? { name: "", arguments: "" }
+                  if (fragment.id) call.id = fragment.id
+                  if (fragment.function?.name) call.name += fragment.function.name
+                  if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+                  pendingCalls.set(index, call)
+                }
+              }
+            }
+
+            // Tool calls are complete once the stream ends
+            const toolCalls: ModelToolCall[] = [...pendingCalls.entries()]
+              .sort(([a], [b]) => a - b)
+              .filter(([, call]) => call.name)
+              .map(([, call]) => ({
+                id: call.id ?? generateToolCallId(),
+                name: call.name,
+                args: parseToolArguments(call.arguments),
+              }))
+            for (const call of toolCalls) {
+              await emit.single({
+                type: "tool_start",
+                toolCallId: call.id,
+                toolName: call.name,
+                arguments: call.args,
+              })
+            }
+
+            await emit.single({
+              type: "done",
+              message: {
+                id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+                role: "assistant",
+                content: fullText,
+                timestamp: Date.now(),
+              },
+              ...(usage && { usage }),
+            })
+            await emit.end()
+          } catch (error) {
+            await emit.fail(toError(error))
+          }
+        })
+        .catch(async (error) => {
+          await emit.fail(toError(error))
+        })
+        .finally(() => {
+          clearTimeout(timeoutId)
+        })
+    })
+
+  return { provider: options.provider, generate, stream }
+}
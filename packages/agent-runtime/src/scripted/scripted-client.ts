@@ -0,0 +1,203 @@
+import { Effect, Either, Schema, Stream } from "effect"
+import type { AgentStreamEvent } from "@bibboy/shared"
+import type {
+  ModelClient,
+  ModelRequest,
+  ModelResponse,
+  ModelToolCall,
+} from "../model/model-client"
+
+// ============================================================================
+// Fixture Schema
+// ============================================================================
+
+/**
+ * Injected failures. Each kind maps to an error message that the server's
+ * error classification recognizes (context overflow, rate limit, ...).
+ */
+const ScriptedErrorKindSchema = Schema.Literal(
+  "context_overflow",
+  "rate_limit",
+  "timeout",
+  "overloaded",
+  "auth",
+  "billing",
+  "unknown"
+)
+
+export type ScriptedErrorKind = Schema.Schema.Type<typeof ScriptedErrorKindSchema>
+
+const ScriptedTurnSchema = Schema.Struct({
+  /** Response text; an array is streamed as one text delta per entry */
+  text: Schema.optional(Schema.Union(Schema.String, Schema.Array(Schema.String))),
+  toolCalls: Schema.optional(
+    Schema.Array(
+      Schema.Struct({
+        /** Defaults to call_<turn>_<index> */
+        id: Schema.optional(Schema.String),
+        name: Schema.String,
+        args: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+      })
+    )
+  ),
+  usage: Schema.optional(
+    Schema.Struct({
+      promptTokens: Schema.Number,
+      completionTokens: Schema.Number,
+      totalTokens: Schema.Number,
+    })
+  ),
+  /** Fail the turn. When streaming, text deltas are emitted before the failure. */
+  error: Schema.optional(
+    Schema.Struct({
+      kind: ScriptedErrorKindSchema,
+      message: Schema.optional(Schema.String),
+    })
+  ),
+})
+
+export const ScriptedFixtureSchema = Schema.Struct({
+  turns: Schema.Array(ScriptedTurnSchema),
+})
+
+export type ScriptedTurn = Schema.Schema.Type<typeof ScriptedTurnSchema>
+export type ScriptedFixture = Schema.Schema.Type<typeof ScriptedFixtureSchema>
+
+const decodeFixture = Schema.decodeUnknownEither(ScriptedFixtureSchema)
+
+const ERROR_MESSAGES: Record<ScriptedErrorKind, string> = {
+  context_overflow: "Scripted error: context length exceeded",
+  rate_limit: "Scripted error: 429 rate limit exceeded",
+  timeout: "Scripted error: request timed out",
+  overloaded: "Scripted error: 503 model overloaded",
+  auth: "Scripted error: 401 unauthorized",
+  billing: "Scripted error: billing account suspended",
+  unknown: "Scripted error: unexpected failure",
+}
+
+/**
+ * Parse fixture JSON text.
+ */
+export function parseScriptedFixture(json: string): Either.Either<ScriptedFixture, Error> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch (error) {
+    return Either.left(new Error(`Invalid scripted fixture JSON: ${String(error)}`))
+  }
+  return Either.mapLeft(
+    decodeFixture(raw),
+    (error) => new Error(`Invalid scripted fixture: ${error.message}`)
+  )
+}
+
+// ============================================================================
+// Scripted Model Client
+// ============================================================================
+
+export interface ScriptedModelClient extends ModelClient {
+  /** Requests received so far, in order (one per consumed turn) */
+  readonly requests: readonly ModelRequest[]
+  /** Number of turns not yet replayed */
+  readonly remaining: () => number
+}
+
+function turnText(turn: ScriptedTurn): string[] {
+  if (turn.text === undefined) return []
+  return typeof turn.text === "string" ? [turn.text] : [...turn.text]
+}
+
+function turnToolCalls(turn: ScriptedTurn, turnIndex: number): ModelToolCall[] {
+  return (turn.toolCalls ?? []).map((call, index) => ({
+    id: call.id ?? `call_${turnIndex}_${index}`,
+    name: call.name,
+    args: { ...call.args },
+  }))
+}
+
+function turnError(turn: ScriptedTurn): Error | undefined {
+  return turn.error ? new Error(turn.error.message ?? ERROR_MESSAGES[turn.error.kind]) : undefined
+}
+
+/**
+ * ModelClient that replays fixture turns in order, one per generate/stream
+ * call, without touching the network. Fails once the fixture is exhausted.
+ */
+export function createScriptedModelClient(
+  fixture: ScriptedFixture,
+  provider = "scripted"
+): ScriptedModelClient {
+  const requests: ModelRequest[] = []
+  let cursor = 0
+
+  const nextTurn = (request: ModelRequest): Either.Either<{ turn: ScriptedTurn; index: number }, Error> => {
+    const index = cursor
+    const turn = fixture.turns[index]
+    if (!turn) {
+      return Either.left(
+        new Error(`Scripted fixture exhausted after ${fixture.turns.length} turns`)
+      )
+    }
+    cursor += 1
+    requests.push(request)
+    return Either.right({ turn, index })
+  }
+
+  const generate = (request: ModelRequest): Effect.Effect<ModelResponse, Error> =>
+    Effect.suspend(() => {
+      const next = nextTurn(request)
+      if (Either.isLeft(next)) return Effect.fail(next.left)
+
+      const { turn, index } = next.right
+      const error = turnError(turn)
+      if (error) return Effect.fail(error)
+
+      return Effect.succeed({
+        text: turnText(turn).join(""),
+        toolCalls: turnToolCalls(turn, index),
+        usage: turn.usage,
+      })
+    })
+
+  const stream = (request: ModelRequest): Stream.Stream<AgentStreamEvent, Error> =>
+    Stream.suspend(() => {
+      const next = nextTurn(request)
+      if (Either.isLeft(next)) return Stream.fail(next.left)
+
+      const { turn, index } = next.right
+      const deltas = turnText(turn)
+      const textEvents = Stream.fromIterable<AgentStreamEvent>(
+        deltas.map((delta) => ({ type: "text_delta", delta }))
+      )
+
+      const error = turnError(turn)
+      if (error) return Stream.concat(textEvents, Stream.fail(error))
+
+      const toolEvents: AgentStreamEvent[] = turnToolCalls(turn, index).map((call) => ({
+        type: "tool_start",
+        toolCallId: call.id,
+        toolName: call.name,
+        arguments: call.args,
+      }))
+      const doneEvent: AgentStreamEvent = {
+        type: "done",
+        message: {
+          id: `msg_scripted_${index}`,
+          role: "assistant",
+          content: deltas.join(""),
+          timestamp: Date.now(),
+        },
+        ...(turn.usage && { usage: turn.usage }),
+      }
+
+      return Stream.concat(textEvents, Stream.fromIterable([...toolEvents, doneEvent]))
+    })
+
+  return {
+    provider,
+    generate,
+    stream,
+    requests,
+    remaining: () => fixture.turns.length - cursor,
+  }
+}
@@ -4,6 +4,8 @@ import {
   chatMessagesToGeminiContents,
   createGeminiResponse,
 } from "../src/gemini/gemini-client"
+import { modelMessagesToGeminiContents } from "../src/gemini/gemini-model-client"
+import { chatMessagesToModelMessages } from "../src/model/model-client"
 
 const baseRequest = {
   apiKey: "test-key",
@@ -109,3 +111,56 @@ describe("chatMessagesToGeminiContents", () => {
     expect(contents[0]?.parts[1]?.text).toBe("new prompt")
   })
 })
+
+describe("modelMessagesToGeminiContents", () => {
+  it("maps tool calls and results to function parts with alternating roles", () => {
+    const contents = modelMessagesToGeminiContents([
+      { role: "user", content: "find cats" },
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [
+          { id: "call_1", name: "memory_search", args: { query: "cats" }, thoughtSignature: "sig" },
+        ],
+      },
+      { role: "tool", toolCallId: "call_1", name: "memory_search", content: "2 hits" },
+      { role: "user", content: "thanks" },
+    ])
+
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "find cats" }] },
+      {
+        role: "model",
+        parts: [
+          {
+            functionCall: { name: "memory_search", args: { query: "cats" } },
+            thoughtSignature: "sig",
+          },
+        ],
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "memory_search", response: { result: "2 hits" } } },
+          { text: "thanks" },
+        ],
+      },
+    ])
+  })
+})
+
+describe("chatMessagesToModelMessages", () => {
+  it("folds summaries into the first user turn", () => {
+    expect(
+      chatMessagesToModelMessages([
+        { role: "system", content: "summary" },
+        { role: "assistant", content: "earlier reply" },
+        { role: "user", content: "next" },
+      ])
+    ).toEqual([
+      { role: "user", content: "summary" },
+      { role: "assistant", content: "earlier reply" },
+      { role: "user", content: "next" },
+    ])
+  })
+})
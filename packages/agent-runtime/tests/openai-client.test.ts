@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { Effect, Stream } from "effect"
+import {
+  createOpenAICompatibleModelClient,
+  modelMessagesToOpenAIMessages,
+} from "../src/openai/openai-client"
+
+const client = createOpenAICompatibleModelClient({
+  provider: "ollama",
+  baseUrl: "http://localhost:11434/v1/",
+})
+
+const baseRequest = {
+  model: "qwen2.5:7b",
+  messages: [{ role: "user" as const, content: "hello" }],
+}
+
+function sseResponse(chunks: unknown[]): Response {
+  const body = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n"
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } })
+}
+
+describe("createOpenAICompatibleModelClient", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("posts chat completions and parses text, tool calls and usage", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      new Response(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                content: null,
+                tool_calls: [
+                  {
+                    id: "call_abc",
+                    type: "function",
+                    function: { name: "read_file", arguments: '{"filename":"SOUL.md"}' },
+                  },
+                ],
+              },
+            },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      )
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    const result = await Effect.runPromise(
+      client.generate({
+        ...baseRequest,
+        systemInstruction: "Be brief",
+        tools: [{ name: "read_file", description: "Read a file" }],
+      })
+    )
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("http://localhost:11434/v1/chat/completions")
+    const body = JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body))
+    expect(body.messages[0]).toEqual({ role: "system", content: "Be brief" })
+    expect(body.tool_choice).toBe("auto")
+
+    expect(result).toEqual({
+      text: "",
+      toolCalls: [{ id: "call_abc", name: "read_file", args: { filename: "SOUL.md" } }],
+      usage: { promptTokens: 5, completionTokens: 3, totalTokens: 8 },
+    })
+  })
+
+  it("assembles streamed tool call fragments and reports usage on done", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        sseResponse([
+          { choices: [{ delta: { content: "Let me " } }] },
+          { choices: [{ delta: { content: "check." } }] },
+          {
+            choices: [
+              {
+                delta: {
+                  tool_calls: [
+                    { index: 0, id: "call_1", function: { name: "memory_search", arguments: '{"que' } },
+                  ],
+                },
+              },
+            ],
+          },
+          { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ry":"cats"}' } }] } }] },
+          { choices: [], usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 } },
+        ])
+      )
+    )
+
+    const events = await Effect.runPromise(
+      Stream.runCollect(client.stream(baseRequest)).pipe(Effect.map((chunk) => [...chunk]))
+    )
+
+    expect(events.slice(0, 3)).toEqual([
+      { type: "text_delta", delta: "Let me " },
+      { type: "text_delta", delta: "check." },
+      {
+        type: "tool_start",
+        toolCallId: "call_1",
+        toolName: "memory_search",
+        arguments: { query: "cats" },
+      },
+    ])
+    const done = events[3]
+    expect(done?.type).toBe("done")
+    if (done?.type === "done") {
+      expect(done.message.content).toBe("Let me check.")
+      expect(done.usage).toEqual({ promptTokens: 10, completionTokens: 4, totalTokens: 14 })
+    }
+  })
+
+  it("requests JSON mode for JSON responses", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      new Response(JSON.stringify({ choices: [{ message: { content: '{"items":[]}' } }] }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    )
+    vi.stubGlobal("fetch", fetchMock)
+
+    await Effect.runPromise(client.generate({ ...baseRequest, responseFormat: "json" }))
+
+    const body = JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body))
+    expect(body.response_format).toEqual({ type: "json_object" })
+  })
+
+  it("fails with the provider name on HTTP errors", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("model not found", { status: 404 })))
+
+    await expect(Effect.runPromise(client.generate(baseRequest))).rejects.toThrow(
+      "ollama API error (404): model not found"
+    )
+  })
+})
+
+describe("modelMessagesToOpenAIMessages", () => {
+  it("maps tool calls and results to chat-completions messages", () => {
+    expect(
+      modelMessagesToOpenAIMessages([
+        { role: "user", content: "find cats" },
+        {
+          role: "assistant",
+          content: "",
+          toolCalls: [{ id: "call_1", name: "memory_search", args: { query: "cats" } }],
+        },
+        { role: "tool", toolCallId: "call_1", name: "memory_search", content: "2 hits" },
+      ])
+    ).toEqual([
+      { role: "user", content: "find cats" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "memory_search", arguments: '{"query":"cats"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "2 hits" },
+    ])
+  })
+})
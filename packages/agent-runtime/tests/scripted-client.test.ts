@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Either, Stream } from "effect"
+import {
+  createScriptedModelClient,
+  parseScriptedFixture,
+} from "../src/scripted/scripted-client"
+
+const request = {
+  model: "e2e",
+  messages: [{ role: "user" as const, content: "hello" }],
+}
+
+const collect = (client: ReturnType<typeof createScriptedModelClient>) =>
+  Effect.runPromise(Stream.runCollect(client.stream(request)).pipe(Effect.map((chunk) => [...chunk])))
+
+describe("createScriptedModelClient", () => {
+  it("replays turns in order and records requests", async () => {
+    const client = createScriptedModelClient({
+      turns: [
+        { toolCalls: [{ name: "read_file", args: { filename: "SOUL.md" } }] },
+        { text: "Done.", usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 } },
+      ],
+    })
+
+    const first = await Effect.runPromise(client.generate(request))
+    const second = await Effect.runPromise(client.generate(request))
+
+    expect(first.toolCalls).toEqual([
+      { id: "call_0_0", name: "read_file", args: { filename: "SOUL.md" } },
+    ])
+    expect(second).toEqual({
+      text: "Done.",
+      toolCalls: [],
+      usage: { promptTokens: 3, completionTokens: 1, totalTokens: 4 },
+    })
+    expect(client.requests).toHaveLength(2)
+    expect(client.remaining()).toBe(0)
+
+    await expect(Effect.runPromise(client.generate(request))).rejects.toThrow(
+      "Scripted fixture exhausted after 2 turns"
+    )
+  })
+
+  it("streams text deltas, tool calls and a done event", async () => {
+    const client = createScriptedModelClient({
+      turns: [{ text: ["Let me ", "look."], toolCalls: [{ id: "call_a", name: "memory_search" }] }],
+    })
+
+    const events = await collect(client)
+
+    expect(events.map((event) => event.type)).toEqual(["text_delta", "text_delta", "tool_start", "done"])
+    expect(events[2]).toEqual({
+      type: "tool_start",
+      toolCallId: "call_a",
+      toolName: "memory_search",
+      arguments: {},
+    })
+    const done = events[3]
+    if (done?.type === "done") {
+      expect(done.message).toMatchObject({ id: "msg_scripted_0", content: "Let me look." })
+    }
+  })
+
+  it("fails injected errors after emitting the turn's text", async () => {
+    const client = createScriptedModelClient({
+      turns: [{ text: ["partial"], error: { kind: "rate_limit" } }],
+    })
+
+    const deltas: string[] = []
+    const result = await Effect.runPromise(
+      client.stream(request).pipe(
+        Stream.runForEach((event) =>
+          Effect.sync(() => {
+            if (event.type === "text_delta") deltas.push(event.delta)
+          })
+        ),
+        Effect.either
+      )
+    )
+
+    expect(deltas).toEqual(["partial"])
+    expect(Either.isLeft(result) && result.left.message).toBe("Scripted error: 429 rate limit exceeded")
+  })
+})
+
+describe("parseScriptedFixture", () => {
+  it("rejects malformed fixtures", () => {
+    expect(Either.isLeft(parseScriptedFixture("{"))).toBe(true)
+    expect(Either.isLeft(parseScriptedFixture('{"turns":[{"error":{"kind":"nope"}}]}'))).toBe(true)
+    expect(Either.isRight(parseScriptedFixture('{"turns":[{"text":"ok"}]}'))).toBe(true)
+  })
+})
@@ -31,6 +31,8 @@ interface ChatInputProps {
   connectionState?: ConnectionState
   /** Reconnect handler */
   onReconnect?: () => void
+  /** Sockets attached to the session, including this one (other tabs, devices) */
+  connectionCount?: number
   /** Queued messages (sent while busy) */
   queue?: ChatQueueItem[]
   /** Remove a queued message */
@@ -54,6 +56,7 @@ export function ChatInput({
   onAbort,
   connectionState = "connected",
   onReconnect,
+  connectionCount = 0,
   queue = [],
   onQueueRemove,
 }: ChatInputProps) {
@@ -110,6 +113,7 @@ export function ChatInput({
   const hasValue = value.trim().length > 0
   const canAbort = isBusy && onAbort
   const isDisconnected = connectionState !== "connected"
+  const otherConnections = isDisconnected ? 0 : Math.max(connectionCount - 1, 0)
 
   const composePlaceholder = isDisconnected
     ? "Reconnect to start chatting…"
@@ -149,6 +153,27 @@ export function ChatInput({
         )}
       </AnimatePresence>
 
+      {/* Presence: the session is also open elsewhere */}
+      <AnimatePresence>
+        {otherConnections > 0 && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={SMOOTH}
+            className="mb-2"
+          >
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-paper-100 border border-paper-300 rounded text-[11px] text-ink-500">
+              <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+              <span>
+                Also open in {otherConnections} other{" "}
+                {otherConnections === 1 ? "tab or device" : "tabs or devices"}
+              </span>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Message queue */}
       <AnimatePresence>
         {queue.length > 0 && (
@@ -1,11 +1,11 @@
-import { memo } from "react"
+import { memo, useState, useCallback, type KeyboardEvent } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import type { ChatMessage as ChatMessageType } from "@bibboy/shared"
+import type { ChatMessage as ChatMessageType, MessageBranch } from "@bibboy/shared"
 import type { ToolExecution } from "@/hooks/useWebSocketChat"
 import { ChatBubble } from "./ChatBubble"
 import { ToolExecutionCard } from "./ToolExecutionCard"
 import { SPRING, SMOOTH, STAGGER_DELAY } from "./animation"
-import { UserIcon, AgentIcon } from "./icons"
+import { UserIcon, AgentIcon, EditIcon, RegenerateIcon, ChevronIcon } from "./icons"
 
 // ============================================================================
 // Types
@@ -18,6 +18,120 @@ interface ChatMessageGroupProps {
   tools?: ToolExecution[]
   /** Open tool output in sidebar */
   onOpenSidebar?: (title: string, content: string) => void
+  /** Replace a user message with new text (shows an edit action) */
+  onEdit?: (messageId: string, text: string) => void
+  /** Ask for another reply (shows a regenerate action) */
+  onRegenerate?: () => void
+  /** Alternatives for the first message of the group (edits or regenerations) */
+  branch?: MessageBranch
+  /** Switch to a sibling message (shows "< 2/3 >" navigation) */
+  onSelectBranch?: (messageId: string) => void
+}
+
+// ============================================================================
+// Message Actions
+// ============================================================================
+
+const ACTION_BUTTON_CLASS =
+  "inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] text-ink-400 hover:text-ink-600 hover:bg-paper-200 transition-colors focus:outline-none focus-visible:ring-1 focus-visible:ring-ink-300"
+
+interface BranchNavigatorProps {
+  branch: MessageBranch
+  onSelect?: (messageId: string) => void
+}
+
+/**
+ * "< 2/3 >" navigation between alternative versions of a message.
+ * Without a select handler (e.g. while streaming) the arrows are disabled.
+ */
+function BranchNavigator({ branch, onSelect }: BranchNavigatorProps) {
+  const previousId = branch.siblingIds[branch.index - 1]
+  const nextId = branch.siblingIds[branch.index + 1]
+
+  return (
+    <span className="inline-flex items-center gap-0.5 text-[10px] text-ink-400 tabular-nums">
+      <button
+        type="button"
+        onClick={() => previousId && onSelect?.(previousId)}
+        disabled={!previousId || !onSelect}
+        className="p-0.5 rounded hover:text-ink-600 disabled:opacity-30 disabled:hover:text-ink-400"
+        aria-label="Previous version"
+      >
+        <ChevronIcon className="w-2.5 h-2.5 rotate-180" />
+      </button>
+      <span>
+        {branch.index + 1}/{branch.count}
+      </span>
+      <button
+        type="button"
+        onClick={() => nextId && onSelect?.(nextId)}
+        disabled={!nextId || !onSelect}
+        className="p-0.5 rounded hover:text-ink-600 disabled:opacity-30 disabled:hover:text-ink-400"
+        aria-label="Next version"
+      >
+        <ChevronIcon className="w-2.5 h-2.5" />
+      </button>
+    </span>
+  )
+}
+
+interface MessageEditorProps {
+  initialText: string
+  onSave: (text: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Inline editor for a user message.
+ * Enter saves, Shift+Enter adds a newline, Escape cancels.
+ */
+function MessageEditor({ initialText, onSave, onCancel }: MessageEditorProps) {
+  const [draft, setDraft] = useState(initialText)
+  const trimmed = draft.trim()
+
+  const save = useCallback(() => {
+    if (trimmed.length > 0) onSave(trimmed)
+  }, [trimmed, onSave])
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault()
+        save()
+      } else if (e.key === "Escape") {
+        e.preventDefault()
+        onCancel()
+      }
+    },
+    [save, onCancel],
+  )
+
+  return (
+    <div className="rounded-lg border border-paper-300 bg-paper-50 px-3 py-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        autoFocus
+        rows={Math.min(8, Math.max(2, draft.split("\n").length))}
+        aria-label="Edit message"
+        className="w-full resize-none bg-transparent text-[13px] text-ink-700 leading-relaxed focus:outline-none"
+      />
+      <div className="flex justify-end gap-1.5 mt-1">
+        <button type="button" onClick={onCancel} className={ACTION_BUTTON_CLASS}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={trimmed.length === 0}
+          className={`${ACTION_BUTTON_CLASS} text-ink-600 disabled:opacity-40`}
+        >
+          Save &amp; send
+        </button>
+      </div>
+    </div>
+  )
 }
 
 // ============================================================================
@@ -35,8 +149,23 @@ export const ChatMessageGroup = memo(function ChatMessageGroup({
   isStreaming = false,
   tools = [],
   onOpenSidebar,
+  onEdit,
+  onRegenerate,
+  branch,
+  onSelectBranch,
 }: ChatMessageGroupProps) {
   const isUser = role === "user"
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const handleSaveEdit = useCallback(
+    (text: string) => {
+      if (editingId && onEdit) onEdit(editingId, text)
+      setEditingId(null)
+    },
+    [editingId, onEdit],
+  )
+
+  const handleCancelEdit = useCallback(() => setEditingId(null), [])
   const timestamp = messages[0]?.timestamp ?? Date.now()
 
   const timeStr = new Date(timestamp).toLocaleTimeString([], {
@@ -81,6 +210,10 @@ export const ChatMessageGroup = memo(function ChatMessageGroup({
         </span>
         <span className="text-[10px] text-ink-300">{timeStr}</span>
 
+        {branch && branch.count > 1 && (
+          <BranchNavigator branch={branch} onSelect={onSelectBranch} />
+        )}
+
         {isStreaming && (
           <motion.span
             initial={{ opacity: 0 }}
@@ -147,14 +280,52 @@ export const ChatMessageGroup = memo(function ChatMessageGroup({
                   : index * STAGGER_DELAY,
               }}
             >
-              <ChatBubble
-                content={message.content}
-                isUser={isUser}
-                isStreaming={isStreaming && index === messages.length - 1}
-              />
+              {editingId === message.id ? (
+                <MessageEditor
+                  initialText={message.content}
+                  onSave={handleSaveEdit}
+                  onCancel={handleCancelEdit}
+                />
+              ) : (
+                <div className="group/message">
+                  <ChatBubble
+                    content={message.content}
+                    isUser={isUser}
+                    isStreaming={isStreaming && index === messages.length - 1}
+                  />
+                  {isUser && onEdit && (
+                    <div className="flex justify-end mt-0.5 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(message.id)}
+                        className={ACTION_BUTTON_CLASS}
+                        title="Edit message"
+                      >
+                        <EditIcon className="w-2.5 h-2.5" />
+                        Edit
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
             </motion.div>
           ))}
         </div>
+
+        {/* Regenerate — only offered for the latest reply */}
+        {!isUser && onRegenerate && !isStreaming && (
+          <div className="mt-1">
+            <button
+              type="button"
+              onClick={onRegenerate}
+              className={ACTION_BUTTON_CLASS}
+              title="Regenerate response"
+            >
+              <RegenerateIcon className="w-2.5 h-2.5" />
+              Regenerate
+            </button>
+          </div>
+        )}
       </div>
     </motion.div>
   )
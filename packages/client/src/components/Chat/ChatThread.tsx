@@ -1,6 +1,6 @@
 import { useRef, useEffect, useMemo, useCallback, useState } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import type { ChatMessage as ChatMessageType, ToolResult } from "@bibboy/shared"
+import type { ChatMessage as ChatMessageType, MessageBranch, ToolResult } from "@bibboy/shared"
 import type { ToolExecution } from "@/hooks/useWebSocketChat"
 import { ChatMessageGroup } from "./ChatMessageGroup"
 import { LiveResponseGroup } from "./LiveResponseGroup"
@@ -29,6 +29,16 @@ interface ChatThreadProps {
   activeTools?: ToolExecution[]
   /** Open tool output in sidebar (OpenClaw pattern) */
   onOpenSidebar?: (title: string, content: string) => void
+  /** Approve or deny a tool call that is waiting for approval */
+  onToolApproval?: (approvalId: string, approved: boolean) => void
+  /** Replace a user message and re-run from it */
+  onEditMessage?: (messageId: string, text: string) => void
+  /** Regenerate the latest assistant reply */
+  onRegenerate?: () => void
+  /** Alternatives for messages that were edited or regenerated, by message ID */
+  branches?: ReadonlyMap<string, MessageBranch>
+  /** Switch to another version of a message */
+  onSelectBranch?: (messageId: string) => void
 }
 
 // ============================================================================
@@ -173,6 +183,11 @@ export function ChatThread({
   messageToolsMap,
   activeTools,
   onOpenSidebar,
+  onToolApproval,
+  onEditMessage,
+  onRegenerate,
+  branches,
+  onSelectBranch,
 }: ChatThreadProps) {
   const containerRef = useAutoScroll([messages, isLoading, stream, activeTools])
 
@@ -199,6 +214,10 @@ export function ChatThread({
   }
   const liveTimestamp = liveTimestampRef.current || Date.now()
 
+  // History and branches can only change between responses
+  const canRewrite = !isLiveActive
+  const selectBranch = canRewrite ? onSelectBranch : undefined
+
   return (
     <div
       ref={containerRef}
@@ -216,6 +235,7 @@ export function ChatThread({
               lastAssistantId && messageToolsMap?.get(lastAssistantId)
                 ? messageToolsMap.get(lastAssistantId)!
                 : []
+            const isLastTurn = turnIdx === turns.length - 1
 
             return (
               <motion.div
@@ -238,7 +258,13 @@ export function ChatThread({
 
                 {turn.user.length > 0 && (
                   <div className="chat-turn-block">
-                    <ChatMessageGroup role="user" messages={turn.user} />
+                    <ChatMessageGroup
+                      role="user"
+                      messages={turn.user}
+                      onEdit={canRewrite ? onEditMessage : undefined}
+                      branch={branches?.get(turn.user[0].id)}
+                      onSelectBranch={selectBranch}
+                    />
                   </div>
                 )}
 
@@ -249,6 +275,13 @@ export function ChatThread({
                       messages={turn.assistant}
                       tools={turnTools}
                       onOpenSidebar={onOpenSidebar}
+                      onRegenerate={
+                        canRewrite && isLastTurn && turn.user.length > 0
+                          ? onRegenerate
+                          : undefined
+                      }
+                      branch={branches?.get(turn.assistant[0].id)}
+                      onSelectBranch={selectBranch}
                     />
                   </div>
                 )}
@@ -310,6 +343,7 @@ export function ChatThread({
                           staggerIndex={index}
                           totalTools={activeTools.length}
                           onOpenSidebar={onOpenSidebar}
+                          onApprovalResponse={onToolApproval}
                         />
                       ))}
                     </motion.div>
@@ -20,8 +20,13 @@ interface ToolExecutionCardProps {
   totalTools?: number
   /** Open tool output in sidebar (OpenClaw pattern) */
   onOpenSidebar?: (title: string, content: string) => void
+  /** Approve or deny a call that is waiting for approval */
+  onApprovalResponse?: (approvalId: string, approved: boolean) => void
 }
 
+const APPROVAL_BUTTON_CLASS =
+  "px-2 py-0.5 rounded border text-[11px] font-medium transition-colors focus:outline-none focus-visible:ring-1 focus-visible:ring-ink-300"
+
 // ============================================================================
 // Hooks
 // ============================================================================
@@ -158,6 +163,7 @@ export function ToolExecutionCard({
   staggerIndex = 0,
   totalTools,
   onOpenSidebar,
+  onApprovalResponse,
 }: ToolExecutionCardProps) {
   const [wasRunning, setWasRunning] = useState(tool.status === "running")
   const [showCheckmark, setShowCheckmark] = useState(false)
@@ -179,6 +185,12 @@ export function ToolExecutionCard({
   }, [tool.status, wasRunning])
 
   const staggerDelay = staggerIndex * STAGGER_DELAY
+  const approvalId = tool.status === "running" ? tool.approvalId : undefined
+
+  const respond = (approved: boolean) => (event: React.MouseEvent) => {
+    event.stopPropagation()
+    if (approvalId) onApprovalResponse?.(approvalId, approved)
+  }
 
   // Build click handler: prefer sidebar, fall back to onClick
   const handleClick = useCallback(() => {
@@ -372,6 +384,43 @@ export function ToolExecutionCard({
         )}
       </AnimatePresence>
 
+      {/* Approval prompt for sensitive tools */}
+      <AnimatePresence>
+        {approvalId && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={SMOOTH}
+            className="overflow-hidden"
+          >
+            <div className="px-3 py-2 border-t border-current/10 bg-white/60 flex items-center gap-2 text-xs">
+              <span className="flex-1 text-ink-600">
+                {onApprovalResponse ? "Allow this tool to run?" : "Waiting for approval"}
+              </span>
+              {onApprovalResponse && (
+                <>
+                  <button
+                    type="button"
+                    onClick={respond(false)}
+                    className={`${APPROVAL_BUTTON_CLASS} border-ink-200 text-ink-500 hover:bg-paper-200`}
+                  >
+                    Deny
+                  </button>
+                  <button
+                    type="button"
+                    onClick={respond(true)}
+                    className={`${APPROVAL_BUTTON_CLASS} border-accent-teal text-accent-teal hover:bg-accent-teal/10`}
+                  >
+                    Approve
+                  </button>
+                </>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Result body */}
       <AnimatePresence>
         {tool.status === "completed" && tool.result && (
@@ -143,6 +143,35 @@ export function WrenchIcon({ className }: IconProps) {
   )
 }
 
+export function PlugIcon({ className }: IconProps) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 22v-5" />
+      <path d="M9 8V2" />
+      <path d="M15 8V2" />
+      <path d="M18 8v5a4 4 0 0 1-4 4h-4a4 4 0 0 1-4-4V8z" />
+    </svg>
+  )
+}
+
+export function EditIcon({ className }: IconProps) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M12 20h9" />
+      <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4z" />
+    </svg>
+  )
+}
+
+export function RegenerateIcon({ className }: IconProps) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="23 4 23 10 17 10" />
+      <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+    </svg>
+  )
+}
+
 /** Lookup icon component by name string */
 export const TOOL_ICONS: Record<string, (props: IconProps) => React.ReactNode> = {
   search: SearchIcon,
@@ -151,6 +180,7 @@ export const TOOL_ICONS: Record<string, (props: IconProps) => React.ReactNode> =
   file: FileIcon,
   brain: BrainIcon,
   wrench: WrenchIcon,
+  plug: PlugIcon,
 }
 
 export function ToolIcon({ name, className }: { name: string; className?: string }) {
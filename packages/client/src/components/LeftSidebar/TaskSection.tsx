@@ -74,14 +74,16 @@ const TaskRow = memo(function TaskRow({
           <button
             onClick={() => onAccept(task.id)}
             className="font-mono text-[9px] text-emerald-600 hover:text-emerald-700 px-1"
+            title="Add suggested task"
           >
             Accept
           </button>
           <button
             onClick={() => onDismiss(task.id)}
             className="font-mono text-[9px] text-[#AAAAAA] hover:text-red-500 px-1"
+            title="Reject suggested task"
           >
-            Dismiss
+            Reject
           </button>
         </div>
       ) : (
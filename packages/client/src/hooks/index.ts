@@ -16,6 +16,9 @@ export type {
 export { useChatMemory } from "./useChatMemory"
 export type { UseChatMemoryResult } from "./useChatMemory"
 
+export { useSessionTransfer } from "./useSessionTransfer"
+export type { ImportedSession, UseSessionTransferResult } from "./useSessionTransfer"
+
 export { usePromptSuggestions } from "./usePromptSuggestions"
 export type { UsePromptSuggestionsResult } from "./usePromptSuggestions"
 
@@ -0,0 +1,138 @@
+import { useState, useCallback } from "react"
+import { Either, Schema } from "effect"
+import {
+  SessionExportSchema,
+  type ChatMessage,
+  type SessionExportFormat,
+} from "@bibboy/shared"
+import { getOrCreateUserId } from "./websocket-chat-utils"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Session recreated on the server from an export file */
+export interface ImportedSession {
+  readonly sessionId: string
+  readonly messages: ChatMessage[]
+}
+
+/** Result type for useSessionTransfer hook */
+export interface UseSessionTransferResult {
+  /** Whether an export or import is in flight */
+  readonly isTransferring: boolean
+  /** Download a session as a JSON export or Markdown transcript */
+  readonly exportSession: (sessionId: string, format: SessionExportFormat) => Promise<void>
+  /** Validate a JSON export file and recreate it as a new server session */
+  readonly importSession: (file: File) => Promise<ImportedSession>
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const decodeSessionExport = Schema.decodeUnknownEither(SessionExportSchema)
+
+/**
+ * Type guard for the import endpoint response.
+ */
+function hasImportedSessionId(data: unknown): data is { session: { sessionId: string } } {
+  if (typeof data !== "object" || data === null || !("session" in data)) return false
+  const session = (data as { session: unknown }).session
+  return (
+    typeof session === "object" &&
+    session !== null &&
+    typeof (session as { sessionId?: unknown }).sessionId === "string"
+  )
+}
+
+/**
+ * Save a blob through a temporary download link.
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Hook for exporting the current session and importing saved ones.
+ *
+ * Features:
+ * - JSON exports round-trip through import; Markdown is for reading
+ * - Import files are validated with the shared schema before upload
+ */
+export function useSessionTransfer(): UseSessionTransferResult {
+  const [isTransferring, setIsTransferring] = useState(false)
+
+  const exportSession = useCallback(
+    async (sessionId: string, format: SessionExportFormat): Promise<void> => {
+      setIsTransferring(true)
+      try {
+        const suffix = format === "markdown" ? "export.md" : "export"
+        const response = await fetch(
+          `/api/sessions/${encodeURIComponent(sessionId)}/${suffix}` +
+            `?userId=${encodeURIComponent(getOrCreateUserId())}`
+        )
+        if (!response.ok) {
+          throw new Error(`Export failed (${response.status})`)
+        }
+
+        const extension = format === "markdown" ? "md" : "json"
+        downloadBlob(await response.blob(), `bibboy-${sessionId}.${extension}`)
+      } finally {
+        setIsTransferring(false)
+      }
+    },
+    []
+  )
+
+  const importSession = useCallback(async (file: File): Promise<ImportedSession> => {
+    setIsTransferring(true)
+    try {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(await file.text())
+      } catch {
+        throw new Error("Import file is not valid JSON")
+      }
+
+      const decoded = decodeSessionExport(parsed)
+      if (Either.isLeft(decoded)) {
+        throw new Error("Import file is not a Bibboy session export")
+      }
+
+      const response = await fetch(
+        `/api/sessions/import?userId=${encodeURIComponent(getOrCreateUserId())}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(decoded.right),
+        }
+      )
+      if (!response.ok) {
+        throw new Error(`Import failed (${response.status})`)
+      }
+
+      const data: unknown = await response.json()
+      if (!hasImportedSessionId(data)) {
+        throw new Error("Invalid import response")
+      }
+
+      return { sessionId: data.session.sessionId, messages: [...decoded.right.messages] }
+    } finally {
+      setIsTransferring(false)
+    }
+  }, [])
+
+  return { isTransferring, exportSession, importSession } as const
+}
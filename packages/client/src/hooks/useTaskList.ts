@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from "react"
+import type { TaskSuggestion } from "@bibboy/shared"
 
 // ============================================================================
 // Types
@@ -63,6 +64,18 @@ export function useTaskList() {
     return task.id
   }, [])
 
+  const addSuggestedTasks = useCallback((suggestions: readonly TaskSuggestion[]) => {
+    const createdAt = Date.now()
+    setTasks((prev) => {
+      // Suggestions keep their server ids so a replayed notification is ignored
+      const known = new Set(prev.map((t) => t.id))
+      const added: Task[] = suggestions
+        .filter((s) => !known.has(s.id))
+        .map((s) => ({ id: s.id, text: s.text, status: "pending", source: "agent", createdAt }))
+      return added.length > 0 ? [...added, ...prev] : prev
+    })
+  }, [])
+
   const updateStatus = useCallback((id: string, status: TaskStatus) => {
     setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, status } : t)))
   }, [])
@@ -83,5 +96,14 @@ export function useTaskList() {
     (t) => t.status !== "done" && (t.source === "user" || t.accepted)
   ).length
 
-  return { tasks, addTask, updateStatus, acceptTask, dismissTask, deleteTask, pendingCount }
+  return {
+    tasks,
+    addTask,
+    addSuggestedTasks,
+    updateStatus,
+    acceptTask,
+    dismissTask,
+    deleteTask,
+    pendingCount,
+  }
 }
@@ -1,17 +1,28 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from "react"
 import {
+  appendToConversation,
+  createConversationTree,
+  getActivePath,
+  getMessageBranch,
+  selectConversationBranch,
+  WS_CLOSE_CODES,
   type AgentPose,
   type CanvasCharacterBlueprint,
   type CanvasOp,
   type CharacterState,
   type ChatMessage,
+  type ConversationTree,
+  type MessageBranch,
+  type QueuedMessage,
   type TypingState,
   type SoulState,
   type SoulStage,
+  type TaskSuggestion,
 } from "@bibboy/shared"
 import {
   getDefaultWebSocketUrl,
   generateSessionId,
+  getOrCreateUserId,
   isJsonRecord,
   tryJsonParse,
   calculateReconnectDelay,
@@ -23,6 +34,8 @@ import {
   isJsonRpcErrorResponse,
   isJsonRpcSuccessResponse,
   readResultMessageId,
+  readResultQueueId,
+  readNumber,
   readString,
 } from "./websocket-chat-parsers"
 import {
@@ -48,6 +61,8 @@ export interface UseWebSocketChatOptions {
   readonly onError?: (error: Error) => void
   /** Callback when session is resumed after reconnect */
   readonly onSessionResumed?: (messageCount: number) => void
+  /** Callback when the agent suggests tasks for the task list */
+  readonly onTasksSuggested?: (tasks: TaskSuggestion[]) => void
 }
 
 export interface UseWebSocketChatReturn {
@@ -57,10 +72,31 @@ export interface UseWebSocketChatReturn {
   readonly connect: () => void
   /** Close WebSocket connection */
   readonly disconnect: () => void
-  /** Chat message history */
+  /** Messages on the active branch of the conversation */
   readonly messages: ChatMessage[]
-  /** Send a message to the agent */
-  readonly sendMessage: (text: string, characterState?: CharacterState) => Promise<string>
+  /** Alternatives for messages on the active branch that have siblings */
+  readonly branches: ReadonlyMap<string, MessageBranch>
+  /** Show another branch, continuing to its most recent message */
+  readonly selectBranch: (messageId: string) => Promise<void>
+  /**
+   * Send a message to the agent. Resolves with its message ID, or null when
+   * the server queued it behind the current response.
+   */
+  readonly sendMessage: (text: string, characterState?: CharacterState) => Promise<string | null>
+  /** Messages waiting on the server for the current response to finish */
+  readonly queue: QueuedMessage[]
+  /** Drop a queued message before it is sent to the agent */
+  readonly removeQueuedMessage: (queueId: string) => Promise<void>
+  /** Sockets attached to this session, including this one (other tabs, devices) */
+  readonly connectionCount: number
+  /** Re-run the agent from an edited user message (the original stays as a branch) */
+  readonly editMessage: (
+    messageId: string,
+    text: string,
+    characterState?: CharacterState
+  ) => Promise<string>
+  /** Generate another reply to the last user message (the previous one stays as a branch) */
+  readonly regenerate: (characterState?: CharacterState) => Promise<string>
   /** Cancel the current message generation */
   readonly cancelMessage: () => void
   /** Whether the agent is currently typing/processing */
@@ -71,8 +107,14 @@ export interface UseWebSocketChatReturn {
   readonly streamingContent: string
   /** Active tool executions */
   readonly activeTools: ToolExecution[]
+  /** Approve or deny a tool call that is waiting for approval */
+  readonly respondToToolApproval: (approvalId: string, approved: boolean) => Promise<void>
   /** Clear all messages */
   readonly clearMessages: () => void
+  /** Current server session ID */
+  readonly getSessionId: () => string
+  /** Switch to another server session (e.g. an imported one) and reconnect */
+  readonly switchSession: (sessionId: string, messages: ChatMessage[]) => void
   /** Current message ID being processed */
   readonly activeMessageId: string | null
   /** Whether context compaction is in progress */
@@ -93,6 +135,38 @@ export interface UseWebSocketChatReturn {
   readonly soulStage: SoulStage | null
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const EMPTY_CONVERSATION: ConversationTree = { messages: [], activeLeafId: null }
+
+/**
+ * Rename a message in the tree, including references to it as a parent.
+ */
+function renameMessage(tree: ConversationTree, fromId: string, toId: string): ConversationTree {
+  return {
+    messages: tree.messages.map((m) => ({
+      ...m,
+      id: m.id === fromId ? toId : m.id,
+      parentId: m.parentId === fromId ? toId : m.parentId,
+    })),
+    activeLeafId: tree.activeLeafId === fromId ? toId : tree.activeLeafId,
+  }
+}
+
+/**
+ * Remove a leaf message from the tree, moving the active leaf to its parent.
+ */
+function removeLeafMessage(tree: ConversationTree, id: string): ConversationTree {
+  const message = tree.messages.find((m) => m.id === id)
+  if (!message) return tree
+  return {
+    messages: tree.messages.filter((m) => m.id !== id),
+    activeLeafId: tree.activeLeafId === id ? (message.parentId ?? null) : tree.activeLeafId,
+  }
+}
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
@@ -108,6 +182,7 @@ export function useWebSocketChat(
     onDisconnect,
     onError,
     onSessionResumed,
+    onTasksSuggested,
   } = options
 
   // Stable refs for callbacks to avoid re-creating handleMessage/connect on every render
@@ -115,15 +190,17 @@ export function useWebSocketChat(
   const onDisconnectRef = useRef(onDisconnect)
   const onErrorRef = useRef(onError)
   const onSessionResumedRef = useRef(onSessionResumed)
+  const onTasksSuggestedRef = useRef(onTasksSuggested)
   useEffect(() => { onConnectRef.current = onConnect }, [onConnect])
   useEffect(() => { onDisconnectRef.current = onDisconnect }, [onDisconnect])
   useEffect(() => { onErrorRef.current = onError }, [onError])
   useEffect(() => { onSessionResumedRef.current = onSessionResumed }, [onSessionResumed])
+  useEffect(() => { onTasksSuggestedRef.current = onTasksSuggested }, [onTasksSuggested])
 
   // State
   const [connectionState, setConnectionState] =
     useState<ConnectionState>("disconnected")
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [conversation, setConversation] = useState<ConversationTree>(EMPTY_CONVERSATION)
   const [isTyping, setIsTyping] = useState(false)
   const [typingState, setTypingState] = useState<TypingState | null>(null)
   const [streamingContent, setStreamingContent] = useState("")
@@ -136,6 +213,8 @@ export function useWebSocketChat(
   const [lastCanvasOp, setLastCanvasOp] = useState<CanvasOp | null>(null)
   const [soulState, setSoulState] = useState<SoulState | null>(null)
   const [soulStage, setSoulStage] = useState<SoulStage | null>(null)
+  const [queue, setQueue] = useState<QueuedMessage[]>([])
+  const [connectionCount, setConnectionCount] = useState(0)
 
   // Refs
   const wsRef = useRef<WebSocket | null>(null)
@@ -152,17 +231,39 @@ export function useWebSocketChat(
   >(new Map())
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const reconnectAttemptsRef = useRef(0)
+  // Sequence number of the last response event seen; sent on reconnect so the
+  // server replays what was missed. Null until known for a switched-to session.
+  const lastSequenceRef = useRef<number | null>(0)
   const isUnmountingRef = useRef(false) // Track intentional cleanup vs connection loss
   const toolArgsRef = useRef<Map<string, string>>(new Map())
   const toolItemToCallIdRef = useRef<Map<string, string>>(new Map())
   // Ref to hold latest streamingContent for use in handleMessage
   const streamingContentRef = useRef("")
+  // Ref to hold the latest conversation for branch changes (edit/regenerate/select)
+  const conversationRef = useRef<ConversationTree>(EMPTY_CONVERSATION)
   
-  // Keep ref in sync with state
+  // Keep refs in sync with state
   useEffect(() => {
     streamingContentRef.current = streamingContent
   }, [streamingContent])
 
+  useEffect(() => {
+    conversationRef.current = conversation
+  }, [conversation])
+
+  const messages = useMemo(() => getActivePath(conversation), [conversation])
+
+  const branches = useMemo(() => {
+    const result = new Map<string, MessageBranch>()
+    for (const message of messages) {
+      const branch = getMessageBranch(conversation, message.id)
+      if (branch && branch.count > 1) {
+        result.set(message.id, branch)
+      }
+    }
+    return result
+  }, [conversation, messages])
+
   // Get or create session ID
   const getSessionId = useCallback(() => {
     if (!sessionIdRef.current) {
@@ -208,7 +309,7 @@ export function useWebSocketChat(
         setStreamingContent,
         setActiveTools,
         setActiveMessageId,
-        setMessages,
+        setConversation,
       }),
     [startThinking, stopTypingAndResetStreamingState]
   )
@@ -216,8 +317,12 @@ export function useWebSocketChat(
   const notificationHandlers = useMemo(
     () =>
       createNotificationHandlers({
+        startThinking,
+        stopTypingAndResetStreamingState,
         reconnectAttemptsRef,
+        lastSequenceRef,
         onSessionResumedRef,
+        onTasksSuggestedRef,
         setIsCompacting,
         setPendingPoseChange,
         setCanvasVersion,
@@ -225,8 +330,16 @@ export function useWebSocketChat(
         setLastCanvasOp,
         setSoulState,
         setSoulStage,
+        setQueue,
+        setConnectionCount,
+        setConversation,
+        setIsTyping,
+        setTypingState,
+        setStreamingContent,
+        setActiveTools,
+        setActiveMessageId,
       }),
-    []
+    [startThinking, stopTypingAndResetStreamingState]
   )
 
   // Handle incoming messages
@@ -269,6 +382,11 @@ export function useWebSocketChat(
       // Handle Responses-style events
       const eventType = readString(data.type)
       if (eventType) {
+        const sequence = readNumber(data.sequence_number)
+        if (sequence !== null) {
+          lastSequenceRef.current = sequence
+        }
+
         const handler = responseEventHandlers[eventType]
         if (handler) {
           handler(data)
@@ -316,7 +434,11 @@ export function useWebSocketChat(
 
     const baseUrl = url ?? getDefaultWebSocketUrl()
     const sessionId = getSessionId()
-    const wsUrl = `${baseUrl}?sessionId=${sessionId}`
+    const userId = getOrCreateUserId()
+    const lastSequence = lastSequenceRef.current
+    const wsUrl =
+      `${baseUrl}?sessionId=${sessionId}&userId=${encodeURIComponent(userId)}` +
+      (lastSequence !== null ? `&lastSeq=${lastSequence}` : "")
 
     setConnectionState("connecting")
 
@@ -341,15 +463,19 @@ export function useWebSocketChat(
       handleMessage(event)
     }
 
-    ws.onclose = (_event) => {
+    ws.onclose = (event) => {
       // Ignore if this isn't the current connection or if unmounting
       if (connectionIdRef.current !== thisConnectionId || isUnmountingRef.current) {
         return
       }
 
       setConnectionState("disconnected")
+      setConnectionCount(0)
       onDisconnectRef.current?.()
 
+      // The session is gone; reconnecting would start an empty one under its ID
+      if (event.code === WS_CLOSE_CODES.SESSION_DELETED) return
+
       // Auto-reconnect with exponential backoff (within 30s grace period)
       if (reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
         setConnectionState("reconnecting")
@@ -392,9 +518,9 @@ export function useWebSocketChat(
     setConnectionState("disconnected")
   }, [])
 
-  // Send a chat message
-  const sendMessage = useCallback(
-    (text: string, characterState?: CharacterState): Promise<string> => {
+  // Send a JSON-RPC request; resolves with its result
+  const sendRequest = useCallback(
+    (method: string, params: Record<string, unknown>): Promise<unknown> => {
       return new Promise((resolve, reject) => {
         if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
           reject(new Error("WebSocket not connected"))
@@ -403,48 +529,210 @@ export function useWebSocketChat(
 
         const requestId = `req_${Date.now()}`
 
-        // Add user message optimistically and show thinking immediately
-        const userMessageId = `user_${Date.now()}`
-        setMessages((prev) => [
-          ...prev,
-          {
+        // Store pending request handler
+        pendingRequestsRef.current.set(requestId, { resolve, reject })
+
+        // Send JSON-RPC request
+        wsRef.current.send(
+          JSON.stringify({ jsonrpc: "2.0" as const, id: requestId, method, params })
+        )
+      })
+    },
+    []
+  )
+
+  // Send a chat request with the agent and character state attached
+  const requestChat = useCallback(
+    (
+      method: "chat.send" | "chat.edit" | "chat.regenerate",
+      params: Record<string, unknown>,
+      characterState?: CharacterState
+    ): Promise<unknown> =>
+      sendRequest(method, {
+        ...params,
+        ...(agentId && { agentId }),
+        ...(characterState && { characterState }),
+      }),
+    [agentId, sendRequest]
+  )
+
+  // Send a request that starts a response; resolves with its message ID
+  const sendChatRequest = useCallback(
+    async (
+      method: "chat.edit" | "chat.regenerate",
+      params: Record<string, unknown>,
+      characterState?: CharacterState
+    ): Promise<string> => {
+      const result = await requestChat(method, params, characterState)
+
+      const messageId = readResultMessageId(result)
+      if (messageId === null) {
+        throw new Error(`Invalid ${method} response: missing messageId`)
+      }
+      return messageId
+    },
+    [requestChat]
+  )
+
+  // Use the server's ID for an optimistic user message so it can be edited later
+  const confirmUserMessage = useCallback((optimisticId: string, messageId: string) => {
+    setConversation((prev) => renameMessage(prev, optimisticId, `user_${messageId}`))
+  }, [])
+
+  // Send a chat message
+  const sendMessage = useCallback(
+    async (text: string, characterState?: CharacterState): Promise<string | null> => {
+      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+        throw new Error("WebSocket not connected")
+      }
+
+      // Add user message optimistically and show thinking immediately. While a
+      // response is in progress the server queues the message instead, and it
+      // is added when chat.queue_updated reports that it started.
+      const userMessageId = isTyping ? null : `user_${Date.now()}`
+      if (userMessageId) {
+        setConversation((prev) =>
+          appendToConversation(prev, {
             id: userMessageId,
             role: "user" as const,
             content: text,
             timestamp: Date.now(),
-          },
-        ])
+          })
+        )
         startThinking()
+      }
 
-        // Store pending request handler
-        pendingRequestsRef.current.set(requestId, {
-          resolve: (result) => {
-            const messageId = readResultMessageId(result)
-            if (messageId !== null) {
-              resolve(messageId)
-              return
-            }
-            reject(new Error("Invalid chat.send response: missing messageId"))
-          },
-          reject,
-        })
-
-        // Send JSON-RPC request
-        const request = {
-          jsonrpc: "2.0" as const,
-          id: requestId,
-          method: "chat.send" as const,
-          params: {
-            message: text,
-            ...(agentId && { agentId }),
-            ...(characterState && { characterState }),
-          },
+      const result = await requestChat("chat.send", { message: text }, characterState)
+
+      const messageId = readResultMessageId(result)
+      if (messageId !== null) {
+        if (userMessageId) {
+          confirmUserMessage(userMessageId, messageId)
+        } else {
+          setConversation((prev) =>
+            appendToConversation(prev, {
+              id: `user_${messageId}`,
+              role: "user",
+              content: text,
+              timestamp: Date.now(),
+            })
+          )
         }
+        return messageId
+      }
 
-        wsRef.current.send(JSON.stringify(request))
-      })
+      if (readResultQueueId(result) === null) {
+        throw new Error("Invalid chat.send response: missing messageId")
+      }
+      if (userMessageId) {
+        setConversation((prev) => removeLeafMessage(prev, userMessageId))
+      }
+      return null
+    },
+    [isTyping, requestChat, confirmUserMessage, startThinking]
+  )
+
+  // Drop a queued message; the server confirms with chat.queue_updated
+  const removeQueuedMessage = useCallback(
+    async (queueId: string): Promise<void> => {
+      await sendRequest("chat.queue_remove", { queueId })
+    },
+    [sendRequest]
+  )
+
+  // Answer an approval request; the card leaves its waiting state right away
+  // and the tool's result arrives with the response events
+  const respondToToolApproval = useCallback(
+    async (approvalId: string, approved: boolean): Promise<void> => {
+      setActiveTools((prev) =>
+        prev.map((tool) =>
+          tool.approvalId === approvalId ? { ...tool, approvalId: undefined } : tool
+        )
+      )
+      await sendRequest(approved ? "chat.tool_approve" : "chat.tool_deny", { approvalId })
+    },
+    [sendRequest]
+  )
+
+  // Switch branches optimistically and restore the previous branch if the server rejects
+  const branchAndSend = useCallback(
+    async (
+      branched: ConversationTree,
+      request: () => Promise<string>
+    ): Promise<string> => {
+      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+        throw new Error("WebSocket not connected")
+      }
+
+      const previous = conversationRef.current
+      setConversation(branched)
+      startThinking()
+
+      try {
+        return await request()
+      } catch (error) {
+        setConversation(previous)
+        stopTypingAndResetStreamingState()
+        throw error
+      }
+    },
+    [startThinking, stopTypingAndResetStreamingState]
+  )
+
+  // Edit a user message; the edit becomes a sibling branch of the original
+  const editMessage = useCallback(
+    async (messageId: string, text: string, characterState?: CharacterState): Promise<string> => {
+      const current = conversationRef.current
+      const target = current.messages.find((m) => m.id === messageId && m.role === "user")
+      if (!target) {
+        throw new Error("Message not found")
+      }
+
+      const editedId = `user_${Date.now()}`
+      const branched = appendToConversation(
+        { ...current, activeLeafId: target.parentId ?? null },
+        { id: editedId, role: "user", content: text, timestamp: Date.now() }
+      )
+
+      const responseId = await branchAndSend(branched, () =>
+        sendChatRequest("chat.edit", { messageId, message: text }, characterState)
+      )
+      confirmUserMessage(editedId, responseId)
+      return responseId
+    },
+    [branchAndSend, sendChatRequest, confirmUserMessage]
+  )
+
+  // Ask for another reply to the last user message; the new reply becomes a sibling branch
+  const regenerate = useCallback(
+    async (characterState?: CharacterState): Promise<string> => {
+      const current = conversationRef.current
+      const userMessage = getActivePath(current).findLast((m) => m.role === "user")
+      if (!userMessage) {
+        throw new Error("Nothing to regenerate")
+      }
+
+      return branchAndSend({ ...current, activeLeafId: userMessage.id }, () =>
+        sendChatRequest("chat.regenerate", {}, characterState)
+      )
+    },
+    [branchAndSend, sendChatRequest]
+  )
+
+  // Show another branch; the server continues later messages from it
+  const selectBranch = useCallback(
+    async (messageId: string): Promise<void> => {
+      const previous = conversationRef.current
+      setConversation(selectConversationBranch(previous, messageId))
+
+      try {
+        await sendRequest("chat.select_branch", { messageId })
+      } catch (error) {
+        setConversation(previous)
+        throw error
+      }
     },
-    [agentId, startThinking]
+    [sendRequest]
   )
 
   // Cancel current message generation
@@ -469,7 +757,7 @@ export function useWebSocketChat(
 
   // Clear all messages
   const clearMessages = useCallback(() => {
-    setMessages([])
+    setConversation(EMPTY_CONVERSATION)
     resetStreamingState()
     setCanvasBlueprint(null)
     setCanvasVersion(null)
@@ -478,6 +766,20 @@ export function useWebSocketChat(
     setSoulStage(null)
   }, [resetStreamingState])
 
+  // Switch to another session; the server resumes it with canvas and soul snapshots
+  const switchSession = useCallback(
+    (sessionId: string, sessionMessages: ChatMessage[]) => {
+      sessionIdRef.current = sessionId
+      lastSequenceRef.current = null
+      clearMessages()
+      setQueue([])
+      setConversation(createConversationTree(sessionMessages))
+      reconnectAttemptsRef.current = 0
+      connect()
+    },
+    [clearMessages, connect]
+  )
+
   // Auto-connect on mount if enabled
   useEffect(() => {
     // Reset unmounting flag on mount
@@ -526,13 +828,23 @@ export function useWebSocketChat(
       connect,
       disconnect,
       messages,
+      branches,
+      selectBranch,
       sendMessage,
+      queue,
+      removeQueuedMessage,
+      connectionCount,
+      editMessage,
+      regenerate,
       cancelMessage,
       isTyping,
       typingState,
       streamingContent,
       activeTools,
+      respondToToolApproval,
       clearMessages,
+      getSessionId,
+      switchSession,
       activeMessageId,
       isCompacting,
       pendingPoseChange,
@@ -548,13 +860,23 @@ export function useWebSocketChat(
       connect,
       disconnect,
       messages,
+      branches,
+      selectBranch,
       sendMessage,
+      queue,
+      removeQueuedMessage,
+      connectionCount,
+      editMessage,
+      regenerate,
       cancelMessage,
       isTyping,
       typingState,
       streamingContent,
       activeTools,
+      respondToToolApproval,
       clearMessages,
+      getSessionId,
+      switchSession,
       activeMessageId,
       isCompacting,
       pendingPoseChange,
@@ -1,16 +1,20 @@
 import type {
-  ChatMessage,
+  ConversationTree,
   TypingState,
   AgentPose,
   CanvasCharacterBlueprint,
   CanvasOp,
+  QueuedMessage,
   SoulStage,
   SoulState,
+  TaskSuggestion,
 } from "@bibboy/shared"
-import { isAgentPose } from "@bibboy/shared"
+import { appendToConversation, createConversationTree, isAgentPose } from "@bibboy/shared"
 import type { Dispatch, MutableRefObject, SetStateAction } from "react"
 import type { ToolExecution, JsonRecord } from "./websocket-chat-utils"
 import {
+  addRunningTool,
+  markToolAwaitingApproval,
   parseToolResult,
   safeJsonParseObject,
   isJsonRecord,
@@ -22,6 +26,11 @@ import {
   isSoulState,
   parseCanvasPatch,
   parseCanvasSnapshot,
+  parseQueuedMessages,
+  parseQueueStarted,
+  parseSessionSnapshot,
+  parseTaskSuggestions,
+  parseToolApprovalRequests,
   readNumber,
   readString,
 } from "./websocket-chat-parsers"
@@ -42,12 +51,16 @@ interface ResponseEventHandlerDeps {
   setStreamingContent: Dispatch<SetStateAction<string>>
   setActiveTools: Dispatch<SetStateAction<ToolExecution[]>>
   setActiveMessageId: Dispatch<SetStateAction<string | null>>
-  setMessages: Dispatch<SetStateAction<ChatMessage[]>>
+  setConversation: Dispatch<SetStateAction<ConversationTree>>
 }
 
 interface NotificationHandlerDeps {
+  startThinking: () => void
+  stopTypingAndResetStreamingState: () => void
   reconnectAttemptsRef: MutableRefObject<number>
+  lastSequenceRef: MutableRefObject<number | null>
   onSessionResumedRef: MutableRefObject<((messageCount: number) => void) | undefined>
+  onTasksSuggestedRef: MutableRefObject<((tasks: TaskSuggestion[]) => void) | undefined>
   setIsCompacting: Dispatch<SetStateAction<boolean>>
   setPendingPoseChange: Dispatch<SetStateAction<AgentPose | null>>
   setCanvasVersion: Dispatch<SetStateAction<number | null>>
@@ -55,6 +68,14 @@ interface NotificationHandlerDeps {
   setLastCanvasOp: Dispatch<SetStateAction<CanvasOp | null>>
   setSoulState: Dispatch<SetStateAction<SoulState | null>>
   setSoulStage: Dispatch<SetStateAction<SoulStage | null>>
+  setQueue: Dispatch<SetStateAction<QueuedMessage[]>>
+  setConnectionCount: Dispatch<SetStateAction<number>>
+  setConversation: Dispatch<SetStateAction<ConversationTree>>
+  setIsTyping: Dispatch<SetStateAction<boolean>>
+  setTypingState: Dispatch<SetStateAction<TypingState | null>>
+  setStreamingContent: Dispatch<SetStateAction<string>>
+  setActiveTools: Dispatch<SetStateAction<ToolExecution[]>>
+  setActiveMessageId: Dispatch<SetStateAction<string | null>>
 }
 
 export function createResponseEventHandlers(
@@ -117,17 +138,16 @@ export function createResponseEventHandlers(
         deps.toolArgsRef.current.set(itemId, rawArguments)
 
         deps.setTypingState("tool_executing")
-        deps.setActiveTools((prev) => [
-          ...prev,
-          {
+        deps.setActiveTools((prev) =>
+          addRunningTool(prev, {
             id: callId,
             name: toolName,
             arguments: safeJsonParseObject(rawArguments, {}),
             status: "running",
             rawArguments,
             startedAt: Date.now(),
-          },
-        ])
+          })
+        )
         return
       }
 
@@ -146,6 +166,7 @@ export function createResponseEventHandlers(
                   status: result.error ? "error" : "completed",
                   result,
                   error: result.error,
+                  approvalId: undefined,
                 }
               : t
           )
@@ -209,15 +230,15 @@ export function createResponseEventHandlers(
       )
 
       if (completedId) {
-        deps.setMessages((prev) => [
-          ...prev,
-          {
-            id: completedId,
+        // Same ID the server stores the reply under, so branches can be selected by ID
+        deps.setConversation((prev) =>
+          appendToConversation(prev, {
+            id: `${completedId}_response`,
             role: "assistant",
             content: messageContent,
             timestamp: Date.now(),
-          },
-        ])
+          })
+        )
       }
 
       deps.stopTypingAndResetStreamingState()
@@ -243,12 +264,67 @@ export function createNotificationHandlers(
 ): NotificationHandlers {
   return {
     "session.resumed": (params) => {
+      deps.setQueue(parseQueuedMessages(params.queue))
+      const approvals = parseToolApprovalRequests(params.pendingApprovals)
+      if (approvals.length > 0) {
+        deps.setActiveTools((prev) => approvals.reduce(markToolAwaitingApproval, prev))
+      }
+      // Start tracking a session we switched to from its latest event
+      const lastSequence = readNumber(params.lastSequence)
+      if (deps.lastSequenceRef.current === null && lastSequence !== null) {
+        deps.lastSequenceRef.current = lastSequence
+      }
       const messageCount = readNumber(params.messageCount)
       if (messageCount !== null) {
         deps.reconnectAttemptsRef.current = 0
         deps.onSessionResumedRef.current?.(messageCount)
       }
     },
+    // Missed events were no longer buffered: take over the server's state
+    "session.snapshot": (params) => {
+      const snapshot = parseSessionSnapshot(params)
+      if (!snapshot) return
+
+      deps.lastSequenceRef.current = snapshot.lastSequence
+      deps.setConversation(createConversationTree(snapshot.messages, snapshot.activeLeafId))
+      deps.stopTypingAndResetStreamingState()
+      if (snapshot.inProgress) {
+        deps.setActiveMessageId(snapshot.inProgress.responseId)
+        deps.setStreamingContent(snapshot.inProgress.text)
+        deps.setIsTyping(true)
+        deps.setTypingState("streaming")
+      }
+    },
+    "session.presence": (params) => {
+      const connectionCount = readNumber(params.connectionCount)
+      if (connectionCount !== null) {
+        deps.setConnectionCount(connectionCount)
+      }
+    },
+    "chat.queue_updated": (params) => {
+      deps.setQueue(parseQueuedMessages(params.queue))
+
+      // A queued message became the current turn: show it as sent
+      const started = parseQueueStarted(params.started)
+      if (started) {
+        deps.setConversation((prev) =>
+          appendToConversation(prev, {
+            id: `user_${started.messageId}`,
+            role: "user",
+            content: started.message,
+            timestamp: Date.now(),
+          })
+        )
+        deps.startThinking()
+      }
+    },
+    "chat.tool_approval_request": (params) => {
+      const [request] = parseToolApprovalRequests([params])
+      if (request) {
+        deps.setTypingState("tool_executing")
+        deps.setActiveTools((prev) => markToolAwaitingApproval(prev, request))
+      }
+    },
     "chat.compacting": (params) => {
       const phase = readString(params.phase)
       if (phase === "start" || phase === "done") {
@@ -301,5 +377,11 @@ export function createNotificationHandlers(
         )
       }
     },
+    "tasks.suggested": (params) => {
+      const tasks = parseTaskSuggestions(params)
+      if (tasks.length > 0) {
+        deps.onTasksSuggestedRef.current?.(tasks)
+      }
+    },
   }
 }
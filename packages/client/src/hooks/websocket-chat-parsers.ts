@@ -1,12 +1,19 @@
+import { Schema } from "effect"
 import {
+  ChatMessageSchema,
   PERSONALITY_TRAITS,
+  ToolApprovalRequestSchema,
   SOUL_STAGES,
   type CanvasCharacterBlueprint,
+  type ChatMessage,
   type CanvasOp,
   type JsonRpcErrorResponse,
   type JsonRpcSuccessResponse,
+  type QueuedMessage,
   type SoulStage,
   type SoulState,
+  type TaskSuggestion,
+  type ToolApprovalRequest,
 } from "@bibboy/shared"
 import {
   isCanvasBlueprint,
@@ -47,6 +54,11 @@ export function readResultMessageId(value: unknown): string | null {
   return readString(value.messageId)
 }
 
+export function readResultQueueId(value: unknown): string | null {
+  if (!isJsonRecord(value) || !isJsonRecord(value.queued)) return null
+  return readString(value.queued.id)
+}
+
 export function isSoulState(value: unknown): value is SoulState {
   if (!isJsonRecord(value)) return false
   if (!isSoulStage(value.stage)) return false
@@ -128,3 +140,65 @@ export function parseCanvasPatch(
     op: isCanvasOp(params.op) ? params.op : null,
   }
 }
+
+export function parseTaskSuggestions(params: JsonRecord): TaskSuggestion[] {
+  if (!Array.isArray(params.tasks)) return []
+  return params.tasks.flatMap((task: unknown) => {
+    if (!isJsonRecord(task)) return []
+    const id = readString(task.id)
+    const text = readString(task.text)?.trim()
+    return id && text ? [{ id, text }] : []
+  })
+}
+
+export function parseQueuedMessages(value: unknown): QueuedMessage[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item: unknown) => {
+    if (!isJsonRecord(item)) return []
+    const id = readString(item.id)
+    const message = readString(item.message)
+    const createdAt = readNumber(item.createdAt)
+    return id && message !== null && createdAt !== null ? [{ id, message, createdAt }] : []
+  })
+}
+
+export function parseQueueStarted(
+  value: unknown
+): { queueId: string; messageId: string; message: string } | null {
+  if (!isJsonRecord(value)) return null
+  const queueId = readString(value.queueId)
+  const messageId = readString(value.messageId)
+  const message = readString(value.message)
+  return queueId && messageId && message !== null ? { queueId, messageId, message } : null
+}
+
+const isChatMessage = Schema.is(ChatMessageSchema)
+
+export interface SessionSnapshot {
+  messages: ChatMessage[]
+  activeLeafId: string | null
+  inProgress: { responseId: string; text: string } | null
+  lastSequence: number
+}
+
+export function parseSessionSnapshot(params: JsonRecord): SessionSnapshot | null {
+  const lastSequence = readNumber(params.lastSequence)
+  if (!Array.isArray(params.messages) || lastSequence === null) return null
+
+  const inProgress = isJsonRecord(params.inProgress) ? params.inProgress : null
+  const responseId = inProgress ? readString(inProgress.responseId) : null
+  const text = inProgress ? readString(inProgress.text) : null
+
+  return {
+    messages: params.messages.filter(isChatMessage),
+    activeLeafId: readString(params.activeLeafId),
+    inProgress: responseId && text !== null ? { responseId, text } : null,
+    lastSequence,
+  }
+}
+
+const isToolApprovalRequest = Schema.is(ToolApprovalRequestSchema)
+
+export function parseToolApprovalRequests(value: unknown): ToolApprovalRequest[] {
+  return Array.isArray(value) ? value.filter(isToolApprovalRequest) : []
+}
@@ -1,6 +1,7 @@
 import type {
   CanvasCharacterBlueprint,
   CanvasOp,
+  ToolApprovalRequest,
   ToolExecutionResult,
 } from "@bibboy/shared"
 
@@ -23,6 +24,8 @@ export interface ToolExecution {
   readonly error?: string
   readonly rawArguments?: string
   readonly startedAt?: number
+  /** Set while the call waits for the user to approve or deny it */
+  readonly approvalId?: string
 }
 
 export type JsonRecord = Record<string, unknown>
@@ -43,6 +46,9 @@ const MAX_RECONNECT_DELAY_MS = 5000
 /** Reconnection delay multiplier for exponential backoff */
 const RECONNECT_BACKOFF_MULTIPLIER = 1.2
 
+/** localStorage key for the stable user identity */
+const USER_ID_STORAGE_KEY = "bibboy-user-id"
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -59,6 +65,23 @@ export function generateSessionId(): string {
   return `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
 }
 
+/**
+ * Get the stable user identity for this browser, creating it on first use.
+ * The server keys durable companion state (soul evolution) by this id.
+ */
+export function getOrCreateUserId(): string {
+  try {
+    const existing = localStorage.getItem(USER_ID_STORAGE_KEY)
+    if (existing) return existing
+    const userId = `user_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+    localStorage.setItem(USER_ID_STORAGE_KEY, userId)
+    return userId
+  } catch {
+    // Storage unavailable (private mode) - fall back to a per-page identity
+    return `user_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+  }
+}
+
 export function isJsonRecord(value: unknown): value is JsonRecord {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value)
 }
@@ -179,3 +202,43 @@ export function calculateReconnectDelay(attempt: number): number {
     MAX_RECONNECT_DELAY_MS
   )
 }
+
+/**
+ * Add a started tool call. Calls that need approval only start once it was
+ * given, so an entry added by the approval request is replaced in place and
+ * leaves its waiting state.
+ */
+export function addRunningTool(
+  tools: readonly ToolExecution[],
+  tool: ToolExecution
+): ToolExecution[] {
+  if (!tools.some((t) => t.id === tool.id)) return [...tools, tool]
+  return tools.map((t) => (t.id === tool.id ? tool : t))
+}
+
+/**
+ * Mark a tool call as waiting for approval, adding it when its start event
+ * has not been seen (e.g. after a reload).
+ */
+export function markToolAwaitingApproval(
+  tools: readonly ToolExecution[],
+  request: ToolApprovalRequest
+): ToolExecution[] {
+  if (tools.some((tool) => tool.id === request.toolCallId)) {
+    return tools.map((tool) =>
+      tool.id === request.toolCallId ? { ...tool, approvalId: request.approvalId } : tool
+    )
+  }
+  return [
+    ...tools,
+    {
+      id: request.toolCallId,
+      name: request.toolName,
+      arguments: request.arguments,
+      status: "running",
+      rawArguments: JSON.stringify(request.arguments),
+      startedAt: Date.now(),
+      approvalId: request.approvalId,
+    },
+  ]
+}
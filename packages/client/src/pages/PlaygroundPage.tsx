@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect, useMemo, memo, lazy, Suspense } from "react"
-import type { ChatMessage as ChatMessageType } from "@bibboy/shared"
+import type { ChatMessage as ChatMessageType, SessionExportFormat } from "@bibboy/shared"
 import { ChatThread, ChatInput, ToolOutputSidebar } from "@/components/Chat"
 import type { SidebarContent, ChatQueueItem } from "@/components/Chat"
 import { useChatMemory } from "@/hooks/useChatMemory"
@@ -8,6 +8,7 @@ import { useWebSocketChat, type ToolExecution } from "@/hooks/useWebSocketChat"
 import { usePromptSuggestions } from "@/hooks/usePromptSuggestions"
 import { useActivityLog } from "@/hooks/useActivityLog"
 import { useTaskList } from "@/hooks/useTaskList"
+import { useSessionTransfer } from "@/hooks/useSessionTransfer"
 import { useLayoutNav } from "@/components/MainLayout"
 import type { LeftSidebarData } from "@/components/LeftSidebar"
 import { PrefetchLink } from "@/components/PrefetchLink"
@@ -45,14 +46,24 @@ interface PlaygroundNavProps {
   readonly onNewChat: () => void
   readonly connectionState: string
   readonly onReconnect: () => void
+  /** Session export/import, only available for server-side (WebSocket) sessions */
+  readonly onExport?: (format: SessionExportFormat) => void
+  readonly onImport?: (file: File) => void
 }
 
+const NAV_BUTTON_CLASS =
+  "font-mono text-[11px] text-[#999999] hover:text-[#0066CC] uppercase tracking-[0.1em] transition-colors"
+
 const PlaygroundNav = memo(function PlaygroundNav({
   hasMessages,
   onNewChat,
   connectionState,
   onReconnect,
+  onExport,
+  onImport,
 }: PlaygroundNavProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
   return (
     <div className="flex items-center justify-between">
       <div className="flex items-center gap-4">
@@ -79,11 +90,36 @@ const PlaygroundNav = memo(function PlaygroundNav({
             )}
           </span>
         )}
+        {onImport && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                event.target.value = ""
+                if (file) onImport(file)
+              }}
+            />
+            <button onClick={() => fileInputRef.current?.click()} className={NAV_BUTTON_CLASS}>
+              Import
+            </button>
+          </>
+        )}
+        {hasMessages && onExport && (
+          <>
+            <button onClick={() => onExport("markdown")} className={NAV_BUTTON_CLASS}>
+              Export MD
+            </button>
+            <button onClick={() => onExport("json")} className={NAV_BUTTON_CLASS}>
+              Export JSON
+            </button>
+          </>
+        )}
         {hasMessages && (
-          <button
-            onClick={onNewChat}
-            className="font-mono text-[11px] text-[#999999] hover:text-[#0066CC] uppercase tracking-[0.1em] transition-colors"
-          >
+          <button onClick={onNewChat} className={NAV_BUTTON_CLASS}>
             New Chat
           </button>
         )}
@@ -157,7 +193,8 @@ export function PlaygroundPage() {
   const [sidebarContent, setSidebarContent] = useState<SidebarContent | null>(null)
   const [splitRatio, setSplitRatio] = useState(0.6)
 
-  // Message queue for messages sent while agent is busy
+  // Message queue for messages sent while agent is busy (HTTP mode; the
+  // WebSocket server keeps its own queue per session)
   const [chatQueue, setChatQueue] = useState<ChatQueueItem[]>([])
 
   const handleOpenSidebar = useCallback((title: string, content: string) => {
@@ -168,10 +205,6 @@ export function PlaygroundPage() {
     setSidebarContent(null)
   }, [])
 
-  const handleQueueRemove = useCallback((id: string) => {
-    setChatQueue((prev) => prev.filter((item) => item.id !== id))
-  }, [])
-
   const {
     messageToolsMap,
     setMessageToolsMap,
@@ -190,12 +223,15 @@ export function PlaygroundPage() {
   // WebSocket Chat
   // ------------------------------------------------------------------
 
+  const taskList = useTaskList()
+
   const wsChat = useWebSocketChat({
     autoConnect: USE_WEBSOCKET_CHAT,
     onError: (err) => setError(err.message),
     onSessionResumed: (count) => {
       console.log(`Session resumed with ${count} messages`)
     },
+    onTasksSuggested: taskList.addSuggestedTasks,
   })
 
   // Keep ref in sync so we can snapshot before hook clears them
@@ -257,10 +293,56 @@ export function PlaygroundPage() {
     ? wsChat.activeTools
     : httpChat.activeTools
 
+  const queue = useMemo<ChatQueueItem[]>(
+    () =>
+      USE_WEBSOCKET_CHAT
+        ? wsChat.queue.map((item) => ({
+            id: item.id,
+            text: item.message,
+            createdAt: item.createdAt,
+          }))
+        : chatQueue,
+    [wsChat.queue, chatQueue],
+  )
+
+  const handleQueueRemove = useCallback(
+    (id: string) => {
+      if (USE_WEBSOCKET_CHAT) {
+        wsChat.removeQueuedMessage(id).catch((err: unknown) => {
+          setError(err instanceof Error ? err.message : "Failed to remove queued message")
+        })
+        return
+      }
+      setChatQueue((prev) => prev.filter((item) => item.id !== id))
+    },
+    [wsChat],
+  )
+
+  const handleToolApproval = useCallback(
+    (approvalId: string, approved: boolean) => {
+      wsChat.respondToToolApproval(approvalId, approved).catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Failed to answer tool approval")
+      })
+    },
+    [wsChat],
+  )
+
   const sendMessage = useCallback(
     async (content: string) => {
       setError(null)
 
+      // The server queues messages sent while the agent is busy
+      if (USE_WEBSOCKET_CHAT) {
+        try {
+          await wsChat.sendMessage(content)
+        } catch (err) {
+          setError(
+            err instanceof Error ? err.message : "Failed to send message",
+          )
+        }
+        return
+      }
+
       // Queue if agent is busy (OpenClaw pattern)
       if (isStreaming) {
         setChatQueue((prev) => [
@@ -274,27 +356,17 @@ export function PlaygroundPage() {
         return
       }
 
-      if (USE_WEBSOCKET_CHAT) {
-        try {
-          await wsChat.sendMessage(content)
-        } catch (err) {
-          setError(
-            err instanceof Error ? err.message : "Failed to send message",
-          )
-        }
-      } else {
-        const userMessage: ChatMessageType = {
-          id: `user_${Date.now()}`,
-          role: "user",
-          content,
-          timestamp: Date.now(),
-        }
-        addMessage(userMessage)
-        await httpChat.sendMessage({
-          message: content,
-          history: [...httpMessages, userMessage],
-        })
+      const userMessage: ChatMessageType = {
+        id: `user_${Date.now()}`,
+        role: "user",
+        content,
+        timestamp: Date.now(),
       }
+      addMessage(userMessage)
+      await httpChat.sendMessage({
+        message: content,
+        history: [...httpMessages, userMessage],
+      })
     },
     [httpMessages, addMessage, httpChat, wsChat, isStreaming],
   )
@@ -317,6 +389,70 @@ export function PlaygroundPage() {
     wsChat.connect()
   }, [wsChat])
 
+  // ------------------------------------------------------------------
+  // Session Export / Import
+  // ------------------------------------------------------------------
+
+  const { exportSession, importSession } = useSessionTransfer()
+
+  const handleExport = useCallback(
+    (format: SessionExportFormat) => {
+      setError(null)
+      exportSession(wsChat.getSessionId(), format).catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Failed to export conversation")
+      })
+    },
+    [exportSession, wsChat],
+  )
+
+  const handleImport = useCallback(
+    (file: File) => {
+      setError(null)
+      importSession(file)
+        .then(({ sessionId, messages: importedMessages }) => {
+          resetTools()
+          setSidebarContent(null)
+          setChatQueue([])
+          wsChat.switchSession(sessionId, importedMessages)
+        })
+        .catch((err: unknown) => {
+          setError(err instanceof Error ? err.message : "Failed to import conversation")
+        })
+    },
+    [importSession, wsChat, resetTools],
+  )
+
+  // ------------------------------------------------------------------
+  // Edit / Regenerate / Branches (WebSocket only)
+  // ------------------------------------------------------------------
+
+  const handleEditMessage = useCallback(
+    (messageId: string, text: string) => {
+      setError(null)
+      wsChat.editMessage(messageId, text).catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Failed to edit message")
+      })
+    },
+    [wsChat],
+  )
+
+  const handleRegenerate = useCallback(() => {
+    setError(null)
+    wsChat.regenerate().catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : "Failed to regenerate response")
+    })
+  }, [wsChat])
+
+  const handleSelectBranch = useCallback(
+    (messageId: string) => {
+      setError(null)
+      wsChat.selectBranch(messageId).catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Failed to switch version")
+      })
+    },
+    [wsChat],
+  )
+
   const handleAbort = useCallback(() => {
     if (USE_WEBSOCKET_CHAT) {
       wsChat.cancelMessage()
@@ -337,8 +473,6 @@ export function PlaygroundPage() {
     isCompacting: USE_WEBSOCKET_CHAT ? wsChat.isCompacting : false,
   })
 
-  const taskList = useTaskList()
-
   const leftSidebarData = useMemo<LeftSidebarData>(
     () => ({
       activityGroups,
@@ -386,6 +520,8 @@ export function PlaygroundPage() {
           USE_WEBSOCKET_CHAT ? wsChat.connectionState : "connected"
         }
         onReconnect={handleReconnect}
+        onExport={USE_WEBSOCKET_CHAT ? handleExport : undefined}
+        onImport={USE_WEBSOCKET_CHAT ? handleImport : undefined}
       />,
     )
     return () => setNavContent(null)
@@ -394,6 +530,8 @@ export function PlaygroundPage() {
     handleNewChat,
     wsChat.connectionState,
     handleReconnect,
+    handleExport,
+    handleImport,
     setNavContent,
   ])
 
@@ -433,6 +571,11 @@ export function PlaygroundPage() {
             messageToolsMap={messageToolsMap}
             activeTools={activeTools}
             onOpenSidebar={handleOpenSidebar}
+            onToolApproval={USE_WEBSOCKET_CHAT ? handleToolApproval : undefined}
+            onEditMessage={USE_WEBSOCKET_CHAT ? handleEditMessage : undefined}
+            onRegenerate={USE_WEBSOCKET_CHAT ? handleRegenerate : undefined}
+            branches={USE_WEBSOCKET_CHAT ? wsChat.branches : undefined}
+            onSelectBranch={USE_WEBSOCKET_CHAT ? handleSelectBranch : undefined}
           />
         </div>
 
@@ -459,7 +602,8 @@ export function PlaygroundPage() {
             USE_WEBSOCKET_CHAT ? wsChat.connectionState : "connected"
           }
           onReconnect={handleReconnect}
-          queue={chatQueue}
+          connectionCount={USE_WEBSOCKET_CHAT ? wsChat.connectionCount : undefined}
+          queue={queue}
           onQueueRemove={handleQueueRemove}
         />
 
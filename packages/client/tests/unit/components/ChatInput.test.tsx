@@ -0,0 +1,20 @@
+import { describe, it, expect, vi } from "vitest"
+import { render, screen } from "@testing-library/react"
+import { ChatInput } from "../../../src/components/Chat/ChatInput"
+
+describe("ChatInput", () => {
+  it("shows when the session is open on other tabs or devices", () => {
+    const { rerender } = render(<ChatInput onSend={vi.fn()} connectionCount={1} />)
+    expect(screen.queryByText(/Also open in/)).not.toBeInTheDocument()
+
+    rerender(<ChatInput onSend={vi.fn()} connectionCount={3} />)
+    expect(screen.getByText("Also open in 2 other tabs or devices")).toBeInTheDocument()
+  })
+
+  it("hides presence while disconnected", () => {
+    render(
+      <ChatInput onSend={vi.fn()} connectionCount={2} connectionState="reconnecting" />
+    )
+    expect(screen.queryByText(/Also open in/)).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest"
+import { fireEvent, render, screen } from "@testing-library/react"
+import type { ChatMessage } from "@bibboy/shared"
+import { ChatThread } from "../../../src/components/Chat/ChatThread"
+
+const messages: ChatMessage[] = [
+  { id: "user_1", role: "user", content: "first question", timestamp: 1 },
+  { id: "resp_1", role: "assistant", content: "first answer", timestamp: 2 },
+  { id: "user_2", role: "user", content: "second question", timestamp: 3 },
+  { id: "resp_2", role: "assistant", content: "second answer", timestamp: 4 },
+]
+
+describe("ChatThread", () => {
+  it("offers regenerate only for the latest reply", () => {
+    const onRegenerate = vi.fn()
+    render(
+      <ChatThread messages={messages} isLoading={false} onRegenerate={onRegenerate} />
+    )
+
+    const buttons = screen.getAllByRole("button", { name: "Regenerate" })
+    expect(buttons).toHaveLength(1)
+
+    fireEvent.click(buttons[0])
+    expect(onRegenerate).toHaveBeenCalledTimes(1)
+  })
+
+  it("edits a user message inline", () => {
+    const onEditMessage = vi.fn()
+    render(
+      <ChatThread messages={messages} isLoading={false} onEditMessage={onEditMessage} />
+    )
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Edit" })[0])
+    const editor = screen.getByRole("textbox", { name: "Edit message" })
+    expect(editor).toHaveValue("first question")
+
+    fireEvent.change(editor, { target: { value: "  fixed question  " } })
+    fireEvent.keyDown(editor, { key: "Enter" })
+
+    expect(onEditMessage).toHaveBeenCalledWith("user_1", "fixed question")
+    expect(screen.queryByRole("textbox", { name: "Edit message" })).not.toBeInTheDocument()
+  })
+
+  it("navigates between alternative replies", () => {
+    const onSelectBranch = vi.fn()
+    const branches = new Map([
+      ["resp_2", { index: 1, count: 3, siblingIds: ["resp_2a", "resp_2", "resp_2c"] }],
+    ])
+    render(
+      <ChatThread
+        messages={messages}
+        isLoading={false}
+        branches={branches}
+        onSelectBranch={onSelectBranch}
+      />
+    )
+
+    expect(screen.getByText("2/3")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole("button", { name: "Previous version" }))
+    fireEvent.click(screen.getByRole("button", { name: "Next version" }))
+    expect(onSelectBranch.mock.calls).toEqual([["resp_2a"], ["resp_2c"]])
+  })
+
+  it("hides edit and regenerate while a response is in progress", () => {
+    render(
+      <ChatThread
+        messages={messages}
+        isLoading
+        onEditMessage={vi.fn()}
+        onRegenerate={vi.fn()}
+      />
+    )
+
+    expect(screen.queryByRole("button", { name: "Edit" })).not.toBeInTheDocument()
+    expect(screen.queryByRole("button", { name: "Regenerate" })).not.toBeInTheDocument()
+  })
+})
@@ -83,6 +83,16 @@ vi.mock("../../../src/hooks/useWebSocketChat", () => ({
     connectionState: "connected",
     sendMessage: vi.fn(),
     clearMessages: vi.fn(),
+    getSessionId: () => "session-test",
+    switchSession: vi.fn(),
+    editMessage: vi.fn(),
+    branches: new Map(),
+    selectBranch: vi.fn(),
+    regenerate: vi.fn(),
+    queue: [],
+    removeQueuedMessage: vi.fn(),
+    respondToToolApproval: vi.fn(),
+    connectionCount: 1,
     connect: vi.fn(),
     cancelMessage: vi.fn(),
     isCompacting: false,
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from "vitest"
+import { fireEvent, render, screen } from "@testing-library/react"
+import type { ToolExecution } from "../../../src/hooks/useWebSocketChat"
+import { ToolExecutionCard } from "../../../src/components/Chat/ToolExecutionCard"
+
+const tool: ToolExecution = {
+  id: "call_1",
+  name: "write_file",
+  arguments: { path: "USER.md" },
+  status: "running",
+  approvalId: "approval_1",
+}
+
+describe("ToolExecutionCard", () => {
+  it("approves or denies a call that is waiting for approval", () => {
+    const onApprovalResponse = vi.fn()
+    render(<ToolExecutionCard tool={tool} onApprovalResponse={onApprovalResponse} />)
+
+    fireEvent.click(screen.getByRole("button", { name: "Deny" }))
+    fireEvent.click(screen.getByRole("button", { name: "Approve" }))
+    expect(onApprovalResponse.mock.calls).toEqual([
+      ["approval_1", false],
+      ["approval_1", true],
+    ])
+  })
+
+  it("shows no approval prompt once the call has finished", () => {
+    render(
+      <ToolExecutionCard
+        tool={{ ...tool, status: "completed" }}
+        onApprovalResponse={vi.fn()}
+      />
+    )
+    expect(screen.queryByRole("button", { name: "Approve" })).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import {
+  parseQueuedMessages,
+  parseQueueStarted,
+  parseSessionSnapshot,
+  parseTaskSuggestions,
+  readResultQueueId,
+} from "../../../src/hooks/websocket-chat-parsers"
+
+describe("websocket-chat-parsers", () => {
+  it("parses task suggestions and drops malformed entries", () => {
+    expect(
+      parseTaskSuggestions({
+        tasks: [
+          { id: "task_1", text: " Ship v1 " },
+          { id: "task_2", text: "   " },
+          { text: "no id" },
+          "not a task",
+        ],
+      })
+    ).toEqual([{ id: "task_1", text: "Ship v1" }])
+    expect(parseTaskSuggestions({ tasks: "nope" })).toEqual([])
+  })
+
+  it("parses the server message queue", () => {
+    expect(
+      parseQueuedMessages([
+        { id: "queued_1", message: "next", createdAt: 1, agentId: "default" },
+        { id: "queued_2", createdAt: 2 },
+        null,
+      ])
+    ).toEqual([{ id: "queued_1", message: "next", createdAt: 1 }])
+    expect(parseQueuedMessages(undefined)).toEqual([])
+
+    expect(parseQueueStarted({ queueId: "queued_1", messageId: "resp_1", message: "next" }))
+      .toEqual({ queueId: "queued_1", messageId: "resp_1", message: "next" })
+    expect(parseQueueStarted({ queueId: "queued_1" })).toBeNull()
+  })
+
+  it("reads the queue id from a queued chat.send result", () => {
+    expect(readResultQueueId({ queued: { id: "queued_1", message: "hi", createdAt: 1 } })).toBe(
+      "queued_1"
+    )
+    expect(readResultQueueId({ messageId: "resp_1" })).toBeNull()
+  })
+
+  it("parses a session snapshot and drops malformed messages", () => {
+    expect(
+      parseSessionSnapshot({
+        messages: [
+          { id: "u1", role: "user", content: "hi", timestamp: 1, parentId: null },
+          { id: "bad", role: "robot", content: "?", timestamp: 2 },
+        ],
+        activeLeafId: "u1",
+        inProgress: { responseId: "resp_1", text: "Hel" },
+        lastSequence: 7,
+      })
+    ).toEqual({
+      messages: [{ id: "u1", role: "user", content: "hi", timestamp: 1, parentId: null }],
+      activeLeafId: "u1",
+      inProgress: { responseId: "resp_1", text: "Hel" },
+      lastSequence: 7,
+    })
+    expect(parseSessionSnapshot({ messages: [] })).toBeNull()
+  })
+})
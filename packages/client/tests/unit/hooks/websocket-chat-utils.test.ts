@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest"
 import {
   isJsonRecord,
+  addRunningTool,
+  markToolAwaitingApproval,
   parseToolResult,
   safeJsonParseObject,
   tryJsonParse,
@@ -51,4 +53,40 @@ describe("websocket-chat-utils", () => {
     expect(isJsonRecord(["a"])).toBe(false)
     expect(isJsonRecord("x")).toBe(false)
   })
+
+  it("marks a tool call as awaiting approval, adding it when unseen", () => {
+    const running = {
+      id: "call_1",
+      name: "write_file",
+      arguments: { path: "USER.md" },
+      status: "running" as const,
+    }
+    const request = {
+      approvalId: "approval_1",
+      toolCallId: "call_1",
+      toolName: "write_file",
+      arguments: { path: "USER.md" },
+    }
+
+    expect(markToolAwaitingApproval([running], request)).toEqual([
+      { ...running, approvalId: "approval_1" },
+    ])
+
+    const [added] = markToolAwaitingApproval([], request)
+    expect(added).toMatchObject({ ...running, approvalId: "approval_1" })
+  })
+
+  it("clears the approval of a call once it starts", () => {
+    const awaiting = {
+      id: "call_1",
+      name: "write_file",
+      arguments: { path: "USER.md" },
+      status: "running" as const,
+      approvalId: "approval_1",
+    }
+    const started = { ...awaiting, approvalId: undefined, rawArguments: "{\"path\":\"USER.md\"}" }
+
+    expect(addRunningTool([awaiting], started)).toEqual([started])
+    expect(addRunningTool([], started)).toEqual([started])
+  })
 })
@@ -9,7 +9,8 @@ export type ConnectionState =
 export interface ChatAdapter {
   readonly messages: ChatMessage[]
   readonly isTyping: boolean
-  readonly sendMessage: (text: string, characterState?: CharacterState) => Promise<string>
+  /** Resolves with the message ID, or null when the message was queued */
+  readonly sendMessage: (text: string, characterState?: CharacterState) => Promise<string | null>
   readonly connect: () => void
   readonly isCompacting: boolean
   readonly pendingPoseChange: AgentPose | null
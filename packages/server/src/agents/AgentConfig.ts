@@ -49,6 +49,10 @@ export type TimeFormat = Schema.Schema.Type<typeof TimeFormatSchema>
 // Model Configuration
 // ============================================================================
 
+/**
+ * Models are `provider/model` refs, e.g. "ollama/qwen2.5:7b" or
+ * "openai/gpt-4o-mini". Bare ids like "gemini-3-flash-preview" use Gemini.
+ */
 export const ModelConfigSchema = Schema.Struct({
   primary: Schema.optional(Schema.String),
   fallbacks: Schema.optional(Schema.Array(Schema.String)),
@@ -69,7 +73,6 @@ const MemoryBatchConfigSchema = Schema.Struct({
   enabled: Schema.optional(Schema.Boolean),
   wait: Schema.optional(Schema.Boolean),
   concurrency: Schema.optional(Schema.Number),
-  pollIntervalMs: Schema.optional(Schema.Number),
   timeoutMinutes: Schema.optional(Schema.Number),
 })
 
@@ -188,11 +191,24 @@ export type ToolProfile = Schema.Schema.Type<typeof ToolProfileSchema>
 // Tool Policy Configuration (matching reference implementation)
 // ============================================================================
 
+const PositiveIntSchema = Schema.Number.pipe(Schema.int(), Schema.positive())
+
+/** Limits for tool calls the model makes in the same turn */
+export const ToolConcurrencySchema = Schema.Struct({
+  /** Calls running at once (default: 4) */
+  maxParallel: Schema.optional(PositiveIntSchema),
+  /** Limits per tool name or pattern, e.g. { "web_fetch": 3, "group:mcp": 1 } */
+  perTool: Schema.optional(Schema.Record({ key: Schema.String, value: PositiveIntSchema })),
+})
+
 export const ToolPolicySchema = Schema.Struct({
   profile: Schema.optional(ToolProfileSchema),
   allow: Schema.optional(Schema.Array(Schema.String)),
   alsoAllow: Schema.optional(Schema.Array(Schema.String)),
   deny: Schema.optional(Schema.Array(Schema.String)),
+  /** Tools that wait for the user's approval before each call (patterns like allow) */
+  requireApproval: Schema.optional(Schema.Array(Schema.String)),
+  concurrency: Schema.optional(ToolConcurrencySchema),
   byProvider: Schema.optional(
     Schema.Record({
       key: Schema.String,
@@ -208,6 +224,34 @@ export const ToolPolicySchema = Schema.Struct({
 
 export type ToolPolicy = Schema.Schema.Type<typeof ToolPolicySchema>
 
+// ============================================================================
+// MCP Server Configuration
+// ============================================================================
+
+/** MCP server started as a subprocess, speaking JSON-RPC over stdio */
+export const McpStdioServerSchema = Schema.Struct({
+  name: Schema.String,
+  command: Schema.String,
+  args: Schema.optional(Schema.Array(Schema.String)),
+  env: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.String })),
+  cwd: Schema.optional(Schema.String),
+  /** Per-request timeout in ms (default: 30_000) */
+  timeoutMs: Schema.optional(Schema.Number),
+})
+
+/** MCP server already running locally, reached over streamable HTTP */
+export const McpHttpServerSchema = Schema.Struct({
+  name: Schema.String,
+  url: Schema.String,
+  headers: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.String })),
+  /** Per-request timeout in ms (default: 30_000) */
+  timeoutMs: Schema.optional(Schema.Number),
+})
+
+export const McpServerConfigSchema = Schema.Union(McpStdioServerSchema, McpHttpServerSchema)
+
+export type McpServerConfig = Schema.Schema.Type<typeof McpServerConfigSchema>
+
 // ============================================================================
 // Agent Entry Configuration
 // ============================================================================
@@ -227,6 +271,8 @@ export const AgentEntrySchema = Schema.Struct({
   systemPrompt: Schema.optional(Schema.String),
   /** Character persona (for character-based agents) */
   character: Schema.optional(Schema.String),
+  /** MCP servers whose tools are added under group:mcp:<name> */
+  mcpServers: Schema.optional(Schema.Array(McpServerConfigSchema)),
 })
 
 export type AgentEntry = Schema.Schema.Type<typeof AgentEntrySchema>
@@ -287,7 +333,6 @@ export interface ResolvedMemorySearchConfig {
       enabled: boolean
       wait: boolean
       concurrency: number
-      pollIntervalMs: number
       timeoutMinutes: number
     }
   }
@@ -339,11 +384,18 @@ export interface ResolvedMemorySearchConfig {
   }
 }
 
+export interface ResolvedToolConcurrency {
+  maxParallel: number
+  perTool: Record<string, number>
+}
+
 export interface ResolvedToolPolicy {
   profile: ToolProfile | null
   allow: string[]
   alsoAllow: string[]
   deny: string[]
+  requireApproval: string[]
+  concurrency: ResolvedToolConcurrency
   byProvider: Record<string, {
     profile?: ToolProfile
     allow?: string[]
@@ -365,6 +417,7 @@ export interface ResolvedAgentConfig {
   timeFormat: TimeFormat
   systemPrompt?: string
   character?: string
+  mcpServers: McpServerConfig[]
 }
 
 // ============================================================================
@@ -514,7 +567,6 @@ export function resolveMemorySearchConfig(
     enabled: overrideRemote?.batch?.enabled ?? defaultRemote?.batch?.enabled ?? true,
     wait: overrideRemote?.batch?.wait ?? defaultRemote?.batch?.wait ?? true,
     concurrency: Math.max(1, overrideRemote?.batch?.concurrency ?? defaultRemote?.batch?.concurrency ?? 2),
-    pollIntervalMs: overrideRemote?.batch?.pollIntervalMs ?? defaultRemote?.batch?.pollIntervalMs ?? 2000,
     timeoutMinutes: overrideRemote?.batch?.timeoutMinutes ?? defaultRemote?.batch?.timeoutMinutes ?? 60,
   }
   
@@ -634,6 +686,12 @@ export function resolveMemorySearchConfig(
   }
 }
 
+/** Tool concurrency used when neither the agent nor the defaults set one */
+export const DEFAULT_TOOL_CONCURRENCY: ResolvedToolConcurrency = {
+  maxParallel: 4,
+  perTool: { web_fetch: 3, run_code: 1 },
+}
+
 /**
  * Resolve tool policy (matching reference implementation).
  */
@@ -675,6 +733,18 @@ export function resolveToolPolicy(
     allow: agentPolicy?.allow ? [...agentPolicy.allow] : defaultPolicy?.allow ? [...defaultPolicy.allow] : [],
     alsoAllow: agentPolicy?.alsoAllow ? [...agentPolicy.alsoAllow] : defaultPolicy?.alsoAllow ? [...defaultPolicy.alsoAllow] : [],
     deny: agentPolicy?.deny ? [...agentPolicy.deny] : defaultPolicy?.deny ? [...defaultPolicy.deny] : [],
+    requireApproval: agentPolicy?.requireApproval ? [...agentPolicy.requireApproval] : defaultPolicy?.requireApproval ? [...defaultPolicy.requireApproval] : [],
+    concurrency: {
+      maxParallel:
+        agentPolicy?.concurrency?.maxParallel ??
+        defaultPolicy?.concurrency?.maxParallel ??
+        DEFAULT_TOOL_CONCURRENCY.maxParallel,
+      perTool: {
+        ...DEFAULT_TOOL_CONCURRENCY.perTool,
+        ...defaultPolicy?.concurrency?.perTool,
+        ...agentPolicy?.concurrency?.perTool,
+      },
+    },
     byProvider: mergedByProvider,
   }
 }
@@ -697,6 +767,7 @@ export function resolveAgentConfig(
     timeFormat: agent.timeFormat ?? defaults?.timeFormat ?? "auto",
     systemPrompt: agent.systemPrompt ?? defaults?.systemPrompt,
     character: agent.character,
+    mcpServers: agent.mcpServers ? [...agent.mcpServers] : [],
   }
 }
 
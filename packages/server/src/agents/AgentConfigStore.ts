@@ -90,6 +90,7 @@ class AgentConfigStore {
           thinkingLevel: this.config.defaults?.thinkingDefault ?? "off",
           timeFormat: this.config.defaults?.timeFormat ?? "auto",
           systemPrompt: this.config.defaults?.systemPrompt,
+          mcpServers: [],
         }
         this.resolvedCache.set(id, defaultResolved)
         return defaultResolved
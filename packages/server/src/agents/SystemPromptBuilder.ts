@@ -83,8 +83,10 @@ const CORE_TOOL_SUMMARIES: Record<string, string> = {
   read_file: "Read a workspace file (SOUL.md, MEMORY.md, etc.)",
   write_file: "Write or update a workspace file",
   list_files: "List all workspace files",
+  run_code: "Run JavaScript/TypeScript or Python in a sandbox in the workspace (no network)",
   reset_workspace: "Reset workspace files to defaults (clear context)",
   set_character_pose: "Change the pixel avatar's pose or activity",
+  task_suggest: "Suggest tasks for the user to accept into their task list",
   soul_observe_trait: "Record a personality trait observation about the user",
   soul_get_state: "Get the current soul evolution state and traits",
   canvas_get_state: "Get current realtime character builder state",
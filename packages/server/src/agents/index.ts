@@ -6,11 +6,14 @@ export {
   MemorySearchConfigSchema,
   ToolProfileSchema,
   ToolPolicySchema,
+  ToolConcurrencySchema,
+  McpServerConfigSchema,
   AgentEntrySchema,
   AgentDefaultsSchema,
   AgentsConfigSchema,
   AgentNotFoundError,
   AgentConfigError,
+  DEFAULT_TOOL_CONCURRENCY,
   normalizeAgentId,
   resolveAgentConfig,
   agentConfig,
@@ -23,12 +26,14 @@ export type {
   MemorySearchConfig,
   ToolProfile,
   ToolPolicy,
+  McpServerConfig,
   AgentEntry,
   AgentDefaults,
   AgentsConfig,
   ResolvedAgentConfig,
   ResolvedMemorySearchConfig,
   ResolvedToolPolicy,
+  ResolvedToolConcurrency,
 } from "./AgentConfig"
 
 // System Prompt Builder
@@ -2,8 +2,12 @@ import type { ChatMessage, AgentStreamEvent } from "@bibboy/shared"
 import { createAgentServiceLive } from "../services/AgentService"
 import { checkRateLimit, getRateLimitHeaders, streamRateLimiter } from "./rate-limiter"
 import { validateAgentRequest, validationErrorResponse } from "./input-validation"
-import { getGlobalConfig, hasGeminiApiKey } from "../config"
-import { createResponsesStreamEmitter } from "../services/ResponsesStreamEmitter"
+import { getGlobalConfig } from "../config"
+import { isModelConfigured } from "../services/agent-service-model"
+import {
+  applyAgentStreamEvent,
+  createResponsesStreamEmitter,
+} from "../services/ResponsesStreamEmitter"
 import { agentConfig } from "../agents/AgentConfig"
 import { createToolRegistry } from "../tools"
 
@@ -26,9 +30,10 @@ export async function handleAgentStream(request: Request): Promise<Response> {
   const rateLimitResponse = checkRateLimit(request, streamRateLimiter)
   if (rateLimitResponse) return rateLimitResponse
 
-  if (!hasGeminiApiKey(appConfig)) {
+  const defaultModel = agentConfig.getAgent(agentConfig.getDefaultAgentId())?.model.primary ?? ""
+  if (!isModelConfigured(appConfig, defaultModel)) {
     return new Response(
-      JSON.stringify({ error: "GEMINI_API_KEY not configured" }),
+      JSON.stringify({ error: `Model provider not configured for "${defaultModel}"` }),
       { status: 500, headers: { "Content-Type": "application/json" } }
     )
   }
@@ -90,25 +95,7 @@ export async function handleAgentStream(request: Request): Promise<Response> {
 
           await Effect.runPromise(
             Stream.runForEach(streamEffect, (event: AgentStreamEvent) =>
-              Effect.sync(() => {
-                switch (event.type) {
-                  case "text_delta":
-                    emitter.addTextDelta(event.delta)
-                    break
-                  case "tool_start":
-                    emitter.addToolCall(event.toolCallId, event.toolName, event.arguments)
-                    break
-                  case "tool_end":
-                    emitter.addToolResult(event.toolCallId, event.toolName, event.result)
-                    break
-                  case "done":
-                    emitter.complete("completed")
-                    break
-                  case "error":
-                    emitter.fail(event.error)
-                    break
-                }
-              })
+              Effect.sync(() => applyAgentStreamEvent(emitter, event))
             )
           )
 
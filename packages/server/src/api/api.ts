@@ -2,6 +2,7 @@ import {
   HttpApi,
   HttpApiEndpoint,
   HttpApiGroup,
+  HttpApiSchema,
 } from "@effect/platform"
 import { Schema } from "effect"
 import {
@@ -12,12 +13,23 @@ import {
   SuggestionsResponseSchema,
   WorkspaceFilesResponseSchema,
   WorkspaceFileResponseSchema,
+  ToolAuditResponseSchema,
   AgentRequestSchema,
   AgentResponseSchema,
   ApiKeyNotConfiguredErrorSchema,
   ValidationErrorSchema,
+  UnauthorizedErrorSchema,
   FileNotFoundErrorSchema,
   RateLimitErrorSchema,
+  // Session management schemas
+  SessionListResponseSchema,
+  SessionTranscriptResponseSchema,
+  SessionRenameRequestSchema,
+  SessionForkRequestSchema,
+  SessionResponseSchema,
+  SessionDeleteResponseSchema,
+  SessionNotFoundErrorSchema,
+  SessionExportSchema,
 } from "@bibboy/shared"
 
 // ============================================================================
@@ -88,6 +100,120 @@ const workspaceFileEndpoint = HttpApiEndpoint.get("workspaceFile", "/api/workspa
   .addError(ValidationErrorSchema, { status: 400 })
   .addError(FileNotFoundErrorSchema, { status: 404 })
 
+// ============================================================================
+// Tool Audit Endpoints
+// ============================================================================
+
+/**
+ * Query the tool execution audit log endpoint at /api/tools/audit.
+ * A bearer token matching AUDIT_API_TOKEN sees every call; otherwise the
+ * query is limited to the sessions of `userId`.
+ */
+const toolAuditEndpoint = HttpApiEndpoint.get("toolAudit", "/api/tools/audit")
+  .setUrlParams(Schema.Struct({
+    userId: Schema.optional(Schema.String),
+    sessionId: Schema.optional(Schema.String),
+    agentId: Schema.optional(Schema.String),
+    toolName: Schema.optional(Schema.String),
+    status: Schema.optional(Schema.Literal("ok", "error")),
+    search: Schema.optional(Schema.String),
+    since: Schema.optional(Schema.NumberFromString),
+    until: Schema.optional(Schema.NumberFromString),
+    limit: Schema.optional(Schema.NumberFromString),
+  }))
+  .addSuccess(ToolAuditResponseSchema)
+  .addError(ValidationErrorSchema, { status: 400 })
+  .addError(UnauthorizedErrorSchema, { status: 401 })
+
+// ============================================================================
+// Session Endpoints
+// ============================================================================
+
+const SessionPathSchema = Schema.Struct({
+  sessionId: Schema.String,
+})
+
+/** Sessions are scoped to the user that owns them */
+const SessionOwnerParamsSchema = Schema.Struct({
+  userId: Schema.String,
+})
+
+/**
+ * List chat sessions endpoint at /api/sessions
+ */
+const sessionsEndpoint = HttpApiEndpoint.get("sessions", "/api/sessions")
+  .setUrlParams(SessionOwnerParamsSchema)
+  .addSuccess(SessionListResponseSchema)
+
+/**
+ * Fetch a session transcript endpoint at /api/sessions/:sessionId
+ */
+const sessionEndpoint = HttpApiEndpoint.get("session", "/api/sessions/:sessionId")
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .addSuccess(SessionTranscriptResponseSchema)
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+
+/**
+ * Rename a session endpoint at /api/sessions/:sessionId
+ */
+const sessionRenameEndpoint = HttpApiEndpoint.patch("sessionRename", "/api/sessions/:sessionId")
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .setPayload(SessionRenameRequestSchema)
+  .addSuccess(SessionResponseSchema)
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+  .addError(ValidationErrorSchema, { status: 400 })
+
+/**
+ * Delete a session (with its canvas and soul state) endpoint at /api/sessions/:sessionId
+ */
+const sessionDeleteEndpoint = HttpApiEndpoint.del("sessionDelete", "/api/sessions/:sessionId")
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .addSuccess(SessionDeleteResponseSchema)
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+
+/**
+ * Fork a session at a message endpoint at /api/sessions/:sessionId/fork
+ */
+const sessionForkEndpoint = HttpApiEndpoint.post("sessionFork", "/api/sessions/:sessionId/fork")
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .setPayload(SessionForkRequestSchema)
+  .addSuccess(SessionResponseSchema, { status: 201 })
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+  .addError(ValidationErrorSchema, { status: 400 })
+
+/**
+ * Export a session as JSON endpoint at /api/sessions/:sessionId/export
+ */
+const sessionExportEndpoint = HttpApiEndpoint.get("sessionExport", "/api/sessions/:sessionId/export")
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .addSuccess(SessionExportSchema)
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+
+/**
+ * Export a session as a Markdown transcript endpoint at /api/sessions/:sessionId/export.md
+ */
+const sessionExportMarkdownEndpoint = HttpApiEndpoint.get(
+  "sessionExportMarkdown",
+  "/api/sessions/:sessionId/export.md"
+)
+  .setPath(SessionPathSchema)
+  .setUrlParams(SessionOwnerParamsSchema)
+  .addSuccess(HttpApiSchema.Text({ contentType: "text/markdown; charset=utf-8" }))
+  .addError(SessionNotFoundErrorSchema, { status: 404 })
+
+/**
+ * Import a session from a JSON export endpoint at /api/sessions/import
+ */
+const sessionImportEndpoint = HttpApiEndpoint.post("sessionImport", "/api/sessions/import")
+  .setUrlParams(SessionOwnerParamsSchema)
+  .setPayload(SessionExportSchema)
+  .addSuccess(SessionResponseSchema, { status: 201 })
+
 // ============================================================================
 // API Group
 // ============================================================================
@@ -108,6 +234,17 @@ export const apiGroup = HttpApiGroup.make("api")
   // Workspace endpoints
   .add(workspaceFilesEndpoint)
   .add(workspaceFileEndpoint)
+  // Tool audit endpoints
+  .add(toolAuditEndpoint)
+  // Session endpoints
+  .add(sessionsEndpoint)
+  .add(sessionEndpoint)
+  .add(sessionRenameEndpoint)
+  .add(sessionDeleteEndpoint)
+  .add(sessionForkEndpoint)
+  .add(sessionExportEndpoint)
+  .add(sessionExportMarkdownEndpoint)
+  .add(sessionImportEndpoint)
 
 // ============================================================================
 // API Definition
@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "node:crypto"
+
+// ============================================================================
+// Bearer Tokens
+// ============================================================================
+
+/**
+ * Token of an `Authorization: Bearer <token>` header, or null when the header
+ * is missing or uses another scheme.
+ */
+export function readBearerToken(authorization: string | null | undefined): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? "")
+  return match ? match[1] : null
+}
+
+/**
+ * Compare a presented token with the configured one in constant time.
+ */
+export function tokenMatches(presented: string, expected: string): boolean {
+  const a = Buffer.from(presented)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
@@ -1,20 +1,53 @@
 import { HttpApiBuilder, HttpServerRequest, OpenApi } from "@effect/platform"
-import { Effect } from "effect"
+import { Effect, Option, Secret } from "effect"
 import { api } from "./api"
 import { AgentService, listAvailableAgents } from "../services/AgentService"
 import { listWorkspaceFiles, readWorkspaceFile, initializeWorkspace } from "../workspace"
-import { getGlobalConfig, hasGeminiApiKey, getGeminiApiKeyValue } from "../config"
+import { parseModelRef } from "@bibboy/agent-runtime"
+import { getGlobalConfig } from "../config"
 import { chatRateLimiter } from "./rate-limiter"
 import {
   ApiKeyNotConfiguredError,
   ValidationError,
   FileNotFoundError,
   RateLimitError,
+  UnauthorizedError,
 } from "@bibboy/shared"
+import { parseSuggestionsArray } from "./suggestions-helpers"
+import { agentConfig } from "../agents/AgentConfig"
+import { isModelConfigured, resolveModelClient } from "../services/agent-service-model"
 import {
-  extractSuggestionPayloadFromGemini,
-  parseSuggestionsArray,
-} from "./suggestions-helpers"
+  deleteSession,
+  exportSession,
+  forkSession,
+  getSessionTranscript,
+  importSession,
+  listSessionSummaries,
+  renameSession,
+} from "../services/SessionManagement"
+import { renderSessionMarkdown } from "../services/session-markdown"
+import { getToolAuditStore, MAX_AUDIT_QUERY_LIMIT } from "../audit"
+import { withSessionServices } from "./session-runtime"
+import { ChatProcessor } from "../services/ChatProcessor"
+import { deleteSessionTranscripts } from "../memory/MemoryService"
+import { readBearerToken, tokenMatches } from "./bearer-auth"
+
+/**
+ * Drop a deleted session's transcripts from every agent's memory (the
+ * session may have talked to several). Failures are logged, not surfaced.
+ */
+const forgetSessionTranscripts = (sessionId: string, userId: string): Effect.Effect<void> =>
+  Effect.tryPromise(() =>
+    deleteSessionTranscripts(
+      userId,
+      sessionId,
+      agentConfig.listAgentIds().flatMap((id) => agentConfig.getAgent(id) ?? [])
+    )
+  ).pipe(
+    Effect.catchAll((error) =>
+      Effect.sync(() => console.warn(`[API] Transcript cleanup failed for ${sessionId}: ${error}`))
+    )
+  )
 
 // ============================================================================
 // API Handlers Implementation
@@ -51,7 +84,6 @@ export const apiGroupLive = HttpApiBuilder.group(api, "api", (handlers) =>
     .handle("suggestions", () =>
       Effect.gen(function* () {
         const appConfig = getGlobalConfig()
-        const apiKey = getGeminiApiKeyValue(appConfig)
 
         const fallbackSuggestions = [
           "Tell me about yourself",
@@ -59,12 +91,18 @@ export const apiGroupLive = HttpApiBuilder.group(api, "api", (handlers) =>
           "What's your background?",
         ]
 
-        if (!apiKey) {
-          // Return fallback suggestions when no API key
+        // Use the default agent's model; fall back when it isn't configured
+        const defaultAgent = agentConfig.getAgent(agentConfig.getDefaultAgentId())
+        const resolved = defaultAgent
+          ? yield* resolveModelClient(appConfig, defaultAgent.model.primary).pipe(Effect.option)
+          : Option.none()
+
+        if (Option.isNone(resolved)) {
           return { suggestions: fallbackSuggestions }
         }
+        const { client, model } = resolved.value
 
-        // Try to generate dynamic suggestions via Gemini, fallback on any error
+        // Try to generate dynamic suggestions, fallback on any error
         const result = yield* Effect.tryPromise({
           try: async () => {
             // Load SOUL.md for context
@@ -72,48 +110,28 @@ export const apiGroupLive = HttpApiBuilder.group(api, "api", (handlers) =>
             const soulFile = await readWorkspaceFile("default", "SOUL.md")
             const soulContent = soulFile?.content ?? ""
 
-            const response = await fetch(
-              `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${apiKey}`,
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  contents: [
-                    {
-                      role: "user",
-                      parts: [
-                        {
-                          text: `You are helping generate conversation starters for a soul companion chat. Based on the persona below, generate 3 short, interesting questions a visitor might ask. Keep each under 40 characters. Return ONLY a JSON array of strings, no explanation.
+            const response = await Effect.runPromise(
+              client.generate({
+                model,
+                messages: [
+                  {
+                    role: "user",
+                    content: `You are helping generate conversation starters for a soul companion chat. Based on the persona below, generate 3 short, interesting questions a visitor might ask. Keep each under 40 characters. Return ONLY a JSON array of strings, no explanation.
 
 Persona:
 ${soulContent.slice(0, 1500)}
 
 Generate 3 unique conversation starters.`,
-                        },
-                      ],
-                    },
-                  ],
-                  generationConfig: {
-                    maxOutputTokens: 150,
-                    responseMimeType: "application/json",
                   },
-                }),
-              }
+                ],
+                maxOutputTokens: 150,
+                responseFormat: "json",
+              })
             )
 
-            if (!response.ok) {
-              throw new Error("Gemini API error")
-            }
-
-            const data: unknown = await response.json()
-            const content = extractSuggestionPayloadFromGemini(data)
-            if (!content) {
-              throw new Error("Unexpected Gemini suggestion response shape")
-            }
-
-            const parsed = parseSuggestionsArray(content)
+            const parsed = parseSuggestionsArray(response.text)
             if (!parsed) {
-              throw new Error("Unexpected Gemini suggestion payload")
+              throw new Error("Unexpected suggestion payload")
             }
 
             return { suggestions: parsed.slice(0, 3) }
@@ -150,10 +168,14 @@ Generate 3 unique conversation starters.`,
 
         const appConfig = getGlobalConfig()
 
-        // Check for API key
-        if (!hasGeminiApiKey(appConfig)) {
+        // Check the agent's model provider is configured
+        const agent =
+          (payload.agentId && agentConfig.getAgent(payload.agentId)) ||
+          agentConfig.getAgent(agentConfig.getDefaultAgentId())
+        const modelRef = agent?.model.primary ?? ""
+        if (!isModelConfigured(appConfig, modelRef)) {
           return yield* Effect.fail(
-            new ApiKeyNotConfiguredError({ provider: "gemini" })
+            new ApiKeyNotConfiguredError({ provider: parseModelRef(modelRef).provider })
           )
         }
 
@@ -272,4 +294,98 @@ Generate 3 unique conversation starters.`,
         return { file }
       })
     )
+    // ========================================================================
+    // Tool Audit Handlers
+    // ========================================================================
+    // Query recorded tool calls, newest first
+    .handle("toolAudit", ({ urlParams }) =>
+      Effect.gen(function* () {
+        const { userId, limit, since, until, ...filter } = urlParams
+
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_QUERY_LIMIT)) {
+          return yield* Effect.fail(
+            new ValidationError({ error: `limit must be an integer between 1 and ${MAX_AUDIT_QUERY_LIMIT}` })
+          )
+        }
+
+        if (since !== undefined && until !== undefined && since > until) {
+          return yield* Effect.fail(
+            new ValidationError({ error: "since must not be after until" })
+          )
+        }
+
+        // The admin token sees every call; anyone else only their own sessions
+        const serverRequest = yield* HttpServerRequest.HttpServerRequest
+        const token = readBearerToken(serverRequest.headers.authorization)
+        const adminToken = getGlobalConfig().auditApiToken
+        let sessionIds: string[] | undefined
+        if (token !== null) {
+          if (Option.isNone(adminToken) || !tokenMatches(token, Secret.value(adminToken.value))) {
+            return yield* Effect.fail(new UnauthorizedError({ error: "Invalid audit token" }))
+          }
+        } else if (userId) {
+          const sessions = yield* withSessionServices(listSessionSummaries(userId))
+          sessionIds = sessions.map((session) => session.sessionId)
+        } else {
+          return yield* Effect.fail(
+            new UnauthorizedError({ error: "An audit token or userId is required" })
+          )
+        }
+
+        const entries = yield* Effect.sync(() =>
+          getToolAuditStore().query({ ...filter, limit, since, until, sessionIds })
+        )
+
+        return { entries }
+      })
+    )
+    // ========================================================================
+    // Session Handlers
+    // ========================================================================
+    // Sessions live in the shared session runtime (also used by the WebSocket)
+    .handle("sessions", ({ urlParams }) =>
+      withSessionServices(listSessionSummaries(urlParams.userId)).pipe(
+        Effect.map((sessions) => ({ sessions }))
+      )
+    )
+    .handle("session", ({ path, urlParams }) =>
+      withSessionServices(getSessionTranscript(path.sessionId, urlParams.userId))
+    )
+    .handle("sessionRename", ({ path, urlParams, payload }) =>
+      withSessionServices(renameSession(path.sessionId, urlParams.userId, payload.title)).pipe(
+        Effect.map((session) => ({ session }))
+      )
+    )
+    .handle("sessionDelete", ({ path, urlParams }) =>
+      withSessionServices(
+        Effect.flatMap(ChatProcessor, (processor) =>
+          deleteSession(
+            path.sessionId,
+            urlParams.userId,
+            processor.endSession,
+            forgetSessionTranscripts
+          )
+        )
+      ).pipe(
+        Effect.as({ deleted: true })
+      )
+    )
+    .handle("sessionFork", ({ path, urlParams, payload }) =>
+      withSessionServices(forkSession(path.sessionId, urlParams.userId, payload.messageId)).pipe(
+        Effect.map((session) => ({ session }))
+      )
+    )
+    .handle("sessionExport", ({ path, urlParams }) =>
+      withSessionServices(exportSession(path.sessionId, urlParams.userId))
+    )
+    .handle("sessionExportMarkdown", ({ path, urlParams }) =>
+      withSessionServices(exportSession(path.sessionId, urlParams.userId)).pipe(
+        Effect.map(renderSessionMarkdown)
+      )
+    )
+    .handle("sessionImport", ({ urlParams, payload }) =>
+      withSessionServices(importSession(payload, urlParams.userId)).pipe(
+        Effect.map((session) => ({ session }))
+      )
+    )
 )
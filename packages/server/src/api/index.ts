@@ -10,6 +10,9 @@ export type { SecurityHeader } from "./middleware"
 // Agent SSE streaming handler (non-streaming endpoints are now in HttpApi handlers.ts)
 export { handleAgentStream } from "./agent-streaming"
 
+// OpenAI Responses-compatible endpoint (POST /v1/responses)
+export { handleResponsesRequest } from "./openai-responses"
+
 // Rate limiting
 export {
   checkRateLimit,
@@ -31,6 +34,7 @@ export {
 // Input validation
 export { 
   validateAgentRequest, 
+  validateResponsesRequest,
   validateFilePath, 
   validationErrorResponse, 
   sanitizeString 
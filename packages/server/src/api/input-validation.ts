@@ -227,6 +227,177 @@ export function validateAgentRequest(body: unknown): ValidationResult<{
   }
 }
 
+// ============================================================================
+// Responses API Requests
+// ============================================================================
+
+type ResponsesInputRole = "user" | "assistant" | "system" | "developer"
+
+const ResponsesInputRoleSchema = Schema.Literal("user", "assistant", "system", "developer")
+const decodeResponsesInputRole = Schema.decodeUnknownEither(ResponsesInputRoleSchema)
+
+const TEXT_PART_TYPES = new Set(["input_text", "output_text", "text"])
+
+/**
+ * Extract text from a Responses input message `content` (a string or an
+ * array of text parts). Returns null for non-text content.
+ */
+function toResponsesInputText(content: unknown): string | null {
+  const text = toString(content)
+  if (text !== null) return text
+
+  const parts = toUnknownArray(content)
+  if (parts === null) return null
+
+  const texts: string[] = []
+  for (const part of parts) {
+    const record = toRecord(part)
+    const type = record ? toString(record.type) : null
+    const partText = record ? toString(record.text) : null
+    if (!type || !TEXT_PART_TYPES.has(type) || partText === null) return null
+    texts.push(partText)
+  }
+  return texts.join("\n")
+}
+
+/**
+ * Validate an OpenAI Responses API request (`POST /v1/responses`).
+ *
+ * The last input message must come from the user and becomes the agent
+ * message; earlier user/assistant messages become history, and system or
+ * developer messages are merged into the instructions. Client-declared
+ * `tools` are ignored (agents run their own server-side tools), and
+ * `tool_choice: "none"` disables them.
+ */
+export function validateResponsesRequest(body: unknown): ValidationResult<{
+  model?: string
+  message: string
+  instructions?: string
+  history: Array<{ id: string; role: "user" | "assistant"; content: string; timestamp: number }>
+  stream: boolean
+  enableTools: boolean
+}> {
+  const req = toRecord(body)
+  if (!req) {
+    return { success: false, error: "Invalid request body" }
+  }
+
+  let model: string | undefined
+  if (req.model !== undefined) {
+    const parsedModel = toString(req.model)
+    if (parsedModel === null) {
+      return { success: false, error: "model must be a string" }
+    }
+    model = sanitizeString(parsedModel).slice(0, 100) || undefined
+  }
+
+  const instructionParts: string[] = []
+  if (req.instructions !== undefined && req.instructions !== null) {
+    const parsedInstructions = toString(req.instructions)
+    if (parsedInstructions === null) {
+      return { success: false, error: "instructions must be a string" }
+    }
+    const instructions = sanitizeString(parsedInstructions)
+    if (instructions) instructionParts.push(instructions)
+  }
+
+  // Normalize input to a list of role/content messages
+  const inputMessages: Array<{ role: ResponsesInputRole; content: string }> = []
+  const rawInput = toString(req.input)
+  if (rawInput !== null) {
+    inputMessages.push({ role: "user", content: rawInput })
+  } else {
+    const items = toUnknownArray(req.input)
+    if (items === null) {
+      return { success: false, error: "input must be a string or an array of messages" }
+    }
+
+    for (let i = 0; i < items.length; i++) {
+      const item = toRecord(items[i])
+      if (!item) {
+        return { success: false, error: `Invalid input item at index ${i}` }
+      }
+      if (item.type !== undefined && item.type !== "message") {
+        return { success: false, error: `Unsupported input item type at index ${i}` }
+      }
+
+      const role = decodeResponsesInputRole(item.role)
+      if (role._tag !== "Right") {
+        return { success: false, error: `Invalid role at input index ${i}` }
+      }
+
+      const content = toResponsesInputText(item.content)
+      if (content === null) {
+        return { success: false, error: `Only text content is supported (input index ${i})` }
+      }
+
+      inputMessages.push({ role: role.right, content })
+    }
+  }
+
+  const conversation: Array<{ role: "user" | "assistant"; content: string }> = []
+  for (const inputMessage of inputMessages) {
+    const content = sanitizeString(inputMessage.content)
+    if (inputMessage.role === "system" || inputMessage.role === "developer") {
+      if (content) instructionParts.push(content)
+    } else {
+      conversation.push({ role: inputMessage.role, content })
+    }
+  }
+
+  const last = conversation.pop()
+  if (!last || last.role !== "user") {
+    return { success: false, error: "input must end with a user message" }
+  }
+  if (last.content.length === 0) {
+    return { success: false, error: "Message cannot be empty" }
+  }
+  if (last.content.length > MAX_MESSAGE_LENGTH) {
+    return {
+      success: false,
+      error: `Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`,
+    }
+  }
+
+  if (conversation.length > MAX_HISTORY_LENGTH) {
+    return {
+      success: false,
+      error: `History exceeds maximum length of ${MAX_HISTORY_LENGTH} messages`,
+    }
+  }
+  if (conversation.some((msg) => msg.content.length > MAX_HISTORY_CONTENT)) {
+    return { success: false, error: "Input message content exceeds maximum length" }
+  }
+
+  let stream = false
+  if (req.stream !== undefined && req.stream !== null) {
+    const parsedStream = toBoolean(req.stream)
+    if (parsedStream === null) {
+      return { success: false, error: "stream must be a boolean" }
+    }
+    stream = parsedStream
+  }
+
+  const now = Date.now()
+
+  return {
+    success: true,
+    data: {
+      model,
+      message: last.content,
+      instructions: instructionParts.length > 0 ? instructionParts.join("\n\n") : undefined,
+      history: conversation.map((msg, index) => ({
+        id: `input_${index}`,
+        role: msg.role,
+        content: msg.content,
+        timestamp: now,
+      })),
+      stream,
+      enableTools: req.tool_choice !== "none",
+    },
+  }
+}
+
 /**
  * Validate workspace file path to prevent directory traversal.
  */
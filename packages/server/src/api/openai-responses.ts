@@ -0,0 +1,264 @@
+import { Effect, Stream } from "effect"
+import type { ChatMessage, ResponseResource, ResponseStreamEvent } from "@bibboy/shared"
+import { createAgentServiceLive } from "../services/AgentService"
+import {
+  applyAgentStreamEvent,
+  createResponsesStreamEmitter,
+} from "../services/ResponsesStreamEmitter"
+import { isModelConfigured } from "../services/agent-service-model"
+import { extractAgentErrorMessage } from "../services/error-utils"
+import { getAllowedOrigin, getGlobalConfig, getResponsesApiKeyValue } from "../config"
+import { agentConfig } from "../agents/AgentConfig"
+import { createToolRegistry } from "../tools"
+import {
+  chatRateLimiter,
+  checkRateLimit,
+  getRateLimitHeaders,
+  streamRateLimiter,
+} from "./rate-limiter"
+import { validateResponsesRequest } from "./input-validation"
+import { readBearerToken, tokenMatches } from "./bearer-auth"
+
+// Load config at module level
+const appConfig = getGlobalConfig()
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type OpenAIErrorType = "invalid_request_error" | "server_error"
+
+/**
+ * CORS origin for the request, restricted to the configured origins.
+ */
+function corsOrigin(request: Request): string {
+  return getAllowedOrigin(appConfig, request.headers.get("origin"))
+}
+
+/**
+ * Error response in the OpenAI API shape, so SDK clients surface the message.
+ */
+function openAIErrorResponse(
+  request: Request,
+  status: number,
+  type: OpenAIErrorType,
+  message: string,
+  code: string | null = null
+): Response {
+  return new Response(
+    JSON.stringify({ error: { message, type, param: null, code } }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": corsOrigin(request),
+      },
+    }
+  )
+}
+
+/**
+ * Whether the request may run the agent's tools. Tools need the configured
+ * `RESPONSES_API_KEY`; without one the endpoint only chats. Returns an error
+ * response when a key is configured and the request doesn't present it.
+ */
+function authorizeRequest(request: Request): { toolsAllowed: boolean } | Response {
+  const apiKey = getResponsesApiKeyValue(appConfig)
+  if (!apiKey) return { toolsAllowed: false }
+
+  const presented = readBearerToken(request.headers.get("authorization"))
+  if (!presented || !tokenMatches(presented, apiKey)) {
+    return openAIErrorResponse(
+      request,
+      401,
+      "invalid_request_error",
+      "Missing or incorrect API key",
+      "invalid_api_key"
+    )
+  }
+  return { toolsAllowed: true }
+}
+
+/**
+ * Resolve the agent for the request `model`: an agent id selects that agent,
+ * anything else (or nothing) selects the default agent.
+ */
+function resolveAgentId(model: string | undefined): string {
+  return model && agentConfig.hasAgent(model) ? model : agentConfig.getDefaultAgentId()
+}
+
+// ============================================================================
+// Responses Handler
+// ============================================================================
+
+/**
+ * Handle `POST /v1/responses` (OpenAI Responses API).
+ *
+ * Maps the request onto a Bibboy agent and reuses the Responses stream
+ * emitter: with `stream: true` the events are sent as SSE, otherwise the
+ * final response resource is returned as JSON. When the client goes away
+ * the agent run is aborted.
+ */
+export async function handleResponsesRequest(request: Request): Promise<Response> {
+  const auth = authorizeRequest(request)
+  if (auth instanceof Response) return auth
+
+  let rawBody: unknown
+  try {
+    rawBody = await request.json()
+  } catch {
+    return openAIErrorResponse(request, 400, "invalid_request_error", "Request body must be valid JSON")
+  }
+
+  const validation = validateResponsesRequest(rawBody)
+  if (!validation.success) {
+    return openAIErrorResponse(request, 400, "invalid_request_error", validation.error)
+  }
+
+  const { model, message, instructions, history, stream } = validation.data
+  const enableTools = validation.data.enableTools && auth.toolsAllowed
+
+  const rateLimiter = stream ? streamRateLimiter : chatRateLimiter
+  const rateLimitResponse = checkRateLimit(request, rateLimiter)
+  if (rateLimitResponse) return rateLimitResponse
+
+  const agentId = resolveAgentId(model)
+  const agent = agentConfig.getAgent(agentId)
+  const modelRef = agent?.model.primary ?? ""
+  if (!isModelConfigured(appConfig, modelRef)) {
+    return openAIErrorResponse(
+      request,
+      500,
+      "server_error",
+      `Model provider not configured for "${modelRef}"`
+    )
+  }
+
+  // Instructions travel as a system message, like compaction summaries
+  const chatHistory: ChatMessage[] = [
+    ...(instructions
+      ? [{ id: "instructions", role: "system" as const, content: instructions, timestamp: Date.now() }]
+      : []),
+    ...history,
+  ]
+
+  const toolDefs = agent && enableTools
+    ? createToolRegistry(agent, () => chatHistory).getDefinitions(modelRef)
+    : []
+
+  const runAgent = (
+    emit: (event: ResponseStreamEvent) => void,
+    signal: AbortSignal
+  ): Promise<void> => {
+    const emitter = createResponsesStreamEmitter({
+      model: model ?? agentId,
+      // The emitter only produces Responses events, never session notifications
+      emit: (event) => {
+        if ("type" in event) emit(event)
+      },
+      responseExtras: {
+        instructions,
+        tool_choice: toolDefs.length > 0 ? "auto" : "none",
+        tools: toolDefs.length > 0 ? toolDefs : undefined,
+      },
+    })
+    emitter.start()
+
+    const agentService = createAgentServiceLive(() => chatHistory, agentId)
+
+    return Effect.runPromise(
+      agentService.runStream({ message, agentId, history: chatHistory, enableTools }).pipe(
+        Stream.runForEach((event) => Effect.sync(() => applyAgentStreamEvent(emitter, event))),
+        Effect.catchAll((error) =>
+          Effect.sync(() => emitter.fail(extractAgentErrorMessage(error)))
+        )
+      ),
+      { signal }
+    )
+  }
+
+  const rateLimitHeaders = getRateLimitHeaders(request, rateLimiter)
+
+  if (!stream) {
+    let finalResponse: ResponseResource | undefined
+    try {
+      await runAgent((event) => {
+        if (event.type === "response.completed" || event.type === "response.failed") {
+          finalResponse = event.response
+        }
+      }, request.signal)
+    } catch (error) {
+      // Nobody is left to answer when the client disconnected
+      if (!request.signal.aborted) throw error
+    }
+
+    if (!finalResponse || finalResponse.status === "failed") {
+      return openAIErrorResponse(
+        request,
+        500,
+        "server_error",
+        finalResponse?.error?.message ?? "Agent run did not complete"
+      )
+    }
+
+    return new Response(JSON.stringify(finalResponse), {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": corsOrigin(request),
+        ...rateLimitHeaders,
+      },
+    })
+  }
+
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  let closed = false
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (eventType: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${eventType}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // The client went away between the check and the write
+          closed = true
+          abort.abort()
+        }
+      }
+
+      try {
+        await runAgent((event) => send(event.type, event), abort.signal)
+      } catch (error) {
+        if (abort.signal.aborted) return
+        const errorEvent = {
+          type: "error",
+          error: {
+            code: "api_error",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+          sequence_number: 1,
+        }
+        send("error", errorEvent)
+      }
+      if (!closed) {
+        closed = true
+        controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+      abort.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "Access-Control-Allow-Origin": corsOrigin(request),
+      ...rateLimitHeaders,
+    },
+  })
+}
@@ -0,0 +1,61 @@
+import { Effect, Exit, Layer, ManagedRuntime } from "effect"
+import { ChatSessionManager } from "../services/ChatSessionManager"
+import { ChatProcessor } from "../services/ChatProcessor"
+import { SqliteSessionStoreLive } from "../services/SqliteSessionStore"
+import {
+  CanvasStateService,
+  CanvasStateServiceLive,
+} from "../services/CanvasStateService"
+
+// ============================================================================
+// Service Layer
+// ============================================================================
+
+// Sessions are persisted to SQLite so they survive server restarts
+const PersistentChatSessionManagerLive = Layer.provide(
+  ChatSessionManager.DefaultWithoutDependencies,
+  SqliteSessionStoreLive
+)
+
+const SharedServicesLive = Layer.mergeAll(
+  PersistentChatSessionManagerLive,
+  CanvasStateServiceLive
+)
+
+const SessionServicesLive = Layer.mergeAll(
+  SharedServicesLive,
+  Layer.provide(ChatProcessor.DefaultWithoutDependencies, SharedServicesLive)
+)
+
+export type SessionServices = ChatSessionManager | ChatProcessor | CanvasStateService
+
+// One runtime for the lifetime of the server, shared by the WebSocket
+// handler and the session HTTP API so both see the same live sessions
+const managedRuntime = ManagedRuntime.make(SessionServicesLive)
+
+// ============================================================================
+// Runners
+// ============================================================================
+
+/**
+ * Run an effect with the session services runtime.
+ */
+export const runSessionEffect = <A, E>(
+  effect: Effect.Effect<A, E, SessionServices>
+): Promise<Exit.Exit<A, E>> => managedRuntime.runPromiseExit(effect)
+
+/**
+ * Lift an effect needing session services into a context-free effect,
+ * for handlers that run in another runtime (HttpApi).
+ */
+export const withSessionServices = <A, E>(
+  effect: Effect.Effect<A, E, SessionServices>
+): Effect.Effect<A, E> =>
+  Effect.flatten(Effect.promise(() => runSessionEffect(effect)))
+
+/**
+ * Dispose the session services runtime.
+ */
+export async function disposeSessionRuntime(): Promise<void> {
+  await managedRuntime.dispose()
+}
@@ -1,42 +1,9 @@
 import { Schema } from "effect"
 
-const GeminiSuggestionPartSchema = Schema.Struct({
-  text: Schema.optional(Schema.String),
-})
-
-const GeminiSuggestionCandidateSchema = Schema.Struct({
-  content: Schema.optional(
-    Schema.Struct({
-      parts: Schema.Array(GeminiSuggestionPartSchema),
-    })
-  ),
-})
-
-const GeminiSuggestionResponseSchema = Schema.Struct({
-  candidates: Schema.optional(Schema.Array(GeminiSuggestionCandidateSchema)),
-})
-
 const SuggestionsArraySchema = Schema.Array(Schema.String)
 
-const decodeGeminiSuggestionResponse = Schema.decodeUnknownEither(
-  GeminiSuggestionResponseSchema
-)
 const decodeSuggestionsArray = Schema.decodeUnknownEither(SuggestionsArraySchema)
 
-export function extractSuggestionPayloadFromGemini(data: unknown): string | null {
-  const decoded = decodeGeminiSuggestionResponse(data)
-  if (decoded._tag !== "Right") {
-    return null
-  }
-
-  const content = decoded.right.candidates?.[0]?.content?.parts
-    ?.map((part) => part.text ?? "")
-    .filter(Boolean)
-    .join("")
-
-  return content ?? null
-}
-
 export function parseSuggestionsArray(content: string): string[] | null {
   const normalized = content.replace(/```json?\n?|\n?```/g, "").trim()
 
@@ -47,6 +14,12 @@ export function parseSuggestionsArray(content: string): string[] | null {
     return null
   }
 
+  // JSON mode of OpenAI-compatible providers only returns objects,
+  // e.g. {"suggestions": [...]}
+  if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+    parsed = Object.values(parsed).find(Array.isArray)
+  }
+
   const decoded = decodeSuggestionsArray(parsed)
   if (decoded._tag !== "Right") {
     return null
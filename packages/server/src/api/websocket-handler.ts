@@ -1,48 +1,42 @@
-import { Effect, Option, Layer, Exit, Cause, ManagedRuntime } from "effect"
+import { Effect, Option, Exit, Cause } from "effect"
 import type { ServerWebSocket, Server } from "bun"
 import { Schema } from "effect"
 import {
   ClientMessageSchema,
   JSON_RPC_ERRORS,
+  getActivePath,
   type CanvasStateSnapshotNotification,
   type SoulStateSnapshotNotification,
   type ClientMessage,
   type JsonRpcSuccessResponse,
   type JsonRpcErrorResponse,
+  type InvalidMessageError,
+  type SessionNotFoundError,
 } from "@bibboy/shared"
 import {
   ChatSessionManager,
-  ChatSessionManagerLive,
   generateSessionId,
   type SessionData,
 } from "../services/ChatSessionManager"
-import { ChatProcessor, ChatProcessorLive } from "../services/ChatProcessor"
+import { ChatProcessor } from "../services/ChatProcessor"
+import { CanvasStateService } from "../services/CanvasStateService"
 import {
-  CanvasStateService,
-  CanvasStateServiceLive,
-} from "../services/CanvasStateService"
-import { getSoulSession, pruneSoulSessions } from "../services/SoulStateService"
+  getSoulSession,
+  loadSoulState,
+  pruneSoulSessions,
+} from "../services/SoulStateService"
+import { notifyMemorySyncSessionStart } from "../memory/MemorySync"
+import { flushSessionTranscripts } from "../memory/MemoryService"
+import { discoverMcpTools } from "../mcp"
+import { agentConfig } from "../agents/AgentConfig"
+import { disposeSessionRuntime, runSessionEffect } from "./session-runtime"
 
 // ============================================================================
-// Service Layer
+// Service Runtime
 // ============================================================================
 
-const SharedServicesLive = Layer.mergeAll(ChatSessionManagerLive, CanvasStateServiceLive)
-
-const WebSocketServicesLive = Layer.mergeAll(
-  SharedServicesLive,
-  Layer.provide(ChatProcessorLive, SharedServicesLive)
-)
-
-// Create a managed runtime that stays alive for the lifetime of the server
-const managedRuntime = ManagedRuntime.make(WebSocketServicesLive)
-
-// Run an effect with the services runtime
-const runEffect = async <A, E>(
-  effect: Effect.Effect<A, E, ChatSessionManager | ChatProcessor | CanvasStateService>
-): Promise<Exit.Exit<A, E>> => {
-  return managedRuntime.runPromiseExit(effect)
-}
+// Run an effect with the shared session services runtime
+const runEffect = runSessionEffect
 
 // ============================================================================
 // JSON-RPC Response Helpers
@@ -69,6 +63,50 @@ function createErrorResponse(
   }
 }
 
+/**
+ * Map a chat request failure to its JSON-RPC error response.
+ */
+function createChatErrorResponse(
+  id: string,
+  error: SessionNotFoundError | InvalidMessageError
+): JsonRpcErrorResponse {
+  if (error._tag === "InvalidMessageError") {
+    return createErrorResponse(id, JSON_RPC_ERRORS.INVALID_PARAMS, error.reason)
+  }
+  return createErrorResponse(
+    id,
+    JSON_RPC_ERRORS.SESSION_NOT_FOUND,
+    error.sessionId ? `Session not found: ${error.sessionId}` : "Session error"
+  )
+}
+
+// ============================================================================
+// Soul State Rehydration
+// ============================================================================
+
+/**
+ * Send the soul state snapshot for a session, preferring the live soul session
+ * and falling back to the durable state for the user's identity.
+ */
+function sendSoulSnapshot(
+  ws: ServerWebSocket<SessionData>,
+  sessionId: string,
+  userId: string | null
+): void {
+  const state = getSoulSession(sessionId)?.getState() ?? (userId ? loadSoulState(userId) : null)
+  if (!state) return
+
+  const notification: SoulStateSnapshotNotification = {
+    jsonrpc: "2.0",
+    method: "soul.state_snapshot",
+    params: {
+      sessionId,
+      state,
+    },
+  }
+  ws.send(JSON.stringify(notification))
+}
+
 // ============================================================================
 // Message Parsing
 // ============================================================================
@@ -128,15 +166,87 @@ const handleClientMessage = (
           .pipe(
             Effect.map((r) => createSuccessResponse(message.id, r)),
             Effect.catchAll((error) =>
-              Effect.succeed(
-                createErrorResponse(
-                  message.id,
-                  JSON_RPC_ERRORS.SESSION_NOT_FOUND,
-                  error.sessionId
-                    ? `Session not found: ${error.sessionId}`
-                    : "Session error"
-                )
-              )
+              Effect.succeed(createChatErrorResponse(message.id, error))
+            )
+          )
+        ws.send(JSON.stringify(result))
+        break
+      }
+
+      case "chat.edit": {
+        const result = yield* chatProcessor
+          .editMessage(
+            sessionId,
+            message.params.messageId,
+            message.params.message,
+            message.params.agentId,
+            message.params.characterState
+          )
+          .pipe(
+            Effect.map((r) => createSuccessResponse(message.id, r)),
+            Effect.catchAll((error) =>
+              Effect.succeed(createChatErrorResponse(message.id, error))
+            )
+          )
+        ws.send(JSON.stringify(result))
+        break
+      }
+
+      case "chat.regenerate": {
+        const result = yield* chatProcessor
+          .regenerateMessage(
+            sessionId,
+            message.params.agentId,
+            message.params.characterState
+          )
+          .pipe(
+            Effect.map((r) => createSuccessResponse(message.id, r)),
+            Effect.catchAll((error) =>
+              Effect.succeed(createChatErrorResponse(message.id, error))
+            )
+          )
+        ws.send(JSON.stringify(result))
+        break
+      }
+
+      case "chat.select_branch": {
+        const result = yield* chatProcessor
+          .selectBranch(sessionId, message.params.messageId)
+          .pipe(
+            Effect.map((r) => createSuccessResponse(message.id, r)),
+            Effect.catchAll((error) =>
+              Effect.succeed(createChatErrorResponse(message.id, error))
+            )
+          )
+        ws.send(JSON.stringify(result))
+        break
+      }
+
+      case "chat.queue_remove": {
+        const result = yield* chatProcessor
+          .removeQueuedMessage(sessionId, message.params.queueId)
+          .pipe(
+            Effect.map((r) => createSuccessResponse(message.id, r)),
+            Effect.catchAll((error) =>
+              Effect.succeed(createChatErrorResponse(message.id, error))
+            )
+          )
+        ws.send(JSON.stringify(result))
+        break
+      }
+
+      case "chat.tool_approve":
+      case "chat.tool_deny": {
+        const result = yield* chatProcessor
+          .resolveToolApproval(
+            sessionId,
+            message.params.approvalId,
+            message.method === "chat.tool_approve"
+          )
+          .pipe(
+            Effect.map((r) => createSuccessResponse(message.id, r)),
+            Effect.catchAll((error) =>
+              Effect.succeed(createChatErrorResponse(message.id, error))
             )
           )
         ws.send(JSON.stringify(result))
@@ -178,14 +288,17 @@ export const websocketHandlers = {
    */
   async open(ws: ServerWebSocket<SessionData>) {
     const sessionId = ws.data.sessionId
+    const userId = ws.data.userId
     console.log(`[WebSocket] Connection opened for session: ${sessionId}`)
 
     const effect = Effect.gen(function* () {
       const sessionManager = yield* ChatSessionManager
       const canvasState = yield* CanvasStateService
+      const chatProcessor = yield* ChatProcessor
 
-      // Check if session exists (reconnection)
-      const maybeSession = yield* sessionManager.getSession(sessionId)
+      // Check if session exists (reconnection), rehydrating it from the
+      // session store if it outlived a server restart
+      const maybeSession = yield* sessionManager.restoreSession(sessionId)
 
       if (Option.isSome(maybeSession)) {
         // Existing session - attach socket and flush pending notifications
@@ -202,11 +315,17 @@ export const websocketHandlers = {
             method: "session.resumed",
             params: {
               sessionId,
-              messageCount: session.messages.length,
+              messageCount: getActivePath(session).length,
+              queue: session.messageQueue,
+              pendingApprovals: yield* chatProcessor.getPendingApprovals(sessionId),
+              lastSequence: yield* sessionManager.getLastSequence(sessionId),
             },
           })
         )
 
+        // Pick up messages left queued by a restart
+        yield* chatProcessor.resumeQueue(sessionId)
+
         // Send canvas snapshot for builder rehydration if available
         const snapshot = yield* canvasState.getSnapshot(sessionId)
         if (Option.isSome(snapshot)) {
@@ -222,25 +341,31 @@ export const websocketHandlers = {
           ws.send(JSON.stringify(notification))
         }
 
-        // Send soul state snapshot for rehydration if available
-        const soulSession = getSoulSession(sessionId)
-        if (soulSession) {
-          const soulNotification: SoulStateSnapshotNotification = {
-            jsonrpc: "2.0",
-            method: "soul.state_snapshot",
-            params: {
-              sessionId,
-              state: soulSession.getState(),
-            },
-          }
-          ws.send(JSON.stringify(soulNotification))
+        // Bind sessions created before the client sent an identity
+        if (session.userId === null && userId) {
+          yield* sessionManager
+            .updateSession(sessionId, (s) => ({ ...s, userId }))
+            .pipe(Effect.ignore)
         }
+
+        // Send soul state snapshot for rehydration if available
+        sendSoulSnapshot(ws, sessionId, session.userId ?? userId ?? null)
       } else {
         // New session
         console.log(`[WebSocket] Creating new session: ${sessionId}`)
-        yield* sessionManager.createSession(sessionId)
+        yield* sessionManager.createSession(sessionId, userId)
         yield* sessionManager.attachSocket(sessionId, ws)
         console.log(`[WebSocket] Session created and socket attached: ${sessionId}`)
+
+        // Refresh memory indexes configured with sync.onSessionStart
+        notifyMemorySyncSessionStart()
+
+        // Start the default agent's MCP servers before the first message
+        const defaultAgent = agentConfig.getAgent(agentConfig.getDefaultAgentId())
+        if (defaultAgent) void discoverMcpTools(defaultAgent)
+
+        // Returning users get their companion's accumulated soul state
+        sendSoulSnapshot(ws, sessionId, userId ?? null)
       }
     })
 
@@ -298,10 +423,21 @@ export const websocketHandlers = {
 
     const effect = Effect.gen(function* () {
       const sessionManager = yield* ChatSessionManager
-      yield* sessionManager.detachSocket(sessionId)
+      const chatProcessor = yield* ChatProcessor
+      yield* sessionManager.detachSocket(sessionId, ws.data.connectionId)
+
+      // Nobody is left to answer the agent's approval requests
+      if (!(yield* sessionManager.isConnected(sessionId))) {
+        yield* chatProcessor.denyPendingApprovals(sessionId)
+      }
     })
 
     await runEffect(effect)
+
+    // Index the tail of the transcript that hasn't crossed the delta thresholds yet
+    await flushSessionTranscripts(sessionId).catch((error) => {
+      console.warn(`[WebSocket] Transcript flush failed for ${sessionId}: ${error}`)
+    })
   },
 
   /**
@@ -316,6 +452,9 @@ export const websocketHandlers = {
 // WebSocket Upgrade Handler
 // ============================================================================
 
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+const SEQUENCE_PATTERN = /^\d{1,15}$/
+
 /**
  * Handle WebSocket upgrade requests.
  * Returns undefined if the upgrade was successful, or a Response if it failed.
@@ -333,11 +472,23 @@ export function handleWebSocketUpgrade(
   // Get or generate session ID
   const sessionId = url.searchParams.get("sessionId") || generateSessionId()
 
+  // Optional stable user identity (ignored if malformed)
+  const rawUserId = url.searchParams.get("userId")
+  const userId = rawUserId && USER_ID_PATTERN.test(rawUserId) ? rawUserId : undefined
+
+  // Last response event a reconnecting client saw (ignored if malformed)
+  const rawLastSequence = url.searchParams.get("lastSeq")
+  const lastSequence =
+    rawLastSequence && SEQUENCE_PATTERN.test(rawLastSequence) ? Number(rawLastSequence) : undefined
+
   // Attempt upgrade
   const upgraded = server.upgrade(request, {
     data: {
       sessionId,
+      connectionId: `conn_${crypto.randomUUID()}`,
       connectedAt: Date.now(),
+      userId,
+      lastSequence,
     },
   })
 
@@ -370,11 +521,13 @@ export function startSessionCleanup(intervalMs: number = 10_000): void {
         console.log(`🧹 Cleaned up ${removed} expired WebSocket sessions`)
       }
 
-      // Keep canvas state and soul sessions aligned with live chat sessions.
+      // Keep canvas state, soul sessions and approvals aligned with live chat sessions.
       const canvasState = yield* CanvasStateService
+      const chatProcessor = yield* ChatProcessor
       const activeSessionIds = yield* sessionManager.listSessionIds()
       yield* canvasState.pruneSessions(activeSessionIds)
       pruneSoulSessions(activeSessionIds)
+      yield* chatProcessor.pruneApprovals(activeSessionIds)
     })
 
     await runEffect(effect)
@@ -395,7 +548,7 @@ export function stopSessionCleanup(): void {
  * Dispose the WebSocket services runtime
  */
 export async function disposeWebSocketRuntime(): Promise<void> {
-  await managedRuntime.dispose()
+  await disposeSessionRuntime()
 }
 
 // ============================================================================
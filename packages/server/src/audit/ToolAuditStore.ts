@@ -0,0 +1,203 @@
+import { Database } from "bun:sqlite"
+import path from "node:path"
+import fs from "node:fs"
+import type { ToolAuditEntry } from "@bibboy/shared"
+import { getGlobalConfig } from "../config"
+import type { ToolCallRecord } from "../tools/types"
+import { buildToolAuditQuery, sanitizeAuditArgs, type ToolAuditFilter } from "./tool-audit-query"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolAuditStoreOptions {
+  dbPath?: string
+}
+
+/** One tool call to append to the log. */
+export interface ToolAuditRecord {
+  sessionId: string | null
+  agentId: string
+  toolCallId: string
+  toolName: string
+  args: Record<string, unknown>
+  durationMs: number
+  error: string | null
+  resultSize: number
+  createdAt: number
+}
+
+interface ToolAuditRow {
+  id: number
+  session_id: string | null
+  agent_id: string
+  tool_call_id: string
+  tool_name: string
+  args: string
+  duration_ms: number
+  error: string | null
+  result_size: number
+  created_at: number
+}
+
+// ============================================================================
+// SQLite Tool Audit Store
+// ============================================================================
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+}
+
+function resolveDbPath(options?: ToolAuditStoreOptions): string {
+  if (options?.dbPath) {
+    return options.dbPath
+  }
+  return path.join(getGlobalConfig().agentStateDir, "tool-audit.sqlite")
+}
+
+function rowToEntry(row: ToolAuditRow): ToolAuditEntry {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    agentId: row.agent_id,
+    toolCallId: row.tool_call_id,
+    toolName: row.tool_name,
+    arguments: JSON.parse(row.args) as Record<string, unknown>,
+    durationMs: row.duration_ms,
+    error: row.error,
+    resultSize: row.result_size,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Append-only log of every tool call. Rows cannot be updated or deleted;
+ * triggers reject both.
+ */
+export class ToolAuditStore {
+  private db: Database
+
+  constructor(options?: ToolAuditStoreOptions) {
+    const dbPath = resolveDbPath(options)
+    ensureDir(path.dirname(dbPath))
+
+    this.db = new Database(dbPath)
+    this.db.run("PRAGMA journal_mode = WAL")
+    this.initSchema()
+  }
+
+  private initSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS tool_audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT,
+        agent_id TEXT NOT NULL,
+        tool_call_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        error TEXT,
+        result_size INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `)
+
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS tool_audit_no_update BEFORE UPDATE ON tool_audit
+      BEGIN SELECT RAISE(ABORT, 'tool_audit is append-only'); END
+    `)
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS tool_audit_no_delete BEFORE DELETE ON tool_audit
+      BEGIN SELECT RAISE(ABORT, 'tool_audit is append-only'); END
+    `)
+
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_tool_audit_created_at ON tool_audit(created_at)")
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_tool_audit_session ON tool_audit(session_id, created_at)")
+    this.db.run("CREATE INDEX IF NOT EXISTS idx_tool_audit_tool ON tool_audit(tool_name, created_at)")
+  }
+
+  append(record: ToolAuditRecord): void {
+    this.db.run(
+      `INSERT INTO tool_audit (
+        session_id, agent_id, tool_call_id, tool_name, args,
+        duration_ms, error, result_size, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.sessionId,
+        record.agentId,
+        record.toolCallId,
+        record.toolName,
+        JSON.stringify(sanitizeAuditArgs(record.args)),
+        Math.round(record.durationMs),
+        record.error,
+        record.resultSize,
+        record.createdAt,
+      ]
+    )
+  }
+
+  query(filter?: ToolAuditFilter): ToolAuditEntry[] {
+    const { sql, params } = buildToolAuditQuery(filter)
+    return this.db
+      .query<ToolAuditRow, Array<string | number>>(sql)
+      .all(...params)
+      .map(rowToEntry)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+// ============================================================================
+// Singleton Instance Management
+// ============================================================================
+
+let store: ToolAuditStore | null = null
+
+/**
+ * Get the shared tool audit store, opening it on first use.
+ */
+export function getToolAuditStore(): ToolAuditStore {
+  if (!store) {
+    store = new ToolAuditStore()
+  }
+  return store
+}
+
+/**
+ * Close the shared tool audit store.
+ */
+export function closeToolAuditStore(): void {
+  store?.close()
+  store = null
+}
+
+/**
+ * Create a `recordToolCall` hook that appends each finished call of a run to
+ * the audit log. Write failures are logged and never fail the tool call.
+ */
+export function createToolAuditRecorder(
+  sessionId: string | undefined,
+  agentId: string
+): (record: ToolCallRecord) => void {
+  return ({ call, result, durationMs }) => {
+    try {
+      getToolAuditStore().append({
+        sessionId: sessionId ?? null,
+        agentId,
+        toolCallId: call.id,
+        toolName: call.name,
+        args: call.args,
+        durationMs,
+        error: result.error ?? null,
+        resultSize: result.content.reduce((size, block) => size + block.text.length, 0),
+        createdAt: Date.now(),
+      })
+    } catch (error) {
+      console.error("[ToolAudit] Failed to record tool call:", error)
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export {
+  ToolAuditStore,
+  getToolAuditStore,
+  closeToolAuditStore,
+  createToolAuditRecorder,
+} from "./ToolAuditStore"
+export type { ToolAuditRecord, ToolAuditStoreOptions } from "./ToolAuditStore"
+
+export {
+  sanitizeAuditArgs,
+  buildToolAuditQuery,
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  MAX_AUDIT_QUERY_LIMIT,
+} from "./tool-audit-query"
+export type { ToolAuditFilter, ToolAuditQuery } from "./tool-audit-query"
@@ -0,0 +1,147 @@
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Filters for querying the tool audit log. All filters combine with AND.
+ */
+export interface ToolAuditFilter {
+  sessionId?: string
+  /** Only calls from these sessions (none when empty) */
+  sessionIds?: readonly string[]
+  agentId?: string
+  /** Exact tool name, or a pattern with `*` wildcards (e.g. `mcp__*`) */
+  toolName?: string
+  /** Only successful or only failed calls */
+  status?: "ok" | "error"
+  /** Substring matched against the sanitized arguments (e.g. a URL) */
+  search?: string
+  /** Only calls recorded at or after this time (ms since epoch) */
+  since?: number
+  /** Only calls recorded before this time (ms since epoch) */
+  until?: number
+  limit?: number
+}
+
+export interface ToolAuditQuery {
+  sql: string
+  params: Array<string | number>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100
+export const MAX_AUDIT_QUERY_LIMIT = 1000
+
+/** Longest string argument kept in the log; the rest is cut off */
+const MAX_AUDIT_STRING_LENGTH = 500
+const MAX_AUDIT_DEPTH = 4
+
+/** Argument keys whose values are never written to the log */
+const SENSITIVE_KEY_PATTERN =
+  /(api[-_]?key|token|secret|password|passwd|authorization|cookie|credential|private[-_]?key)/i
+
+// ============================================================================
+// Argument Sanitizing
+// ============================================================================
+
+function sanitizeValue(value: unknown, depth: number): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_AUDIT_STRING_LENGTH
+      ? `${value.slice(0, MAX_AUDIT_STRING_LENGTH)}… [${value.length - MAX_AUDIT_STRING_LENGTH} more chars]`
+      : value
+  }
+  if (value === null || typeof value !== "object") return value
+  if (depth >= MAX_AUDIT_DEPTH) return "[nested]"
+  if (Array.isArray(value)) return value.map((item) => sanitizeValue(item, depth + 1))
+  return sanitizeRecord(value as Record<string, unknown>, depth + 1)
+}
+
+function sanitizeRecord(record: Record<string, unknown>, depth: number): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      SENSITIVE_KEY_PATTERN.test(key) ? "[redacted]" : sanitizeValue(value, depth),
+    ])
+  )
+}
+
+/**
+ * Prepare tool arguments for the audit log: values under secret-looking keys
+ * are redacted, long strings truncated and deep nesting collapsed.
+ */
+export function sanitizeAuditArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return sanitizeRecord(args, 0)
+}
+
+// ============================================================================
+// Query Building
+// ============================================================================
+
+/** Escape LIKE wildcards so user input matches literally (ESCAPE '\') */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Build the SELECT for a filter, newest calls first. The limit defaults to
+ * DEFAULT_AUDIT_QUERY_LIMIT and is capped at MAX_AUDIT_QUERY_LIMIT.
+ */
+export function buildToolAuditQuery(filter: ToolAuditFilter = {}): ToolAuditQuery {
+  const conditions: string[] = []
+  const params: Array<string | number> = []
+
+  if (filter.sessionId) {
+    conditions.push("session_id = ?")
+    params.push(filter.sessionId)
+  }
+  if (filter.sessionIds) {
+    conditions.push(
+      filter.sessionIds.length > 0
+        ? `session_id IN (${filter.sessionIds.map(() => "?").join(", ")})`
+        : "0"
+    )
+    params.push(...filter.sessionIds)
+  }
+  if (filter.agentId) {
+    conditions.push("agent_id = ?")
+    params.push(filter.agentId)
+  }
+  if (filter.toolName) {
+    if (filter.toolName.includes("*")) {
+      conditions.push("tool_name LIKE ? ESCAPE '\\'")
+      params.push(filter.toolName.split("*").map(escapeLike).join("%"))
+    } else {
+      conditions.push("tool_name = ?")
+      params.push(filter.toolName)
+    }
+  }
+  if (filter.status === "ok") conditions.push("error IS NULL")
+  if (filter.status === "error") conditions.push("error IS NOT NULL")
+  if (filter.search) {
+    conditions.push("args LIKE ? ESCAPE '\\'")
+    params.push(`%${escapeLike(filter.search)}%`)
+  }
+  if (filter.since !== undefined) {
+    conditions.push("created_at >= ?")
+    params.push(filter.since)
+  }
+  if (filter.until !== undefined) {
+    conditions.push("created_at < ?")
+    params.push(filter.until)
+  }
+
+  const limit = Math.min(
+    Math.max(1, Math.floor(filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT)),
+    MAX_AUDIT_QUERY_LIMIT
+  )
+  params.push(limit)
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""
+  return {
+    sql: `SELECT * FROM tool_audit${where} ORDER BY created_at DESC, id DESC LIMIT ?`,
+    params,
+  }
+}
@@ -31,6 +31,16 @@ const parseNodeEnv = (value: string | undefined): NodeEnv => {
 export interface AppConfigData {
   /** Gemini API key (required for AI chat and embedding features) */
   readonly geminiApiKey: Option.Option<Secret.Secret>
+  /** API key for the `openai/` model provider */
+  readonly openaiApiKey: Option.Option<Secret.Secret>
+  /** Base URL override for the `openai/` provider (any OpenAI-compatible server) */
+  readonly openaiBaseUrl: Option.Option<string>
+  /** Fixture file replayed by the `scripted/` model provider (tests, offline runs) */
+  readonly scriptedModelFixture: Option.Option<string>
+  /** Bearer token that grants unscoped access to the tool audit log */
+  readonly auditApiToken: Option.Option<Secret.Secret>
+  /** Bearer key required by `POST /v1/responses`; without it the endpoint runs no tools */
+  readonly responsesApiKey: Option.Option<Secret.Secret>
   /** Server port */
   readonly port: number
   /** Allowed CORS origins */
@@ -93,6 +103,29 @@ const AppConfigEffect = Effect.gen(function* () {
     Config.option
   )
 
+  // OpenAI-compatible provider (optional)
+  const openaiApiKey = yield* Config.secret("OPENAI_API_KEY").pipe(
+    Config.option
+  )
+  const openaiBaseUrl = yield* Config.string("OPENAI_BASE_URL").pipe(
+    Config.option
+  )
+
+  // Scripted model fixture (optional)
+  const scriptedModelFixture = yield* Config.string("SCRIPTED_MODEL_FIXTURE").pipe(
+    Config.option
+  )
+
+  // Tool audit admin token (optional)
+  const auditApiToken = yield* Config.secret("AUDIT_API_TOKEN").pipe(
+    Config.option
+  )
+
+  // OpenAI Responses endpoint key (optional)
+  const responsesApiKey = yield* Config.secret("RESPONSES_API_KEY").pipe(
+    Config.option
+  )
+
   // Server port
   const port = yield* Config.number("PORT").pipe(
     Config.withDefault(DEFAULT_PORT)
@@ -129,6 +162,11 @@ const AppConfigEffect = Effect.gen(function* () {
 
   return {
     geminiApiKey,
+    openaiApiKey,
+    openaiBaseUrl,
+    scriptedModelFixture,
+    auditApiToken,
+    responsesApiKey,
     port,
     allowedOrigins,
     nodeEnv,
@@ -176,6 +214,22 @@ export const getGeminiApiKeyValue = (config: AppConfigData): string | undefined
     ? Secret.value(config.geminiApiKey.value)
     : undefined
 
+/**
+ * Get OpenAI API key value, or undefined if not set.
+ */
+export const getOpenAIApiKeyValue = (config: AppConfigData): string | undefined =>
+  Option.isSome(config.openaiApiKey)
+    ? Secret.value(config.openaiApiKey.value)
+    : undefined
+
+/**
+ * Get the `POST /v1/responses` bearer key, or undefined if not set.
+ */
+export const getResponsesApiKeyValue = (config: AppConfigData): string | undefined =>
+  Option.isSome(config.responsesApiKey)
+    ? Secret.value(config.responsesApiKey.value)
+    : undefined
+
 /**
  * Get agent config JSON, or undefined if not set.
  */
@@ -236,6 +290,27 @@ export function loadConfigSync(): AppConfigData {
     ? Option.some(Secret.fromString(geminiApiKeyRaw))
     : Option.none()
 
+  const openaiApiKeyRaw = process.env.OPENAI_API_KEY
+  const openaiApiKey = openaiApiKeyRaw
+    ? Option.some(Secret.fromString(openaiApiKeyRaw))
+    : Option.none()
+  const openaiBaseUrlRaw = process.env.OPENAI_BASE_URL
+  const openaiBaseUrl = openaiBaseUrlRaw
+    ? Option.some(openaiBaseUrlRaw)
+    : Option.none()
+  const scriptedModelFixtureRaw = process.env.SCRIPTED_MODEL_FIXTURE
+  const scriptedModelFixture = scriptedModelFixtureRaw
+    ? Option.some(scriptedModelFixtureRaw)
+    : Option.none()
+  const auditApiTokenRaw = process.env.AUDIT_API_TOKEN
+  const auditApiToken = auditApiTokenRaw
+    ? Option.some(Secret.fromString(auditApiTokenRaw))
+    : Option.none()
+  const responsesApiKeyRaw = process.env.RESPONSES_API_KEY
+  const responsesApiKey = responsesApiKeyRaw
+    ? Option.some(Secret.fromString(responsesApiKeyRaw))
+    : Option.none()
+
   const portRaw = process.env.PORT
   const portParsed = portRaw ? parseInt(portRaw, 10) : DEFAULT_PORT
   const port = !isNaN(portParsed) && portParsed > 0 && portParsed < 65536 ? portParsed : DEFAULT_PORT
@@ -264,6 +339,11 @@ export function loadConfigSync(): AppConfigData {
 
   return {
     geminiApiKey,
+    openaiApiKey,
+    openaiBaseUrl,
+    scriptedModelFixture,
+    auditApiToken,
+    responsesApiKey,
     port,
     allowedOrigins,
     nodeEnv,
@@ -14,6 +14,8 @@ export {
   // Helpers
   hasGeminiApiKey,
   getGeminiApiKeyValue,
+  getOpenAIApiKeyValue,
+  getResponsesApiKeyValue,
   getAgentConfigValue,
   isDevelopment,
   isProduction,
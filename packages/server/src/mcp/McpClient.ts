@@ -0,0 +1,456 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process"
+import { Schema } from "effect"
+import type { McpServerConfig } from "../agents/AgentConfig"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A tool advertised by an MCP server (`tools/list`) */
+export interface McpToolInfo {
+  name: string
+  description?: string
+  /** JSON Schema of the tool arguments */
+  inputSchema?: Record<string, unknown>
+}
+
+/** A content block of a `tools/call` result */
+export interface McpContentBlock {
+  type: string
+  text?: string
+  mimeType?: string
+  [key: string]: unknown
+}
+
+export interface McpCallResult {
+  content: McpContentBlock[]
+  isError: boolean
+}
+
+/**
+ * Moves JSON-RPC messages to and from one server. Requests resolve with the
+ * `result` member and reject with the `error` member.
+ */
+interface McpTransport {
+  readonly closed: boolean
+  request(method: string, params: unknown, timeoutMs: number): Promise<unknown>
+  notify(method: string, params?: unknown): Promise<void>
+  close(): void
+}
+
+export class McpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message)
+    this.name = "McpError"
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18"
+
+/** Per-request timeout when the server entry sets none */
+export const DEFAULT_MCP_TIMEOUT_MS = 30_000
+
+const CLIENT_INFO = { name: "bibboy", version: "1.0.0" }
+
+/** Pages of `tools/list` followed before giving up on a looping cursor */
+const MAX_TOOL_PAGES = 20
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const JsonRpcErrorSchema = Schema.Struct({
+  code: Schema.Number,
+  message: Schema.String,
+})
+
+const JsonRpcResponseSchema = Schema.Struct({
+  id: Schema.Union(Schema.Number, Schema.String),
+  result: Schema.optional(Schema.Unknown),
+  error: Schema.optional(JsonRpcErrorSchema),
+})
+
+const ListToolsResultSchema = Schema.Struct({
+  tools: Schema.Array(
+    Schema.Struct({
+      name: Schema.String,
+      description: Schema.optional(Schema.String),
+      inputSchema: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+    })
+  ),
+  nextCursor: Schema.optional(Schema.String),
+})
+
+const CallToolResultSchema = Schema.Struct({
+  content: Schema.Array(
+    Schema.Struct({ type: Schema.String }, { key: Schema.String, value: Schema.Unknown })
+  ),
+  isError: Schema.optional(Schema.Boolean),
+})
+
+const decodeResponse = Schema.decodeUnknownOption(JsonRpcResponseSchema)
+const decodeListTools = Schema.decodeUnknownSync(ListToolsResultSchema)
+const decodeCallTool = Schema.decodeUnknownSync(CallToolResultSchema)
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type JsonRpcResponse = typeof JsonRpcResponseSchema.Type
+
+function toResult(response: JsonRpcResponse): unknown {
+  if (response.error) {
+    throw new McpError(response.error.message, response.error.code)
+  }
+  return response.result ?? {}
+}
+
+function isRequest(message: unknown): message is { id: number | string; method: string } {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    "method" in message &&
+    "id" in message
+  )
+}
+
+/**
+ * Collect the JSON-RPC messages of a `text/event-stream` body.
+ */
+function parseEventStream(body: string): unknown[] {
+  const messages: unknown[] = []
+  for (const event of body.split(/\r?\n\r?\n/)) {
+    const data = event
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n")
+    if (!data) continue
+    try {
+      messages.push(JSON.parse(data))
+    } catch {
+      // Ignore keep-alives and other non-JSON events
+    }
+  }
+  return messages
+}
+
+// ============================================================================
+// Stdio Transport
+// ============================================================================
+
+interface PendingRequest {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Newline-delimited JSON-RPC over a child process's stdin/stdout.
+ */
+class StdioTransport implements McpTransport {
+  private readonly child: ChildProcessWithoutNullStreams
+  private readonly pending = new Map<number, PendingRequest>()
+  private buffer = ""
+  private nextId = 1
+  closed = false
+
+  constructor(
+    private readonly serverName: string,
+    config: Extract<McpServerConfig, { command: string }>
+  ) {
+    this.child = spawn(config.command, config.args ? [...config.args] : [], {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    })
+
+    this.child.stdout.setEncoding("utf8")
+    this.child.stdout.on("data", (chunk: string) => this.onData(chunk))
+    this.child.stderr.setEncoding("utf8")
+    this.child.stderr.on("data", (chunk: string) => {
+      for (const line of chunk.split("\n")) {
+        if (line.trim()) console.warn(`[MCP:${serverName}] ${line.trim()}`)
+      }
+    })
+    this.child.on("error", (error) => this.shutdown(error))
+    this.child.on("exit", (code) =>
+      this.shutdown(new McpError(`MCP server ${serverName} exited with code ${code}`))
+    )
+  }
+
+  request(method: string, params: unknown, timeoutMs: number): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new McpError(`MCP server ${this.serverName} is not running`))
+    }
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new McpError(`MCP ${method} timed out after ${timeoutMs}ms`))
+      }, timeoutMs)
+      this.pending.set(id, { resolve, reject, timer })
+      this.write({ jsonrpc: "2.0", id, method, params })
+    })
+  }
+
+  async notify(method: string, params?: unknown): Promise<void> {
+    this.write({ jsonrpc: "2.0", method, ...(params === undefined ? {} : { params }) })
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.shutdown(new McpError(`MCP server ${this.serverName} was closed`))
+    this.child.kill()
+  }
+
+  private write(message: unknown): void {
+    if (!this.closed) {
+      this.child.stdin.write(`${JSON.stringify(message)}\n`)
+    }
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let newline = this.buffer.indexOf("\n")
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).trim()
+      this.buffer = this.buffer.slice(newline + 1)
+      if (line) this.onLine(line)
+      newline = this.buffer.indexOf("\n")
+    }
+  }
+
+  private onLine(line: string): void {
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      console.warn(`[MCP:${this.serverName}] Ignoring non-JSON output: ${line.slice(0, 200)}`)
+      return
+    }
+
+    // Server-to-client requests: answer pings, decline everything else
+    if (isRequest(message)) {
+      this.write(
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : {
+              jsonrpc: "2.0",
+              id: message.id,
+              error: { code: -32601, message: `Method not supported: ${message.method}` },
+            }
+      )
+      return
+    }
+
+    const response = decodeResponse(message)
+    if (response._tag === "None" || typeof response.value.id !== "number") return
+    const pending = this.pending.get(response.value.id)
+    if (!pending) return
+
+    this.pending.delete(response.value.id)
+    clearTimeout(pending.timer)
+    try {
+      pending.resolve(toResult(response.value))
+    } catch (error) {
+      pending.reject(error as Error)
+    }
+  }
+
+  private shutdown(error: Error): void {
+    this.closed = true
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer)
+      pending.reject(error)
+    }
+    this.pending.clear()
+  }
+}
+
+// ============================================================================
+// HTTP Transport
+// ============================================================================
+
+/**
+ * Streamable HTTP: each message is a POST whose reply is either a JSON body
+ * or a short event stream carrying the response.
+ */
+class HttpTransport implements McpTransport {
+  private sessionId: string | null = null
+  private nextId = 1
+  closed = false
+
+  constructor(
+    private readonly serverName: string,
+    private readonly config: Extract<McpServerConfig, { url: string }>
+  ) {}
+
+  async request(method: string, params: unknown, timeoutMs: number): Promise<unknown> {
+    if (this.closed) {
+      throw new McpError(`MCP server ${this.serverName} was closed`)
+    }
+    const id = this.nextId++
+    const messages = await this.post({ jsonrpc: "2.0", id, method, params }, timeoutMs)
+
+    for (const message of messages) {
+      const response = decodeResponse(message)
+      if (response._tag === "Some" && response.value.id === id) {
+        return toResult(response.value)
+      }
+    }
+    throw new McpError(`MCP server ${this.serverName} sent no response to ${method}`)
+  }
+
+  async notify(method: string, params?: unknown): Promise<void> {
+    await this.post(
+      { jsonrpc: "2.0", method, ...(params === undefined ? {} : { params }) },
+      this.config.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS
+    )
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    if (this.sessionId) {
+      // Best effort: let the server drop the session
+      void fetch(this.config.url, {
+        method: "DELETE",
+        headers: { ...this.config.headers, "Mcp-Session-Id": this.sessionId },
+      }).catch(() => {})
+    }
+  }
+
+  private async post(message: unknown, timeoutMs: number): Promise<unknown[]> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      const response = await fetch(this.config.url, {
+        method: "POST",
+        headers: {
+          ...this.config.headers,
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "MCP-Protocol-Version": MCP_PROTOCOL_VERSION,
+          ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+        },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      })
+
+      const sessionId = response.headers.get("mcp-session-id")
+      if (sessionId) this.sessionId = sessionId
+
+      if (!response.ok) {
+        throw new McpError(`MCP server ${this.serverName} responded with HTTP ${response.status}`)
+      }
+      // Notifications are acknowledged with 202 and no body
+      if (response.status === 202) return []
+
+      const contentType = response.headers.get("content-type") ?? ""
+      const body = await response.text()
+      if (contentType.includes("text/event-stream")) {
+        return parseEventStream(body)
+      }
+      return body ? [JSON.parse(body)] : []
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new McpError(`MCP request to ${this.serverName} timed out after ${timeoutMs}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * An initialized connection to one MCP server.
+ */
+export class McpClient {
+  private constructor(
+    readonly serverName: string,
+    private readonly transport: McpTransport,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Start (stdio) or reach (HTTP) a server and complete the MCP handshake.
+   */
+  static async connect(config: McpServerConfig): Promise<McpClient> {
+    const transport =
+      "command" in config
+        ? new StdioTransport(config.name, config)
+        : new HttpTransport(config.name, config)
+    const client = new McpClient(config.name, transport, config.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS)
+
+    try {
+      await transport.request(
+        "initialize",
+        { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+        client.timeoutMs
+      )
+      await transport.notify("notifications/initialized")
+    } catch (error) {
+      transport.close()
+      throw error
+    }
+    return client
+  }
+
+  /** Whether the connection is gone (server exited or `close` was called) */
+  get closed(): boolean {
+    return this.transport.closed
+  }
+
+  /**
+   * List the server's tools, following `nextCursor` pagination.
+   */
+  async listTools(): Promise<McpToolInfo[]> {
+    const tools: McpToolInfo[] = []
+    let cursor: string | undefined
+
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result = decodeListTools(
+        await this.transport.request("tools/list", cursor ? { cursor } : {}, this.timeoutMs)
+      )
+      for (const tool of result.tools) {
+        tools.push({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema ? { ...tool.inputSchema } : undefined,
+        })
+      }
+      cursor = result.nextCursor
+      if (!cursor) break
+    }
+    return tools
+  }
+
+  /**
+   * Call a tool. Failures reported by the tool itself come back with
+   * `isError`; protocol and transport failures throw.
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallResult> {
+    const result = decodeCallTool(
+      await this.transport.request("tools/call", { name, arguments: args }, this.timeoutMs)
+    )
+    return {
+      content: result.content.map((block) => ({ ...block })),
+      isError: result.isError ?? false,
+    }
+  }
+
+  close(): void {
+    this.transport.close()
+  }
+}
@@ -0,0 +1,81 @@
+import { normalizeMcpServerName } from "@bibboy/shared"
+import type { McpServerConfig, ResolvedAgentConfig } from "../agents/AgentConfig"
+import { McpClient, type McpToolInfo } from "./McpClient"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A connected MCP server and the tools it advertised */
+export interface McpServerTools {
+  /** Normalized server name, as used in tool names and `group:mcp:<name>` */
+  server: string
+  client: McpClient
+  tools: readonly McpToolInfo[]
+}
+
+// ============================================================================
+// Registry (connections shared per agent)
+// ============================================================================
+
+const connections = new Map<string, Promise<McpServerTools | null>>()
+
+async function connectServer(config: McpServerConfig): Promise<McpServerTools | null> {
+  const server = normalizeMcpServerName(config.name)
+  try {
+    const client = await McpClient.connect(config)
+    try {
+      const tools = await client.listTools()
+      console.log(`[MCP] ${config.name}: ${tools.length} tools discovered`)
+      return { server, client, tools }
+    } catch (error) {
+      client.close()
+      throw error
+    }
+  } catch (error) {
+    console.warn(
+      `[MCP] Skipping server ${config.name}:`,
+      error instanceof Error ? error.message : error
+    )
+    return null
+  }
+}
+
+async function getServer(agentId: string, config: McpServerConfig): Promise<McpServerTools | null> {
+  const key = `${agentId}:${config.name}`
+  const cached = connections.get(key)
+  if (cached) {
+    const entry = await cached
+    if (entry && !entry.client.closed) return entry
+    // Failed or exited servers are retried on the next session
+    if (connections.get(key) === cached) connections.delete(key)
+  }
+
+  const current = connections.get(key)
+  if (current) return current
+
+  const pending = connectServer(config)
+  connections.set(key, pending)
+  return pending
+}
+
+/**
+ * Connect to an agent's MCP servers and discover their tools. Connections are
+ * reused across sessions; servers that fail to start are logged and skipped.
+ */
+export async function discoverMcpTools(agent: ResolvedAgentConfig): Promise<McpServerTools[]> {
+  const configs = agent.mcpServers.filter((config) => normalizeMcpServerName(config.name) !== "")
+  const servers = await Promise.all(configs.map((config) => getServer(agent.id, config)))
+  return servers.filter((server): server is McpServerTools => server !== null)
+}
+
+/**
+ * Close every MCP connection (stops stdio server processes).
+ */
+export async function closeMcpServers(): Promise<void> {
+  const entries = await Promise.all(connections.values())
+  connections.clear()
+  for (const entry of entries) {
+    entry?.client.close()
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  McpClient,
+  McpError,
+  MCP_PROTOCOL_VERSION,
+  DEFAULT_MCP_TIMEOUT_MS,
+} from "./McpClient"
+export type { McpToolInfo, McpContentBlock, McpCallResult } from "./McpClient"
+
+export { discoverMcpTools, closeMcpServers } from "./McpRegistry"
+export type { McpServerTools } from "./McpRegistry"
@@ -0,0 +1,107 @@
+import type { Database } from "bun:sqlite"
+import { embeddingToBuffer, bufferToEmbedding, type EmbeddingCache } from "./EmbeddingService"
+
+// ============================================================================
+// SQLite Embedding Cache
+// ============================================================================
+
+export interface SqliteEmbeddingCacheOptions {
+  /** Evict least recently used entries beyond this count (unbounded when unset) */
+  maxEntries?: number
+}
+
+/**
+ * LRU embedding cache stored alongside chunks in the memory database.
+ * Re-indexing a file with mostly unchanged chunks then only embeds the changes.
+ */
+export class SqliteEmbeddingCache implements EmbeddingCache {
+  private db: Database
+  private maxEntries: number | undefined
+
+  constructor(db: Database, options?: SqliteEmbeddingCacheOptions) {
+    this.db = db
+    this.maxEntries = options?.maxEntries
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        hash TEXT NOT NULL,
+        model TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (hash, model)
+      )
+    `)
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used ON embedding_cache(last_used_at)
+    `)
+  }
+
+  get(model: string, hashes: readonly string[]): Map<string, number[]> {
+    const found = new Map<string, number[]>()
+    if (hashes.length === 0) return found
+
+    const select = this.db.prepare<{ embedding: Buffer }, [string, string]>(
+      "SELECT embedding FROM embedding_cache WHERE hash = ? AND model = ?"
+    )
+    const touch = this.db.prepare<unknown, [number, string, string]>(
+      "UPDATE embedding_cache SET last_used_at = ? WHERE hash = ? AND model = ?"
+    )
+    const now = Date.now()
+
+    this.db.transaction(() => {
+      for (const hash of new Set(hashes)) {
+        const row = select.get(hash, model)
+        if (!row) continue
+        found.set(hash, bufferToEmbedding(Buffer.from(row.embedding)))
+        touch.run(now, hash, model)
+      }
+    })()
+
+    return found
+  }
+
+  set(model: string, entries: ReadonlyArray<{ hash: string; embedding: number[] }>): void {
+    if (entries.length === 0) return
+
+    const upsert = this.db.prepare<unknown, [string, string, Buffer, number]>(
+      "INSERT OR REPLACE INTO embedding_cache (hash, model, embedding, last_used_at) VALUES (?, ?, ?, ?)"
+    )
+    const now = Date.now()
+
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        // Never cache failed (empty) embeddings
+        if (entry.embedding.length === 0) continue
+        upsert.run(entry.hash, model, embeddingToBuffer(entry.embedding), now)
+      }
+    })()
+
+    this.evict()
+  }
+
+  /**
+   * Number of cached vectors (all models).
+   */
+  size(): number {
+    return this.db
+      .query<{ count: number }, []>("SELECT COUNT(*) AS count FROM embedding_cache")
+      .get()?.count ?? 0
+  }
+
+  clear(): void {
+    this.db.run("DELETE FROM embedding_cache")
+  }
+
+  private evict(): void {
+    if (this.maxEntries === undefined) return
+
+    const excess = this.size() - this.maxEntries
+    if (excess <= 0) return
+
+    this.db.run(
+      `DELETE FROM embedding_cache WHERE rowid IN (
+        SELECT rowid FROM embedding_cache ORDER BY last_used_at ASC LIMIT ?
+      )`,
+      [excess]
+    )
+  }
+}
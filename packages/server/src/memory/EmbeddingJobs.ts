@@ -0,0 +1,189 @@
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EmbeddingBatchOptions {
+  enabled: boolean
+  /** Whether callers block until the job finishes (see MemoryService.index) */
+  wait: boolean
+  /** Batched requests in flight at once */
+  concurrency: number
+  /** Whole-job deadline; unfinished batches are left unembedded */
+  timeoutMinutes: number
+}
+
+export type EmbeddingJobStatus = "running" | "completed" | "failed" | "timed_out"
+
+export interface EmbeddingJob {
+  id: string
+  source: string
+  status: EmbeddingJobStatus
+  totalChunks: number
+  embeddedChunks: number
+  failedChunks: number
+  totalBatches: number
+  completedBatches: number
+  startedAt: number
+  finishedAt?: number
+  error?: string
+}
+
+export type EmbedBatchFn = (texts: string[]) => Promise<number[][]>
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Gemini batchEmbedContents accepts at most 100 requests per call */
+export const EMBEDDING_BATCH_SIZE = 100
+
+const MAX_FINISHED_JOBS = 50
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isTerminal(status: EmbeddingJobStatus): boolean {
+  return status !== "running"
+}
+
+class EmbeddingTimeoutError extends Error {
+  constructor() {
+    super("Embedding job timed out")
+  }
+}
+
+/**
+ * Race a promise against the job deadline.
+ */
+function withDeadline<A>(promise: Promise<A>, deadline: number): Promise<A> {
+  const remaining = deadline - Date.now()
+  if (remaining <= 0) {
+    return Promise.reject(new EmbeddingTimeoutError())
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new EmbeddingTimeoutError()), remaining)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+// ============================================================================
+// Embedding Job Runner
+// ============================================================================
+
+/**
+ * Runs indexing embeddings as batched jobs with bounded concurrency.
+ *
+ * Chunks are grouped into batches of `EMBEDDING_BATCH_SIZE` and embedded by
+ * up to `concurrency` workers. A failed batch leaves its chunks without
+ * embeddings (keyword search still finds them) instead of failing the job.
+ */
+export class EmbeddingJobRunner {
+  private jobs = new Map<string, EmbeddingJob>()
+  private nextId = 1
+
+  /**
+   * Start embedding texts for a source. `embeddings` resolves with one vector
+   * per text, in order; texts that could not be embedded get an empty vector.
+   */
+  start(
+    source: string,
+    texts: readonly string[],
+    embedBatch: EmbedBatchFn,
+    options: Pick<EmbeddingBatchOptions, "concurrency" | "timeoutMinutes">
+  ): { job: EmbeddingJob; embeddings: Promise<number[][]> } {
+    const batches: Array<{ offset: number; texts: string[] }> = []
+    for (let offset = 0; offset < texts.length; offset += EMBEDDING_BATCH_SIZE) {
+      batches.push({ offset, texts: texts.slice(offset, offset + EMBEDDING_BATCH_SIZE) })
+    }
+
+    const job: EmbeddingJob = {
+      id: `embed_${this.nextId++}`,
+      source,
+      status: "running",
+      totalChunks: texts.length,
+      embeddedChunks: 0,
+      failedChunks: 0,
+      totalBatches: batches.length,
+      completedBatches: 0,
+      startedAt: Date.now(),
+    }
+    this.jobs.set(job.id, job)
+    this.pruneFinished()
+
+    return { job, embeddings: this.execute(job, batches, embedBatch, options) }
+  }
+
+  getJob(id: string): EmbeddingJob | undefined {
+    return this.jobs.get(id)
+  }
+
+  listJobs(): EmbeddingJob[] {
+    return [...this.jobs.values()]
+  }
+
+  // --------------------------------------------------------------------------
+  // Private
+  // --------------------------------------------------------------------------
+
+  private async execute(
+    job: EmbeddingJob,
+    batches: ReadonlyArray<{ offset: number; texts: string[] }>,
+    embedBatch: EmbedBatchFn,
+    options: Pick<EmbeddingBatchOptions, "concurrency" | "timeoutMinutes">
+  ): Promise<number[][]> {
+    const { source } = job
+    const embeddings: number[][] = Array.from({ length: job.totalChunks }, () => [])
+    const deadline = job.startedAt + options.timeoutMinutes * 60_000
+    let timedOut = false
+    let nextBatch = 0
+
+    const worker = async (): Promise<void> => {
+      while (nextBatch < batches.length && !timedOut) {
+        const batch = batches[nextBatch++]
+        try {
+          const vectors = await withDeadline(embedBatch(batch.texts), deadline)
+          vectors.forEach((vector, i) => {
+            embeddings[batch.offset + i] = vector
+          })
+          job.embeddedChunks += batch.texts.length
+        } catch (error) {
+          if (error instanceof EmbeddingTimeoutError) {
+            timedOut = true
+          } else {
+            console.warn(`[EmbeddingJobs] Batch failed for ${source}: ${error}`)
+            job.error = error instanceof Error ? error.message : String(error)
+          }
+          job.failedChunks += batch.texts.length
+        }
+        job.completedBatches++
+      }
+    }
+
+    const workerCount = Math.min(Math.max(1, options.concurrency), batches.length)
+    await Promise.all(Array.from({ length: workerCount }, () => worker()))
+
+    if (timedOut) {
+      job.failedChunks = job.totalChunks - job.embeddedChunks
+      job.status = "timed_out"
+      job.error = `Timed out after ${options.timeoutMinutes} minutes`
+    } else {
+      job.status = job.embeddedChunks === 0 && job.totalChunks > 0 ? "failed" : "completed"
+    }
+    job.finishedAt = Date.now()
+
+    return embeddings
+  }
+
+  /**
+   * Keep running jobs and only the most recent finished ones.
+   */
+  private pruneFinished(): void {
+    const finished = [...this.jobs.values()].filter((job) => isTerminal(job.status))
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id)
+    }
+  }
+}
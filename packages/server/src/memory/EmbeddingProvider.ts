@@ -0,0 +1,202 @@
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  normalizeVector,
+  type EmbeddingCache,
+} from "./EmbeddingService"
+
+// ============================================================================
+// Embedding Provider Types
+// ============================================================================
+
+export type EmbeddingProviderId = "gemini" | "local"
+
+/**
+ * Source of embeddings for indexing and search.
+ * `model` identifies the vector space; vectors from different models are not comparable.
+ */
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId
+  readonly model: string
+  embed(text: string): Promise<number[]>
+  embedBatch(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingProviderOptions {
+  provider: "gemini" | "local" | "auto"
+  fallback: "gemini" | "local" | "none"
+  /** Gemini embedding model */
+  model: string
+  apiKey?: string
+  local?: {
+    modelPath?: string
+    modelCacheDir?: string
+  }
+  /** Cache for remote embeddings (local embeddings are cheap to recompute) */
+  cache?: EmbeddingCache
+}
+
+// ============================================================================
+// Local Hashing Embeddings
+// ============================================================================
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256
+const LOCAL_EMBEDDING_MODEL = `local-hash-${LOCAL_EMBEDDING_DIMENSIONS}`
+
+/**
+ * 32-bit FNV-1a. Deterministic across runtimes, unlike Bun.hash.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Extract word and character-trigram features from text.
+ * Trigrams give partial credit for morphological variants (e.g. "index" / "indexing").
+ */
+function extractFeatures(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []
+  const features: string[] = []
+
+  for (const word of words) {
+    features.push(`w:${word}`)
+    const padded = `^${word}$`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      features.push(`t:${padded.slice(i, i + 3)}`)
+    }
+  }
+
+  return features
+}
+
+/**
+ * Deterministic feature-hashing embedding that needs no network or model files.
+ * Quality is well below a neural model but keeps memory search working offline.
+ */
+export function embedLocal(text: string, dimensions = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const vector: number[] = Array.from({ length: dimensions }, () => 0)
+
+  for (const feature of extractFeatures(text)) {
+    const hash = fnv1a(feature)
+    const index = hash % dimensions
+    // Signed hashing keeps collisions from only ever adding up
+    const sign = (hash >>> 31) === 0 ? 1 : -1
+    // Whole words carry more signal than trigrams
+    const weight = feature.startsWith("w:") ? 1 : 0.5
+    vector[index] += sign * weight
+  }
+
+  return normalizeVector(vector)
+}
+
+let warnedAboutModelPath = false
+
+/**
+ * Offline provider. `local.modelPath` is accepted for forward compatibility,
+ * but model files are not loaded yet: a configured path is reported once and
+ * the hashing embeddings are used instead.
+ */
+export function createLocalEmbeddingProvider(
+  local?: EmbeddingProviderOptions["local"]
+): EmbeddingProvider {
+  if (local?.modelPath && !warnedAboutModelPath) {
+    warnedAboutModelPath = true
+    console.warn(
+      `memorySearch.local.modelPath is not supported yet; ignoring ${local.modelPath} and using hashing embeddings (${LOCAL_EMBEDDING_MODEL})`
+    )
+  }
+
+  return {
+    id: "local",
+    model: LOCAL_EMBEDDING_MODEL,
+    embed: async (text) => embedLocal(text),
+    embedBatch: async (texts) => texts.map((text) => embedLocal(text)),
+  }
+}
+
+// ============================================================================
+// Gemini Provider
+// ============================================================================
+
+export function createGeminiEmbeddingProvider(
+  model: string,
+  apiKey?: string,
+  cache?: EmbeddingCache
+): EmbeddingProvider {
+  return {
+    id: "gemini",
+    model,
+    embed: async (text) => (await generateEmbedding(text, { model, apiKey, cache })).embedding,
+    embedBatch: async (texts) =>
+      (await generateEmbeddings(texts, { model, apiKey, cache })).embeddings,
+  }
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+/**
+ * Wrap a provider so failures are retried once on a fallback provider.
+ * The fallback is sticky: after the first failure the primary is not retried,
+ * so a single index run doesn't interleave vectors from two models.
+ */
+function withFallback(primary: EmbeddingProvider, fallback: EmbeddingProvider): EmbeddingProvider {
+  let active = primary
+
+  const run = async <A>(fn: (provider: EmbeddingProvider) => Promise<A>): Promise<A> => {
+    if (active === fallback) {
+      return fn(fallback)
+    }
+    try {
+      return await fn(primary)
+    } catch (error) {
+      console.warn(`Embedding provider "${primary.id}" failed, falling back to "${fallback.id}": ${error}`)
+      active = fallback
+      return fn(fallback)
+    }
+  }
+
+  return {
+    get id() {
+      return active.id
+    },
+    get model() {
+      return active.model
+    },
+    embed: (text) => run((provider) => provider.embed(text)),
+    embedBatch: (texts) => run((provider) => provider.embedBatch(texts)),
+  }
+}
+
+/**
+ * Select an embedding provider from memory search config.
+ *
+ * - `local`: always the local provider
+ * - `gemini`: Gemini, with the configured fallback on failure
+ * - `auto`: Gemini when an API key is available, otherwise local
+ */
+export function createEmbeddingProvider(options: EmbeddingProviderOptions): EmbeddingProvider {
+  const apiKey = options.apiKey ?? process.env.GEMINI_API_KEY
+
+  if (options.provider === "local") {
+    return createLocalEmbeddingProvider(options.local)
+  }
+
+  if (options.provider === "auto" && !apiKey) {
+    return createLocalEmbeddingProvider(options.local)
+  }
+
+  const gemini = createGeminiEmbeddingProvider(options.model, apiKey, options.cache)
+  if (options.fallback === "local") {
+    return withFallback(gemini, createLocalEmbeddingProvider(options.local))
+  }
+  return gemini
+}
+
+export { LOCAL_EMBEDDING_DIMENSIONS, LOCAL_EMBEDDING_MODEL }
@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto"
 import { Effect } from "effect"
 
 // ============================================================================
@@ -14,6 +15,28 @@ export interface EmbeddingBatchResult {
   model: string
 }
 
+/**
+ * Persistent embedding cache keyed by content hash and embedding model.
+ */
+export interface EmbeddingCache {
+  /** Look up cached vectors; missing hashes are absent from the result */
+  get(model: string, hashes: readonly string[]): Map<string, number[]>
+  set(model: string, entries: ReadonlyArray<{ hash: string; embedding: number[] }>): void
+}
+
+export interface EmbeddingRequestOptions {
+  model?: string
+  apiKey?: string
+  cache?: EmbeddingCache
+}
+
+/**
+ * Content hash used as the embedding cache key.
+ */
+export function hashEmbeddingText(text: string): string {
+  return createHash("sha256").update(text).digest("hex")
+}
+
 // ============================================================================
 // Gemini Embedding Service
 // ============================================================================
@@ -56,15 +79,21 @@ function isGeminiBatchEmbeddingResponse(data: unknown): data is GeminiBatchEmbed
  */
 export async function generateEmbedding(
   text: string,
-  options?: { model?: string; apiKey?: string }
+  options?: EmbeddingRequestOptions
 ): Promise<EmbeddingResult> {
+  const model = options?.model ?? DEFAULT_MODEL
+  const cache = options?.cache
+  const hash = cache ? hashEmbeddingText(text) : ""
+  const cached = cache?.get(model, [hash]).get(hash)
+  if (cached) {
+    return { embedding: cached, model }
+  }
+
   const apiKey = options?.apiKey ?? process.env.GEMINI_API_KEY
   if (!apiKey) {
     throw new Error("GEMINI_API_KEY not configured")
   }
 
-  const model = options?.model ?? DEFAULT_MODEL
-
   const response = await fetch(
     `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent?key=${apiKey}`,
     {
@@ -89,6 +118,8 @@ export async function generateEmbedding(
     throw new Error("Unexpected Gemini embedding API response shape")
   }
 
+  cache?.set(model, [{ hash, embedding: raw.embedding.values }])
+
   return {
     embedding: raw.embedding.values,
     model,
@@ -97,13 +128,41 @@ export async function generateEmbedding(
 
 /**
  * Generate embeddings for multiple texts using Gemini (batch).
+ * With a cache, only texts without a cached vector are sent to the API.
  */
 export async function generateEmbeddings(
   texts: string[],
-  options?: { model?: string; apiKey?: string }
+  options?: EmbeddingRequestOptions
 ): Promise<EmbeddingBatchResult> {
+  const model = options?.model ?? DEFAULT_MODEL
   if (texts.length === 0) {
-    return { embeddings: [], model: options?.model ?? DEFAULT_MODEL }
+    return { embeddings: [], model }
+  }
+
+  const cache = options?.cache
+  if (cache) {
+    const hashes = texts.map(hashEmbeddingText)
+    const cached = cache.get(model, hashes)
+    // Dedupe so repeated chunks are only embedded once
+    const missing = [...new Set(hashes.filter((hash) => !cached.has(hash)))]
+
+    if (missing.length > 0) {
+      const textByHash = new Map(hashes.map((hash, i) => [hash, texts[i]]))
+      const fetched = await generateEmbeddings(
+        missing.map((hash) => textByHash.get(hash) ?? ""),
+        { model, apiKey: options?.apiKey }
+      )
+      const entries = missing.map((hash, i) => ({ hash, embedding: fetched.embeddings[i] }))
+      cache.set(model, entries)
+      for (const entry of entries) {
+        cached.set(entry.hash, entry.embedding)
+      }
+    }
+
+    return {
+      embeddings: hashes.map((hash) => cached.get(hash) ?? []),
+      model,
+    }
   }
 
   const apiKey = options?.apiKey ?? process.env.GEMINI_API_KEY
@@ -111,8 +170,6 @@ export async function generateEmbeddings(
     throw new Error("GEMINI_API_KEY not configured")
   }
 
-  const model = options?.model ?? DEFAULT_MODEL
-
   const response = await fetch(
     `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${apiKey}`,
     {
@@ -0,0 +1,79 @@
+// ============================================================================
+// Hybrid Search (vector + BM25 keyword fusion)
+// ============================================================================
+
+export interface HybridSearchConfig {
+  enabled: boolean
+  vectorWeight: number
+  textWeight: number
+  candidateMultiplier: number
+}
+
+export interface HybridCandidate {
+  id: number
+  vectorScore: number
+  textScore: number
+}
+
+export interface HybridScore {
+  id: number
+  score: number
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text.
+ * Each token is quoted so identifiers like `foo-bar` or `v2.1` don't trip the
+ * FTS query syntax; tokens are OR'ed and ranking is left to BM25.
+ * Returns null when the query has no searchable tokens.
+ */
+export function buildFtsQuery(query: string): string | null {
+  const tokens = query.match(/[\p{L}\p{N}_]+/gu)
+  if (!tokens || tokens.length === 0) {
+    return null
+  }
+  const unique = Array.from(new Set(tokens.map((t) => t.toLowerCase())))
+  return unique.map((token) => `"${token}"`).join(" OR ")
+}
+
+/**
+ * Convert raw FTS5 `bm25()` ranks into 0-1 scores.
+ * bm25() returns negative values where more negative is more relevant;
+ * relevance `s = -rank` maps to `s / (1 + s)`. The transform is fixed rather
+ * than relative to the best hit, so a weak match stays weak even when it is
+ * the only one and `minScore` can filter it out.
+ */
+export function normalizeBm25Scores(
+  rows: ReadonlyArray<{ id: number; rank: number }>
+): Map<number, number> {
+  const scores = new Map<number, number>()
+  for (const row of rows) {
+    const relevance = Math.max(0, -row.rank)
+    scores.set(row.id, relevance / (1 + relevance))
+  }
+  return scores
+}
+
+/**
+ * Fuse vector and keyword scores with the configured weights; results are
+ * sorted best-first. `minScore` gates each component on its own scale, so a
+ * strong keyword match is kept even when its fused score (at most
+ * `textWeight`) is below the threshold.
+ */
+export function mergeHybridScores(
+  candidates: readonly HybridCandidate[],
+  config: Pick<HybridSearchConfig, "vectorWeight" | "textWeight">,
+  minScore: number
+): HybridScore[] {
+  const merged: HybridScore[] = []
+
+  for (const candidate of candidates) {
+    const vectorScore = Math.max(0, candidate.vectorScore)
+    if (vectorScore < minScore && candidate.textScore < minScore) continue
+
+    const score = config.vectorWeight * vectorScore + config.textWeight * candidate.textScore
+    merged.push({ id: candidate.id, score })
+  }
+
+  merged.sort((a, b) => b.score - a.score)
+  return merged
+}
@@ -1,6 +1,14 @@
+import path from "node:path"
 import type { ChatMessage } from "@bibboy/shared"
-import { getMemoryStore } from "./MemoryStore"
+import { getMemoryStore, type MemorySourceFilter, type MemoryStore } from "./MemoryStore"
+import {
+  SessionTranscriptIndexer,
+  parseSessionTranscriptSource,
+  sessionTranscriptSourcePrefix,
+  SESSION_SOURCE_PREFIX,
+} from "./SessionTranscripts"
 import type { ResolvedAgentConfig } from "../agents/AgentConfig"
+import { getGlobalConfig } from "../config"
 
 // ============================================================================
 // Memory Service Types
@@ -24,6 +32,85 @@ export interface FormattedSearchResult {
   score: number
 }
 
+// ============================================================================
+// Store Access
+// ============================================================================
+
+/**
+ * Get an agent's memory store, embedding with the configured provider and cache.
+ * The provider is built once, when the store is first created.
+ */
+export function getAgentMemoryStore(
+  agentId: string,
+  config: ResolvedAgentConfig["memorySearch"]
+): MemoryStore {
+  return getMemoryStore(agentId, () => ({
+    embedding: {
+      provider: config.provider,
+      fallback: config.fallback,
+      model: config.model,
+      apiKey: config.remote?.apiKey,
+      local: config.local,
+    },
+    cache: config.cache,
+  }))
+}
+
+// ============================================================================
+// Session Transcripts
+// ============================================================================
+
+const transcriptIndexers = new Map<string, SessionTranscriptIndexer>()
+
+/**
+ * Get an agent's session transcript indexer, or null when "sessions" is not
+ * a memory source for the agent.
+ */
+export function getSessionTranscriptIndexer(
+  agentId: string,
+  config: ResolvedAgentConfig["memorySearch"]
+): SessionTranscriptIndexer | null {
+  if (!config.enabled || !config.sources.includes("sessions")) {
+    return null
+  }
+
+  let indexer = transcriptIndexers.get(agentId)
+  if (!indexer) {
+    indexer = new SessionTranscriptIndexer({
+      agentId,
+      dir: path.join(getGlobalConfig().agentStateDir, "transcripts", agentId),
+      config,
+      store: getAgentMemoryStore(agentId, config),
+    })
+    transcriptIndexers.set(agentId, indexer)
+  }
+  return indexer
+}
+
+/**
+ * Index whatever is pending for a session across all agents (e.g. on disconnect).
+ */
+export async function flushSessionTranscripts(sessionId: string): Promise<void> {
+  await Promise.all(
+    [...transcriptIndexers.values()].map((indexer) => indexer.flushSession(sessionId))
+  )
+}
+
+/**
+ * Drop a deleted session's transcripts from the given agents' memory.
+ */
+export async function deleteSessionTranscripts(
+  userId: string,
+  sessionId: string,
+  agents: readonly ResolvedAgentConfig[]
+): Promise<void> {
+  await Promise.all(
+    agents.map((agent) =>
+      getSessionTranscriptIndexer(agent.id, agent.memorySearch)?.deleteSession(userId, sessionId)
+    )
+  )
+}
+
 // ============================================================================
 // Memory Service
 // ============================================================================
@@ -34,20 +121,26 @@ export interface FormattedSearchResult {
  * For the bibboy chat, session memory is primary — the conversation history
  * within the current session IS the memory. SQLite-backed vector search is
  * optional and used for workspace/SOUL.md context if indexed.
+ *
+ * Past session transcripts are only visible to the user who owns them; without
+ * a `userId` none are searched.
  */
 export class MemoryService {
   private agentId: string
   private config: ResolvedAgentConfig["memorySearch"]
   private sessionMessages: () => ChatMessage[]
+  private userId: string | undefined
 
   constructor(
     agentId: string,
     config: ResolvedAgentConfig["memorySearch"],
-    getSessionMessages: () => ChatMessage[]
+    getSessionMessages: () => ChatMessage[],
+    userId?: string
   ) {
     this.agentId = agentId
     this.config = config
     this.sessionMessages = getSessionMessages
+    this.userId = userId
   }
 
   /**
@@ -77,11 +170,24 @@ export class MemoryService {
       })
     }
 
-    // Vector search in persistent memory (optional, if "memory" is in sources)
+    // Hybrid vector + keyword search in persistent memory: memory files ("memory")
+    // and the user's past session transcripts ("sessions") share the agent's store
+    const sources: MemorySourceFilter[] = []
     if (this.config.sources.includes("memory")) {
+      sources.push({ exclude: [SESSION_SOURCE_PREFIX] })
+    }
+    if (this.config.sources.includes("sessions") && this.userId) {
+      sources.push({ include: [sessionTranscriptSourcePrefix(this.userId)] })
+    }
+    if (sources.length > 0) {
       try {
-        const store = getMemoryStore(this.agentId)
-        const storeResults = await store.search(query, { maxResults, minScore })
+        const store = this.getStore()
+        const storeResults = await store.search(query, {
+          maxResults,
+          minScore,
+          hybrid: this.config.query.hybrid,
+          sources,
+        })
 
         for (const result of storeResults) {
           results.push({
@@ -237,8 +343,20 @@ export class MemoryService {
         .join("\n\n")
     }
 
+    // Past session transcripts are read from the archive so line citations
+    // are exact; other users' sessions read as missing
+    if (path.startsWith(SESSION_SOURCE_PREFIX)) {
+      const transcript = parseSessionTranscriptSource(path)
+      if (!transcript || transcript.userId !== this.userId) return null
+      const indexer = getSessionTranscriptIndexer(this.agentId, this.config)
+      return (
+        indexer?.readTranscript(transcript.userId, transcript.sessionId, options?.from, options?.lines) ??
+        null
+      )
+    }
+
     try {
-      const store = getMemoryStore(this.agentId)
+      const store = this.getStore()
       return store.getContent(path, options?.from, options?.lines)
     } catch (error) {
       console.warn(`Memory get failed: ${error}`)
@@ -248,24 +366,41 @@ export class MemoryService {
 
   /**
    * Index content into memory.
+   * With batching enabled and `remote.batch.wait` off, embedding runs in the
+   * background and this resolves with the number of chunks queued (0 when
+   * the content is already indexed).
    */
   async index(path: string, content: string): Promise<number> {
     if (!this.config.enabled) {
       return 0
     }
 
+    const options = {
+      tokens: this.config.chunking.tokens,
+      overlap: this.config.chunking.overlap,
+      batch: this.config.remote?.batch,
+    }
+
     try {
-      const store = getMemoryStore(this.agentId)
-      return await store.indexFile(path, content, {
-        tokens: this.config.chunking.tokens,
-        overlap: this.config.chunking.overlap,
-      })
+      const store = this.getStore()
+      if (options.batch?.enabled && !options.batch.wait) {
+        const { chunks, done } = store.startIndexFile(path, content, options)
+        done.catch((error) => {
+          console.warn(`Background memory index failed for ${path}: ${error}`)
+        })
+        return chunks
+      }
+      return await store.indexFile(path, content, options)
     } catch (error) {
       console.warn(`Memory index failed: ${error}`)
       return 0
     }
   }
 
+  private getStore(): MemoryStore {
+    return getAgentMemoryStore(this.agentId, this.config)
+  }
+
   /**
    * Extract relevant snippet from content.
    */
@@ -307,11 +442,12 @@ export class MemoryService {
 // ============================================================================
 
 /**
- * Create a memory service for an agent.
+ * Create a memory service for an agent, scoped to the user it serves.
  */
 export function createMemoryService(
   agentConfig: ResolvedAgentConfig,
-  getSessionMessages: () => ChatMessage[]
+  getSessionMessages: () => ChatMessage[],
+  userId?: string
 ): MemoryService {
-  return new MemoryService(agentConfig.id, agentConfig.memorySearch, getSessionMessages)
+  return new MemoryService(agentConfig.id, agentConfig.memorySearch, getSessionMessages, userId)
 }
@@ -3,12 +3,26 @@ import path from "node:path"
 import os from "node:os"
 import fs from "node:fs"
 import {
-  generateEmbedding,
   cosineSimilarity,
   embeddingToBuffer,
   bufferToEmbedding,
   chunkText,
 } from "./EmbeddingService"
+import {
+  buildFtsQuery,
+  normalizeBm25Scores,
+  mergeHybridScores,
+  type HybridCandidate,
+  type HybridSearchConfig,
+} from "./HybridSearch"
+import {
+  createEmbeddingProvider,
+  createGeminiEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderOptions,
+} from "./EmbeddingProvider"
+import { SqliteEmbeddingCache } from "./EmbeddingCache"
+import { EmbeddingJobRunner, type EmbeddingBatchOptions } from "./EmbeddingJobs"
 
 // ============================================================================
 // Types
@@ -34,6 +48,57 @@ export interface MemorySearchResult {
 export interface MemoryStoreOptions {
   dbPath?: string
   agentId?: string
+  /** Embedding source; takes precedence over `embedding` */
+  embeddingProvider?: EmbeddingProvider
+  /** Provider selection, wired to this store's embedding cache */
+  embedding?: Omit<EmbeddingProviderOptions, "cache">
+  /** Persistent LRU embedding cache in the memory database */
+  cache?: {
+    enabled: boolean
+    maxEntries?: number
+  }
+}
+
+interface ChunkWithLines {
+  content: string
+  lineStart: number
+  lineEnd: number
+}
+
+export interface MemoryIndexOptions {
+  tokens?: number
+  overlap?: number
+  /** Embed chunks as batched jobs instead of one request per chunk */
+  batch?: EmbeddingBatchOptions
+}
+
+/**
+ * Sources a search may return: those starting with one of `include` (any
+ * source when omitted) and with none of `exclude`.
+ */
+export interface MemorySourceFilter {
+  include?: readonly string[]
+  exclude?: readonly string[]
+}
+
+export interface MemoryStoreSearchOptions {
+  maxResults?: number
+  minScore?: number
+  /** Fuse vector similarity with BM25 keyword scores when enabled */
+  hybrid?: HybridSearchConfig
+  /** Only return sources matching one of these filters (all sources when omitted) */
+  sources?: readonly MemorySourceFilter[]
+}
+
+interface ChunkRow {
+  id: number
+  source: string
+  content: string
+  line_start: number
+  line_end: number
+  embedding: Buffer | null
+  created_at: number
+  updated_at: number
 }
 
 // ============================================================================
@@ -48,6 +113,51 @@ function ensureDir(dir: string): void {
   }
 }
 
+function rowToChunk(row: Omit<ChunkRow, "embedding">): MemoryChunk {
+  return {
+    id: row.id,
+    source: row.source,
+    content: row.content,
+    lineStart: row.line_start,
+    lineEnd: row.line_end,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+type SqlParam = string | number
+
+interface SourceFilterSql {
+  sql: string
+  params: SqlParam[]
+}
+
+/**
+ * SQL condition on the `source` column for a set of source filters. Prefixes
+ * are compared with substr so ids containing LIKE wildcards match literally.
+ */
+function sourceFilterSql(filters?: readonly MemorySourceFilter[]): SourceFilterSql {
+  if (!filters) return { sql: "1", params: [] }
+  if (filters.length === 0) return { sql: "0", params: [] }
+
+  const params: SqlParam[] = []
+  const startsWith = (prefix: string) => {
+    params.push(prefix.length, prefix)
+    return "substr(source, 1, ?) = ?"
+  }
+  const clauses = filters.map((filter) => {
+    const parts: string[] = []
+    if (filter.include) {
+      parts.push(filter.include.length > 0 ? `(${filter.include.map(startsWith).join(" OR ")})` : "0")
+    }
+    for (const prefix of filter.exclude ?? []) {
+      parts.push(`NOT ${startsWith(prefix)}`)
+    }
+    return parts.length > 0 ? `(${parts.join(" AND ")})` : "1"
+  })
+  return { sql: `(${clauses.join(" OR ")})`, params }
+}
+
 function resolveDbPath(options?: MemoryStoreOptions): string {
   if (options?.dbPath) {
     return options.dbPath
@@ -63,15 +173,34 @@ function resolveDbPath(options?: MemoryStoreOptions): string {
  */
 export class MemoryStore {
   private db: Database
-  private embeddingModel: string
+  private embedder: EmbeddingProvider
+  private embeddingCache: SqliteEmbeddingCache | null = null
+  private jobs = new EmbeddingJobRunner()
+  private ftsAvailable = false
 
   constructor(options?: MemoryStoreOptions & { embeddingModel?: string }) {
     const dbPath = resolveDbPath(options)
     ensureDir(path.dirname(dbPath))
 
     this.db = new Database(dbPath)
-    this.embeddingModel = options?.embeddingModel ?? "gemini-embedding-001"
     this.initSchema()
+
+    if (options?.cache?.enabled) {
+      this.embeddingCache = new SqliteEmbeddingCache(this.db, {
+        maxEntries: options.cache.maxEntries,
+      })
+    }
+    const cache = this.embeddingCache ?? undefined
+
+    this.embedder =
+      options?.embeddingProvider ??
+      (options?.embedding
+        ? createEmbeddingProvider({ ...options.embedding, cache })
+        : createGeminiEmbeddingProvider(
+            options?.embeddingModel ?? "gemini-embedding-001",
+            undefined,
+            cache
+          ))
   }
 
   private initSchema(): void {
@@ -99,6 +228,34 @@ export class MemoryStore {
         indexed_at INTEGER NOT NULL DEFAULT (unixepoch())
       )
     `)
+
+    // Embedding model per source, so switching providers triggers a re-index.
+    // Older databases predate the column.
+    const sourceColumns = this.db
+      .query<{ name: string }, []>("PRAGMA table_info(sources)")
+      .all()
+    if (!sourceColumns.some((column) => column.name === "model")) {
+      this.db.run("ALTER TABLE sources ADD COLUMN model TEXT")
+    }
+
+    // Keyword index for hybrid search (rowid mirrors chunks.id)
+    try {
+      this.db.run(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(
+          content,
+          source UNINDEXED
+        )
+      `)
+      // Backfill chunks indexed before the FTS table existed
+      this.db.run(`
+        INSERT INTO chunks_fts (rowid, content, source)
+        SELECT id, content, source FROM chunks
+        WHERE id NOT IN (SELECT rowid FROM chunks_fts)
+      `)
+      this.ftsAvailable = true
+    } catch (error) {
+      console.warn(`FTS5 unavailable, keyword search will use a full scan: ${error}`)
+    }
   }
 
   /**
@@ -107,33 +264,38 @@ export class MemoryStore {
   async indexFile(
     filePath: string,
     content: string,
-    options?: { tokens?: number; overlap?: number }
+    options?: MemoryIndexOptions
   ): Promise<number> {
+    return this.startIndexFile(filePath, content, options).done
+  }
+
+  /**
+   * Start indexing a file. `chunks` is known right away (0 when the source is
+   * already up to date); `done` resolves once they are embedded and stored.
+   */
+  startIndexFile(
+    filePath: string,
+    content: string,
+    options?: MemoryIndexOptions
+  ): { chunks: number; done: Promise<number> } {
     // Calculate content hash
     const hash = Bun.hash(content).toString(16)
 
-    // Check if already indexed with same hash
+    // Check if already indexed with same hash and embedding model
     const existing = this.db
-      .query<{ hash: string }, [string]>("SELECT hash FROM sources WHERE path = ?")
+      .query<{ hash: string; model: string | null }, [string]>(
+        "SELECT hash, model FROM sources WHERE path = ?"
+      )
       .get(filePath)
 
-    if (existing?.hash === hash) {
-      return 0 // Already up to date
+    if (existing?.hash === hash && existing.model === this.embedder.model) {
+      return { chunks: 0, done: Promise.resolve(0) } // Already up to date
     }
 
-    // Remove old chunks for this source
-    this.db.run("DELETE FROM chunks WHERE source = ?", [filePath])
-
     // Split into chunks
     const chunks = chunkText(content, options)
 
     // Track line positions for each chunk
-    interface ChunkWithLines {
-      content: string
-      lineStart: number
-      lineEnd: number
-    }
-
     const chunksWithLines: ChunkWithLines[] = []
     let searchPos = 0
 
@@ -145,80 +307,129 @@ export class MemoryStore {
       searchPos = chunkStart + 1
     }
 
-    // Generate embeddings
-    const embeddings: number[][] = []
-    for (const chunk of chunksWithLines) {
-      try {
-        const result = await generateEmbedding(chunk.content, { model: this.embeddingModel })
-        embeddings.push(result.embedding)
-      } catch (error) {
-        console.warn(`Failed to embed chunk: ${error}`)
-        embeddings.push([]) // Empty embedding on failure
-      }
+    return {
+      chunks: chunksWithLines.length,
+      done: this.storeChunks(filePath, hash, chunksWithLines, options),
     }
+  }
+
+  /**
+   * Embed a file's chunks and replace its stored chunks with them.
+   */
+  private async storeChunks(
+    filePath: string,
+    hash: string,
+    chunksWithLines: readonly ChunkWithLines[],
+    options?: MemoryIndexOptions
+  ): Promise<number> {
+    // Generate embeddings
+    const embeddings = await this.embedChunks(
+      filePath,
+      chunksWithLines.map((chunk) => chunk.content),
+      options?.batch
+    )
 
-    // Insert chunks
+    // Replace old chunks for this source (after embedding, so searches keep
+    // seeing the previous version while a slow job runs)
     const stmt = this.db.prepare(`
       INSERT INTO chunks (source, content, line_start, line_end, embedding)
       VALUES (?, ?, ?, ?, ?)
     `)
+    const ftsStmt = this.ftsAvailable
+      ? this.db.prepare("INSERT INTO chunks_fts (rowid, content, source) VALUES (?, ?, ?)")
+      : null
+
+    this.db.transaction(() => {
+      this.deleteChunks(filePath)
+
+      for (let i = 0; i < chunksWithLines.length; i++) {
+        const chunk = chunksWithLines[i]
+        const embedding = embeddings[i]
+        const embeddingBlob = embedding.length > 0 ? embeddingToBuffer(embedding) : null
+        const result = stmt.run(filePath, chunk.content, chunk.lineStart, chunk.lineEnd, embeddingBlob)
+        ftsStmt?.run(Number(result.lastInsertRowid), chunk.content, filePath)
+      }
 
-    for (let i = 0; i < chunksWithLines.length; i++) {
-      const chunk = chunksWithLines[i]
-      const embedding = embeddings[i]
-      const embeddingBlob = embedding.length > 0 ? embeddingToBuffer(embedding) : null
-      stmt.run(filePath, chunk.content, chunk.lineStart, chunk.lineEnd, embeddingBlob)
-    }
-
-    // Update source record
-    this.db.run(
-      `INSERT OR REPLACE INTO sources (path, hash, indexed_at) VALUES (?, ?, unixepoch())`,
-      [filePath, hash]
-    )
+      // Update source record
+      this.db.run(
+        `INSERT OR REPLACE INTO sources (path, hash, model, indexed_at) VALUES (?, ?, ?, unixepoch())`,
+        [filePath, hash, this.embedder.model]
+      )
+    })()
 
     return chunksWithLines.length
   }
 
   /**
-   * Search memory using vector similarity.
+   * Embed chunk texts; failed chunks get an empty embedding so they stay
+   * reachable through keyword search.
+   */
+  private async embedChunks(
+    source: string,
+    texts: string[],
+    batch?: EmbeddingBatchOptions
+  ): Promise<number[][]> {
+    if (batch?.enabled) {
+      const { job, embeddings } = this.jobs.start(
+        source,
+        texts,
+        (batchTexts) => this.embedder.embedBatch(batchTexts),
+        batch
+      )
+      const result = await embeddings
+      if (job.status !== "completed") {
+        console.warn(`Embedding job ${job.id} for ${source} ${job.status}: ${job.error ?? "unknown error"}`)
+      }
+      return result
+    }
+
+    const embeddings: number[][] = []
+    for (const text of texts) {
+      try {
+        embeddings.push(await this.embedder.embed(text))
+      } catch (error) {
+        console.warn(`Failed to embed chunk: ${error}`)
+        embeddings.push([]) // Empty embedding on failure
+      }
+    }
+    return embeddings
+  }
+
+  /**
+   * Search memory using vector similarity, fused with BM25 keyword scores
+   * when hybrid search is enabled.
    */
   async search(
     query: string,
-    options?: { maxResults?: number; minScore?: number }
+    options?: MemoryStoreSearchOptions
   ): Promise<MemorySearchResult[]> {
     const maxResults = options?.maxResults ?? 6
     const minScore = options?.minScore ?? 0.35
+    const hybrid = options?.hybrid?.enabled ? options.hybrid : undefined
+    const sources = sourceFilterSql(options?.sources)
 
     // Generate query embedding
     let queryEmbedding: number[]
     try {
-      const result = await generateEmbedding(query, { model: this.embeddingModel })
-      queryEmbedding = result.embedding
+      queryEmbedding = await this.embedder.embed(query)
     } catch (error) {
       console.warn(`Failed to embed query: ${error}`)
-      // Fall back to text search
-      return this.textSearch(query, maxResults)
+      // Fall back to keyword-only search
+      return this.ftsAvailable
+        ? this.keywordSearch(query, maxResults, sources)
+        : this.textSearch(query, maxResults, sources)
     }
 
     // Get all chunks with embeddings
     const rows = this.db
-      .query<
-        {
-          id: number
-          source: string
-          content: string
-          line_start: number
-          line_end: number
-          embedding: Buffer | null
-          created_at: number
-          updated_at: number
-        },
-        []
-      >("SELECT * FROM chunks WHERE embedding IS NOT NULL")
-      .all()
+      .query<ChunkRow, SqlParam[]>(
+        `SELECT * FROM chunks WHERE embedding IS NOT NULL AND ${sources.sql}`
+      )
+      .all(...sources.params)
 
     // Calculate similarity scores
-    const scored: MemorySearchResult[] = []
+    const vectorScores = new Map<number, number>()
+    const rowsById = new Map<number, ChunkRow>()
 
     for (const row of rows) {
       if (!row.embedding) continue
@@ -226,34 +437,134 @@ export class MemoryStore {
       const embedding = bufferToEmbedding(row.embedding)
       // Skip embeddings with mismatched dimensions (e.g. old OpenAI embeddings)
       if (queryEmbedding.length !== embedding.length) continue
-      const score = cosineSimilarity(queryEmbedding, embedding)
+      vectorScores.set(row.id, cosineSimilarity(queryEmbedding, embedding))
+      rowsById.set(row.id, row)
+    }
 
-      if (score >= minScore) {
+    if (!hybrid || !this.ftsAvailable) {
+      const scored: MemorySearchResult[] = []
+      for (const [id, score] of vectorScores) {
+        if (score < minScore) continue
+        const row = rowsById.get(id)!
         scored.push({
-          chunk: {
-            id: row.id,
-            source: row.source,
-            content: row.content,
-            lineStart: row.line_start,
-            lineEnd: row.line_end,
-            createdAt: row.created_at,
-            updatedAt: row.updated_at,
-          },
+          chunk: rowToChunk(row),
           score,
           snippet: this.extractSnippet(row.content, query),
         })
       }
+
+      // Sort by score and return top results
+      scored.sort((a, b) => b.score - a.score)
+      return scored.slice(0, maxResults)
     }
 
-    // Sort by score and return top results
-    scored.sort((a, b) => b.score - a.score)
-    return scored.slice(0, maxResults)
+    // Over-fetch candidates from both retrievers, then fuse
+    const candidateLimit = maxResults * hybrid.candidateMultiplier
+    const vectorCandidates = [...vectorScores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, candidateLimit)
+      .map(([id]) => id)
+    const textScores = this.bm25Scores(query, candidateLimit, sources)
+
+    const candidateIds = new Set<number>([...vectorCandidates, ...textScores.keys()])
+    const candidates: HybridCandidate[] = [...candidateIds].map((id) => ({
+      id,
+      vectorScore: vectorScores.get(id) ?? 0,
+      textScore: textScores.get(id) ?? 0,
+    }))
+
+    const merged = mergeHybridScores(candidates, hybrid, minScore).slice(0, maxResults)
+    const missingIds = merged.map((m) => m.id).filter((id) => !rowsById.has(id))
+    for (const row of this.getChunkRows(missingIds)) {
+      rowsById.set(row.id, row)
+    }
+
+    return merged.flatMap(({ id, score }) => {
+      const row = rowsById.get(id)
+      if (!row) return []
+      return [{
+        chunk: rowToChunk(row),
+        score,
+        snippet: this.extractSnippet(row.content, query),
+      }]
+    })
+  }
+
+  /**
+   * BM25 keyword scores (0-1) for the top matching chunks.
+   */
+  private bm25Scores(
+    query: string,
+    limit: number,
+    sources: SourceFilterSql
+  ): Map<number, number> {
+    const ftsQuery = buildFtsQuery(query)
+    if (!ftsQuery) {
+      return new Map()
+    }
+
+    try {
+      const rows = this.db
+        .query<{ id: number; rank: number }, SqlParam[]>(
+          `SELECT rowid AS id, bm25(chunks_fts) AS rank FROM chunks_fts
+           WHERE chunks_fts MATCH ? AND ${sources.sql} ORDER BY rank LIMIT ?`
+        )
+        .all(ftsQuery, ...sources.params, limit)
+      return normalizeBm25Scores(rows)
+    } catch (error) {
+      console.warn(`Keyword search failed: ${error}`)
+      return new Map()
+    }
+  }
+
+  /**
+   * Keyword-only search over the FTS index (used when embeddings are unavailable).
+   */
+  private keywordSearch(
+    query: string,
+    maxResults: number,
+    sources: SourceFilterSql
+  ): MemorySearchResult[] {
+    const scores = this.bm25Scores(query, maxResults, sources)
+    const rows = this.getChunkRows([...scores.keys()])
+
+    return rows
+      .map((row) => ({
+        chunk: rowToChunk(row),
+        score: scores.get(row.id) ?? 0,
+        snippet: this.extractSnippet(row.content, query),
+      }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private getChunkRows(ids: readonly number[]): ChunkRow[] {
+    if (ids.length === 0) {
+      return []
+    }
+    const placeholders = ids.map(() => "?").join(", ")
+    return this.db
+      .query<ChunkRow, number[]>(`SELECT * FROM chunks WHERE id IN (${placeholders})`)
+      .all(...ids)
+  }
+
+  /**
+   * Delete chunks (and their keyword index entries) for a source.
+   */
+  private deleteChunks(source: string): void {
+    if (this.ftsAvailable) {
+      this.db.run("DELETE FROM chunks_fts WHERE source = ?", [source])
+    }
+    this.db.run("DELETE FROM chunks WHERE source = ?", [source])
   }
 
   /**
    * Fallback text-based search.
    */
-  private textSearch(query: string, maxResults: number): MemorySearchResult[] {
+  private textSearch(
+    query: string,
+    maxResults: number,
+    sources: SourceFilterSql
+  ): MemorySearchResult[] {
     const queryLower = query.toLowerCase()
     const queryWords = queryLower.split(/\s+/).filter(Boolean)
 
@@ -268,9 +579,11 @@ export class MemoryStore {
           created_at: number
           updated_at: number
         },
-        []
-      >("SELECT id, source, content, line_start, line_end, created_at, updated_at FROM chunks")
-      .all()
+        SqlParam[]
+      >(
+        `SELECT id, source, content, line_start, line_end, created_at, updated_at FROM chunks WHERE ${sources.sql}`
+      )
+      .all(...sources.params)
 
     const scored: MemorySearchResult[] = []
 
@@ -383,7 +696,7 @@ export class MemoryStore {
    * Remove a source and its chunks.
    */
   removeSource(source: string): void {
-    this.db.run("DELETE FROM chunks WHERE source = ?", [source])
+    this.deleteChunks(source)
     this.db.run("DELETE FROM sources WHERE path = ?", [source])
   }
 
@@ -391,10 +704,20 @@ export class MemoryStore {
    * Clear all memory.
    */
   clear(): void {
+    if (this.ftsAvailable) {
+      this.db.run("DELETE FROM chunks_fts")
+    }
     this.db.run("DELETE FROM chunks")
     this.db.run("DELETE FROM sources")
   }
 
+  /**
+   * Number of cached embedding vectors (0 when the cache is disabled).
+   */
+  embeddingCacheSize(): number {
+    return this.embeddingCache?.size() ?? 0
+  }
+
   /**
    * Close the database connection.
    */
@@ -409,16 +732,24 @@ export class MemoryStore {
 
 const stores = new Map<string, MemoryStore>()
 
+type AgentMemoryStoreOptions = Omit<MemoryStoreOptions, "agentId">
+
 /**
  * Get or create a memory store for an agent.
+ * Options only apply when the store is first created; pass a function to
+ * skip building them when the store already exists.
  */
-export function getMemoryStore(agentId: string = "default"): MemoryStore {
+export function getMemoryStore(
+  agentId: string = "default",
+  options?: AgentMemoryStoreOptions | (() => AgentMemoryStoreOptions)
+): MemoryStore {
   const existing = stores.get(agentId)
   if (existing) {
     return existing
   }
 
-  const store = new MemoryStore({ agentId })
+  const resolved = typeof options === "function" ? options() : options
+  const store = new MemoryStore({ ...resolved, agentId })
   stores.set(agentId, store)
   return store
 }
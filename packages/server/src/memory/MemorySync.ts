@@ -0,0 +1,375 @@
+import fs from "node:fs"
+import path from "node:path"
+import os from "node:os"
+import type { ResolvedAgentConfig, ResolvedMemorySearchConfig } from "../agents/AgentConfig"
+import type { EmbeddingBatchOptions } from "./EmbeddingJobs"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Subset of MemoryStore used by sync (kept structural so sync can run
+ * against any store implementation).
+ */
+export interface MemorySyncTarget {
+  indexFile(
+    filePath: string,
+    content: string,
+    options?: { tokens?: number; overlap?: number; batch?: EmbeddingBatchOptions }
+  ): Promise<number>
+  listSources(): Array<{ path: string; hash: string; indexedAt: number }>
+  removeSource(source: string): void
+}
+
+export interface MemorySyncOptions {
+  agentId: string
+  /** Agent workspace directory (indexed with workspace-relative source paths) */
+  workspaceDir: string
+  config: ResolvedMemorySearchConfig
+  store: MemorySyncTarget
+}
+
+export interface MemorySyncResult {
+  indexed: number
+  removed: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const INDEXABLE_EXTENSIONS = new Set([".md"])
+const IGNORED_DIRS = new Set(["node_modules", ".git"])
+
+/** Sources with a scheme prefix (e.g. `session:<id>`) are managed elsewhere. */
+const SCHEME_SOURCE_PATTERN = /^[a-z][a-z0-9+.-]*:/i
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function expandHome(p: string): string {
+  return p.startsWith("~") ? path.join(os.homedir(), p.slice(1)) : p
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))
+}
+
+function isIndexableFile(filePath: string): boolean {
+  return INDEXABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase())
+}
+
+/**
+ * Recursively collect indexable files under a directory.
+ */
+function collectFiles(dir: string, out: string[]): void {
+  let entries: fs.Dirent[]
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true })
+  } catch {
+    return
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || IGNORED_DIRS.has(entry.name)) continue
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      collectFiles(fullPath, out)
+    } else if (entry.isFile() && isIndexableFile(fullPath)) {
+      out.push(fullPath)
+    }
+  }
+}
+
+// ============================================================================
+// Memory Sync
+// ============================================================================
+
+/**
+ * Keeps an agent's memory index in sync with its workspace and extra paths.
+ *
+ * - `sync.watch`: file system watchers, debounced by `sync.watchDebounceMs`
+ * - `sync.intervalMinutes`: periodic full reconcile against the sources table
+ * - `sync.onSessionStart`: reconcile when a chat session starts
+ *
+ * All index operations are serialized so a file is never indexed twice concurrently.
+ */
+export class MemorySync {
+  readonly agentId: string
+  private workspaceDir: string
+  private config: ResolvedMemorySearchConfig
+  private store: MemorySyncTarget
+  private extraPaths: string[]
+
+  private watchers: fs.FSWatcher[] = []
+  private intervalId: ReturnType<typeof setInterval> | null = null
+  private debounceId: ReturnType<typeof setTimeout> | null = null
+  private pendingPaths = new Set<string>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: MemorySyncOptions) {
+    this.agentId = options.agentId
+    this.workspaceDir = path.resolve(options.workspaceDir)
+    this.config = options.config
+    this.store = options.store
+    this.extraPaths = options.config.extraPaths.map((p) =>
+      path.resolve(this.workspaceDir, expandHome(p))
+    )
+  }
+
+  /**
+   * Start watchers and the reconcile interval, then run an initial reconcile.
+   */
+  start(): void {
+    const { sync } = this.config
+
+    if (sync.watch) {
+      for (const root of [this.workspaceDir, ...this.extraPaths]) {
+        this.watchRoot(root)
+      }
+    }
+
+    if (sync.intervalMinutes > 0) {
+      this.intervalId = setInterval(() => {
+        void this.reconcile()
+      }, sync.intervalMinutes * 60_000)
+    }
+
+    void this.reconcile()
+  }
+
+  /**
+   * Stop watchers, timers and drop pending changes.
+   */
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close()
+    }
+    this.watchers = []
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    if (this.debounceId) {
+      clearTimeout(this.debounceId)
+      this.debounceId = null
+    }
+    this.pendingPaths.clear()
+  }
+
+  /**
+   * Hook for session start (honours `sync.onSessionStart`).
+   */
+  onSessionStart(): Promise<MemorySyncResult> | undefined {
+    return this.config.sync.onSessionStart ? this.reconcile() : undefined
+  }
+
+  /**
+   * Queue a changed path; it is indexed or removed once changes settle.
+   */
+  scheduleChange(absolutePath: string): void {
+    this.pendingPaths.add(path.resolve(absolutePath))
+    if (this.debounceId) {
+      clearTimeout(this.debounceId)
+    }
+    this.debounceId = setTimeout(() => {
+      this.debounceId = null
+      void this.flush()
+    }, this.config.sync.watchDebounceMs)
+  }
+
+  /**
+   * Process pending changes immediately.
+   */
+  flush(): Promise<MemorySyncResult> {
+    const paths = [...this.pendingPaths]
+    this.pendingPaths.clear()
+
+    return this.enqueue(async () => {
+      const result: MemorySyncResult = { indexed: 0, removed: 0 }
+      for (const filePath of paths) {
+        const source = this.toSource(filePath)
+        if (!source) continue
+
+        if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+          if (await this.indexPath(filePath, source)) result.indexed++
+        } else {
+          // Deleted file, or a deleted directory: drop everything beneath it
+          for (const { path: existing } of this.store.listSources()) {
+            const existingPath = this.fromSource(existing)
+            if (existingPath && isWithin(filePath, existingPath)) {
+              this.store.removeSource(existing)
+              result.removed++
+            }
+          }
+        }
+      }
+      return result
+    })
+  }
+
+  /**
+   * Full reconcile: index every file under the roots (unchanged files are
+   * skipped by hash) and remove sources whose files no longer exist.
+   */
+  reconcile(): Promise<MemorySyncResult> {
+    return this.enqueue(async () => {
+      const result: MemorySyncResult = { indexed: 0, removed: 0 }
+      const files = this.listFiles()
+      const present = new Set<string>()
+
+      for (const filePath of files) {
+        const source = this.toSource(filePath)
+        if (!source) continue
+        present.add(source)
+        if (await this.indexPath(filePath, source)) result.indexed++
+      }
+
+      for (const { path: source } of this.store.listSources()) {
+        if (present.has(source) || !this.fromSource(source)) continue
+        this.store.removeSource(source)
+        result.removed++
+      }
+
+      return result
+    })
+  }
+
+  // --------------------------------------------------------------------------
+  // Private
+  // --------------------------------------------------------------------------
+
+  private enqueue<A>(task: () => Promise<A>): Promise<A> {
+    const next = this.queue.then(task, task)
+    // Keep the chain alive even if a task fails
+    this.queue = next.catch((error) => {
+      console.warn(`[MemorySync:${this.agentId}] Sync failed: ${error}`)
+    })
+    return next
+  }
+
+  private watchRoot(root: string): void {
+    if (!fs.existsSync(root)) return
+
+    const isDir = fs.statSync(root).isDirectory()
+    try {
+      const watcher = fs.watch(root, { recursive: isDir }, (_event, filename) => {
+        const changed = isDir && filename ? path.join(root, filename.toString()) : root
+        if (isDir && !isIndexableFile(changed) && fs.existsSync(changed)) return
+        this.scheduleChange(changed)
+      })
+      watcher.on("error", (error) => {
+        console.warn(`[MemorySync:${this.agentId}] Watcher error for ${root}: ${error}`)
+      })
+      this.watchers.push(watcher)
+    } catch (error) {
+      console.warn(`[MemorySync:${this.agentId}] Cannot watch ${root}: ${error}`)
+    }
+  }
+
+  private listFiles(): string[] {
+    const files: string[] = []
+    for (const root of [this.workspaceDir, ...this.extraPaths]) {
+      if (!fs.existsSync(root)) continue
+      if (fs.statSync(root).isDirectory()) {
+        collectFiles(root, files)
+      } else {
+        // Explicitly listed files are indexed whatever their extension
+        files.push(root)
+      }
+    }
+    return Array.from(new Set(files))
+  }
+
+  private async indexPath(filePath: string, source: string): Promise<boolean> {
+    let content: string
+    try {
+      content = fs.readFileSync(filePath, "utf-8")
+    } catch (error) {
+      console.warn(`[MemorySync:${this.agentId}] Cannot read ${filePath}: ${error}`)
+      return false
+    }
+    const chunks = await this.store.indexFile(source, content, {
+      tokens: this.config.chunking.tokens,
+      overlap: this.config.chunking.overlap,
+      batch: this.config.remote?.batch,
+    })
+    return chunks > 0
+  }
+
+  /**
+   * Source key for a file: workspace-relative inside the workspace,
+   * absolute for extra paths. Returns null for files outside every root.
+   */
+  private toSource(filePath: string): string | null {
+    if (isWithin(this.workspaceDir, filePath)) {
+      return path.relative(this.workspaceDir, filePath) || null
+    }
+    if (this.extraPaths.some((root) => isWithin(root, filePath))) {
+      return filePath
+    }
+    return null
+  }
+
+  /**
+   * Absolute file path for a source owned by this sync, or null if the
+   * source is managed elsewhere.
+   */
+  private fromSource(source: string): string | null {
+    if (SCHEME_SOURCE_PATTERN.test(source)) return null
+    const filePath = path.isAbsolute(source) ? source : path.join(this.workspaceDir, source)
+    return this.toSource(filePath) ? filePath : null
+  }
+}
+
+// ============================================================================
+// Registry (one sync per agent)
+// ============================================================================
+
+const syncs = new Map<string, MemorySync>()
+
+/**
+ * Start memory sync for each agent with persistent memory enabled.
+ */
+export function startMemorySync(
+  agents: readonly ResolvedAgentConfig[],
+  resolveWorkspaceDir: (agentId: string) => string,
+  getStore: (agent: ResolvedAgentConfig) => MemorySyncTarget
+): void {
+  for (const agent of agents) {
+    const { memorySearch } = agent
+    if (!memorySearch.enabled || !memorySearch.sources.includes("memory")) continue
+    if (syncs.has(agent.id)) continue
+
+    const sync = new MemorySync({
+      agentId: agent.id,
+      workspaceDir: resolveWorkspaceDir(agent.id),
+      config: memorySearch,
+      store: getStore(agent),
+    })
+    sync.start()
+    syncs.set(agent.id, sync)
+  }
+}
+
+/**
+ * Notify all syncs that a chat session started.
+ */
+export function notifyMemorySyncSessionStart(): void {
+  for (const sync of syncs.values()) {
+    void sync.onSessionStart()
+  }
+}
+
+/**
+ * Stop all running syncs.
+ */
+export function stopMemorySync(): void {
+  for (const sync of syncs.values()) {
+    sync.stop()
+  }
+  syncs.clear()
+}
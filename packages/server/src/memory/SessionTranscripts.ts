@@ -0,0 +1,272 @@
+import fs from "node:fs"
+import path from "node:path"
+import type { ChatMessage } from "@bibboy/shared"
+import type { ResolvedMemorySearchConfig } from "../agents/AgentConfig"
+import type { MemorySyncTarget } from "./MemorySync"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionTranscriptIndexerOptions {
+  agentId: string
+  /** Directory holding one append-only transcript file per session, by user */
+  dir: string
+  config: ResolvedMemorySearchConfig
+  store: MemorySyncTarget
+}
+
+export interface SessionIndexOptions {
+  /** Index any pending delta regardless of thresholds (compaction, disconnect) */
+  force?: boolean
+}
+
+interface TranscriptState {
+  userId: string
+  lastTimestamp: number
+  recordedIds: Set<string>
+  pendingBytes: number
+  pendingMessages: number
+}
+
+// ============================================================================
+// Transcript Format
+// ============================================================================
+
+/**
+ * Memory sources for session transcripts are keyed
+ * `session:<userId>/<sessionId>`, so searches can be scoped to the owner.
+ */
+export const SESSION_SOURCE_PREFIX = "session:"
+
+const HEADER_PATTERN = /^### (user|assistant) · (\S+)$/
+
+export interface SessionTranscriptRef {
+  userId: string
+  sessionId: string
+}
+
+/** Source prefix shared by all transcripts of a user. */
+export function sessionTranscriptSourcePrefix(userId: string): string {
+  return `${SESSION_SOURCE_PREFIX}${userId}/`
+}
+
+export function sessionTranscriptSource(userId: string, sessionId: string): string {
+  return `${sessionTranscriptSourcePrefix(userId)}${sessionId}`
+}
+
+export function parseSessionTranscriptSource(source: string): SessionTranscriptRef | null {
+  if (!source.startsWith(SESSION_SOURCE_PREFIX)) return null
+  const rest = source.slice(SESSION_SOURCE_PREFIX.length)
+  const slash = rest.indexOf("/")
+  if (slash <= 0 || slash === rest.length - 1) return null
+  return { userId: rest.slice(0, slash), sessionId: rest.slice(slash + 1) }
+}
+
+/**
+ * Render messages as transcript markdown, one header line per message.
+ * System messages (compaction summaries) are skipped: the transcript keeps
+ * the original turns they replaced.
+ */
+export function formatTranscriptMessages(messages: readonly ChatMessage[]): string {
+  return messages
+    .filter((m) => m.role !== "system" && m.content.trim())
+    .map((m) => `### ${m.role} · ${new Date(m.timestamp).toISOString()}\n${m.content.trim()}\n\n`)
+    .join("")
+}
+
+/**
+ * Timestamp of the last message in a transcript (0 when empty).
+ */
+function lastTranscriptTimestamp(content: string): number {
+  const lines = content.split("\n")
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const match = HEADER_PATTERN.exec(lines[i])
+    if (match) {
+      const timestamp = Date.parse(match[2])
+      return Number.isNaN(timestamp) ? 0 : timestamp
+    }
+  }
+  return 0
+}
+
+function toSafeName(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, "_")
+}
+
+// ============================================================================
+// Session Transcript Indexer
+// ============================================================================
+
+/**
+ * Archives chat sessions to append-only transcript files and indexes them
+ * into the agent's memory store as `session:<userId>/<sessionId>` sources.
+ *
+ * The transcript survives compaction, so line citations stay stable and the
+ * original wording remains searchable after the live history is summarized.
+ * Re-indexing only happens once `sync.sessions.deltaBytes` or
+ * `sync.sessions.deltaMessages` worth of new transcript has accumulated.
+ */
+export class SessionTranscriptIndexer {
+  readonly agentId: string
+  private dir: string
+  private config: ResolvedMemorySearchConfig
+  private store: MemorySyncTarget
+  private states = new Map<string, TranscriptState>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(options: SessionTranscriptIndexerOptions) {
+    this.agentId = options.agentId
+    this.dir = options.dir
+    this.config = options.config
+    this.store = options.store
+  }
+
+  /**
+   * Path of a session's transcript file.
+   */
+  transcriptPath(userId: string, sessionId: string): string {
+    return path.join(this.dir, toSafeName(userId), `${toSafeName(sessionId)}.md`)
+  }
+
+  /**
+   * Read lines from a session transcript (1-indexed, like memory_get).
+   */
+  readTranscript(userId: string, sessionId: string, from?: number, lines?: number): string | null {
+    let content: string
+    try {
+      content = fs.readFileSync(this.transcriptPath(userId, sessionId), "utf-8")
+    } catch {
+      return null
+    }
+    if (from === undefined && lines === undefined) return content
+
+    const allLines = content.split("\n")
+    const start = (from ?? 1) - 1
+    const end = lines ? start + lines : allLines.length
+    return allLines.slice(start, end).join("\n")
+  }
+
+  /**
+   * Append new messages to the session transcript and index it once the
+   * delta thresholds are crossed. Resolves to whether the session was indexed.
+   */
+  indexSession(
+    userId: string,
+    sessionId: string,
+    messages: readonly ChatMessage[],
+    options?: SessionIndexOptions
+  ): Promise<boolean> {
+    return this.enqueue(() => this.indexPending(userId, sessionId, messages, options))
+  }
+
+  /**
+   * Index any pending delta for a session (e.g. when its socket closes) and
+   * forget its in-memory state; a later turn resumes from the transcript on disk.
+   */
+  flushSession(sessionId: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const state = this.states.get(sessionId)
+      if (!state) return false
+      try {
+        return await this.indexPending(state.userId, sessionId, [], { force: true })
+      } finally {
+        this.states.delete(sessionId)
+      }
+    })
+  }
+
+  /**
+   * Drop a session's transcript file and its memory source (session deleted).
+   */
+  deleteSession(userId: string, sessionId: string): Promise<void> {
+    return this.enqueue(async () => {
+      this.states.delete(sessionId)
+      fs.rmSync(this.transcriptPath(userId, sessionId), { force: true })
+      this.store.removeSource(sessionTranscriptSource(userId, sessionId))
+    })
+  }
+
+  // --------------------------------------------------------------------------
+  // Private
+  // --------------------------------------------------------------------------
+
+  private async indexPending(
+    userId: string,
+    sessionId: string,
+    messages: readonly ChatMessage[],
+    options?: SessionIndexOptions
+  ): Promise<boolean> {
+    const state = this.getState(userId, sessionId)
+    this.append(sessionId, state, messages)
+
+    if (state.pendingMessages === 0) return false
+
+    const { deltaBytes, deltaMessages } = this.config.sync.sessions
+    const thresholdReached =
+      state.pendingBytes >= deltaBytes || state.pendingMessages >= deltaMessages
+    if (!thresholdReached && !options?.force) return false
+
+    const content = fs.readFileSync(this.transcriptPath(userId, sessionId), "utf-8")
+    await this.store.indexFile(sessionTranscriptSource(userId, sessionId), content, {
+      tokens: this.config.chunking.tokens,
+      overlap: this.config.chunking.overlap,
+      batch: this.config.remote?.batch,
+    })
+    state.pendingBytes = 0
+    state.pendingMessages = 0
+    return true
+  }
+
+  private enqueue<A>(task: () => Promise<A>): Promise<A> {
+    const next = this.queue.then(task, task)
+    // Keep the chain alive even if a task fails
+    this.queue = next.catch((error) => {
+      console.warn(`[SessionTranscripts:${this.agentId}] Indexing failed: ${error}`)
+    })
+    return next
+  }
+
+  private getState(userId: string, sessionId: string): TranscriptState {
+    const existing = this.states.get(sessionId)
+    if (existing) return existing
+
+    // Resume after a restart from the last message already on disk
+    const content = this.readTranscript(userId, sessionId) ?? ""
+    const state: TranscriptState = {
+      userId,
+      lastTimestamp: lastTranscriptTimestamp(content),
+      recordedIds: new Set(),
+      pendingBytes: 0,
+      pendingMessages: 0,
+    }
+    this.states.set(sessionId, state)
+    return state
+  }
+
+  private append(sessionId: string, state: TranscriptState, messages: readonly ChatMessage[]): void {
+    // After a restart only the last timestamp is known, so messages sharing
+    // it are assumed to be on disk already
+    const resumed = state.recordedIds.size === 0 && state.lastTimestamp > 0
+    const unseen = messages.filter(
+      (m) =>
+        m.role !== "system" &&
+        m.content.trim() &&
+        !state.recordedIds.has(m.id) &&
+        (resumed ? m.timestamp > state.lastTimestamp : m.timestamp >= state.lastTimestamp)
+    )
+    if (unseen.length === 0) return
+
+    const text = formatTranscriptMessages(unseen)
+    const file = this.transcriptPath(state.userId, sessionId)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.appendFileSync(file, text)
+
+    for (const message of unseen) {
+      state.recordedIds.add(message.id)
+      state.lastTimestamp = Math.max(state.lastTimestamp, message.timestamp)
+    }
+    state.pendingBytes += Buffer.byteLength(text)
+    state.pendingMessages += unseen.length
+  }
+}
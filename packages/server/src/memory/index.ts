@@ -8,11 +8,81 @@ export {
   chunkText,
   embed,
   embedBatch,
+  hashEmbeddingText,
 } from "./EmbeddingService"
-export type { EmbeddingResult, EmbeddingBatchResult } from "./EmbeddingService"
+export type {
+  EmbeddingResult,
+  EmbeddingBatchResult,
+  EmbeddingCache,
+  EmbeddingRequestOptions,
+} from "./EmbeddingService"
+
+export { SqliteEmbeddingCache } from "./EmbeddingCache"
+export type { SqliteEmbeddingCacheOptions } from "./EmbeddingCache"
+
+export {
+  createEmbeddingProvider,
+  createGeminiEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  embedLocal,
+  LOCAL_EMBEDDING_DIMENSIONS,
+  LOCAL_EMBEDDING_MODEL,
+} from "./EmbeddingProvider"
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderId,
+  EmbeddingProviderOptions,
+} from "./EmbeddingProvider"
 
 export { MemoryStore, getMemoryStore, closeAllMemoryStores } from "./MemoryStore"
-export type { MemoryChunk, MemorySearchResult, MemoryStoreOptions } from "./MemoryStore"
+export type {
+  MemoryChunk,
+  MemorySearchResult,
+  MemoryIndexOptions,
+  MemoryStoreOptions,
+  MemoryStoreSearchOptions,
+  MemorySourceFilter,
+} from "./MemoryStore"
+
+export { EmbeddingJobRunner, EMBEDDING_BATCH_SIZE } from "./EmbeddingJobs"
+export type {
+  EmbeddingBatchOptions,
+  EmbeddingJob,
+  EmbeddingJobStatus,
+  EmbedBatchFn,
+} from "./EmbeddingJobs"
+
+export { buildFtsQuery, normalizeBm25Scores, mergeHybridScores } from "./HybridSearch"
+export type { HybridSearchConfig, HybridCandidate, HybridScore } from "./HybridSearch"
 
-export { MemoryService, createMemoryService } from "./MemoryService"
+export {
+  MemoryService,
+  createMemoryService,
+  getAgentMemoryStore,
+  getSessionTranscriptIndexer,
+  flushSessionTranscripts,
+  deleteSessionTranscripts,
+} from "./MemoryService"
 export type { MemorySearchOptions, MemoryGetOptions, FormattedSearchResult } from "./MemoryService"
+
+export {
+  MemorySync,
+  startMemorySync,
+  stopMemorySync,
+  notifyMemorySyncSessionStart,
+} from "./MemorySync"
+export type { MemorySyncOptions, MemorySyncResult, MemorySyncTarget } from "./MemorySync"
+
+export {
+  SessionTranscriptIndexer,
+  SESSION_SOURCE_PREFIX,
+  sessionTranscriptSource,
+  sessionTranscriptSourcePrefix,
+  parseSessionTranscriptSource,
+  formatTranscriptMessages,
+} from "./SessionTranscripts"
+export type {
+  SessionTranscriptIndexerOptions,
+  SessionIndexOptions,
+  SessionTranscriptRef,
+} from "./SessionTranscripts"
@@ -7,6 +7,7 @@ import { Layer } from "effect"
 import { api } from "./api/api"
 import { apiGroupLive } from "./api/handlers"
 import { handleAgentStream } from "./api/agent-streaming"
+import { handleResponsesRequest } from "./api/openai-responses"
 import { SECURITY_HEADERS } from "./api/middleware"
 import { disposeGlobalRateLimiters } from "./api/rate-limiter"
 import {
@@ -19,6 +20,11 @@ import {
 } from "./api/websocket-handler"
 import { join } from "path"
 import { getGlobalConfig, getAllowedOrigin as getOrigin } from "./config"
+import { agentConfig } from "./agents/AgentConfig"
+import { getAgentMemoryStore, startMemorySync, stopMemorySync } from "./memory"
+import { closeMcpServers } from "./mcp"
+import { closeToolAuditStore } from "./audit"
+import { getWorkspaceDir } from "./workspace"
 
 // ============================================================================
 // Configuration
@@ -124,6 +130,11 @@ export const handler = async (request: Request): Promise<Response> => {
   if (pathname === "/api/agent/stream" && request.method === "POST") {
     return handleAgentStream(request)
   }
+
+  // ── OpenAI Responses-compatible endpoint (streaming and non-streaming) ─────
+  if (pathname === "/v1/responses" && request.method === "POST") {
+    return handleResponsesRequest(request)
+  }
   
   // Try to serve static files first (only for GET requests)
   if (request.method === "GET" && !pathname.startsWith("/api/")) {
@@ -141,7 +152,7 @@ export const handler = async (request: Request): Promise<Response> => {
       status: 204,
       headers: {
         "Access-Control-Allow-Origin": getAllowedOrigin(request),
-        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
         "Access-Control-Allow-Headers": "Content-Type, Authorization",
         "Access-Control-Max-Age": "86400", // Cache preflight for 24 hours
       },
@@ -161,7 +172,7 @@ export const handler = async (request: Request): Promise<Response> => {
   
   // Add CORS headers (restrict to same origin in production)
   headers.set("Access-Control-Allow-Origin", getAllowedOrigin(request))
-  headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  headers.set("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS")
   headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
   
   return new Response(response.body, {
@@ -220,6 +231,13 @@ export const startServer = () => {
     // Start session cleanup interval
     startSessionCleanup()
 
+    // Keep each agent's memory index in sync with its workspace files
+    startMemorySync(
+      agentConfig.listAgentIds().flatMap((id) => agentConfig.getAgent(id) ?? []),
+      getWorkspaceDir,
+      (agent) => getAgentMemoryStore(agent.id, agent.memorySearch)
+    )
+
     console.log(`🚀 API Server running at http://localhost:${port}`)
     console.log(`📚 OpenAPI docs available at http://localhost:${port}/api/docs`)
     console.log(`📖 Swagger UI available at http://localhost:${port}/api/swagger`)
@@ -229,8 +247,11 @@ export const startServer = () => {
     process.on("SIGINT", async () => {
       console.log("\n🛑 Shutting down server...")
       stopSessionCleanup()
+      stopMemorySync()
       disposeGlobalRateLimiters()
       await disposeWebSocketRuntime()
+      await closeMcpServers()
+      closeToolAuditStore()
       await cleanup()
       server.stop()
       process.exit(0)
@@ -239,8 +260,11 @@ export const startServer = () => {
     process.on("SIGTERM", async () => {
       console.log("\n🛑 Shutting down server...")
       stopSessionCleanup()
+      stopMemorySync()
       disposeGlobalRateLimiters()
       await disposeWebSocketRuntime()
+      await closeMcpServers()
+      closeToolAuditStore()
       await cleanup()
       server.stop()
       process.exit(0)
@@ -19,13 +19,18 @@ import {
   type ToolRegistry,
   type CanvasToolRuntime,
   type ToolExecutionContext,
+  type ToolApprovalHandler,
+  type TaskSuggestCallback,
   createToolExecutionMetrics,
 } from "../tools"
 import type { SoulToolRuntime } from "./SoulStateService"
+import type { McpServerTools } from "../mcp"
+import { createToolAuditRecorder } from "../audit"
 import {
   agentConfig,
   initializeAgentConfig,
   getThinkingBudget,
+  DEFAULT_TOOL_CONCURRENCY,
   type ResolvedAgentConfig,
 } from "../agents/AgentConfig"
 import { getGlobalConfig } from "../config"
@@ -33,19 +38,20 @@ import { sanitizeAssistantOutput } from "../text"
 import {
   addTokenUsage,
   buildFinalSynthesisInstruction,
-  buildGeminiInput,
+  buildModelInput,
   buildToolBudgetSystemInstruction,
   generateMessageId,
   streamToAsyncGenerator,
 } from "./agent-service-helpers"
 import {
-  callGeminiWithRetry,
-  getApiKey,
-} from "./agent-service-gemini"
+  callModelWithRetry,
+  resolveModelClient,
+  type ModelResponseWithModel,
+} from "./agent-service-model"
 import {
-  compactFunctionResponses,
+  compactToolResults,
   executeTools,
-  toGeminiFunctionDeclarations,
+  toModelToolDeclarations,
 } from "./agent-service-tool-execution"
 import { orchestrateAgentStreamIterations } from "./agent-service-stream-orchestrator"
 
@@ -117,9 +123,18 @@ function resolveAgentFromRequest(request: AgentRequest): ResolvedAgentConfig {
       },
       cache: { enabled: true },
     },
-    tools: { profile: null, allow: [], alsoAllow: [], deny: [], byProvider: {} },
+    tools: {
+      profile: null,
+      allow: [],
+      alsoAllow: [],
+      deny: [],
+      requireApproval: [],
+      concurrency: DEFAULT_TOOL_CONCURRENCY,
+      byProvider: {},
+    },
     thinkingLevel: "off",
     timeFormat: "auto",
+    mcpServers: [],
   }
 }
 
@@ -133,20 +148,19 @@ const runAgent = (
   request: AgentRequest,
   agentConfigResolved: ResolvedAgentConfig,
   toolRegistry: ToolRegistry,
-  characterState?: CharacterState
+  characterState?: CharacterState,
+  requestApproval?: ToolApprovalHandler
 ): Effect.Effect<AgentResponse, AgentServiceError> =>
   Effect.gen(function* () {
-    const apiKey = yield* getApiKey(appConfig)
-
     const history = [...(request.history ?? [])]
     const enableTools = request.enableTools !== false
     const model = agentConfigResolved.model.primary
     const fallbackModels = agentConfigResolved.model.fallbacks ?? []
     const thinkingBudget = getThinkingBudget(agentConfigResolved.thinkingLevel)
 
-    const { systemInstruction, contents: initialContents } = yield* Effect.tryPromise({
+    const { systemInstruction, messages: initialMessages } = yield* Effect.tryPromise({
       try: () =>
-        buildGeminiInput(
+        buildModelInput(
           agentConfigResolved,
           history,
           request.message,
@@ -159,20 +173,27 @@ const runAgent = (
     const allToolCalls: ToolCall[] = []
     const allToolResults: ToolExecutionResult[] = []
     let finalContent = ""
-    const currentContents = [...initialContents]
+    const currentMessages = [...initialMessages]
 
     // Aggregate token usage across iterations
     const accumulatedUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
 
     // Tool execution context with abort signal + metrics
     const metrics = createToolExecutionMetrics()
-    const toolCtx: ToolExecutionContext = { timeoutMs: DEFAULT_TOOL_TIMEOUT_MS, metrics }
+    const toolCtx: ToolExecutionContext = {
+      timeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+      metrics,
+      requestApproval,
+      recordToolCall: createToolAuditRecorder(request.sessionId, agentConfigResolved.id),
+    }
 
     for (let i = 0; i < MAX_TOOL_ITERATIONS; i++) {
-      // Re-fetch tool defs each iteration (may grow via request_tools)
-      const currentToolDefs = enableTools
-        ? toGeminiFunctionDeclarations(toolRegistry.getDefinitions())
-        : []
+      // Re-fetch tool defs each iteration (may grow via request_tools),
+      // filtered per model so fallbacks honour tools.byProvider
+      const currentToolDefs = (currentModel: string) =>
+        enableTools
+          ? toModelToolDeclarations(toolRegistry.getDefinitions(currentModel))
+          : []
 
       // After soft limit, nudge the model to wrap up with usage context
       const remaining = MAX_TOOL_ITERATIONS - i
@@ -186,17 +207,12 @@ const runAgent = (
       }
 
       // Context overflow recovery: retry with compaction (OpenClaw pattern)
-      let apiResult: {
-        text: string
-        functionCalls: Array<{ name: string; args: Record<string, unknown>; thoughtSignature?: string }>
-        usage?: { promptTokens: number; completionTokens: number; totalTokens: number }
-        modelUsed: string
-      } | null = null
+      let apiResult: ModelResponseWithModel | null = null
       let overflowAttempts = 0
 
       while (overflowAttempts <= MAX_OVERFLOW_COMPACTION_ATTEMPTS) {
         const result = yield* pipe(
-          callGeminiWithRetry(currentContents, systemWithBudget, currentToolDefs, apiKey, model, fallbackModels, thinkingBudget),
+          callModelWithRetry(appConfig, currentMessages, systemWithBudget, currentToolDefs, model, fallbackModels, thinkingBudget),
           Effect.map((r) => ({ success: true as const, value: r })),
           Effect.catchTag("ContextOverflowError", () =>
             Effect.succeed({ success: false as const, value: null })
@@ -213,17 +229,16 @@ const runAgent = (
 
         // Smarter auto-compact: prefer trimming text turns over tool result turns
         // This preserves tool execution context while reducing conversation bulk
-        const trimCount = Math.min(4, Math.floor(currentContents.length / 3))
-        if (trimCount > 0 && currentContents.length > 2) {
-          // Find removable turns (prefer text-only turns over function response turns)
+        const trimCount = Math.min(4, Math.floor(currentMessages.length / 3))
+        if (trimCount > 0 && currentMessages.length > 2) {
+          // Find removable turns (prefer text-only turns over tool call/result turns)
           let removed = 0
-          for (let idx = 0; idx < currentContents.length && removed < trimCount; idx++) {
-            const turn = currentContents[idx]
-            const hasFunctionParts = turn.parts.some(
-              (p) => p.functionCall || p.functionResponse
-            )
-            if (!hasFunctionParts) {
-              currentContents.splice(idx, 1)
+          for (let idx = 0; idx < currentMessages.length && removed < trimCount; idx++) {
+            const turn = currentMessages[idx]
+            const hasToolParts =
+              turn.role === "tool" || (turn.role === "assistant" && (turn.toolCalls?.length ?? 0) > 0)
+            if (!hasToolParts) {
+              currentMessages.splice(idx, 1)
               removed++
               idx-- // Re-check same index after splice
             }
@@ -231,11 +246,15 @@ const runAgent = (
           // If we couldn't remove enough text turns, trim from the start
           if (removed < trimCount) {
             const remaining = trimCount - removed
-            currentContents.splice(0, Math.min(remaining, currentContents.length - 2))
+            currentMessages.splice(0, Math.min(remaining, currentMessages.length - 2))
+          }
+          // Tool results must follow the call that produced them
+          while (currentMessages.length > 2 && currentMessages[0].role === "tool") {
+            currentMessages.shift()
           }
           // Ensure starts with user turn after trimming
-          if (currentContents.length > 0 && currentContents[0].role === "model") {
-            currentContents.unshift({ role: "user", parts: [{ text: "(earlier conversation compacted)" }] })
+          if (currentMessages.length > 0 && currentMessages[0].role !== "user") {
+            currentMessages.unshift({ role: "user", content: "(earlier conversation compacted)" })
           }
         } else {
           break
@@ -247,45 +266,31 @@ const runAgent = (
       // Track usage
       addTokenUsage(accumulatedUsage, apiResult.usage)
 
-      if (apiResult.functionCalls.length > 0) {
-        // Add model function call response to conversation
-        currentContents.push({
-          role: "model",
-          parts: apiResult.functionCalls.map((fc) => ({
-            functionCall: { name: fc.name, args: fc.args },
-            ...(fc.thoughtSignature && { thoughtSignature: fc.thoughtSignature }),
-          })),
-        })
-
-        const toolCallsWithIds = apiResult.functionCalls.map((fc) => ({
-          id: `call_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
-          name: fc.name,
-          args: fc.args,
-        }))
+      const toolCalls = apiResult.toolCalls
+      if (toolCalls.length > 0) {
+        // Add the model's tool call turn to the conversation
+        currentMessages.push({ role: "assistant", content: apiResult.text, toolCalls })
 
         // Pass iteration context to tool wrappers
-        const results = yield* executeTools(toolRegistry, toolCallsWithIds, {
+        const results = yield* executeTools(toolRegistry, toolCalls, {
           ...toolCtx,
           iteration: i,
+          model: apiResult.modelUsed,
         })
 
-        for (let j = 0; j < toolCallsWithIds.length; j++) {
-          allToolCalls.push({ id: toolCallsWithIds[j].id, name: toolCallsWithIds[j].name, arguments: toolCallsWithIds[j].args })
+        for (let j = 0; j < toolCalls.length; j++) {
+          allToolCalls.push({ id: toolCalls[j].id, name: toolCalls[j].name, arguments: toolCalls[j].args })
           allToolResults.push(results[j])
         }
 
-        // Add function responses as user turn (Gemini format)
         // Compact results to keep context small — full content saved to workspace files
-        const compactedParts = yield* Effect.tryPromise({
+        const toolMessages = yield* Effect.tryPromise({
           try: () =>
-            compactFunctionResponses(toolCallsWithIds, results, agentConfigResolved.id, i),
+            compactToolResults(toolCalls, results, agentConfigResolved.id, i),
           catch: () => new AgentError({ reason: "Failed to compact tool results" }),
         })
 
-        currentContents.push({
-          role: "user",
-          parts: compactedParts,
-        })
+        currentMessages.push(...toolMessages)
         continue
       }
 
@@ -297,11 +302,11 @@ const runAgent = (
     // so the model can synthesize a response from the gathered tool results
     if (!finalContent && allToolCalls.length > 0) {
       const finalResult = yield* pipe(
-        callGeminiWithRetry(
-          currentContents,
+        callModelWithRetry(
+          appConfig,
+          currentMessages,
           buildFinalSynthesisInstruction(systemInstruction, metrics.getSummary()),
           [],
-          apiKey,
           model,
           fallbackModels,
           thinkingBudget
@@ -337,20 +342,21 @@ const runAgentStream = (
   request: AgentRequest,
   agentConfigResolved: ResolvedAgentConfig,
   toolRegistry: ToolRegistry,
-  characterState?: CharacterState
+  characterState?: CharacterState,
+  requestApproval?: ToolApprovalHandler
 ): Stream.Stream<AgentStreamEvent, AgentServiceError> =>
   Stream.unwrap(
     Effect.gen(function* () {
-      const apiKey = yield* getApiKey(appConfig)
+      const modelClient = yield* resolveModelClient(appConfig, agentConfigResolved.model.primary)
 
       const history = [...(request.history ?? [])]
       const enableTools = request.enableTools !== false
       const model = agentConfigResolved.model.primary
       const thinkingBudget = getThinkingBudget(agentConfigResolved.thinkingLevel)
 
-      const { systemInstruction, contents: initialContents } = yield* Effect.tryPromise({
+      const { systemInstruction, messages: initialMessages } = yield* Effect.tryPromise({
         try: () =>
-          buildGeminiInput(
+          buildModelInput(
             agentConfigResolved,
             history,
             request.message,
@@ -361,17 +367,19 @@ const runAgentStream = (
       })
 
       return orchestrateAgentStreamIterations({
-        apiKey,
+        modelClient,
         model,
         thinkingBudget,
         enableTools,
         toolRegistry,
-        initialContents,
+        initialMessages,
         systemInstruction,
         agentId: agentConfigResolved.id,
         maxToolIterations: MAX_TOOL_ITERATIONS,
         softLimitIterations: SOFT_LIMIT_ITERATIONS,
         toolTimeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+        requestApproval,
+        recordToolCall: createToolAuditRecorder(request.sessionId, agentConfigResolved.id),
       })
     })
   )
@@ -428,7 +436,11 @@ export function createAgentServiceLive(
   characterState?: CharacterState,
   sendPoseChange?: (pose: AgentPose) => void,
   canvasRuntime?: CanvasToolRuntime,
-  soulRuntime?: SoulToolRuntime
+  soulRuntime?: SoulToolRuntime,
+  emitTaskSuggest?: TaskSuggestCallback,
+  requestApproval?: ToolApprovalHandler,
+  mcpServers?: readonly McpServerTools[],
+  userId?: string
 ): AgentServiceInterface {
   const getResolvedConfig = (request: AgentRequest) =>
     agentId
@@ -443,9 +455,12 @@ export function createAgentServiceLive(
         getSessionMessages,
         sendPoseChange,
         canvasRuntime,
-        soulRuntime
+        soulRuntime,
+        emitTaskSuggest,
+        mcpServers,
+        userId
       )
-      return runAgent(request, resolvedConfig, toolRegistry, characterState)
+      return runAgent(request, resolvedConfig, toolRegistry, characterState, requestApproval)
     },
     runStream: (request: AgentRequest) => {
       const resolvedConfig = getResolvedConfig(request)
@@ -454,9 +469,12 @@ export function createAgentServiceLive(
         getSessionMessages,
         sendPoseChange,
         canvasRuntime,
-        soulRuntime
+        soulRuntime,
+        emitTaskSuggest,
+        mcpServers,
+        userId
       )
-      return runAgentStream(request, resolvedConfig, toolRegistry, characterState)
+      return runAgentStream(request, resolvedConfig, toolRegistry, characterState, requestApproval)
     },
     runStreamLegacy: (request: AgentRequest) => {
       const resolvedConfig = getResolvedConfig(request)
@@ -465,9 +483,14 @@ export function createAgentServiceLive(
         getSessionMessages,
         sendPoseChange,
         canvasRuntime,
-        soulRuntime
+        soulRuntime,
+        emitTaskSuggest,
+        mcpServers,
+        userId
+      )
+      return streamToAsyncGenerator(
+        runAgentStream(request, resolvedConfig, toolRegistry, characterState, requestApproval)
       )
-      return streamToAsyncGenerator(runAgentStream(request, resolvedConfig, toolRegistry, characterState))
     },
   }
 }
@@ -51,6 +51,15 @@ export interface CanvasStateServiceInterface {
     sessionId: string
   ) => Effect.Effect<CanvasCharacterBlueprint>
 
+  /**
+   * Replace a session's canvas with a saved blueprint (session import).
+   * Undo history starts empty.
+   */
+  readonly restoreBlueprint: (
+    sessionId: string,
+    blueprint: CanvasCharacterBlueprint
+  ) => Effect.Effect<CanvasSnapshot>
+
   readonly clearSession: (
     sessionId: string
   ) => Effect.Effect<void>
@@ -284,6 +293,28 @@ export class CanvasStateService extends Effect.Service<CanvasStateService>()(
           return cloneBlueprint(state.blueprint)
         })
 
+      const restoreBlueprint: CanvasStateServiceInterface["restoreBlueprint"] = (
+        sessionId,
+        blueprint
+      ) =>
+        Effect.gen(function* () {
+          const restored: CanvasSessionState = {
+            version: 1,
+            blueprint: cloneBlueprint(blueprint),
+            history: [],
+          }
+
+          yield* Ref.update(stateRef, (prev) => ({
+            ...prev,
+            sessions: HashMap.set(prev.sessions, sessionId, restored),
+          }))
+
+          return {
+            version: restored.version,
+            blueprint: cloneBlueprint(restored.blueprint),
+          }
+        })
+
       const clearSession: CanvasStateServiceInterface["clearSession"] = (
         sessionId
       ) =>
@@ -323,6 +354,7 @@ export class CanvasStateService extends Effect.Service<CanvasStateService>()(
         ensureSession,
         applyOperation,
         exportBlueprint,
+        restoreBlueprint,
         clearSession,
         pruneSessions,
       } satisfies CanvasStateServiceInterface
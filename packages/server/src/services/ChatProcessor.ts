@@ -1,4 +1,4 @@
-import { Effect, Stream, Option, Fiber, Ref, HashMap } from "effect"
+import { Effect, Stream, Option, Fiber, Ref, HashMap, HashSet } from "effect"
 import type {
   AgentPose,
   AgentStreamEvent,
@@ -6,11 +6,22 @@ import type {
   CanvasStatePatchNotification,
   CharacterState,
   ChatMessage,
+  ChatSendResult,
   CompactingNotification,
   PoseChangeNotification,
+  QueuedMessage,
+  QueueUpdatedNotification,
   SoulStageChangeNotification,
+  TaskSuggestion,
+  TasksSuggestedNotification,
+  ToolApprovalRequest,
+  ToolApprovalRequestNotification,
+} from "@bibboy/shared"
+import {
+  InvalidMessageError,
+  SessionNotFoundError,
+  selectConversationBranch,
 } from "@bibboy/shared"
-import { SessionNotFoundError } from "@bibboy/shared"
 import { ChatSessionManager } from "./ChatSessionManager"
 import { createAgentServiceLive } from "./AgentService"
 import { createResponsesStreamEmitter, type ResponseStreamPayload } from "./ResponsesStreamEmitter"
@@ -20,12 +31,16 @@ import {
   handleAgentStreamEvent,
 } from "./chat-processor-stream-handlers"
 import { maybeCompactSessionMessages } from "./chat-processor-compaction"
+import { makeToolApprovals } from "./chat-processor-approvals"
 import { agentConfig } from "../agents/AgentConfig"
-import { createToolRegistry } from "../tools"
+import { createToolRegistry, type ToolApprovalCall } from "../tools"
+import { discoverMcpTools } from "../mcp"
 import { extractAgentErrorMessage, extractErrorTag } from "./error-utils"
-import { getGlobalConfig, getGeminiApiKeyValue } from "../config"
+import { getGlobalConfig } from "../config"
+import { resolveModelClient } from "./agent-service-model"
 import { CanvasStateService } from "./CanvasStateService"
 import { getOrCreateSoulSession, type SoulStageChangeCallback } from "./SoulStateService"
+import { getSessionTranscriptIndexer } from "../memory/MemoryService"
 
 // ============================================================================
 // Types
@@ -43,16 +58,89 @@ interface ActiveStream {
 // ============================================================================
 
 export interface ChatProcessorInterface {
+  /**
+   * Start a response for `message`, or append it to the session's queue when
+   * a response is already in progress. Queued messages run in order once the
+   * current response finishes.
+   */
   readonly processMessage: (
     sessionId: string,
     message: string,
     agentId?: string,
     characterState?: CharacterState
-  ) => Effect.Effect<{ messageId: string }, SessionNotFoundError>
+  ) => Effect.Effect<ChatSendResult, SessionNotFoundError>
+
+  /** Drop a message from the session's queue before it starts. */
+  readonly removeQueuedMessage: (
+    sessionId: string,
+    queueId: string
+  ) => Effect.Effect<{ removed: boolean }, SessionNotFoundError>
+
+  /**
+   * Start the next queued message if the session is idle, e.g. when a client
+   * reattaches after a restart left messages in the queue.
+   */
+  readonly resumeQueue: (sessionId: string) => Effect.Effect<void>
+
+  /**
+   * Re-run the agent from an edited user message. The edit is added as a
+   * sibling branch of the original, which stays available.
+   */
+  readonly editMessage: (
+    sessionId: string,
+    messageId: string,
+    message: string,
+    agentId?: string,
+    characterState?: CharacterState
+  ) => Effect.Effect<{ messageId: string }, SessionNotFoundError | InvalidMessageError>
+
+  /**
+   * Re-run the agent for the last user message. The new reply is added as
+   * a sibling branch of the previous one.
+   */
+  readonly regenerateMessage: (
+    sessionId: string,
+    agentId?: string,
+    characterState?: CharacterState
+  ) => Effect.Effect<{ messageId: string }, SessionNotFoundError | InvalidMessageError>
+
+  /**
+   * Show the branch through `messageId`, continuing to its most recent leaf.
+   * Later messages are added to that branch.
+   */
+  readonly selectBranch: (
+    sessionId: string,
+    messageId: string
+  ) => Effect.Effect<{ activeLeafId: string }, SessionNotFoundError | InvalidMessageError>
+
+  /**
+   * Answer a tool call waiting for approval. The paused agent loop runs the
+   * tool, or gets an error result for it when denied.
+   */
+  readonly resolveToolApproval: (
+    sessionId: string,
+    approvalId: string,
+    approved: boolean
+  ) => Effect.Effect<{ resolved: boolean }, SessionNotFoundError>
+
+  /** Tool calls of the session still waiting for approval. */
+  readonly getPendingApprovals: (sessionId: string) => Effect.Effect<ToolApprovalRequest[]>
+
+  /** Deny the session's waiting tool calls, e.g. when its last client disconnects. */
+  readonly denyPendingApprovals: (sessionId: string) => Effect.Effect<void>
+
+  /** Deny waiting tool calls of sessions that are no longer active. */
+  readonly pruneApprovals: (activeSessionIds: readonly string[]) => Effect.Effect<number>
 
   readonly cancelMessage: (
     sessionId: string
   ) => Effect.Effect<void, SessionNotFoundError>
+
+  /**
+   * Stop the session's response without starting its queued messages, e.g.
+   * before the session is deleted.
+   */
+  readonly endSession: (sessionId: string) => Effect.Effect<void>
 }
 
 // ============================================================================
@@ -71,17 +159,80 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
         HashMap.empty()
       )
 
+      // Sessions with a response in progress, from the moment a turn is
+      // claimed (before any async setup) until its stream finishes
+      const busySessionsRef = yield* Ref.make(HashSet.empty<string>())
+
+      // Serializes claiming a turn against queue changes, so a new message
+      // cannot overtake queued ones or be left behind in an idle session
+      const queueLock = yield* Effect.makeSemaphore(1)
+
+      // Tool calls waiting for the user's approval
+      const approvals = yield* makeToolApprovals()
+
       const sendEvent = (
         sessionId: string,
         event: ResponseStreamPayload
       ): Effect.Effect<void, SessionNotFoundError> => sessionManager.send(sessionId, event)
 
-      const processMessage: ChatProcessorInterface["processMessage"] = (
+      const releaseTurn = (sessionId: string) =>
+        Ref.update(busySessionsRef, (busy) => HashSet.remove(busy, sessionId))
+
+      const sendQueueUpdate = (
+        sessionId: string,
+        started?: QueueUpdatedNotification["params"]["started"]
+      ): Effect.Effect<void> =>
+        Effect.gen(function* () {
+          const maybeSession = yield* sessionManager.getSession(sessionId)
+          if (Option.isNone(maybeSession)) return
+
+          const notification: QueueUpdatedNotification = {
+            jsonrpc: "2.0",
+            method: "chat.queue_updated",
+            params: { queue: [...maybeSession.value.messageQueue], ...(started && { started }) },
+          }
+          yield* sendEvent(sessionId, notification).pipe(Effect.ignore)
+        })
+
+      // Pause the agent loop until the user approves or denies the call. An
+      // unanswered call is denied on timeout; a cancelled turn interrupts the
+      // wait, which drops the request.
+      const requestToolApproval = (
+        sessionId: string,
+        call: ToolApprovalCall
+      ): Effect.Effect<boolean> => {
+        const request: ToolApprovalRequest = {
+          approvalId: `approval_${crypto.randomUUID()}`,
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          arguments: call.args,
+        }
+
+        const notification: ToolApprovalRequestNotification = {
+          jsonrpc: "2.0",
+          method: "chat.tool_approval_request",
+          params: request,
+        }
+        return approvals.wait(
+          sessionId,
+          request,
+          sendEvent(sessionId, notification).pipe(Effect.ignore)
+        )
+      }
+
+      // Run the agent for `message`. The user message is added under the
+      // active leaf unless it is already there (regeneration).
+      const runTurn = (
         sessionId: string,
         message: string,
-        agentId?: string,
-        characterState?: CharacterState
-      ) =>
+        agentId: string | undefined,
+        characterState: CharacterState | undefined,
+        options: {
+          userMessageExists?: boolean
+          /** Called with the response id before any response events are sent */
+          onStart?: (messageId: string) => Effect.Effect<void>
+        } = {}
+      ): Effect.Effect<{ messageId: string }, SessionNotFoundError> =>
         Effect.gen(function* () {
           console.log(`[ChatProcessor] Processing message for session ${sessionId}`)
 
@@ -100,6 +251,23 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
             agentConfig.getAgent(agentConfig.getDefaultAgentId())
           const model = resolvedAgent?.model.primary ?? "gemini-3-flash-preview"
 
+          // Archive the transcript into the owner's long-term memory (when
+          // "sessions" is a memory source); sessions without a user aren't archived
+          const userId = maybeSession.value.userId ?? undefined
+          const indexTranscript = (
+            messages: readonly ChatMessage[],
+            force: boolean
+          ): Effect.Effect<void, never> =>
+            Effect.tryPromise(async () => {
+              if (!resolvedAgent || !userId) return
+              const indexer = getSessionTranscriptIndexer(resolvedAgent.id, resolvedAgent.memorySearch)
+              await indexer?.indexSession(userId, sessionId, messages, { force })
+            }).pipe(
+              Effect.catchAll((error) =>
+                Effect.sync(() => console.warn(`[ChatProcessor] Transcript indexing failed: ${error}`))
+              )
+            )
+
           // Callback to send pose changes to the client
           const sendPoseChange = (pose: AgentPose) => {
             const notification: PoseChangeNotification = {
@@ -112,6 +280,16 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
             )
           }
 
+          // Callback to send agent task suggestions to the client task list
+          const emitTaskSuggest = (tasks: TaskSuggestion[]) => {
+            const notification: TasksSuggestedNotification = {
+              jsonrpc: "2.0",
+              method: "tasks.suggested",
+              params: { tasks },
+            }
+            void Effect.runPromise(sendEvent(sessionId, notification).pipe(Effect.ignore))
+          }
+
           const canvasRuntime = {
             sessionId,
             getState: async () =>
@@ -145,9 +323,20 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
             }
             void Effect.runPromise(sendEvent(sessionId, notification).pipe(Effect.ignore))
           }
-          const soulSession = getOrCreateSoulSession(sessionId, canvasRuntime, onSoulStageChange)
+          // Soul state is keyed by the user's stable identity when the client supplied one
+          const soulSession = getOrCreateSoulSession(
+            sessionId,
+            canvasRuntime,
+            onSoulStageChange,
+            userId
+          )
           const soulRuntime = soulSession.createRuntime()
 
+          // MCP servers connect on first use and are shared across sessions
+          const mcpServers = resolvedAgent
+            ? yield* Effect.promise(() => discoverMcpTools(resolvedAgent))
+            : []
+
           let sessionMessages: ChatMessage[] = []
           const toolRegistry = resolvedAgent
             ? createToolRegistry(
@@ -155,7 +344,10 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
                 () => sessionMessages,
                 sendPoseChange,
                 canvasRuntime,
-                soulRuntime
+                soulRuntime,
+                emitTaskSuggest,
+                mcpServers,
+                userId
               )
             : null
           const toolDefs = toolRegistry?.getDefinitions() ?? []
@@ -176,13 +368,23 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
           console.log(`[ChatProcessor] Created response ID: ${messageId}`)
 
           // Add user message to session
-          const userMessage: ChatMessage = {
-            id: `user_${messageId}`,
-            role: "user",
-            content: message,
-            timestamp: Date.now(),
+          if (!options.userMessageExists) {
+            const userMessage: ChatMessage = {
+              id: `user_${messageId}`,
+              role: "user",
+              content: message,
+              timestamp: Date.now(),
+            }
+            yield* sessionManager.addMessage(sessionId, userMessage)
+          }
+          yield* sessionManager.updateSession(sessionId, (s) => ({
+            ...s,
+            agentId: resolvedAgent?.id ?? resolvedAgentId,
+          }))
+
+          if (options.onStart) {
+            yield* options.onStart(messageId)
           }
-          yield* sessionManager.addMessage(sessionId, userMessage)
 
           // Mark as streaming
           yield* sessionManager.setActiveMessage(sessionId, messageId)
@@ -196,7 +398,9 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
 
           // Context compaction (delegated to helper).
           const appConfig = getGlobalConfig()
-          const apiKey = getGeminiApiKeyValue(appConfig) ?? null
+          const compactionClient = yield* resolveModelClient(appConfig, model).pipe(
+            Effect.option
+          )
 
           const sendCompactionNotification = (
             params: CompactingNotification["params"]
@@ -210,12 +414,15 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
           sessionMessages = yield* maybeCompactSessionMessages({
             sessionId,
             messageId,
-            model,
-            apiKey,
+            model: Option.isSome(compactionClient) ? compactionClient.value.model : model,
+            client: Option.isSome(compactionClient) ? compactionClient.value.client : null,
             sessionMessages,
             sendCompactionNotification,
             replaceSessionMessages: (messages) =>
-              sessionManager.replaceMessages(sessionId, messages).pipe(Effect.ignore),
+              // Archive the full history before it is replaced by a summary
+              indexTranscript(sessionMessages, true).pipe(
+                Effect.zipRight(sessionManager.replaceMessages(sessionId, messages).pipe(Effect.ignore))
+              ),
           })
 
           // Create agent service with session's message history
@@ -225,7 +432,11 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
             characterState,
             sendPoseChange,
             canvasRuntime,
-            soulRuntime
+            soulRuntime,
+            emitTaskSuggest,
+            (call) => requestToolApproval(sessionId, call),
+            mcpServers,
+            userId
           )
 
           const streamState = createStreamEventState()
@@ -241,6 +452,7 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
               message,
               history: historyForAgent,
               agentId,
+              sessionId,
               enableTools: true,
             })
 
@@ -268,6 +480,12 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
               activeStreamsRef,
               sessionId,
             })
+
+            const completedMessages = yield* sessionManager
+              .getMessages(sessionId)
+              .pipe(Effect.orElseSucceed((): readonly ChatMessage[] => []))
+            yield* indexTranscript(completedMessages, false)
+            yield* finishTurn(sessionId)
           }).pipe(
             Effect.catchAll((error) =>
               Effect.gen(function* () {
@@ -280,6 +498,7 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
                   activeStreamsRef,
                   sessionId,
                 })
+                yield* finishTurn(sessionId)
               })
             )
           )
@@ -300,6 +519,278 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
           return { messageId }
         })
 
+      // Run a turn the caller has claimed; the claim is released if the turn
+      // fails before its stream starts
+      const startTurn = (...args: Parameters<typeof runTurn>) =>
+        runTurn(...args).pipe(Effect.onError(() => releaseTurn(args[0])))
+
+      // Take the next queued message, claiming the turn for it. With
+      // `alreadyClaimed` the caller's turn is handed over, or released when
+      // the queue is empty.
+      const takeNextQueued = (
+        sessionId: string,
+        alreadyClaimed: boolean
+      ): Effect.Effect<Option.Option<QueuedMessage>> =>
+        queueLock.withPermits(1)(
+          Effect.gen(function* () {
+            const busy = yield* Ref.get(busySessionsRef)
+            if (!alreadyClaimed && HashSet.has(busy, sessionId)) {
+              return Option.none()
+            }
+
+            const maybeSession = yield* sessionManager.getSession(sessionId)
+            const next = Option.isSome(maybeSession)
+              ? maybeSession.value.messageQueue[0]
+              : undefined
+            if (!next) {
+              if (alreadyClaimed) yield* releaseTurn(sessionId)
+              return Option.none()
+            }
+
+            yield* Ref.update(busySessionsRef, (busy) => HashSet.add(busy, sessionId))
+            yield* sessionManager
+              .updateSession(sessionId, (s) => ({
+                ...s,
+                messageQueue: s.messageQueue.filter((q) => q.id !== next.id),
+              }))
+              .pipe(Effect.ignore)
+            return Option.some(next)
+          })
+        )
+
+      const startQueued = (sessionId: string, next: QueuedMessage): Effect.Effect<void> =>
+        startTurn(sessionId, next.message, next.agentId, next.characterState, {
+          onStart: (messageId) =>
+            sendQueueUpdate(sessionId, { queueId: next.id, messageId, message: next.message }),
+        }).pipe(
+          Effect.asVoid,
+          Effect.catchAll((error) =>
+            Effect.sync(() =>
+              console.warn(`[ChatProcessor] Queued message failed to start: ${error.message}`)
+            )
+          )
+        )
+
+      // Hand the session over to the next queued message, if any
+      const finishTurn = (sessionId: string): Effect.Effect<void> =>
+        Effect.flatMap(takeNextQueued(sessionId, true), (next) =>
+          Option.isSome(next) ? startQueued(sessionId, next.value) : Effect.void
+        )
+
+      const getSessionOrFail = (sessionId: string) =>
+        Effect.flatMap(sessionManager.getSession(sessionId), (maybeSession) =>
+          Option.isSome(maybeSession)
+            ? Effect.succeed(maybeSession.value)
+            : Effect.fail(new SessionNotFoundError({ sessionId }))
+        )
+
+      const processMessage: ChatProcessorInterface["processMessage"] = (
+        sessionId: string,
+        message: string,
+        agentId?: string,
+        characterState?: CharacterState
+      ) =>
+        Effect.gen(function* () {
+          const queued = yield* queueLock.withPermits(1)(
+            Effect.gen(function* () {
+              const session = yield* getSessionOrFail(sessionId)
+              const busy = yield* Ref.get(busySessionsRef)
+              if (!HashSet.has(busy, sessionId) && session.messageQueue.length === 0) {
+                yield* Ref.set(busySessionsRef, HashSet.add(busy, sessionId))
+                return Option.none<QueuedMessage>()
+              }
+
+              const item: QueuedMessage = {
+                id: `queued_${crypto.randomUUID()}`,
+                message,
+                createdAt: Date.now(),
+                ...(agentId && { agentId }),
+                ...(characterState && { characterState }),
+              }
+              yield* sessionManager.updateSession(sessionId, (s) => ({
+                ...s,
+                messageQueue: [...s.messageQueue, item],
+              }))
+              return Option.some(item)
+            })
+          )
+
+          if (Option.isNone(queued)) {
+            return yield* startTurn(sessionId, message, agentId, characterState)
+          }
+
+          console.log(`[ChatProcessor] Queued message ${queued.value.id} for session ${sessionId}`)
+          yield* sendQueueUpdate(sessionId)
+          // Idle with a backlog (e.g. a queued turn failed to start): drain it
+          yield* resumeQueue(sessionId)
+          return { queued: queued.value }
+        })
+
+      const removeQueuedMessage: ChatProcessorInterface["removeQueuedMessage"] = (
+        sessionId: string,
+        queueId: string
+      ) =>
+        Effect.gen(function* () {
+          const removed = yield* queueLock.withPermits(1)(
+            Effect.gen(function* () {
+              const session = yield* getSessionOrFail(sessionId)
+              if (!session.messageQueue.some((q) => q.id === queueId)) return false
+
+              yield* sessionManager.updateSession(sessionId, (s) => ({
+                ...s,
+                messageQueue: s.messageQueue.filter((q) => q.id !== queueId),
+              }))
+              return true
+            })
+          )
+
+          if (removed) {
+            yield* sendQueueUpdate(sessionId)
+          }
+          return { removed }
+        })
+
+      const resumeQueue: ChatProcessorInterface["resumeQueue"] = (sessionId: string) =>
+        Effect.flatMap(takeNextQueued(sessionId, false), (next) =>
+          Option.isSome(next) ? startQueued(sessionId, next.value) : Effect.void
+        )
+
+      // Claim the session for a turn that must not wait in the queue; the
+      // active branch can only change between responses
+      const claimIdleTurn = (sessionId: string): Effect.Effect<void, InvalidMessageError> =>
+        queueLock.withPermits(1)(
+          Effect.gen(function* () {
+            const busy = yield* Ref.get(busySessionsRef)
+            if (HashSet.has(busy, sessionId)) {
+              return yield* Effect.fail(
+                new InvalidMessageError({ reason: "A response is already in progress" })
+              )
+            }
+            yield* Ref.set(busySessionsRef, HashSet.add(busy, sessionId))
+          })
+        )
+
+      const ensureIdle = (sessionId: string): Effect.Effect<void, InvalidMessageError> =>
+        Effect.gen(function* () {
+          const busy = yield* Ref.get(busySessionsRef)
+          if (HashSet.has(busy, sessionId)) {
+            return yield* Effect.fail(
+              new InvalidMessageError({ reason: "A response is already in progress" })
+            )
+          }
+        })
+
+      const editMessage: ChatProcessorInterface["editMessage"] = (
+        sessionId: string,
+        messageId: string,
+        message: string,
+        agentId?: string,
+        characterState?: CharacterState
+      ) =>
+        Effect.gen(function* () {
+          const session = yield* getSessionOrFail(sessionId)
+
+          const target = session.messages.find((m) => m.id === messageId)
+          if (!target || target.role !== "user") {
+            return yield* Effect.fail(
+              new InvalidMessageError({ reason: `User message not found: ${messageId}` })
+            )
+          }
+
+          yield* claimIdleTurn(sessionId)
+          // The edited message becomes a sibling of the original
+          return yield* sessionManager
+            .updateSession(sessionId, (s) => ({ ...s, activeLeafId: target.parentId ?? null }))
+            .pipe(
+              Effect.zipRight(runTurn(sessionId, message, agentId, characterState)),
+              Effect.onError(() => releaseTurn(sessionId))
+            )
+        })
+
+      const regenerateMessage: ChatProcessorInterface["regenerateMessage"] = (
+        sessionId: string,
+        agentId?: string,
+        characterState?: CharacterState
+      ) =>
+        Effect.gen(function* () {
+          const messages = yield* sessionManager.getMessages(sessionId)
+
+          const userMessage = messages.findLast((m) => m.role === "user")
+          if (!userMessage) {
+            return yield* Effect.fail(
+              new InvalidMessageError({ reason: "No user message to regenerate from" })
+            )
+          }
+
+          yield* claimIdleTurn(sessionId)
+          // The new reply becomes a sibling of the previous one
+          return yield* sessionManager
+            .updateSession(sessionId, (s) => ({ ...s, activeLeafId: userMessage.id }))
+            .pipe(
+              Effect.zipRight(
+                runTurn(sessionId, userMessage.content, agentId, characterState, {
+                  userMessageExists: true,
+                })
+              ),
+              Effect.onError(() => releaseTurn(sessionId))
+            )
+        })
+
+      const selectBranch: ChatProcessorInterface["selectBranch"] = (
+        sessionId: string,
+        messageId: string
+      ) =>
+        Effect.gen(function* () {
+          yield* ensureIdle(sessionId)
+          const session = yield* getSessionOrFail(sessionId)
+
+          if (!session.messages.some((m) => m.id === messageId)) {
+            return yield* Effect.fail(
+              new InvalidMessageError({ reason: `Message not found: ${messageId}` })
+            )
+          }
+
+          const { activeLeafId } = selectConversationBranch(session, messageId)
+          yield* sessionManager.updateSession(sessionId, (s) => ({ ...s, activeLeafId }))
+          return { activeLeafId: activeLeafId ?? messageId }
+        })
+
+      const resolveToolApproval: ChatProcessorInterface["resolveToolApproval"] = (
+        sessionId: string,
+        approvalId: string,
+        approved: boolean
+      ) =>
+        Effect.gen(function* () {
+          yield* getSessionOrFail(sessionId)
+
+          const resolved = yield* approvals.resolve(sessionId, approvalId, approved)
+          if (resolved) {
+            console.log(
+              `[ChatProcessor] ${approvalId} ${approved ? "approved" : "denied"} for session ${sessionId}`
+            )
+          }
+          return { resolved }
+        })
+
+      const getPendingApprovals: ChatProcessorInterface["getPendingApprovals"] = (
+        sessionId: string
+      ) => approvals.list(sessionId)
+
+      const denyPendingApprovals: ChatProcessorInterface["denyPendingApprovals"] = (
+        sessionId: string
+      ) =>
+        Effect.flatMap(approvals.denyAll(sessionId), (denied) =>
+          denied > 0
+            ? Effect.sync(() =>
+                console.log(`[ChatProcessor] Denied ${denied} pending approval(s) for session ${sessionId}`)
+              )
+            : Effect.void
+        )
+
+      const pruneApprovals: ChatProcessorInterface["pruneApprovals"] = (
+        activeSessionIds: readonly string[]
+      ) => approvals.prune(activeSessionIds)
+
       const cancelMessage: ChatProcessorInterface["cancelMessage"] = (
         sessionId: string
       ) =>
@@ -330,12 +821,35 @@ export class ChatProcessor extends Effect.Service<ChatProcessor>()(
               activeStreamsRef,
               sessionId,
             })
+            yield* finishTurn(sessionId)
+          }
+        })
+
+      const endSession: ChatProcessorInterface["endSession"] = (sessionId: string) =>
+        Effect.gen(function* () {
+          const maybeStream = HashMap.get(yield* Ref.get(activeStreamsRef), sessionId)
+
+          if (Option.isSome(maybeStream)) {
+            maybeStream.value.abortController.abort()
+            yield* Fiber.interrupt(maybeStream.value.fiber)
+            yield* Ref.update(activeStreamsRef, (streams) => HashMap.remove(streams, sessionId))
           }
+          yield* releaseTurn(sessionId)
         })
 
       return {
         processMessage,
+        removeQueuedMessage,
+        resumeQueue,
+        editMessage,
+        regenerateMessage,
+        selectBranch,
+        resolveToolApproval,
+        getPendingApprovals,
+        denyPendingApprovals,
+        pruneApprovals,
         cancelMessage,
+        endSession,
       } satisfies ChatProcessorInterface
     }),
     dependencies: [ChatSessionManager.Default],
@@ -1,8 +1,33 @@
 import { Effect, Ref, HashMap, Option } from "effect"
 import type { ServerWebSocket } from "bun"
-import type { ChatMessage } from "@bibboy/shared"
-import { SessionNotFoundError } from "@bibboy/shared"
+import type {
+  ChatMessage,
+  QueuedMessage,
+  ResponseStreamEvent,
+  SessionPresenceNotification,
+  SessionSnapshotNotification,
+  SessionToolCall,
+} from "@bibboy/shared"
+import {
+  SessionNotFoundError,
+  WS_CLOSE_CODES,
+  appendToConversation,
+  createConversationTree,
+  getActivePath,
+} from "@bibboy/shared"
 import type { ResponseStreamPayload } from "./ResponsesStreamEmitter"
+import {
+  EMPTY_STREAM_REPLAY,
+  getCatchUp,
+  recordStreamEvent,
+  type StreamReplay,
+} from "./session-stream-replay"
+import {
+  ChatSessionStore,
+  InMemorySessionStoreLive,
+  computeSessionExpiry,
+  type PersistedSession,
+} from "./SessionStore"
 
 // ============================================================================
 // Constants
@@ -17,23 +42,204 @@ const CLEANUP_INTERVAL_MS = 10_000 // 10 seconds
 
 export interface SessionData {
   sessionId: string
+  /** Identifies this socket among the session's attached sockets */
+  connectionId: string
   connectedAt: number
+  /** Last response event sequence number the client saw, when reconnecting */
+  lastSequence?: number
+  /** Stable user identity supplied by the client, if any */
+  userId?: string
 }
 
 interface InternalSession {
   sessionId: string
+  userId: string | null
+  agentId: string | null
+  title: string | null
   connectedAt: number
   lastActivity: number
-  messages: ChatMessage[]
+  /** Every message of the conversation tree, in insertion order */
+  messages: readonly ChatMessage[]
+  /** Last message of the active branch; new messages are added under it */
+  activeLeafId: string | null
+  toolCalls: SessionToolCall[]
+  /** User messages waiting for the current response, oldest first */
+  messageQueue: QueuedMessage[]
   activeMessageId: string | null
   isStreaming: boolean
   disconnectedAt: number | null
   pendingNotifications: ResponseStreamPayload[]
 }
 
+type SessionSockets = HashMap.HashMap<string, ServerWebSocket<SessionData>>
+
 interface SessionState {
   sessions: HashMap.HashMap<string, InternalSession>
-  sockets: HashMap.HashMap<string, ServerWebSocket<SessionData>>
+  /** Attached sockets per session (tabs, devices), keyed by connection ID */
+  sockets: HashMap.HashMap<string, SessionSockets>
+  /** Recent response events per session, for replay on reconnect (not persisted) */
+  replays: HashMap.HashMap<string, StreamReplay>
+}
+
+// ============================================================================
+// Socket Helpers
+// ============================================================================
+
+function getSessionSockets(
+  state: SessionState,
+  sessionId: string
+): ServerWebSocket<SessionData>[] {
+  return Option.match(HashMap.get(state.sockets, sessionId), {
+    onNone: () => [],
+    onSome: (sockets) => [...HashMap.values(sockets)],
+  })
+}
+
+function removeSocket(
+  sockets: HashMap.HashMap<string, SessionSockets>,
+  sessionId: string,
+  connectionId: string
+): HashMap.HashMap<string, SessionSockets> {
+  const remaining = HashMap.get(sockets, sessionId).pipe(
+    Option.map((session) => HashMap.remove(session, connectionId)),
+    Option.getOrElse((): SessionSockets => HashMap.empty())
+  )
+  return HashMap.isEmpty(remaining)
+    ? HashMap.remove(sockets, sessionId)
+    : HashMap.set(sockets, sessionId, remaining)
+}
+
+function isResponseEvent(payload: ResponseStreamPayload): payload is ResponseStreamEvent {
+  return "type" in payload
+}
+
+/**
+ * Send a payload to every socket, returning how many accepted it.
+ */
+function broadcast(
+  sockets: readonly ServerWebSocket<SessionData>[],
+  payload: ResponseStreamPayload
+): number {
+  const json = JSON.stringify(payload)
+  let delivered = 0
+  for (const ws of sockets) {
+    try {
+      // 0 means the socket dropped the message (e.g. it is closing)
+      if (ws.send(json) !== 0) delivered++
+    } catch {
+      // Socket may have closed; its close handler detaches it
+    }
+  }
+  return delivered
+}
+
+/**
+ * Send a reconnecting socket the response events it missed since its
+ * `lastSequence`, or a snapshot when they are no longer buffered.
+ */
+function catchUpSocket(
+  state: SessionState,
+  sessionId: string,
+  ws: ServerWebSocket<SessionData>
+): void {
+  const lastSeen = ws.data.lastSequence
+  const maybeSession = HashMap.get(state.sessions, sessionId)
+  if (lastSeen === undefined || Option.isNone(maybeSession)) return
+
+  const replay = HashMap.get(state.replays, sessionId).pipe(
+    Option.getOrElse(() => EMPTY_STREAM_REPLAY)
+  )
+  const catchUp = getCatchUp(replay, lastSeen)
+  if (catchUp.type === "replay") {
+    for (const event of catchUp.events) {
+      broadcast([ws], event)
+    }
+  } else if (catchUp.type === "snapshot") {
+    const session = maybeSession.value
+    const notification: SessionSnapshotNotification = {
+      jsonrpc: "2.0",
+      method: "session.snapshot",
+      params: {
+        sessionId,
+        messages: [...session.messages],
+        activeLeafId: session.activeLeafId,
+        inProgress: replay.inProgress,
+        lastSequence: replay.lastSequence,
+      },
+    }
+    broadcast([ws], notification)
+  }
+}
+
+// ============================================================================
+// Persistence Mapping
+// ============================================================================
+
+function toPersistedSession(session: InternalSession): PersistedSession {
+  return {
+    sessionId: session.sessionId,
+    userId: session.userId,
+    agentId: session.agentId,
+    title: session.title,
+    connectedAt: session.connectedAt,
+    lastActivity: session.lastActivity,
+    messages: [...session.messages],
+    activeLeafId: session.activeLeafId,
+    toolCalls: session.toolCalls,
+    messageQueue: session.messageQueue,
+    activeMessageId: session.activeMessageId,
+    disconnectedAt: session.disconnectedAt,
+    pendingNotifications: session.pendingNotifications,
+    expiresAt: computeSessionExpiry(session.lastActivity),
+  }
+}
+
+/**
+ * Fields whose changes are written to the store. Streaming flags and the
+ * activity timestamp change many times per response; they are saved along
+ * with the next durable change instead.
+ */
+const DURABLE_FIELDS = [
+  "userId",
+  "agentId",
+  "title",
+  "connectedAt",
+  "messages",
+  "activeLeafId",
+  "toolCalls",
+  "messageQueue",
+  "disconnectedAt",
+  "pendingNotifications",
+] as const satisfies readonly (keyof InternalSession)[]
+
+function hasDurableChanges(before: InternalSession, after: InternalSession): boolean {
+  return DURABLE_FIELDS.some((field) => before[field] !== after[field])
+}
+
+/**
+ * Rebuild a live session from its persisted form.
+ * Any stream that was in flight when the session was saved is gone,
+ * so streaming state is reset.
+ */
+function fromPersistedSession(persisted: PersistedSession): InternalSession {
+  // Sessions saved before branching have a flat history and no leaf
+  const tree = createConversationTree(persisted.messages, persisted.activeLeafId)
+  return {
+    sessionId: persisted.sessionId,
+    userId: persisted.userId,
+    agentId: persisted.agentId,
+    title: persisted.title,
+    connectedAt: persisted.connectedAt,
+    lastActivity: persisted.lastActivity,
+    messages: tree.messages,
+    activeLeafId: tree.activeLeafId,
+    toolCalls: persisted.toolCalls,
+    messageQueue: persisted.messageQueue,
+    activeMessageId: null,
+    isStreaming: false,
+    disconnectedAt: persisted.disconnectedAt,
+    pendingNotifications: persisted.pendingNotifications,
+  }
 }
 
 // ============================================================================
@@ -42,37 +248,65 @@ interface SessionState {
 
 export interface ChatSessionManagerInterface {
   readonly createSession: (
-    sessionId: string
+    sessionId: string,
+    userId?: string
   ) => Effect.Effect<InternalSession>
 
   readonly getSession: (
     sessionId: string
   ) => Effect.Effect<Option.Option<InternalSession>>
 
+  /**
+   * Get a live session, or rehydrate it from the session store if it was
+   * persisted and has not expired.
+   */
+  readonly restoreSession: (
+    sessionId: string
+  ) => Effect.Effect<Option.Option<InternalSession>>
+
   readonly updateSession: (
     sessionId: string,
     fn: (session: InternalSession) => InternalSession
   ) => Effect.Effect<void, SessionNotFoundError>
 
+  /**
+   * Attach a socket. A reconnecting socket (with `lastSequence`) first gets
+   * the response events it missed, or a snapshot if they are gone.
+   */
   readonly attachSocket: (
     sessionId: string,
     ws: ServerWebSocket<SessionData>
   ) => Effect.Effect<void>
 
+  /** Sequence number of the session's latest response event */
+  readonly getLastSequence: (sessionId: string) => Effect.Effect<number>
+
+  /**
+   * Detach one socket. The session's grace period starts once its last
+   * socket is gone.
+   */
   readonly detachSocket: (
-    sessionId: string
+    sessionId: string,
+    connectionId: string
   ) => Effect.Effect<void>
 
+  /**
+   * Send to every attached socket. Response events are renumbered per session
+   * and buffered for replay; other notifications are kept for the next attach
+   * when no socket is attached.
+   */
   readonly send: (
     sessionId: string,
     message: ResponseStreamPayload
   ) => Effect.Effect<void, SessionNotFoundError>
 
+  /** Add a message under the active leaf and make it the new leaf */
   readonly addMessage: (
     sessionId: string,
     message: ChatMessage
   ) => Effect.Effect<void, SessionNotFoundError>
 
+  /** Messages on the active branch, from the root to the active leaf */
   readonly getMessages: (
     sessionId: string
   ) => Effect.Effect<readonly ChatMessage[], SessionNotFoundError>
@@ -95,11 +329,28 @@ export interface ChatSessionManagerInterface {
 
   readonly listSessionIds: () => Effect.Effect<readonly string[]>
 
+  /**
+   * List live sessions plus unexpired sessions that only exist in the
+   * session store, with whether a socket is attached.
+   */
+  readonly listSessions: () => Effect.Effect<
+    readonly { session: InternalSession; connected: boolean }[]
+  >
+
+  readonly isConnected: (
+    sessionId: string
+  ) => Effect.Effect<boolean>
+
+  /**
+   * Replace the conversation with a linear history (e.g. after compaction).
+   * Alternate branches are discarded.
+   */
   readonly replaceMessages: (
     sessionId: string,
     messages: ChatMessage[]
   ) => Effect.Effect<void, SessionNotFoundError>
 
+  /** Remove a session and close its attached sockets. */
   readonly deleteSession: (
     sessionId: string
   ) => Effect.Effect<void>
@@ -116,18 +367,41 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
       const stateRef = yield* Ref.make<SessionState>({
         sessions: HashMap.empty(),
         sockets: HashMap.empty(),
+        replays: HashMap.empty(),
       })
+      const store = yield* ChatSessionStore
+
+      // Store failures are logged but never break the live session.
+      const runStoreOp = <A>(operation: string, fn: () => A): Effect.Effect<A | null> =>
+        Effect.sync(() => {
+          try {
+            return fn()
+          } catch (error) {
+            console.warn(`[ChatSessionManager] Session store ${operation} failed:`, error)
+            return null
+          }
+        })
+
+      const persist = (session: InternalSession) =>
+        runStoreOp("save", () => store.save(toPersistedSession(session)))
 
       const createSession: ChatSessionManagerInterface["createSession"] = (
-        sessionId: string
+        sessionId: string,
+        userId?: string
       ) =>
         Effect.gen(function* () {
           const now = Date.now()
           const session: InternalSession = {
             sessionId,
+            userId: userId ?? null,
+            agentId: null,
+            title: null,
             connectedAt: now,
             lastActivity: now,
             messages: [],
+            activeLeafId: null,
+            toolCalls: [],
+            messageQueue: [],
             activeMessageId: null,
             isStreaming: false,
             disconnectedAt: null,
@@ -138,6 +412,7 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
             ...state,
             sessions: HashMap.set(state.sessions, sessionId, session),
           }))
+          yield* persist(session)
 
           return session
         })
@@ -150,6 +425,34 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
           return HashMap.get(state.sessions, sessionId)
         })
 
+      const restoreSession: ChatSessionManagerInterface["restoreSession"] = (
+        sessionId: string
+      ) =>
+        Effect.gen(function* () {
+          const existing = yield* getSession(sessionId)
+          if (Option.isSome(existing)) {
+            return existing
+          }
+
+          const persisted = yield* runStoreOp("load", () => store.load(sessionId))
+          if (!persisted) {
+            return Option.none()
+          }
+
+          if (persisted.expiresAt <= Date.now()) {
+            yield* runStoreOp("delete", () => store.delete(sessionId))
+            return Option.none()
+          }
+
+          const session = fromPersistedSession(persisted)
+          yield* Ref.update(stateRef, (state) => ({
+            ...state,
+            sessions: HashMap.set(state.sessions, sessionId, session),
+          }))
+
+          return Option.some(session)
+        })
+
       const updateSession: ChatSessionManagerInterface["updateSession"] = (
         sessionId: string,
         fn: (session: InternalSession) => InternalSession
@@ -167,6 +470,23 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
             ...s,
             sessions: HashMap.set(s.sessions, sessionId, updated),
           }))
+          if (hasDurableChanges(maybeSession.value, updated)) {
+            yield* persist(updated)
+          }
+        })
+
+      // Tell every attached socket how many are attached
+      const sendPresence = (sessionId: string): Effect.Effect<void> =>
+        Effect.gen(function* () {
+          const sockets = getSessionSockets(yield* Ref.get(stateRef), sessionId)
+          if (sockets.length === 0) return
+
+          const notification: SessionPresenceNotification = {
+            jsonrpc: "2.0",
+            method: "session.presence",
+            params: { sessionId, connectionCount: sockets.length },
+          }
+          broadcast(sockets, notification)
         })
 
       const attachSocket: ChatSessionManagerInterface["attachSocket"] = (
@@ -174,10 +494,23 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
         ws: ServerWebSocket<SessionData>
       ) =>
         Effect.gen(function* () {
-          yield* Ref.update(stateRef, (state) => ({
-            ...state,
-            sockets: HashMap.set(state.sockets, sessionId, ws),
-          }))
+          yield* Ref.update(stateRef, (state) => {
+            // Catching up in the same update that attaches the socket keeps
+            // live events from arriving before the replayed ones
+            catchUpSocket(state, sessionId, ws)
+
+            const sessionSockets = HashMap.get(state.sockets, sessionId).pipe(
+              Option.getOrElse((): SessionSockets => HashMap.empty())
+            )
+            return {
+              ...state,
+              sockets: HashMap.set(
+                state.sockets,
+                sessionId,
+                HashMap.set(sessionSockets, ws.data.connectionId, ws)
+              ),
+            }
+          })
 
           // Update session to mark as connected (ignore error if session doesn't exist)
           const maybeSession = yield* getSession(sessionId)
@@ -188,18 +521,26 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
               lastActivity: Date.now(),
             })).pipe(Effect.ignore)
           }
+
+          yield* sendPresence(sessionId)
         })
 
       const detachSocket: ChatSessionManagerInterface["detachSocket"] = (
-        sessionId: string
+        sessionId: string,
+        connectionId: string
       ) =>
         Effect.gen(function* () {
-          yield* Ref.update(stateRef, (state) => ({
+          const state = yield* Ref.updateAndGet(stateRef, (state) => ({
             ...state,
-            sockets: HashMap.remove(state.sockets, sessionId),
+            sockets: removeSocket(state.sockets, sessionId, connectionId),
           }))
 
-          // Mark session as disconnected (start grace period)
+          if (HashMap.has(state.sockets, sessionId)) {
+            yield* sendPresence(sessionId)
+            return
+          }
+
+          // Last socket gone: mark session as disconnected (start grace period)
           const maybeSession = yield* getSession(sessionId)
           if (Option.isSome(maybeSession)) {
             yield* updateSession(sessionId, (s) => ({
@@ -209,33 +550,47 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
           }
         })
 
+      const getLastSequence: ChatSessionManagerInterface["getLastSequence"] = (
+        sessionId: string
+      ) =>
+        Effect.map(Ref.get(stateRef), (state) =>
+          HashMap.get(state.replays, sessionId).pipe(
+            Option.match({ onNone: () => 0, onSome: (replay) => replay.lastSequence })
+          )
+        )
+
       const send: ChatSessionManagerInterface["send"] = (
         sessionId: string,
         message: ResponseStreamPayload
       ) =>
         Effect.gen(function* () {
-          const state = yield* Ref.get(stateRef)
-          const maybeSocket = HashMap.get(state.sockets, sessionId)
-          const maybeSession = HashMap.get(state.sessions, sessionId)
+          const [payload, state] = yield* Ref.modify(stateRef, (state) => {
+            if (!HashMap.has(state.sessions, sessionId) || !isResponseEvent(message)) {
+              return [[message, state] as const, state]
+            }
 
-          if (Option.isNone(maybeSession)) {
+            const recorded = recordStreamEvent(
+              HashMap.get(state.replays, sessionId).pipe(
+                Option.getOrElse(() => EMPTY_STREAM_REPLAY)
+              ),
+              message
+            )
+            const next = {
+              ...state,
+              replays: HashMap.set(state.replays, sessionId, recorded.replay),
+            }
+            return [[recorded.event, next] as const, next]
+          })
+
+          if (!HashMap.has(state.sessions, sessionId)) {
             return yield* Effect.fail(new SessionNotFoundError({ sessionId }))
           }
 
-          if (Option.isSome(maybeSocket)) {
-            // Socket connected - send directly
-            const ws = maybeSocket.value
-            try {
-              ws.send(JSON.stringify(message))
-            } catch {
-              // Socket may have closed, queue the notification
-              yield* updateSession(sessionId, (s) => ({
-                ...s,
-                pendingNotifications: [...s.pendingNotifications, message],
-              }))
-            }
-          } else {
-            // Socket disconnected - queue for later
+          const delivered = broadcast(getSessionSockets(state, sessionId), payload)
+
+          // No socket took it (all disconnected or closing) - queue for later.
+          // Response events are replayed from the buffer instead.
+          if (delivered === 0 && !isResponseEvent(payload)) {
             yield* updateSession(sessionId, (s) => ({
               ...s,
               pendingNotifications: [...s.pendingNotifications, message],
@@ -249,7 +604,7 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
       ) =>
         updateSession(sessionId, (s) => ({
           ...s,
-          messages: [...s.messages, message],
+          ...appendToConversation(s, message),
           lastActivity: Date.now(),
         }))
 
@@ -263,7 +618,7 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
             return yield* Effect.fail(new SessionNotFoundError({ sessionId }))
           }
 
-          return maybeSession.value.messages
+          return getActivePath(maybeSession.value)
         })
 
       const setActiveMessage: ChatSessionManagerInterface["setActiveMessage"] = (
@@ -292,25 +647,20 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
         Effect.gen(function* () {
           const state = yield* Ref.get(stateRef)
           const maybeSession = HashMap.get(state.sessions, sessionId)
-          const maybeSocket = HashMap.get(state.sockets, sessionId)
+          const sockets = getSessionSockets(state, sessionId)
 
           if (Option.isNone(maybeSession)) {
             return yield* Effect.fail(new SessionNotFoundError({ sessionId }))
           }
 
-          if (Option.isNone(maybeSocket)) {
+          if (sockets.length === 0) {
             return // No socket to flush to
           }
 
-          const session = maybeSession.value
-          const ws = maybeSocket.value
-
           // Send all pending notifications
-          for (const notification of session.pendingNotifications) {
-            try {
-              ws.send(JSON.stringify(notification))
-            } catch {
-              // Socket closed during flush, keep remaining notifications
+          for (const notification of maybeSession.value.pendingNotifications) {
+            if (broadcast(sockets, notification) === 0) {
+              // Sockets closed during flush, keep remaining notifications
               return
             }
           }
@@ -345,16 +695,21 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
             yield* Ref.update(stateRef, (s) => {
               let sessions = s.sessions
               let sockets = s.sockets
+              let replays = s.replays
 
               for (const sessionId of sessionsToRemove) {
                 sessions = HashMap.remove(sessions, sessionId)
                 sockets = HashMap.remove(sockets, sessionId)
+                replays = HashMap.remove(replays, sessionId)
               }
 
-              return { sessions, sockets }
+              return { sessions, sockets, replays }
             })
           }
 
+          // Evicted sessions stay in the store until their expiry passes
+          yield* runStoreOp("expire", () => store.deleteExpired(now))
+
           return removedCount
         })
 
@@ -364,29 +719,80 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
           return [...HashMap.keys(state.sessions)]
         })
 
+      const listSessions: ChatSessionManagerInterface["listSessions"] = () =>
+        Effect.gen(function* () {
+          const state = yield* Ref.get(stateRef)
+          const now = Date.now()
+          const result = [...HashMap.values(state.sessions)].map((session) => ({
+            session,
+            connected: HashMap.has(state.sockets, session.sessionId),
+          }))
+
+          const storedIds = (yield* runStoreOp("list", () => store.listSessionIds())) ?? []
+          for (const sessionId of storedIds) {
+            if (HashMap.has(state.sessions, sessionId)) continue
+            const persisted = yield* runStoreOp("load", () => store.load(sessionId))
+            if (persisted && persisted.expiresAt > now) {
+              result.push({ session: fromPersistedSession(persisted), connected: false })
+            }
+          }
+
+          return result
+        })
+
+      const isConnected: ChatSessionManagerInterface["isConnected"] = (
+        sessionId: string
+      ) =>
+        Effect.map(Ref.get(stateRef), (state) => HashMap.has(state.sockets, sessionId))
+
       const replaceMessages: ChatSessionManagerInterface["replaceMessages"] = (
         sessionId: string,
         messages: ChatMessage[]
       ) =>
         updateSession(sessionId, (s) => ({
           ...s,
-          messages,
+          ...createConversationTree(
+            messages.map((message, index) => ({
+              ...message,
+              parentId: index === 0 ? null : messages[index - 1].id,
+            }))
+          ),
           lastActivity: Date.now(),
         }))
 
       const deleteSession: ChatSessionManagerInterface["deleteSession"] = (
         sessionId: string
       ) =>
-        Ref.update(stateRef, (state) => ({
-          sessions: HashMap.remove(state.sessions, sessionId),
-          sockets: HashMap.remove(state.sockets, sessionId),
-        }))
+        Effect.gen(function* () {
+          const sockets = yield* Ref.modify(stateRef, (state) => [
+            getSessionSockets(state, sessionId),
+            {
+              sessions: HashMap.remove(state.sessions, sessionId),
+              sockets: HashMap.remove(state.sockets, sessionId),
+              replays: HashMap.remove(state.replays, sessionId),
+            },
+          ])
+          yield* runStoreOp("delete", () => store.delete(sessionId))
+
+          // The sockets are already detached, so their close handlers find nothing to do
+          yield* Effect.sync(() => {
+            for (const ws of sockets) {
+              try {
+                ws.close(WS_CLOSE_CODES.SESSION_DELETED, "Session deleted")
+              } catch {
+                // Already closed
+              }
+            }
+          })
+        })
 
       return {
         createSession,
         getSession,
+        restoreSession,
         updateSession,
         attachSocket,
+        getLastSequence,
         detachSocket,
         send,
         addMessage,
@@ -396,10 +802,13 @@ export class ChatSessionManager extends Effect.Service<ChatSessionManager>()(
         flushPendingNotifications,
         cleanup,
         listSessionIds,
+        listSessions,
+        isConnected,
         replaceMessages,
         deleteSession,
       } satisfies ChatSessionManagerInterface
     }),
+    dependencies: [InMemorySessionStoreLive],
   }
 ) {}
 
@@ -12,7 +12,7 @@
  */
 import { Effect } from "effect"
 import type { ChatMessage } from "@bibboy/shared"
-import { createGeminiResponse, type GeminiContent } from "@bibboy/agent-runtime"
+import type { ModelClient } from "@bibboy/agent-runtime"
 
 // ============================================================================
 // Constants (adapted from OpenClaw compaction.ts)
@@ -244,7 +244,7 @@ Preserve all key facts, decisions, user preferences, and ongoing context.
 Remove redundancy and organize by topic.`
 
 // ============================================================================
-// Summarization via Gemini
+// Summarization via the Agent's Model
 // ============================================================================
 
 /**
@@ -265,27 +265,22 @@ function formatMessagesForSummary(messages: readonly ChatMessage[]): string {
 }
 
 /**
- * Summarize a chunk of messages using the Gemini model.
+ * Summarize a chunk of messages.
  * Uses the same model the agent is using for consistency.
  */
 async function summarizeChunk(
   messages: readonly ChatMessage[],
-  apiKey: string,
+  client: ModelClient,
   model: string,
   previousSummary?: string
 ): Promise<string> {
   const transcript = formatMessagesForSummary(messages)
   const userPrompt = SUMMARIZATION_USER_PROMPT(transcript, previousSummary)
 
-  const contents: GeminiContent[] = [
-    { role: "user", parts: [{ text: userPrompt }] },
-  ]
-
   const result = await Effect.runPromise(
-    createGeminiResponse({
-      apiKey,
+    client.generate({
       model,
-      contents,
+      messages: [{ role: "user", content: userPrompt }],
       systemInstruction: SUMMARIZATION_SYSTEM_PROMPT,
       maxOutputTokens: SUMMARIZATION_RESERVE_TOKENS,
       temperature: 0.3, // Low temperature for factual summarization
@@ -301,7 +296,7 @@ async function summarizeChunk(
  */
 async function summarizeInStages(
   messages: readonly ChatMessage[],
-  apiKey: string,
+  client: ModelClient,
   model: string,
   previousSummary?: string
 ): Promise<string> {
@@ -313,7 +308,7 @@ async function summarizeInStages(
 
   // If small enough, summarize in one pass
   if (totalTokens <= SUMMARIZATION_CHUNK_MAX_TOKENS) {
-    return await summarizeChunk(messages, apiKey, model, previousSummary)
+    return await summarizeChunk(messages, client, model, previousSummary)
   }
 
   // Split into chunks and summarize each
@@ -322,7 +317,7 @@ async function summarizeInStages(
 
   for (const chunk of chunks) {
     try {
-      const summary = await summarizeChunk(chunk, apiKey, model)
+      const summary = await summarizeChunk(chunk, client, model)
       partialSummaries.push(summary)
     } catch (error) {
       // Fallback: create a basic note about skipped content
@@ -345,7 +340,7 @@ async function summarizeInStages(
           { id: "prev", role: "system", content: previousSummary, timestamp: 0 },
           { id: "new", role: "system", content: partialSummaries[0], timestamp: 0 },
         ],
-        apiKey,
+        client,
         model
       )
     }
@@ -366,19 +361,13 @@ async function summarizeInStages(
   ]
 
   const mergeTranscript = formatMessagesForSummary(mergeMessages)
-  const mergeContents: GeminiContent[] = [
-    {
-      role: "user",
-      parts: [{ text: `${MERGE_SUMMARIES_PROMPT}\n\n${mergeTranscript}` }],
-    },
-  ]
-
   try {
     const mergeResult = await Effect.runPromise(
-      createGeminiResponse({
-        apiKey,
+      client.generate({
         model,
-        contents: mergeContents,
+        messages: [
+          { role: "user", content: `${MERGE_SUMMARIES_PROMPT}\n\n${mergeTranscript}` },
+        ],
         systemInstruction: SUMMARIZATION_SYSTEM_PROMPT,
         maxOutputTokens: SUMMARIZATION_RESERVE_TOKENS,
         temperature: 0.3,
@@ -415,7 +404,7 @@ export interface CompactionResult {
  * This is the main entry point. It:
  * 1. Checks if compaction is needed
  * 2. Splits messages into old (to summarize) and recent (to keep)
- * 3. Summarizes old messages using the same Gemini model
+ * 3. Summarizes old messages using the agent's own model
  * 4. Returns updated message array with summary replacing old messages
  *
  * The returned messages should be stored back into the session.
@@ -423,7 +412,7 @@ export interface CompactionResult {
 export async function compactIfNeeded(
   messages: readonly ChatMessage[],
   systemPromptTokens: number,
-  apiKey: string,
+  client: ModelClient,
   model: string,
   contextLimit: number = CONTEXT_WINDOW_TOKENS
 ): Promise<CompactionResult> {
@@ -472,7 +461,7 @@ export async function compactIfNeeded(
   try {
     const summary = await summarizeInStages(
       messagesToSummarize,
-      apiKey,
+      client,
       model,
       previousSummary
     )
@@ -1,4 +1,5 @@
 import type {
+  AgentStreamEvent,
   ResponseFunctionCallItem,
   ResponseOutputItem,
   ResponseResource,
@@ -328,3 +329,38 @@ export function createResponsesStreamEmitter(params: {
     fail,
   }
 }
+
+export type ResponsesStreamEmitter = ReturnType<typeof createResponsesStreamEmitter>
+
+/**
+ * Forward one agent stream event to a Responses emitter.
+ */
+export function applyAgentStreamEvent(
+  emitter: ResponsesStreamEmitter,
+  event: AgentStreamEvent
+): void {
+  switch (event.type) {
+    case "text_delta":
+      emitter.addTextDelta(event.delta)
+      break
+    case "tool_start":
+      emitter.addToolCall(event.toolCallId, event.toolName, event.arguments)
+      break
+    case "tool_end":
+      emitter.addToolResult(event.toolCallId, event.toolName, event.result)
+      break
+    case "done":
+      emitter.complete(
+        "completed",
+        event.usage && {
+          input_tokens: event.usage.promptTokens,
+          output_tokens: event.usage.completionTokens,
+          total_tokens: event.usage.totalTokens,
+        }
+      )
+      break
+    case "error":
+      emitter.fail(event.error)
+      break
+  }
+}
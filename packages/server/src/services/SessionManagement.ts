@@ -0,0 +1,290 @@
+import { Effect, Option } from "effect"
+import type {
+  ChatMessage,
+  SessionExport,
+  SessionSummary,
+  SessionTranscriptResponse,
+  SoulState,
+} from "@bibboy/shared"
+import {
+  SessionNotFoundError,
+  ValidationError,
+  createConversationTree,
+  getActivePath,
+} from "@bibboy/shared"
+import { CanvasStateService } from "./CanvasStateService"
+import { ChatSessionManager, generateSessionId } from "./ChatSessionManager"
+import {
+  clearSoulSession,
+  getSoulSession,
+  loadSoulState,
+  restoreSoulSession,
+} from "./SoulStateService"
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MAX_TITLE_LENGTH = 200
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+interface SessionMetadata {
+  readonly sessionId: string
+  readonly userId: string | null
+  readonly agentId: string | null
+  readonly title: string | null
+  readonly messages: readonly ChatMessage[]
+  readonly activeLeafId: string | null
+  readonly lastActivity: number
+}
+
+/**
+ * Soul state of a session: the live soul session, falling back to the
+ * durable state for the session's user.
+ */
+function resolveSoulState(session: SessionMetadata): SoulState | null {
+  return (
+    getSoulSession(session.sessionId)?.getState() ??
+    (session.userId ? loadSoulState(session.userId) : null)
+  )
+}
+
+/**
+ * Build the listing entry for a session.
+ */
+export function toSessionSummary(session: SessionMetadata, connected: boolean): SessionSummary {
+  const soulState = resolveSoulState(session)
+
+  return {
+    sessionId: session.sessionId,
+    title: session.title,
+    agentId: session.agentId,
+    messageCount: getActivePath(session).length,
+    lastActivity: session.lastActivity,
+    soulStage: soulState?.stage ?? null,
+    connected,
+  }
+}
+
+/**
+ * Load a session owned by `userId`. Another user's session is reported as
+ * not found, so session ids can't be probed.
+ */
+const loadOwnedSession = (sessionId: string, userId: string) =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const maybeSession = yield* sessionManager.restoreSession(sessionId)
+    if (Option.isNone(maybeSession) || maybeSession.value.userId !== userId) {
+      return yield* Effect.fail(new SessionNotFoundError({ sessionId }))
+    }
+    return maybeSession.value
+  })
+
+const summarize = (sessionId: string, userId: string) =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const session = yield* loadOwnedSession(sessionId, userId)
+    const connected = yield* sessionManager.isConnected(sessionId)
+    return toSessionSummary(session, connected)
+  })
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+/**
+ * List a user's sessions, most recently active first.
+ */
+export const listSessionSummaries = (
+  userId: string
+): Effect.Effect<SessionSummary[], never, ChatSessionManager> =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const sessions = yield* sessionManager.listSessions()
+
+    return sessions
+      .filter(({ session }) => session.userId === userId)
+      .map(({ session, connected }) => toSessionSummary(session, connected))
+      .sort((a, b) => b.lastActivity - a.lastActivity)
+  })
+
+/**
+ * Fetch a session's metadata and the transcript of its active branch.
+ */
+export const getSessionTranscript = (
+  sessionId: string,
+  userId: string
+): Effect.Effect<SessionTranscriptResponse, SessionNotFoundError, ChatSessionManager> =>
+  Effect.gen(function* () {
+    const session = yield* loadOwnedSession(sessionId, userId)
+    return {
+      session: yield* summarize(sessionId, userId),
+      messages: getActivePath(session),
+    }
+  })
+
+/**
+ * Set a session's title.
+ */
+export const renameSession = (
+  sessionId: string,
+  userId: string,
+  title: string
+): Effect.Effect<SessionSummary, SessionNotFoundError | ValidationError, ChatSessionManager> =>
+  Effect.gen(function* () {
+    const trimmed = title.trim()
+    if (trimmed.length === 0 || trimmed.length > MAX_TITLE_LENGTH) {
+      return yield* Effect.fail(
+        new ValidationError({ error: `Title must be 1-${MAX_TITLE_LENGTH} characters` })
+      )
+    }
+
+    const sessionManager = yield* ChatSessionManager
+    yield* loadOwnedSession(sessionId, userId)
+    yield* sessionManager.updateSession(sessionId, (s) => ({ ...s, title: trimmed }))
+    return yield* summarize(sessionId, userId)
+  })
+
+/**
+ * Delete a session along with its canvas and soul session state.
+ * `cancelTurn` stops the session's in-flight turn first; attached sockets
+ * are closed by the session manager. `forgetTranscripts` drops the
+ * session's archived transcripts from long-term memory. The user's durable
+ * soul state is shared across sessions and is kept.
+ */
+export const deleteSession = (
+  sessionId: string,
+  userId: string,
+  cancelTurn: (sessionId: string) => Effect.Effect<void>,
+  forgetTranscripts: (sessionId: string, userId: string) => Effect.Effect<void>
+): Effect.Effect<void, SessionNotFoundError, ChatSessionManager | CanvasStateService> =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const canvasState = yield* CanvasStateService
+
+    yield* loadOwnedSession(sessionId, userId)
+    yield* cancelTurn(sessionId)
+    yield* sessionManager.deleteSession(sessionId)
+    yield* canvasState.clearSession(sessionId)
+    clearSoulSession(sessionId)
+    yield* forgetTranscripts(sessionId, userId)
+  })
+
+/**
+ * Copy the conversation up to and including `messageId` into a new
+ * session. The message may be on any branch; only its own path is copied.
+ * The fork keeps the user and agent but starts disconnected.
+ */
+export const forkSession = (
+  sessionId: string,
+  userId: string,
+  messageId: string
+): Effect.Effect<SessionSummary, SessionNotFoundError | ValidationError, ChatSessionManager> =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const source = yield* loadOwnedSession(sessionId, userId)
+
+    const messages = getActivePath(source, messageId)
+    if (messages.length === 0) {
+      return yield* Effect.fail(
+        new ValidationError({ error: `Message not found in session: ${messageId}` })
+      )
+    }
+
+    const messageIds = new Set(messages.map((message) => message.id))
+
+    const forkId = generateSessionId()
+    yield* sessionManager.createSession(forkId, userId)
+    yield* sessionManager.updateSession(forkId, (s) => ({
+      ...s,
+      agentId: source.agentId,
+      title: source.title ? `${source.title} (fork)` : null,
+      ...createConversationTree(messages),
+      toolCalls: source.toolCalls.filter(
+        (toolCall) => toolCall.messageId !== undefined && messageIds.has(toolCall.messageId)
+      ),
+      disconnectedAt: Date.now(),
+    }))
+
+    return yield* summarize(forkId, userId)
+  })
+
+// ============================================================================
+// Export / Import
+// ============================================================================
+
+/**
+ * Snapshot a session's active branch with its tool calls, canvas blueprint
+ * and soul state.
+ */
+export const exportSession = (
+  sessionId: string,
+  userId: string
+): Effect.Effect<SessionExport, SessionNotFoundError, ChatSessionManager | CanvasStateService> =>
+  Effect.gen(function* () {
+    const canvasState = yield* CanvasStateService
+    const session = yield* loadOwnedSession(sessionId, userId)
+    const canvas = yield* canvasState.getSnapshot(sessionId)
+    const messages = getActivePath(session)
+    const messageIds = new Set(messages.map((message) => message.id))
+
+    return {
+      version: 1,
+      exportedAt: Date.now(),
+      session: {
+        sessionId: session.sessionId,
+        title: session.title,
+        agentId: session.agentId,
+        createdAt: session.connectedAt,
+        lastActivity: session.lastActivity,
+      },
+      messages,
+      toolCalls: session.toolCalls.filter(
+        (toolCall) => toolCall.messageId !== undefined && messageIds.has(toolCall.messageId)
+      ),
+      canvas: Option.match(canvas, {
+        onNone: () => null,
+        onSome: (snapshot) => snapshot.blueprint,
+      }),
+      soul: resolveSoulState(session),
+    } satisfies SessionExport
+  })
+
+/**
+ * Recreate an exported session under a new id. The imported soul state is
+ * scoped to the new session, so it never replaces the user's own companion.
+ * Like a fork, the session starts disconnected.
+ */
+export const importSession = (
+  data: SessionExport,
+  userId: string
+): Effect.Effect<SessionSummary, never, ChatSessionManager | CanvasStateService> =>
+  Effect.gen(function* () {
+    const sessionManager = yield* ChatSessionManager
+    const canvasState = yield* CanvasStateService
+
+    const sessionId = generateSessionId()
+    yield* sessionManager.createSession(sessionId, userId)
+    yield* sessionManager
+      .updateSession(sessionId, (s) => ({
+        ...s,
+        agentId: data.session.agentId,
+        title: data.session.title,
+        ...createConversationTree(data.messages),
+        toolCalls: [...data.toolCalls],
+        disconnectedAt: Date.now(),
+      }))
+      .pipe(Effect.orDie)
+
+    if (data.canvas) {
+      yield* canvasState.restoreBlueprint(sessionId, data.canvas)
+    }
+    if (data.soul) {
+      restoreSoulSession(sessionId, data.soul)
+    }
+
+    return yield* summarize(sessionId, userId).pipe(Effect.orDie)
+  })
@@ -0,0 +1,140 @@
+import { Context, Layer } from "effect"
+import type { ChatMessage, QueuedMessage, SessionToolCall } from "@bibboy/shared"
+import type { ResponseStreamPayload } from "./ResponsesStreamEmitter"
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long a persisted session survives without activity before it expires. */
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Durable snapshot of a chat session.
+ * Runtime-only state (sockets, streaming flags) is intentionally excluded.
+ */
+export interface PersistedSession {
+  sessionId: string
+  userId: string | null
+  /** Agent that handled the most recent message */
+  agentId: string | null
+  /** User-assigned title */
+  title: string | null
+  connectedAt: number
+  lastActivity: number
+  /** Every message of the conversation tree, in insertion order */
+  messages: ChatMessage[]
+  /** Last message of the branch being shown */
+  activeLeafId: string | null
+  /** Tool calls made while answering, in call order */
+  toolCalls: SessionToolCall[]
+  /** User messages waiting for the current response to finish */
+  messageQueue: QueuedMessage[]
+  activeMessageId: string | null
+  disconnectedAt: number | null
+  pendingNotifications: ResponseStreamPayload[]
+  expiresAt: number
+}
+
+/**
+ * Storage backend for chat sessions.
+ * Implementations are synchronous, matching the bun:sqlite API.
+ */
+export interface SessionStore {
+  /** Load a session by id, or null if missing. */
+  load(sessionId: string): PersistedSession | null
+  /** Insert or replace a session. */
+  save(session: PersistedSession): void
+  /** Remove a session. */
+  delete(sessionId: string): void
+  /** List ids of all stored sessions. */
+  listSessionIds(): string[]
+  /** Remove sessions whose expiry is at or before `now`. Returns removed count. */
+  deleteExpired(now: number): number
+  /** Release underlying resources. */
+  close(): void
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Non-durable store. Used by default and in tests.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, PersistedSession>()
+
+  load(sessionId: string): PersistedSession | null {
+    const session = this.sessions.get(sessionId)
+    return session ? structuredClone(session) : null
+  }
+
+  save(session: PersistedSession): void {
+    this.sessions.set(session.sessionId, structuredClone(session))
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId)
+  }
+
+  listSessionIds(): string[] {
+    return [...this.sessions.keys()]
+  }
+
+  deleteExpired(now: number): number {
+    let removed = 0
+    for (const [sessionId, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(sessionId)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  close(): void {
+    this.sessions.clear()
+  }
+}
+
+// ============================================================================
+// Effect Service Definition
+// ============================================================================
+
+/**
+ * ChatSessionStore service - backing store for ChatSessionManager
+ */
+export class ChatSessionStore extends Context.Tag("ChatSessionStore")<
+  ChatSessionStore,
+  SessionStore
+>() {}
+
+/**
+ * Live layer backed by the in-memory store (sessions are lost on restart).
+ */
+export const InMemorySessionStoreLive = Layer.sync(
+  ChatSessionStore,
+  () => new InMemorySessionStore()
+)
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Compute the expiry timestamp for a session based on its last activity.
+ */
+export function computeSessionExpiry(lastActivity: number): number {
+  return lastActivity + SESSION_TTL_MS
+}
+
+// ============================================================================
+// Export Constants
+// ============================================================================
+
+export { SESSION_TTL_MS }
@@ -7,6 +7,7 @@ import type {
   CanvasOp,
 } from "@bibboy/shared"
 import {
+  SOUL_STAGES,
   SOUL_STAGE_THRESHOLDS,
   createDefaultSoulState,
   getNextStage,
@@ -14,9 +15,10 @@ import {
   createDefaultCanvasBlueprint,
 } from "@bibboy/shared"
 import type { CanvasToolRuntime } from "../tools/canvas-tools"
+import { getSoulStateStore, type SoulStateStore } from "./SoulStateStore"
 
 // ============================================================================
-// Soul State Service (session-scoped, plain class)
+// Soul State Service (session-scoped runtime, identity-scoped state)
 // ============================================================================
 
 /**
@@ -45,27 +47,52 @@ export interface SoulToolRuntime {
   readonly getBlueprint: () => CanvasCharacterBlueprint
 }
 
+/**
+ * Options for durable soul state.
+ * Without an identity the state lives only as long as the session.
+ */
+export interface SoulSessionOptions {
+  /** Stable user/companion identity the state is keyed by */
+  identity?: string
+  /** Store used to load and persist state for the identity */
+  store?: SoulStateStore
+  /** Starting state for sessions without an identity (session import) */
+  initialState?: SoulState
+}
+
 /**
  * Manages soul state for a single session.
+ * When bound to an identity, state is loaded from and written through to the store,
+ * so evolution accumulates across sessions.
  */
 export class SoulSession {
-  private state: SoulState
+  private localState: SoulState
   private canvasRuntime: CanvasToolRuntime | undefined
   private onStageChange: SoulStageChangeCallback | undefined
+  private store: SoulStateStore | undefined
   readonly sessionId: string
+  readonly identity: string | undefined
 
   constructor(
     sessionId: string,
     canvasRuntime?: CanvasToolRuntime,
-    onStageChange?: SoulStageChangeCallback
+    onStageChange?: SoulStageChangeCallback,
+    options?: SoulSessionOptions
   ) {
     this.sessionId = sessionId
     this.canvasRuntime = canvasRuntime
     this.onStageChange = onStageChange
-    this.state = createDefaultSoulState()
-
-    // Apply initial orb blueprint
-    this.applyStageBlueprint("orb", [])
+    this.identity = options?.identity
+    this.store = options?.identity ? options.store : undefined
+    this.localState = this.loadState(options?.initialState)
+
+    // Replay stage blueprints up to the current stage so a returning
+    // companion looks the way it did when the user left
+    const dominantTraits = getDominantTraits(this.localState.traits)
+    const currentIndex = SOUL_STAGES.indexOf(this.localState.stage)
+    for (const stage of SOUL_STAGES.slice(0, currentIndex + 1)) {
+      this.applyStageBlueprint(stage, stage === "orb" ? [] : dominantTraits)
+    }
   }
 
   getState(): SoulState {
@@ -110,6 +137,15 @@ export class SoulSession {
     return createDefaultCanvasBlueprint()
   }
 
+  /**
+   * Attach a canvas runtime and stage callback to a session that was
+   * created without them (restored sessions). Existing bindings are kept.
+   */
+  bindRuntime(canvasRuntime?: CanvasToolRuntime, onStageChange?: SoulStageChangeCallback): void {
+    this.canvasRuntime ??= canvasRuntime
+    this.onStageChange ??= onStageChange
+  }
+
   /**
    * Create a SoulToolRuntime for use by soul tools.
    */
@@ -126,6 +162,31 @@ export class SoulSession {
   // Private
   // --------------------------------------------------------------------------
 
+  /**
+   * Current state. Identity-bound sessions read through the store so that
+   * concurrent sessions for the same identity observe each other's changes.
+   */
+  private get state(): SoulState {
+    if (this.store && this.identity) {
+      return this.store.load(this.identity) ?? this.localState
+    }
+    return this.localState
+  }
+
+  private set state(next: SoulState) {
+    this.localState = next
+    if (this.store && this.identity) {
+      this.store.save(this.identity, next)
+    }
+  }
+
+  private loadState(initialState?: SoulState): SoulState {
+    if (this.store && this.identity) {
+      return this.store.load(this.identity) ?? createDefaultSoulState()
+    }
+    return initialState ?? createDefaultSoulState()
+  }
+
   private checkAndEvolve(triggerTrait: PersonalityTrait): boolean {
     const nextStage = getNextStage(this.state.stage)
     if (!nextStage) return false
@@ -436,23 +497,54 @@ export class SoulSession {
 
 const sessions = new Map<string, SoulSession>()
 
+/**
+ * Get the soul session for a chat session, creating it if needed.
+ * When an identity is given, state is loaded from and persisted to the
+ * durable soul state store.
+ */
 export function getOrCreateSoulSession(
   sessionId: string,
   canvasRuntime?: CanvasToolRuntime,
-  onStageChange?: SoulStageChangeCallback
+  onStageChange?: SoulStageChangeCallback,
+  identity?: string
 ): SoulSession {
   let session = sessions.get(sessionId)
   if (!session) {
-    session = new SoulSession(sessionId, canvasRuntime, onStageChange)
+    session = new SoulSession(
+      sessionId,
+      canvasRuntime,
+      onStageChange,
+      identity ? { identity, store: getSoulStateStore() } : undefined
+    )
     sessions.set(sessionId, session)
+  } else {
+    session.bindRuntime(canvasRuntime, onStageChange)
   }
   return session
 }
 
+/**
+ * Seed a session with saved soul state (session import). The state is
+ * session-scoped so it never overwrites a user's own companion.
+ */
+export function restoreSoulSession(sessionId: string, state: SoulState): SoulSession {
+  const session = new SoulSession(sessionId, undefined, undefined, { initialState: state })
+  sessions.set(sessionId, session)
+  return session
+}
+
 export function getSoulSession(sessionId: string): SoulSession | undefined {
   return sessions.get(sessionId)
 }
 
+/**
+ * Load durable soul state for an identity without creating a session.
+ * Used to rehydrate the client before the first message is processed.
+ */
+export function loadSoulState(identity: string): SoulState | null {
+  return getSoulStateStore().load(identity)
+}
+
 export function clearSoulSession(sessionId: string): void {
   sessions.delete(sessionId)
 }
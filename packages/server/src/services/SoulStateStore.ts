@@ -0,0 +1,98 @@
+import path from "node:path"
+import fs from "node:fs"
+import { Schema } from "effect"
+import { SoulStateSchema, type SoulState } from "@bibboy/shared"
+import { getGlobalConfig } from "../config"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SoulStateStoreOptions {
+  /** Directory holding one JSON file per identity */
+  dir?: string
+}
+
+// ============================================================================
+// File-backed Soul State Store
+// ============================================================================
+
+const decodeSoulState = Schema.decodeUnknownEither(SoulStateSchema)
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+}
+
+/**
+ * Map an identity to a safe file name.
+ */
+function identityToFileName(identity: string): string {
+  return `${identity.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`
+}
+
+/**
+ * Durable soul state keyed by a stable user/companion identity.
+ * Reads are served from an in-memory cache; writes go through to disk.
+ */
+export class SoulStateStore {
+  private dir: string
+  private cache = new Map<string, SoulState>()
+
+  constructor(options?: SoulStateStoreOptions) {
+    this.dir = options?.dir ?? path.join(getGlobalConfig().agentStateDir, "souls")
+  }
+
+  load(identity: string): SoulState | null {
+    const cached = this.cache.get(identity)
+    if (cached) return cached
+
+    const filePath = path.join(this.dir, identityToFileName(identity))
+    if (!fs.existsSync(filePath)) return null
+
+    try {
+      const decoded = decodeSoulState(JSON.parse(fs.readFileSync(filePath, "utf-8")))
+      if (decoded._tag === "Left") {
+        console.warn(`[SoulStateStore] Ignoring invalid soul state for ${identity}`)
+        return null
+      }
+      this.cache.set(identity, decoded.right)
+      return decoded.right
+    } catch (error) {
+      console.warn(`[SoulStateStore] Failed to read soul state for ${identity}:`, error)
+      return null
+    }
+  }
+
+  save(identity: string, state: SoulState): void {
+    this.cache.set(identity, state)
+
+    try {
+      ensureDir(this.dir)
+      const filePath = path.join(this.dir, identityToFileName(identity))
+      // Write to a temp file first so a crash never leaves a truncated state file
+      const tmpPath = `${filePath}.tmp`
+      fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2), "utf-8")
+      fs.renameSync(tmpPath, filePath)
+    } catch (error) {
+      console.warn(`[SoulStateStore] Failed to write soul state for ${identity}:`, error)
+    }
+  }
+}
+
+// ============================================================================
+// Singleton Instance Management
+// ============================================================================
+
+let defaultStore: SoulStateStore | null = null
+
+/**
+ * Get the process-wide soul state store under the agent state directory.
+ */
+export function getSoulStateStore(): SoulStateStore {
+  if (!defaultStore) {
+    defaultStore = new SoulStateStore()
+  }
+  return defaultStore
+}
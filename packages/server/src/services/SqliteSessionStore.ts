@@ -0,0 +1,201 @@
+import { Database } from "bun:sqlite"
+import { Effect, Layer } from "effect"
+import path from "node:path"
+import fs from "node:fs"
+import type { ChatMessage, QueuedMessage, SessionToolCall } from "@bibboy/shared"
+import { getGlobalConfig } from "../config"
+import type { ResponseStreamPayload } from "./ResponsesStreamEmitter"
+import {
+  ChatSessionStore,
+  type PersistedSession,
+  type SessionStore,
+} from "./SessionStore"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SqliteSessionStoreOptions {
+  dbPath?: string
+}
+
+interface SessionRow {
+  session_id: string
+  user_id: string | null
+  agent_id: string | null
+  title: string | null
+  connected_at: number
+  last_activity: number
+  messages: string
+  tool_calls: string
+  active_leaf_id: string | null
+  message_queue: string
+  active_message_id: string | null
+  disconnected_at: number | null
+  pending_notifications: string
+  expires_at: number
+}
+
+// ============================================================================
+// SQLite Session Store
+// ============================================================================
+
+function ensureDir(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+}
+
+function resolveDbPath(options?: SqliteSessionStoreOptions): string {
+  if (options?.dbPath) {
+    return options.dbPath
+  }
+  return path.join(getGlobalConfig().agentStateDir, "sessions.sqlite")
+}
+
+function rowToSession(row: SessionRow): PersistedSession {
+  return {
+    sessionId: row.session_id,
+    userId: row.user_id,
+    agentId: row.agent_id,
+    title: row.title,
+    connectedAt: row.connected_at,
+    lastActivity: row.last_activity,
+    messages: JSON.parse(row.messages) as ChatMessage[],
+    activeLeafId: row.active_leaf_id,
+    messageQueue: JSON.parse(row.message_queue) as QueuedMessage[],
+    toolCalls: JSON.parse(row.tool_calls) as SessionToolCall[],
+    activeMessageId: row.active_message_id,
+    disconnectedAt: row.disconnected_at,
+    pendingNotifications: JSON.parse(row.pending_notifications) as ResponseStreamPayload[],
+    expiresAt: row.expires_at,
+  }
+}
+
+/**
+ * SQLite-backed session store. Sessions survive server restarts.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private db: Database
+
+  constructor(options?: SqliteSessionStoreOptions) {
+    const dbPath = resolveDbPath(options)
+    ensureDir(path.dirname(dbPath))
+
+    this.db = new Database(dbPath)
+    this.db.run("PRAGMA journal_mode = WAL")
+    this.initSchema()
+  }
+
+  private initSchema(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        user_id TEXT,
+        connected_at INTEGER NOT NULL,
+        last_activity INTEGER NOT NULL,
+        messages TEXT NOT NULL,
+        active_message_id TEXT,
+        disconnected_at INTEGER,
+        pending_notifications TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        agent_id TEXT,
+        title TEXT,
+        tool_calls TEXT NOT NULL DEFAULT '[]',
+        active_leaf_id TEXT,
+        message_queue TEXT NOT NULL DEFAULT '[]'
+      )
+    `)
+
+    // Older databases predate the session metadata columns
+    const columns = this.db
+      .query<{ name: string }, []>("PRAGMA table_info(sessions)")
+      .all()
+    const addedColumns = [
+      ["agent_id", "TEXT"],
+      ["title", "TEXT"],
+      ["tool_calls", "TEXT NOT NULL DEFAULT '[]'"],
+      ["active_leaf_id", "TEXT"],
+      ["message_queue", "TEXT NOT NULL DEFAULT '[]'"],
+    ] as const
+    for (const [column, definition] of addedColumns) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.run(`ALTER TABLE sessions ADD COLUMN ${column} ${definition}`)
+      }
+    }
+
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at)
+    `)
+  }
+
+  load(sessionId: string): PersistedSession | null {
+    const row = this.db
+      .query<SessionRow, [string]>("SELECT * FROM sessions WHERE session_id = ?")
+      .get(sessionId)
+
+    return row ? rowToSession(row) : null
+  }
+
+  save(session: PersistedSession): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO sessions (
+        session_id, user_id, connected_at, last_activity, messages,
+        active_message_id, disconnected_at, pending_notifications, expires_at,
+        agent_id, title, tool_calls, active_leaf_id, message_queue
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.sessionId,
+        session.userId,
+        session.connectedAt,
+        session.lastActivity,
+        JSON.stringify(session.messages),
+        session.activeMessageId,
+        session.disconnectedAt,
+        JSON.stringify(session.pendingNotifications),
+        session.expiresAt,
+        session.agentId,
+        session.title,
+        JSON.stringify(session.toolCalls),
+        session.activeLeafId,
+        JSON.stringify(session.messageQueue),
+      ]
+    )
+  }
+
+  delete(sessionId: string): void {
+    this.db.run("DELETE FROM sessions WHERE session_id = ?", [sessionId])
+  }
+
+  listSessionIds(): string[] {
+    return this.db
+      .query<{ session_id: string }, []>("SELECT session_id FROM sessions")
+      .all()
+      .map((row) => row.session_id)
+  }
+
+  deleteExpired(now: number): number {
+    const result = this.db.run("DELETE FROM sessions WHERE expires_at <= ?", [now])
+    return result.changes
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
+
+// ============================================================================
+// Layer Definition with Scoped Lifecycle
+// ============================================================================
+
+/**
+ * Live layer backed by SQLite under the agent state directory.
+ * The database is closed when the owning runtime is disposed.
+ */
+export const SqliteSessionStoreLive = Layer.scoped(
+  ChatSessionStore,
+  Effect.acquireRelease(
+    Effect.sync(() => new SqliteSessionStore()),
+    (store) => Effect.sync(() => store.close())
+  )
+)
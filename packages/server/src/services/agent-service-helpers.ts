@@ -6,8 +6,8 @@ import type {
   ChatMessage,
 } from "@bibboy/shared"
 import {
-  chatMessagesToGeminiContents,
-  type GeminiContent,
+  chatMessagesToModelMessages,
+  type ModelMessage,
 } from "@bibboy/agent-runtime"
 import type { ResolvedAgentConfig } from "../agents/AgentConfig"
 import { buildAgentSystemPrompt } from "../agents/SystemPromptBuilder"
@@ -91,13 +91,13 @@ export function buildFinalSynthesisInstruction(
   return `${baseInstruction}\n\n## Tool Budget\nNo tool-call rounds remaining. Synthesize all gathered information into a final response now.${usageSuffix}`
 }
 
-export async function buildGeminiInput(
+export async function buildModelInput(
   agent: ResolvedAgentConfig,
   history: readonly ChatMessage[],
   userMessage: string,
   toolRegistry: ToolRegistry,
   characterState?: CharacterState
-): Promise<{ systemInstruction: string; contents: GeminiContent[] }> {
+): Promise<{ systemInstruction: string; messages: ModelMessage[] }> {
   await initializeWorkspace(agent.id)
   const contextFiles = await loadContextFiles(agent.id)
   const workspaceDir = getWorkspaceDir(agent.id)
@@ -121,14 +121,10 @@ export async function buildGeminiInput(
     { role: "user" as const, content: userMessage },
   ]
 
-  const contents = chatMessagesToGeminiContents(allMessages)
+  // Summaries are folded into the first user turn, which always leads
+  const messages = chatMessagesToModelMessages(allMessages)
 
-  // Ensure starts with user turn (Gemini requirement)
-  if (contents.length > 0 && contents[0].role === "model") {
-    contents.unshift({ role: "user", parts: [{ text: "(conversation context)" }] })
-  }
-
-  return { systemInstruction: systemPrompt, contents }
+  return { systemInstruction: systemPrompt, messages }
 }
 
 /**
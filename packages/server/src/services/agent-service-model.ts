@@ -0,0 +1,292 @@
+import fs from "node:fs"
+import { Duration, Effect, Either, Option, pipe, Ref, Schedule } from "effect"
+import type { AgentServiceError } from "@bibboy/shared"
+import {
+  AgentError,
+  ApiKeyNotConfiguredError,
+  ApiTimeoutError,
+  AuthenticationError,
+  BillingError,
+  ContextOverflowError,
+  RateLimitExceededError,
+  ServiceOverloadedError,
+} from "@bibboy/shared"
+import {
+  BUILTIN_MODEL_PROVIDERS,
+  createModelClient,
+  createScriptedModelClient,
+  parseModelRef,
+  parseScriptedFixture,
+  type ModelClient,
+  type ModelMessage,
+  type ModelProviderConfig,
+  type ModelResponse,
+  type ModelToolDeclaration,
+  type ScriptedModelClient,
+} from "@bibboy/agent-runtime"
+import {
+  isAuthError,
+  isBillingError,
+  isContextOverflowError,
+  isOverloadedError,
+  isRateLimitError,
+  isTimeoutError,
+} from "../agents/agent-errors"
+import type { AppConfigData } from "../config"
+import { getGeminiApiKeyValue, getOpenAIApiKeyValue } from "../config"
+import { extractAgentErrorMessage } from "./error-utils"
+
+const DEFAULT_TIMEOUT_MS = 120_000
+
+export type ModelResponseWithModel = ModelResponse & {
+  modelUsed: string
+}
+
+/** A client plus the provider-local model id to call it with */
+export interface ResolvedModelClient {
+  readonly client: ModelClient
+  readonly model: string
+}
+
+export function classifyToTaggedError(
+  error: unknown,
+  model: string
+): AgentServiceError {
+  const message = extractAgentErrorMessage(error)
+
+  if (isContextOverflowError(message)) return new ContextOverflowError({ model })
+  if (isRateLimitError(message)) {
+    return new RateLimitExceededError({ retryAfterMs: 30000 })
+  }
+  if (isAuthError(message)) return new AuthenticationError({ reason: message })
+  if (isBillingError(message)) return new BillingError({ reason: message })
+  if (isTimeoutError(message)) {
+    return new ApiTimeoutError({ timeoutMs: DEFAULT_TIMEOUT_MS })
+  }
+  if (isOverloadedError(message)) {
+    return new ServiceOverloadedError({ retryAfterMs: 10000 })
+  }
+
+  return new AgentError({ reason: message })
+}
+
+function isRetryableError(error: AgentServiceError): boolean {
+  return (
+    error._tag === "RateLimitExceededError" ||
+    error._tag === "ApiTimeoutError" ||
+    error._tag === "ServiceOverloadedError" ||
+    error._tag === "AgentError"
+  )
+}
+
+const createRetrySchedule = () =>
+  pipe(
+    Schedule.exponential(Duration.seconds(2), 2),
+    Schedule.jittered,
+    Schedule.intersect(Schedule.recurs(3)),
+    Schedule.whileInput((error: AgentServiceError) => isRetryableError(error))
+  )
+
+// ============================================================================
+// Model Resolution
+// ============================================================================
+
+/** Provider prefix that replays SCRIPTED_MODEL_FIXTURE instead of calling an API */
+export const SCRIPTED_MODEL_PROVIDER = "scripted"
+
+/**
+ * Scripted clients by fixture path. A fixture is one script for the whole
+ * process, so every `scripted/...` ref shares the same turn cursor until
+ * `resetScriptedModelClients` is called.
+ */
+const scriptedClients = new Map<string, ScriptedModelClient>()
+
+/**
+ * Forget loaded scripted clients (all, or one fixture's), so the next run
+ * re-reads the fixture and replays it from its first turn. For tests that
+ * each start a fresh script.
+ */
+export function resetScriptedModelClients(fixturePath?: string): void {
+  if (fixturePath === undefined) {
+    scriptedClients.clear()
+  } else {
+    scriptedClients.delete(fixturePath)
+  }
+}
+
+/**
+ * Load (once) the scripted client for a fixture file.
+ */
+export const loadScriptedModelClient = (
+  fixturePath: string
+): Effect.Effect<ScriptedModelClient, AgentError> =>
+  Effect.gen(function* () {
+    const cached = scriptedClients.get(fixturePath)
+    if (cached) return cached
+
+    const json = yield* Effect.try({
+      try: () => fs.readFileSync(fixturePath, "utf-8"),
+      catch: (error) =>
+        new AgentError({ reason: `Failed to read scripted fixture ${fixturePath}: ${String(error)}` }),
+    })
+    const fixture = parseScriptedFixture(json)
+    if (Either.isLeft(fixture)) {
+      return yield* Effect.fail(new AgentError({ reason: fixture.left.message }))
+    }
+
+    const client = createScriptedModelClient(fixture.right)
+    scriptedClients.set(fixturePath, client)
+    return client
+  })
+
+/**
+ * Provider settings for a `provider/model` prefix, with keys and URL
+ * overrides from the environment. Undefined for unknown providers.
+ */
+export function resolveModelProviderConfig(
+  appConfig: AppConfigData,
+  provider: string
+): ModelProviderConfig | undefined {
+  const builtin = BUILTIN_MODEL_PROVIDERS[provider]
+  if (!builtin) return undefined
+
+  if (builtin.kind === "gemini") {
+    return { ...builtin, apiKey: getGeminiApiKeyValue(appConfig) }
+  }
+
+  if (provider === "openai") {
+    // A custom base URL usually means a local server that takes no key
+    const baseUrl = Option.getOrUndefined(appConfig.openaiBaseUrl)
+    return {
+      ...builtin,
+      baseUrl: baseUrl ?? builtin.baseUrl,
+      apiKey: getOpenAIApiKeyValue(appConfig),
+      requiresApiKey: !baseUrl,
+    }
+  }
+
+  return builtin
+}
+
+/**
+ * Whether a model ref names a known provider with the credentials it needs.
+ */
+export function isModelConfigured(appConfig: AppConfigData, modelRef: string): boolean {
+  if (parseModelRef(modelRef).provider === SCRIPTED_MODEL_PROVIDER) {
+    return Option.isSome(appConfig.scriptedModelFixture)
+  }
+  const config = resolveModelProviderConfig(appConfig, parseModelRef(modelRef).provider)
+  return config !== undefined && (!config.requiresApiKey || Boolean(config.apiKey))
+}
+
+/**
+ * Create the client for a `provider/model` ref (bare ids are Gemini models).
+ * `scripted/<name>` replays the configured fixture file.
+ */
+export const resolveModelClient = (
+  appConfig: AppConfigData,
+  modelRef: string
+): Effect.Effect<ResolvedModelClient, ApiKeyNotConfiguredError | AgentError> =>
+  Effect.gen(function* () {
+    const { provider, modelId } = parseModelRef(modelRef)
+
+    if (provider === SCRIPTED_MODEL_PROVIDER) {
+      if (Option.isNone(appConfig.scriptedModelFixture)) {
+        return yield* Effect.fail(
+          new AgentError({ reason: "SCRIPTED_MODEL_FIXTURE is not set" })
+        )
+      }
+      const client = yield* loadScriptedModelClient(appConfig.scriptedModelFixture.value)
+      return { client, model: modelId }
+    }
+
+    const config = resolveModelProviderConfig(appConfig, provider)
+
+    if (!config) {
+      return yield* Effect.fail(
+        new AgentError({ reason: `Unknown model provider "${provider}" in "${modelRef}"` })
+      )
+    }
+    if (config.requiresApiKey && !config.apiKey) {
+      return yield* Effect.fail(new ApiKeyNotConfiguredError({ provider }))
+    }
+
+    return { client: createModelClient(provider, config), model: modelId }
+  })
+
+// ============================================================================
+// Model Calls
+// ============================================================================
+
+export const callModel = (
+  resolved: ResolvedModelClient,
+  messages: ModelMessage[],
+  systemInstruction: string,
+  tools: ModelToolDeclaration[],
+  thinkingBudget?: number
+): Effect.Effect<ModelResponse, AgentServiceError> =>
+  pipe(
+    resolved.client.generate({
+      model: resolved.model,
+      messages,
+      systemInstruction,
+      tools: tools.length > 0 ? tools : undefined,
+      toolChoice: tools.length > 0 ? "auto" : "none",
+      maxOutputTokens: 8192,
+      thinkingBudget,
+    }),
+    Effect.catchAll((error) => Effect.fail(classifyToTaggedError(error, resolved.model))),
+    Effect.timeout(Duration.millis(DEFAULT_TIMEOUT_MS)),
+    Effect.catchTag("TimeoutException", () =>
+      Effect.fail(new ApiTimeoutError({ timeoutMs: DEFAULT_TIMEOUT_MS }))
+    )
+  )
+
+/**
+ * Call the model, retrying transient errors and moving to the next fallback
+ * model on context overflow. Fallbacks may use a different provider. `tools`
+ * may be resolved per model so fallbacks can be given a narrower tool set
+ * (tools.byProvider).
+ */
+export const callModelWithRetry = (
+  appConfig: AppConfigData,
+  messages: ModelMessage[],
+  systemInstruction: string,
+  tools: ModelToolDeclaration[] | ((model: string) => ModelToolDeclaration[]),
+  model: string,
+  fallbackModels: string[],
+  thinkingBudget?: number
+): Effect.Effect<ModelResponseWithModel, AgentServiceError> =>
+  Effect.gen(function* () {
+    const allModels = [model, ...fallbackModels]
+    // Resolve up front so configuration errors are not retried
+    const clients = yield* Effect.forEach(allModels, (ref) => resolveModelClient(appConfig, ref))
+    const modelIndexRef = yield* Ref.make(0)
+
+    const tryWithModel = Effect.gen(function* () {
+      const modelIndex = yield* Ref.get(modelIndexRef)
+      const currentModel = allModels[modelIndex] ?? model
+      const resolved = clients[modelIndex] ?? clients[0]
+
+      return yield* pipe(
+        callModel(
+          resolved,
+          messages,
+          systemInstruction,
+          typeof tools === "function" ? tools(currentModel) : tools,
+          thinkingBudget
+        ),
+        Effect.map((response) => ({ ...response, modelUsed: currentModel })),
+        Effect.catchTag("ContextOverflowError", (error) =>
+          Effect.gen(function* () {
+            if (modelIndex < allModels.length - 1) {
+              yield* Ref.update(modelIndexRef, (index) => index + 1)
+            }
+            return yield* Effect.fail(error)
+          })
+        )
+      )
+    })
+
+    return yield* pipe(tryWithModel, Effect.retry(createRetrySchedule()))
+  })
@@ -1,16 +1,15 @@
-import { Effect, Stream, pipe } from "effect"
+import { Effect, Fiber, Queue, Stream, Take, pipe } from "effect"
 import type {
   AgentServiceError,
   AgentStreamEvent,
   ToolCall,
 } from "@bibboy/shared"
 import { AgentError } from "@bibboy/shared"
-import {
-  streamGemini,
-  type GeminiContent,
-} from "@bibboy/agent-runtime"
+import type { ModelMessage, ModelToolCall } from "@bibboy/agent-runtime"
 import {
   createToolExecutionMetrics,
+  type ToolApprovalHandler,
+  type ToolCallRecord,
   type ToolExecutionContext,
   type ToolRegistry,
 } from "../tools/types"
@@ -20,41 +19,41 @@ import {
   buildToolBudgetSystemInstruction,
   generateMessageId,
 } from "./agent-service-helpers"
-import { classifyToTaggedError } from "./agent-service-gemini"
 import {
-  compactFunctionResponses,
+  classifyToTaggedError,
+  type ResolvedModelClient,
+} from "./agent-service-model"
+import {
+  compactToolResults,
   executeTools,
-  toGeminiFunctionDeclarations,
+  toModelToolDeclarations,
 } from "./agent-service-tool-execution"
 
-interface PendingFunctionCall {
-  id: string
-  name: string
-  args: Record<string, unknown>
-  thoughtSignature?: string
-}
-
 interface StreamOrchestratorDeps {
-  readonly streamGeminiFn?: typeof streamGemini
   readonly executeToolsFn?: typeof executeTools
-  readonly compactFunctionResponsesFn?: typeof compactFunctionResponses
-  readonly toGeminiFunctionDeclarationsFn?: typeof toGeminiFunctionDeclarations
+  readonly compactToolResultsFn?: typeof compactToolResults
+  readonly toModelToolDeclarationsFn?: typeof toModelToolDeclarations
   readonly classifyToTaggedErrorFn?: typeof classifyToTaggedError
   readonly generateMessageIdFn?: typeof generateMessageId
 }
 
 export interface StreamOrchestratorParams {
-  readonly apiKey: string
+  readonly modelClient: ResolvedModelClient
+  /** Model ref (`provider/model`) used for per-model tool policies */
   readonly model: string
   readonly thinkingBudget?: number
   readonly enableTools: boolean
   readonly toolRegistry: ToolRegistry
-  readonly initialContents: GeminiContent[]
+  readonly initialMessages: ModelMessage[]
   readonly systemInstruction: string
   readonly agentId: string
   readonly maxToolIterations: number
   readonly softLimitIterations: number
   readonly toolTimeoutMs: number
+  /** Asks the user about tools in tools.requireApproval */
+  readonly requestApproval?: ToolApprovalHandler
+  /** Receives every finished tool call (tool audit log) */
+  readonly recordToolCall?: (record: ToolCallRecord) => void
   readonly deps?: StreamOrchestratorDeps
 }
 
@@ -82,26 +81,27 @@ export function orchestrateAgentStreamIterations(
   const toolCtx: ToolExecutionContext = {
     timeoutMs: params.toolTimeoutMs,
     metrics,
+    requestApproval: params.requestApproval,
+    recordToolCall: params.recordToolCall,
   }
 
-  const streamGeminiFn = params.deps?.streamGeminiFn ?? streamGemini
+  const { client, model: modelId } = params.modelClient
   const executeToolsFn = params.deps?.executeToolsFn ?? executeTools
-  const compactFunctionResponsesFn =
-    params.deps?.compactFunctionResponsesFn ?? compactFunctionResponses
-  const toGeminiFunctionDeclarationsFn =
-    params.deps?.toGeminiFunctionDeclarationsFn ?? toGeminiFunctionDeclarations
+  const compactToolResultsFn = params.deps?.compactToolResultsFn ?? compactToolResults
+  const toModelToolDeclarationsFn =
+    params.deps?.toModelToolDeclarationsFn ?? toModelToolDeclarations
   const classifyToTaggedErrorFn =
     params.deps?.classifyToTaggedErrorFn ?? classifyToTaggedError
   const generateMessageIdFn = params.deps?.generateMessageIdFn ?? generateMessageId
 
   const processIteration = (
-    currentContents: GeminiContent[],
+    currentMessages: ModelMessage[],
     iteration: number,
     allToolCalls: ToolCall[],
     fullContent: string
   ): Stream.Stream<AgentStreamEvent, AgentServiceError> => {
     const currentToolDefs = params.enableTools
-      ? toGeminiFunctionDeclarationsFn(params.toolRegistry.getDefinitions())
+      ? toModelToolDeclarationsFn(params.toolRegistry.getDefinitions(params.model))
       : []
 
     const remaining = params.maxToolIterations - iteration
@@ -118,10 +118,9 @@ export function orchestrateAgentStreamIterations(
       if (!fullContent && allToolCalls.length > 0) {
         let finalIterContent = ""
         return pipe(
-          streamGeminiFn({
-            apiKey: params.apiKey,
-            model: params.model,
-            contents: currentContents,
+          client.stream({
+            model: modelId,
+            messages: currentMessages,
             systemInstruction: buildFinalSynthesisInstruction(
               params.systemInstruction,
               metrics.getSummary()
@@ -159,16 +158,15 @@ export function orchestrateAgentStreamIterations(
     }
 
     let iterationContent = ""
-    const pendingFunctionCalls: PendingFunctionCall[] = []
+    const pendingToolCalls: ModelToolCall[] = []
 
     return pipe(
-      streamGeminiFn({
-        apiKey: params.apiKey,
-        model: params.model,
-        contents: currentContents,
+      client.stream({
+        model: modelId,
+        messages: currentMessages,
         systemInstruction: currentSystemInstruction,
         tools: currentToolDefs.length > 0 ? currentToolDefs : undefined,
-        toolConfig: currentToolDefs.length > 0 ? "auto" : "none",
+        toolChoice: currentToolDefs.length > 0 ? "auto" : "none",
         maxOutputTokens: 8192,
         thinkingBudget: params.thinkingBudget,
       }).pipe(
@@ -182,7 +180,7 @@ export function orchestrateAgentStreamIterations(
           iterationContent += event.delta
           events.push({ type: "text_delta", delta: event.delta })
         } else if (event.type === "tool_start") {
-          pendingFunctionCalls.push({
+          pendingToolCalls.push({
             id: event.toolCallId,
             name: event.toolName,
             args: event.arguments,
@@ -190,7 +188,7 @@ export function orchestrateAgentStreamIterations(
               thoughtSignature: event.thoughtSignature,
             }),
           })
-          events.push(event)
+          // tool_start is reported when the call actually starts running
         } else if (event.type === "error") {
           events.push(event)
         }
@@ -198,73 +196,118 @@ export function orchestrateAgentStreamIterations(
         return events
       }),
       Stream.concat(
-        Stream.unwrap(
+        Stream.unwrapScoped(
           Effect.gen(function* () {
-            if (pendingFunctionCalls.length > 0) {
-              currentContents.push({
-                role: "model",
-                parts: pendingFunctionCalls.map((functionCall) => ({
-                  functionCall: {
-                    name: functionCall.name,
-                    args: functionCall.args,
-                  },
-                  ...(functionCall.thoughtSignature && {
-                    thoughtSignature: functionCall.thoughtSignature,
-                  }),
-                })),
+            if (pendingToolCalls.length > 0) {
+              currentMessages.push({
+                role: "assistant",
+                content: iterationContent,
+                toolCalls: pendingToolCalls,
               })
 
-              const toolResults = yield* executeToolsFn(
-                params.toolRegistry,
-                pendingFunctionCalls,
-                { ...toolCtx, iteration }
-              )
+              // Tool events stream out while the calls run, so overlapping
+              // calls show up as overlapping
+              const liveEvents = yield* Queue.unbounded<Take.Take<AgentStreamEvent>>()
+              const reported = new Set<string>()
+              const emit = (event: AgentStreamEvent) =>
+                Queue.offer(liveEvents, Take.of(event)).pipe(Effect.asVoid)
 
-              const toolEvents: AgentStreamEvent[] = []
-              for (
-                let toolIndex = 0;
-                toolIndex < pendingFunctionCalls.length;
-                toolIndex++
-              ) {
-                const pendingCall = pendingFunctionCalls[toolIndex]
-                const toolResult = toolResults[toolIndex]
-                toolEvents.push({
-                  type: "tool_end",
-                  toolCallId: pendingCall.id,
-                  toolName: pendingCall.name,
-                  result: toolResult,
-                })
-                allToolCalls.push({
-                  id: pendingCall.id,
-                  name: pendingCall.name,
-                  arguments: pendingCall.args,
+              const runTools = Effect.gen(function* () {
+                const toolResults = yield* executeToolsFn(
+                  params.toolRegistry,
+                  pendingToolCalls,
+                  {
+                    ...toolCtx,
+                    iteration,
+                    model: params.model,
+                    onToolStart: (call) => {
+                      reported.add(`start:${call.id}`)
+                      return emit({
+                        type: "tool_start",
+                        toolCallId: call.id,
+                        toolName: call.name,
+                        arguments: call.args,
+                      })
+                    },
+                    onToolEnd: (call, result) => {
+                      reported.add(`end:${call.id}`)
+                      return emit({
+                        type: "tool_end",
+                        toolCallId: call.id,
+                        toolName: call.name,
+                        result,
+                      })
+                    },
+                  }
+                )
+
+                // Report, in call order, whatever the executor did not
+                const unreported: AgentStreamEvent[] = []
+                for (const pendingCall of pendingToolCalls) {
+                  if (reported.has(`start:${pendingCall.id}`)) continue
+                  unreported.push({
+                    type: "tool_start",
+                    toolCallId: pendingCall.id,
+                    toolName: pendingCall.name,
+                    arguments: pendingCall.args,
+                  })
+                }
+                for (
+                  let toolIndex = 0;
+                  toolIndex < pendingToolCalls.length;
+                  toolIndex++
+                ) {
+                  const pendingCall = pendingToolCalls[toolIndex]
+                  if (!reported.has(`end:${pendingCall.id}`)) {
+                    unreported.push({
+                      type: "tool_end",
+                      toolCallId: pendingCall.id,
+                      toolName: pendingCall.name,
+                      result: toolResults[toolIndex],
+                    })
+                  }
+                  allToolCalls.push({
+                    id: pendingCall.id,
+                    name: pendingCall.name,
+                    arguments: pendingCall.args,
+                  })
+                }
+
+                // Function responses go back to the model in call order
+                const toolMessages = yield* Effect.tryPromise({
+                  try: () =>
+                    compactToolResultsFn(
+                      pendingToolCalls,
+                      toolResults,
+                      params.agentId,
+                      iteration
+                    ),
+                  catch: () =>
+                    new AgentError({ reason: "Failed to compact tool results" }),
                 })
-              }
 
-              const compactedParts = yield* Effect.tryPromise({
-                try: () =>
-                  compactFunctionResponsesFn(
-                    pendingFunctionCalls,
-                    toolResults,
-                    params.agentId,
-                    iteration
-                  ),
-                catch: () =>
-                  new AgentError({ reason: "Failed to compact tool results" }),
-              })
+                currentMessages.push(...toolMessages)
+                return unreported
+              }).pipe(Effect.ensuring(Queue.offer(liveEvents, Take.end)))
 
-              currentContents.push({
-                role: "user",
-                parts: compactedParts,
-              })
+              const toolsFiber = yield* Effect.forkScoped(runTools)
 
               return Stream.concat(
-                Stream.fromIterable(toolEvents),
-                processIteration(
-                  currentContents,
-                  iteration + 1,
-                  allToolCalls,
-                  fullContent + iterationContent
+                Stream.flattenTake(Stream.fromQueue(liveEvents)),
+                Stream.unwrap(
+                  Fiber.join(toolsFiber).pipe(
+                    Effect.map((unreported) =>
+                      Stream.concat(
+                        Stream.fromIterable(unreported),
+                        processIteration(
+                          currentMessages,
+                          iteration + 1,
+                          allToolCalls,
+                          fullContent + iterationContent
+                        )
+                      )
+                    )
+                  )
                 )
               )
             }
@@ -282,5 +325,5 @@ export function orchestrateAgentStreamIterations(
     )
   }
 
-  return processIteration([...params.initialContents], 0, [], "")
+  return processIteration([...params.initialMessages], 0, [], "")
 }
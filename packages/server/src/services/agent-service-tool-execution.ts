@@ -1,26 +1,23 @@
 import { Effect } from "effect"
 import type { ToolExecutionResult } from "@bibboy/shared"
 import { ToolError } from "@bibboy/shared"
-import type { GeminiFunctionDeclaration } from "@bibboy/agent-runtime"
+import type { ModelMessage, ModelToolDeclaration } from "@bibboy/agent-runtime"
 import {
   applyToolWrappers,
+  type AgentTool,
   type FunctionToolDefinition,
+  type ToolCallRequest,
   type ToolExecutionContext,
   type ToolRegistry,
 } from "../tools/types"
 import { compactToolResult } from "../tools/tool-result-store"
+import { makeToolCallLimiter } from "../tools/tool-concurrency"
 
 const DEFAULT_TOOL_TIMEOUT_MS = 30_000
 
-type ToolCallRequest = {
-  id: string
-  name: string
-  args: Record<string, unknown>
-}
-
 type ToolResultLike = Pick<ToolExecutionResult, "content">
 
-function toGeminiParameters(
+function toModelParameters(
   parameters: FunctionToolDefinition["parameters"]
 ): Record<string, unknown> {
   const normalizedProperties = Object.fromEntries(
@@ -35,39 +32,74 @@ function toGeminiParameters(
 }
 
 /**
- * Convert function tool definitions to Gemini function declarations.
+ * Convert function tool definitions to model tool declarations.
  */
-export function toGeminiFunctionDeclarations(
+export function toModelToolDeclarations(
   tools: FunctionToolDefinition[]
-): GeminiFunctionDeclaration[] {
+): ModelToolDeclaration[] {
   return tools.map((tool) => ({
     name: tool.name,
     description: tool.description,
-    parameters: toGeminiParameters(tool.parameters),
+    parameters: toModelParameters(tool.parameters),
   }))
 }
 
-const executeTool = (
+const errorResult = (toolCall: ToolCallRequest, error: string): ToolExecutionResult => ({
+  toolCallId: toolCall.id,
+  content: [{ type: "text" as const, text: JSON.stringify({ error }) }],
+  error,
+})
+
+/**
+ * Decide whether a call may run: the tool to run, or the error result that
+ * answers the call instead. Approval is asked here, before the call takes a
+ * concurrency slot, so a pending approval never holds up other calls.
+ */
+const checkToolCall = (
   toolRegistry: ToolRegistry,
   toolCall: ToolCallRequest,
-  ctx: ToolExecutionContext = {}
-): Effect.Effect<ToolExecutionResult, never> =>
+  ctx: ToolExecutionContext
+): Effect.Effect<{ tool: AgentTool } | { rejected: ToolExecutionResult }, never> =>
   Effect.gen(function* () {
     const tool = toolRegistry.get(toolCall.name)
 
     if (!tool) {
+      return { rejected: errorResult(toolCall, `Unknown tool: ${toolCall.name}`) }
+    }
+
+    // A fallback model may be restricted to a narrower tool set
+    if (ctx.model && toolRegistry.isAllowedForModel?.(toolCall.name, ctx.model) === false) {
       return {
-        toolCallId: toolCall.id,
-        content: [
-          {
-            type: "text" as const,
-            text: JSON.stringify({ error: `Unknown tool: ${toolCall.name}` }),
-          },
-        ],
-        error: `Unknown tool: ${toolCall.name}`,
+        rejected: errorResult(toolCall, `Tool ${toolCall.name} is not available for model ${ctx.model}`),
+      }
+    }
+
+    // Sensitive tools wait for the user; without anyone to ask they are denied
+    if (toolRegistry.requiresApproval?.(toolCall.name)) {
+      const approved = ctx.requestApproval
+        ? yield* ctx.requestApproval({
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            args: toolCall.args,
+          })
+        : false
+      if (!approved) {
+        const error = ctx.requestApproval
+          ? `The user denied the ${toolCall.name} call`
+          : `Tool ${toolCall.name} requires user approval, which is not available here`
+        return { rejected: errorResult(toolCall, error) }
       }
     }
 
+    return { tool }
+  })
+
+const runTool = (
+  tool: AgentTool,
+  toolCall: ToolCallRequest,
+  ctx: ToolExecutionContext
+): Effect.Effect<ToolExecutionResult, never> =>
+  Effect.gen(function* () {
     // Apply tool wrappers (timeout + abort signal cascade)
     const wrappedTool = applyToolWrappers(tool, {
       ...ctx,
@@ -82,39 +114,61 @@ const executeTool = (
           reason: error instanceof Error ? error.message : "Unknown error",
         }),
     }).pipe(
-      Effect.catchAll((toolError) =>
-        Effect.succeed({
-          toolCallId: toolCall.id,
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify({ error: toolError.reason }),
-            },
-          ],
-          error: toolError.reason,
-        })
-      )
+      Effect.catchAll((toolError) => Effect.succeed(errorResult(toolCall, toolError.reason)))
     )
 
     return { ...result, toolCallId: toolCall.id }
   })
 
+/**
+ * Execute the tool calls of one turn concurrently within the registry's
+ * limits (tools.concurrency). Results come back in call order. Approvals are
+ * settled first; the `onToolStart`/`onToolEnd` hooks then fire as calls
+ * actually start and finish, and `recordToolCall` receives each finished
+ * call with its duration.
+ */
 export const executeTools = (
   toolRegistry: ToolRegistry,
   toolCalls: ToolCallRequest[],
   ctx: ToolExecutionContext = {}
-): Effect.Effect<ToolExecutionResult[], never> =>
-  Effect.forEach(toolCalls, (toolCall) => executeTool(toolRegistry, toolCall, ctx), {
-    concurrency: "unbounded",
-  })
+): Effect.Effect<ToolExecutionResult[], never> => {
+  const limiter = makeToolCallLimiter(toolRegistry.concurrency)
+
+  const track = (toolCall: ToolCallRequest, execute: Effect.Effect<ToolExecutionResult>) =>
+    Effect.gen(function* () {
+      if (ctx.onToolStart) yield* ctx.onToolStart(toolCall)
+      const startedAt = Date.now()
+      const result = yield* execute
+      ctx.recordToolCall?.({ call: toolCall, result, durationMs: Date.now() - startedAt })
+      if (ctx.onToolEnd) yield* ctx.onToolEnd(toolCall, result)
+      return result
+    })
+
+  return Effect.forEach(
+    toolCalls,
+    (toolCall) =>
+      Effect.gen(function* () {
+        const checked = yield* checkToolCall(toolRegistry, toolCall, ctx)
+        if ("rejected" in checked) {
+          return yield* track(toolCall, Effect.succeed(checked.rejected))
+        }
+        return yield* limiter.run(toolCall, track(toolCall, runTool(checked.tool, toolCall, ctx)))
+      }),
+    { concurrency: "unbounded" }
+  )
+}
 
-export async function compactFunctionResponses(
-  calls: ReadonlyArray<{ name: string }>,
+/**
+ * Build tool result messages, compacting large results so the model context
+ * stays small (full content is saved to workspace files).
+ */
+export async function compactToolResults(
+  calls: ReadonlyArray<{ id: string; name: string }>,
   results: ReadonlyArray<ToolResultLike>,
   agentId: string,
   iteration: number
-): Promise<Array<{ functionResponse: { name: string; response: { result: string } } }>> {
-  const parts: Array<{ functionResponse: { name: string; response: { result: string } } }> = []
+): Promise<ModelMessage[]> {
+  const messages: ModelMessage[] = []
 
   for (let index = 0; index < calls.length; index++) {
     const rawText = results[index]?.content[0]?.text ?? ""
@@ -125,13 +179,13 @@ export async function compactFunctionResponses(
       iteration
     )
 
-    parts.push({
-      functionResponse: {
-        name: calls[index].name,
-        response: { result: compacted },
-      },
+    messages.push({
+      role: "tool",
+      toolCallId: calls[index].id,
+      name: calls[index].name,
+      content: compacted,
     })
   }
 
-  return parts
+  return messages
 }
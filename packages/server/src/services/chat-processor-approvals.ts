@@ -0,0 +1,120 @@
+import { Deferred, Duration, Effect, HashMap, Option, Ref } from "effect"
+import type { ToolApprovalRequest } from "@bibboy/shared"
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** How long a tool call waits for the user's answer before it is denied */
+export const TOOL_APPROVAL_TIMEOUT: Duration.DurationInput = Duration.minutes(5)
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PendingApproval {
+  sessionId: string
+  request: ToolApprovalRequest
+  deferred: Deferred.Deferred<boolean>
+}
+
+/**
+ * Tool calls waiting for the user's approval, by approval ID. Every wait
+ * ends: answered by the user, denied on timeout, or denied when the session
+ * goes away.
+ */
+export interface ToolApprovals {
+  /**
+   * Register `request` and wait for the answer. `announce` runs once the
+   * request can be answered. Interrupting the wait drops the request.
+   */
+  readonly wait: (
+    sessionId: string,
+    request: ToolApprovalRequest,
+    announce: Effect.Effect<void>
+  ) => Effect.Effect<boolean>
+
+  /** Answer a request of the session; false when it was already answered or is unknown. */
+  readonly resolve: (
+    sessionId: string,
+    approvalId: string,
+    approved: boolean
+  ) => Effect.Effect<boolean>
+
+  /** Requests of the session still waiting for an answer. */
+  readonly list: (sessionId: string) => Effect.Effect<ToolApprovalRequest[]>
+
+  /** Deny every request of the session, returning how many were waiting. */
+  readonly denyAll: (sessionId: string) => Effect.Effect<number>
+
+  /** Deny the requests of sessions that are no longer active. */
+  readonly prune: (activeSessionIds: readonly string[]) => Effect.Effect<number>
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+export const makeToolApprovals = (
+  timeout: Duration.DurationInput = TOOL_APPROVAL_TIMEOUT
+): Effect.Effect<ToolApprovals> =>
+  Effect.gen(function* () {
+    const pendingRef = yield* Ref.make(HashMap.empty<string, PendingApproval>())
+
+    const denyWhere = (predicate: (approval: PendingApproval) => boolean) =>
+      Effect.gen(function* () {
+        const waiting = Array.from(HashMap.values(yield* Ref.get(pendingRef))).filter(predicate)
+        const denied = yield* Effect.forEach(waiting, (approval) =>
+          Deferred.succeed(approval.deferred, false)
+        )
+        return denied.filter(Boolean).length
+      })
+
+    const wait: ToolApprovals["wait"] = (sessionId, request, announce) =>
+      Effect.gen(function* () {
+        const deferred = yield* Deferred.make<boolean>()
+        yield* Ref.update(pendingRef, (pending) =>
+          HashMap.set(pending, request.approvalId, { sessionId, request, deferred })
+        )
+
+        yield* announce
+        return yield* Deferred.await(deferred).pipe(
+          Effect.timeoutTo({
+            duration: timeout,
+            onSuccess: (approved) => approved,
+            onTimeout: () => false,
+          })
+        )
+      }).pipe(
+        Effect.ensuring(
+          Ref.update(pendingRef, (pending) => HashMap.remove(pending, request.approvalId))
+        )
+      )
+
+    const resolve: ToolApprovals["resolve"] = (sessionId, approvalId, approved) =>
+      Effect.gen(function* () {
+        const pending = HashMap.get(yield* Ref.get(pendingRef), approvalId)
+        if (Option.isNone(pending) || pending.value.sessionId !== sessionId) {
+          return false
+        }
+        // Another client may have answered first
+        return yield* Deferred.succeed(pending.value.deferred, approved)
+      })
+
+    const list: ToolApprovals["list"] = (sessionId) =>
+      Effect.map(Ref.get(pendingRef), (pending) =>
+        Array.from(HashMap.values(pending))
+          .filter((approval) => approval.sessionId === sessionId)
+          .map((approval) => approval.request)
+      )
+
+    const denyAll: ToolApprovals["denyAll"] = (sessionId) =>
+      denyWhere((approval) => approval.sessionId === sessionId)
+
+    const prune: ToolApprovals["prune"] = (activeSessionIds) => {
+      const active = new Set(activeSessionIds)
+      return denyWhere((approval) => !active.has(approval.sessionId))
+    }
+
+    return { wait, resolve, list, denyAll, prune } satisfies ToolApprovals
+  })
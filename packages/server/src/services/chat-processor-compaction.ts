@@ -1,5 +1,6 @@
 import { Effect } from "effect"
 import type { ChatMessage, CompactingNotification } from "@bibboy/shared"
+import type { ModelClient } from "@bibboy/agent-runtime"
 import {
   compactIfNeeded,
   shouldCompact,
@@ -11,8 +12,10 @@ const SYSTEM_PROMPT_ESTIMATE_TOKENS = 2000
 export interface MaybeCompactSessionMessagesParams {
   sessionId: string
   messageId: string
+  /** Model id (without provider prefix) used for summarization */
   model: string
-  apiKey: string | null
+  /** Client for the agent's model; compaction is skipped without one */
+  client: ModelClient | null
   sessionMessages: ChatMessage[]
   sendCompactionNotification: (
     params: CompactingNotification["params"]
@@ -26,8 +29,8 @@ export const maybeCompactSessionMessages = (
   params: MaybeCompactSessionMessagesParams
 ): Effect.Effect<ChatMessage[], never> =>
   Effect.gen(function* () {
-    const apiKey = params.apiKey
-    if (!apiKey || params.sessionMessages.length === 0) {
+    const client = params.client
+    if (!client || params.sessionMessages.length === 0) {
       return params.sessionMessages
     }
 
@@ -50,7 +53,7 @@ export const maybeCompactSessionMessages = (
         compactIfNeededImpl(
           params.sessionMessages,
           SYSTEM_PROMPT_ESTIMATE_TOKENS,
-          apiKey,
+          client,
           params.model
         ),
       catch: (error) => {
@@ -1,5 +1,5 @@
 import { Effect, HashMap, Ref } from "effect"
-import type { AgentStreamEvent, ChatMessage } from "@bibboy/shared"
+import type { AgentStreamEvent, ChatMessage, SessionToolCall } from "@bibboy/shared"
 import { sanitizeAssistantOutput } from "../text"
 import type { ChatSessionManagerInterface } from "./ChatSessionManager"
 import type { createResponsesStreamEmitter } from "./ResponsesStreamEmitter"
@@ -57,6 +57,20 @@ export const handleAgentStreamEvent = (params: {
           params.event.toolName,
           params.event.arguments
         )
+
+        const toolCall: SessionToolCall = {
+          toolCallId: params.event.toolCallId,
+          messageId: `${params.messageId}_response`,
+          toolName: params.event.toolName,
+          arguments: params.event.arguments,
+          startedAt: Date.now(),
+        }
+        yield* params.sessionManager
+          .updateSession(params.sessionId, (s) => ({
+            ...s,
+            toolCalls: [...s.toolCalls, toolCall],
+          }))
+          .pipe(Effect.ignore)
         return
       }
 
@@ -66,6 +80,18 @@ export const handleAgentStreamEvent = (params: {
           params.event.toolName,
           params.event.result
         )
+
+        const { toolCallId, result } = params.event
+        yield* params.sessionManager
+          .updateSession(params.sessionId, (s) => ({
+            ...s,
+            toolCalls: s.toolCalls.map((call) =>
+              call.toolCallId === toolCallId
+                ? { ...call, result, completedAt: Date.now() }
+                : call
+            ),
+          }))
+          .pipe(Effect.ignore)
         return
       }
 
@@ -20,6 +20,35 @@ export {
   type ChatSessionManagerInterface,
 } from "./ChatSessionManager"
 
+export {
+  ChatSessionStore,
+  InMemorySessionStore,
+  InMemorySessionStoreLive,
+  computeSessionExpiry,
+  SESSION_TTL_MS,
+  type PersistedSession,
+  type SessionStore,
+} from "./SessionStore"
+
+export {
+  listSessionSummaries,
+  getSessionTranscript,
+  renameSession,
+  deleteSession,
+  forkSession,
+  exportSession,
+  importSession,
+  toSessionSummary,
+} from "./SessionManagement"
+
+export { renderSessionMarkdown } from "./session-markdown"
+
+export {
+  SqliteSessionStore,
+  SqliteSessionStoreLive,
+  type SqliteSessionStoreOptions,
+} from "./SqliteSessionStore"
+
 export {
   ChatProcessor,
   ChatProcessorLive,
@@ -38,10 +67,19 @@ export {
   SoulSession,
   getOrCreateSoulSession,
   getSoulSession,
+  restoreSoulSession,
   clearSoulSession,
   pruneSoulSessions,
+  loadSoulState,
+  type SoulSessionOptions,
   type SoulStageChangeCallback,
   type SoulToolRuntime,
 } from "./SoulStateService"
 
+export {
+  SoulStateStore,
+  getSoulStateStore,
+  type SoulStateStoreOptions,
+} from "./SoulStateStore"
+
 export { extractAgentErrorMessage } from "./error-utils"
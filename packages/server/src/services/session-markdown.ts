@@ -0,0 +1,120 @@
+import type { ChatMessage, SessionExport, SessionToolCall } from "@bibboy/shared"
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ROLE_HEADINGS: Record<ChatMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace("T", " ").slice(0, 19)
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it.
+ */
+function fence(text: string, language = ""): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const marker = "`".repeat(Math.max(3, longestRun + 1))
+  return `${marker}${language}\n${text}\n${marker}`
+}
+
+function renderToolCall(toolCall: SessionToolCall): string {
+  const lines = [
+    `<details><summary>Tool: ${toolCall.toolName}</summary>`,
+    "",
+    fence(JSON.stringify(toolCall.arguments, null, 2), "json"),
+  ]
+
+  if (toolCall.result) {
+    const output = toolCall.result.error ?? toolCall.result.content.map((block) => block.text).join("\n")
+    lines.push("", toolCall.result.error ? "Error:" : "Result:", "", fence(output))
+  }
+
+  lines.push("", "</details>")
+  return lines.join("\n")
+}
+
+function renderMessage(message: ChatMessage, toolCalls: readonly SessionToolCall[]): string {
+  const parts = [`### ${ROLE_HEADINGS[message.role]} · ${formatTimestamp(message.timestamp)}`]
+  for (const toolCall of toolCalls) {
+    parts.push(renderToolCall(toolCall))
+  }
+  parts.push(message.content)
+  return parts.join("\n\n")
+}
+
+function renderSoul(soul: NonNullable<SessionExport["soul"]>): string {
+  const lines = [
+    "## Companion",
+    "",
+    `- Stage: ${soul.stage}`,
+    `- Interactions: ${soul.interactionCount}`,
+  ]
+
+  const traits = Object.entries(soul.traits)
+    .filter(([, score]) => score > 0)
+    .sort(([, a], [, b]) => b - a)
+  if (traits.length > 0) {
+    lines.push(`- Traits: ${traits.map(([trait, score]) => `${trait} ${score.toFixed(2)}`).join(", ")}`)
+  }
+
+  if (soul.history.length > 0) {
+    lines.push("", "### Evolution", "")
+    for (const event of soul.history) {
+      lines.push(
+        `- ${formatTimestamp(event.timestamp)}: ${event.fromStage} → ${event.toStage} (${event.trigger})`
+      )
+    }
+  }
+
+  return lines.join("\n")
+}
+
+// ============================================================================
+// Markdown Transcript
+// ============================================================================
+
+/**
+ * Render a session export as a readable Markdown transcript.
+ * Tool calls are shown as collapsible blocks above the reply they belong to.
+ */
+export function renderSessionMarkdown(data: SessionExport): string {
+  const { session } = data
+  const header = [
+    `# ${session.title ?? `Conversation ${session.sessionId}`}`,
+    "",
+    `- Session: \`${session.sessionId}\``,
+    ...(session.agentId ? [`- Agent: ${session.agentId}`] : []),
+    `- Started: ${formatTimestamp(session.createdAt)} UTC`,
+    `- Exported: ${formatTimestamp(data.exportedAt)} UTC`,
+  ].join("\n")
+
+  const toolCallsByMessage = new Map<string, SessionToolCall[]>()
+  for (const toolCall of data.toolCalls) {
+    if (!toolCall.messageId) continue
+    const calls = toolCallsByMessage.get(toolCall.messageId) ?? []
+    calls.push(toolCall)
+    toolCallsByMessage.set(toolCall.messageId, calls)
+  }
+
+  const sections = [
+    header,
+    ...data.messages.map((message) =>
+      renderMessage(message, toolCallsByMessage.get(message.id) ?? [])
+    ),
+  ]
+  if (data.soul) {
+    sections.push(renderSoul(data.soul))
+  }
+
+  return `${sections.join("\n\n---\n\n")}\n`
+}
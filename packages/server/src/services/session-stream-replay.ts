@@ -0,0 +1,103 @@
+import type { ResponseStreamEvent } from "@bibboy/shared"
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Response events kept per session for replay on reconnect */
+export const REPLAY_BUFFER_SIZE = 1000
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Recent response events of a session. Sequence numbers run across all
+ * responses of the session, so a client's last seen number is a cursor.
+ */
+export interface StreamReplay {
+  /** Sequence number of the latest event (0 before the first) */
+  lastSequence: number
+  /** Most recent events, oldest first */
+  events: readonly ResponseStreamEvent[]
+  /** Response still streaming, with the text produced so far */
+  inProgress: { responseId: string; text: string } | null
+}
+
+export type CatchUp =
+  | { type: "none" }
+  | { type: "replay"; events: readonly ResponseStreamEvent[] }
+  | { type: "snapshot" }
+
+export const EMPTY_STREAM_REPLAY: StreamReplay = {
+  lastSequence: 0,
+  events: [],
+  inProgress: null,
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function trackInProgress(
+  inProgress: StreamReplay["inProgress"],
+  event: ResponseStreamEvent
+): StreamReplay["inProgress"] {
+  switch (event.type) {
+    case "response.created":
+      return { responseId: event.response.id, text: "" }
+    case "response.output_text.delta":
+      return inProgress && { ...inProgress, text: inProgress.text + event.delta }
+    case "response.output_text.done":
+      return inProgress && { ...inProgress, text: event.text }
+    case "response.completed":
+    case "response.failed":
+    case "error":
+      return null
+    default:
+      return inProgress
+  }
+}
+
+/**
+ * Number an event with the session's next sequence number and buffer it.
+ */
+export function recordStreamEvent(
+  replay: StreamReplay,
+  event: ResponseStreamEvent
+): { replay: StreamReplay; event: ResponseStreamEvent } {
+  const sequenced = { ...event, sequence_number: replay.lastSequence + 1 }
+  return {
+    event: sequenced,
+    replay: {
+      lastSequence: sequenced.sequence_number,
+      events: [...replay.events.slice(-(REPLAY_BUFFER_SIZE - 1)), sequenced],
+      inProgress: trackInProgress(replay.inProgress, sequenced),
+    },
+  }
+}
+
+/**
+ * What a client that last saw `lastSeen` needs: the events after it, or a
+ * snapshot when some of them have already left the buffer. A cursor ahead
+ * of the buffer (numbering restarted with the server) also gets a snapshot,
+ * which resets it.
+ */
+export function getCatchUp(replay: StreamReplay, lastSeen: number): CatchUp {
+  if (lastSeen === replay.lastSequence) {
+    return { type: "none" }
+  }
+  if (lastSeen > replay.lastSequence) {
+    return { type: "snapshot" }
+  }
+
+  const oldest = replay.events[0]?.sequence_number ?? replay.lastSequence + 1
+  if (lastSeen + 1 < oldest) {
+    return { type: "snapshot" }
+  }
+
+  return {
+    type: "replay",
+    events: replay.events.filter((event) => event.sequence_number > lastSeen),
+  }
+}
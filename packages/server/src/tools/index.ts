@@ -1,20 +1,27 @@
 import type { AgentPose, ChatMessage } from "@bibboy/shared"
-import type { AgentTool, ToolRegistry, ToolGroupName, ToolGroupInfo, ToolExecutionContext } from "./types"
+import type { AgentTool, ToolRegistry, ToolGroupName, ToolGroupInfo, ToolExecutionContext, McpToolGroupName } from "./types"
 import { createWebSearchTool } from "./web-search"
 import { createWebFetchTool } from "./web-fetch"
 import { createMemorySearchTool, createMemoryGetTool } from "./memory-search"
 import { createWorkspaceTools } from "./workspace-tools"
+import { createRunCodeTool } from "./run-code"
 import { createSetCharacterPoseTool } from "./set-character-pose"
+import { createTaskSuggestTool, type TaskSuggestCallback } from "./task-suggest"
 import {
   createCanvasTools,
   type CanvasToolRuntime,
 } from "./canvas-tools"
 import { createSoulTools } from "./soul-tools"
+import { createMcpTools } from "./mcp-tools"
+import type { McpServerTools } from "../mcp"
 import type { SoulToolRuntime } from "../services/SoulStateService"
 import type { ResolvedAgentConfig } from "../agents/AgentConfig"
 import {
   TOOL_GROUPS,
-  resolveEffectivePolicy,
+  makeApprovalMatcher,
+  mcpGroupName,
+  resolveModelToolPolicy,
+  resolveProviderToolPolicy,
 } from "./tool-policy"
 
 // ============================================================================
@@ -27,6 +34,7 @@ const TOOL_GROUP_DESCRIPTIONS: Record<ToolGroupName, string> = {
   canvas: "Pixel character builder — layers, colors, poses, animations",
   soul: "Soul evolution trait observation and state",
   workspace: "File read/write/list for workspace context",
+  exec: "Sandboxed code execution (JavaScript/TypeScript, Python) in the workspace",
 }
 
 const TOOL_GROUP_NAMES: Record<ToolGroupName, string[]> = {
@@ -35,10 +43,7 @@ const TOOL_GROUP_NAMES: Record<ToolGroupName, string[]> = {
   canvas: TOOL_GROUPS["group:canvas"],
   soul: TOOL_GROUPS["group:soul"],
   workspace: TOOL_GROUPS["group:workspace"],
-}
-
-function isToolGroupName(value: string): value is ToolGroupName {
-  return value in TOOL_GROUP_NAMES
+  exec: TOOL_GROUPS["group:exec"],
 }
 
 // ============================================================================
@@ -54,18 +59,23 @@ function createGroupTools(
   getSessionMessages: () => ChatMessage[],
   sendPoseChange?: (pose: AgentPose) => void,
   canvasRuntime?: CanvasToolRuntime,
-  soulRuntime?: SoulToolRuntime
+  soulRuntime?: SoulToolRuntime,
+  emitTaskSuggest?: TaskSuggestCallback,
+  userId?: string
 ): AgentTool[] {
   switch (group) {
     case "core": {
       const coreParts: AgentTool[] = []
       if (config.memorySearch.enabled) {
-        coreParts.push(createMemorySearchTool(config, getSessionMessages))
-        coreParts.push(createMemoryGetTool(config, getSessionMessages))
+        coreParts.push(createMemorySearchTool(config, getSessionMessages, userId))
+        coreParts.push(createMemoryGetTool(config, getSessionMessages, userId))
       }
       if (sendPoseChange) {
         coreParts.push(createSetCharacterPoseTool(sendPoseChange))
       }
+      if (emitTaskSuggest) {
+        coreParts.push(createTaskSuggestTool(emitTaskSuggest))
+      }
       return coreParts
     }
     case "web": {
@@ -81,29 +91,58 @@ function createGroupTools(
       return soulRuntime ? createSoulTools(soulRuntime) : []
     case "workspace":
       return createWorkspaceTools(config.id)
+    case "exec":
+      return [createRunCodeTool(config.id)]
   }
 }
 
 /**
  * Create a tool registry with all available tools.
  * Uses compiled policy matching (deny-first) for efficient tool filtering.
+ * Pass the agent's discovered MCP servers (see `discoverMcpTools`) to expose
+ * their tools alongside the built-in ones, and the session's user so memory
+ * tools can reach that user's past sessions.
  */
 export function createToolRegistry(
   agentConfig: ResolvedAgentConfig,
   getSessionMessages: () => ChatMessage[],
   sendPoseChange?: (pose: AgentPose) => void,
   canvasRuntime?: CanvasToolRuntime,
-  soulRuntime?: SoulToolRuntime
+  soulRuntime?: SoulToolRuntime,
+  emitTaskSuggest?: TaskSuggestCallback,
+  mcpServers: readonly McpServerTools[] = [],
+  userId?: string
 ): ToolRegistry {
   const tools: AgentTool[] = []
+  const primaryModel = agentConfig.model.primary
+
+  // MCP tools, grouped per server as mcp:<server>
+  const mcpGroups = new Map<McpToolGroupName, { server: string; tools: AgentTool[] }>()
+  for (const server of mcpServers) {
+    const group = mcpGroupName(server.server)
+    const existing = mcpGroups.get(group)?.tools ?? []
+    const serverTools = createMcpTools(server).filter(
+      (tool) => !existing.some((t) => t.name === tool.name)
+    )
+    mcpGroups.set(group, { server: server.server, tools: [...existing, ...serverTools] })
+  }
+  const isMcpGroupName = (value: string): value is McpToolGroupName =>
+    mcpGroups.has(value as McpToolGroupName)
+
+  // Provider-specific policy layers (tools.byProvider), cached per model
+  const providerPolicies = new Map<string, (name: string) => boolean>()
+  const isAllowedForModel = (name: string, model: string): boolean => {
+    let matcher = providerPolicies.get(model)
+    if (!matcher) {
+      matcher = resolveProviderToolPolicy(agentConfig.tools.byProvider, model)
+      providerPolicies.set(model, matcher)
+    }
+    return matcher(name)
+  }
 
-  // Use compiled policy matcher (deny-first evaluation)
-  const shouldInclude = resolveEffectivePolicy({
-    profile: agentConfig.tools.profile,
-    allow: agentConfig.tools.allow,
-    alsoAllow: agentConfig.tools.alsoAllow,
-    deny: agentConfig.tools.deny,
-  })
+  // Use compiled policy matcher (deny-first evaluation), layered with the
+  // provider block for the primary model
+  const shouldInclude = resolveModelToolPolicy(agentConfig.tools, primaryModel)
 
   // Add web search tool (if API key available)
   const webSearch = createWebSearchTool()
@@ -119,10 +158,10 @@ export function createToolRegistry(
   // Add memory tools (if memory search is enabled)
   if (agentConfig.memorySearch.enabled) {
     if (shouldInclude("memory_search")) {
-      tools.push(createMemorySearchTool(agentConfig, getSessionMessages))
+      tools.push(createMemorySearchTool(agentConfig, getSessionMessages, userId))
     }
     if (shouldInclude("memory_get")) {
-      tools.push(createMemoryGetTool(agentConfig, getSessionMessages))
+      tools.push(createMemoryGetTool(agentConfig, getSessionMessages, userId))
     }
   }
 
@@ -134,11 +173,21 @@ export function createToolRegistry(
     }
   }
 
+  // Add sandboxed code execution tool
+  if (shouldInclude("run_code")) {
+    tools.push(createRunCodeTool(agentConfig.id))
+  }
+
   // Add character pose tool (when pose change callback is available)
   if (sendPoseChange && shouldInclude("set_character_pose")) {
     tools.push(createSetCharacterPoseTool(sendPoseChange))
   }
 
+  // Add task suggestion tool (when task suggestions can be sent to the client)
+  if (emitTaskSuggest && shouldInclude("task_suggest")) {
+    tools.push(createTaskSuggestTool(emitTaskSuggest))
+  }
+
   // Add canvas builder tools (session-scoped)
   if (canvasRuntime) {
     const canvasTools = createCanvasTools(canvasRuntime)
@@ -159,7 +208,16 @@ export function createToolRegistry(
     }
   }
 
-  const loadedGroups = new Set<ToolGroupName>()
+  // Add MCP server tools
+  for (const { tools: mcpTools } of mcpGroups.values()) {
+    for (const tool of mcpTools) {
+      if (shouldInclude(tool.name)) {
+        tools.push(tool)
+      }
+    }
+  }
+
+  const loadedGroups = new Set<ToolGroupName | McpToolGroupName>()
 
   // Determine which groups are loaded based on included tools
   for (const [group, names] of Object.entries(TOOL_GROUP_NAMES) as [ToolGroupName, string[]][]) {
@@ -167,6 +225,27 @@ export function createToolRegistry(
       loadedGroups.add(group)
     }
   }
+  for (const [group, { tools: mcpTools }] of mcpGroups) {
+    if (mcpTools.some((tool) => tools.includes(tool))) {
+      loadedGroups.add(group)
+    }
+  }
+
+  // Groups go through the same policy as the initial tool set, so
+  // request_tools can't hand out tools the agent isn't allowed (e.g. exec)
+  const requestableBuiltinGroups = (Object.keys(TOOL_GROUP_NAMES) as ToolGroupName[]).filter(
+    (group) => TOOL_GROUP_NAMES[group].some(shouldInclude)
+  )
+  const requestableMcpGroups = [...mcpGroups].filter(([, { tools: mcpTools }]) =>
+    mcpTools.some((tool) => shouldInclude(tool.name))
+  )
+  const requestableGroups: (ToolGroupName | McpToolGroupName)[] = [
+    ...requestableBuiltinGroups,
+    ...requestableMcpGroups.map(([group]) => group),
+  ]
+
+  const isRequestableGroup = (value: string): value is ToolGroupName | McpToolGroupName =>
+    requestableGroups.includes(value as ToolGroupName | McpToolGroupName)
 
   // Add request_tools meta-tool (lets the agent load additional tool groups mid-conversation)
   if (shouldInclude("request_tools")) {
@@ -177,9 +256,10 @@ export function createToolRegistry(
         "Load additional tool groups into this conversation. " +
         "Call this when you need capabilities not currently available. " +
         "Available groups: " +
-        (Object.keys(TOOL_GROUP_NAMES) as ToolGroupName[])
-          .map((g) => `${g} (${TOOL_GROUP_DESCRIPTIONS[g]})`)
-          .join("; "),
+        [
+          ...requestableBuiltinGroups.map((g) => `${g} (${TOOL_GROUP_DESCRIPTIONS[g]})`),
+          ...requestableMcpGroups.map(([g, { server }]) => `${g} (Tools from the ${server} MCP server)`),
+        ].join("; "),
       parameters: {
         type: "object",
         properties: {
@@ -187,7 +267,7 @@ export function createToolRegistry(
             type: "string",
             description:
               "Comma-separated group names to load. Available: " +
-              Object.keys(TOOL_GROUP_NAMES).join(", "),
+              requestableGroups.join(", "),
           },
         },
         required: ["groups"],
@@ -198,21 +278,33 @@ export function createToolRegistry(
           .split(",")
           .map((g) => g.trim())
           .filter((g) => g.length > 0)
-        const newlyLoaded: ToolGroupName[] = []
-        const alreadyLoaded: ToolGroupName[] = []
+        const newlyLoaded: (ToolGroupName | McpToolGroupName)[] = []
+        const alreadyLoaded: (ToolGroupName | McpToolGroupName)[] = []
         const invalidGroups: string[] = []
 
         for (const group of requested) {
-          if (!isToolGroupName(group)) {
+          if (!isRequestableGroup(group)) {
             invalidGroups.push(group)
             continue
           }
           if (loadedGroups.has(group)) continue
 
           // Actually instantiate tools for the requested group
-          const newTools = createGroupTools(group, agentConfig, getSessionMessages, sendPoseChange, canvasRuntime, soulRuntime)
+          const newTools = isMcpGroupName(group)
+            ? (mcpGroups.get(group)?.tools ?? [])
+            : createGroupTools(
+                group,
+                agentConfig,
+                getSessionMessages,
+                sendPoseChange,
+                canvasRuntime,
+                soulRuntime,
+                emitTaskSuggest,
+                userId
+              )
           const addedNames: string[] = []
           for (const tool of newTools) {
+            if (!shouldInclude(tool.name)) continue
             if (!tools.some((t) => t.name === tool.name)) {
               tools.push(tool)
               addedNames.push(tool.name)
@@ -224,7 +316,7 @@ export function createToolRegistry(
         }
 
         for (const group of requested) {
-          if (!isToolGroupName(group)) continue
+          if (!isRequestableGroup(group)) continue
           if (!newlyLoaded.includes(group) && loadedGroups.has(group)) {
             alreadyLoaded.push(group)
           }
@@ -261,13 +353,18 @@ export function createToolRegistry(
   return {
     tools,
     get: (name: string) => tools.find((t) => t.name === name),
-    getDefinitions: () =>
-      tools.map((tool) => ({
+    getDefinitions: (model?: string) =>
+      tools
+        .filter((tool) => !model || isAllowedForModel(tool.name, model))
+        .map((tool) => ({
         type: "function" as const,
         name: tool.name,
         description: tool.description,
         parameters: tool.parameters,
-      })),
+        })),
+    isAllowedForModel,
+    requiresApproval: makeApprovalMatcher(agentConfig.tools.requireApproval),
+    concurrency: agentConfig.tools.concurrency,
     addTools: (newTools: AgentTool[]) => {
       for (const tool of newTools) {
         if (!tools.some((t) => t.name === tool.name)) {
@@ -275,17 +372,24 @@ export function createToolRegistry(
         }
       }
     },
-    getGroups: (): ToolGroupInfo[] =>
-      (Object.keys(TOOL_GROUP_NAMES) as ToolGroupName[]).map((name) => ({
+    getGroups: (): ToolGroupInfo[] => [
+      ...(Object.keys(TOOL_GROUP_NAMES) as ToolGroupName[]).map((name) => ({
         name,
         description: TOOL_GROUP_DESCRIPTIONS[name],
         toolNames: TOOL_GROUP_NAMES[name],
         loaded: loadedGroups.has(name),
       })),
-    markGroupLoaded: (group: ToolGroupName) => {
+      ...[...mcpGroups].map(([name, { server, tools: mcpTools }]) => ({
+        name,
+        description: `Tools from the ${server} MCP server`,
+        toolNames: mcpTools.map((tool) => tool.name),
+        loaded: loadedGroups.has(name),
+      })),
+    ],
+    markGroupLoaded: (group: ToolGroupName | McpToolGroupName) => {
       loadedGroups.add(group)
     },
-    isGroupLoaded: (group: ToolGroupName) => loadedGroups.has(group),
+    isGroupLoaded: (group: ToolGroupName | McpToolGroupName) => loadedGroups.has(group),
     getToolSummary: (): string => {
       if (tools.length === 0) return "No tools available."
       const grouped: Record<string, string[]> = {}
@@ -298,6 +402,12 @@ export function createToolRegistry(
             break
           }
         }
+        for (const [gName, { tools: mcpTools }] of mcpGroups) {
+          if (mcpTools.includes(tool)) {
+            groupLabel = gName
+            break
+          }
+        }
         if (!grouped[groupLabel]) grouped[groupLabel] = []
         grouped[groupLabel].push(tool.name)
       }
@@ -311,15 +421,19 @@ export function createToolRegistry(
 }
 
 // Re-exports
-export type { AgentTool, ToolRegistry, FunctionToolDefinition, ToolGroupName, ToolGroupInfo, ToolExecutionContext, ToolExecutionMetrics } from "./types"
+export type { AgentTool, ToolRegistry, FunctionToolDefinition, ToolGroupName, McpToolGroupName, ToolGroupInfo, ToolExecutionContext, ToolExecutionMetrics, ToolApprovalCall, ToolApprovalHandler, ToolCallRequest, ToolCallRecord } from "./types"
 export { jsonResult, errorResult, truncateText, applyToolWrappers, createToolExecutionMetrics } from "./types"
 export { createWebSearchTool } from "./web-search"
 export { createWebFetchTool } from "./web-fetch"
 export { createMemorySearchTool, createMemoryGetTool } from "./memory-search"
 export { createWorkspaceTools } from "./workspace-tools"
+export { createRunCodeTool, type RunCodeToolOptions } from "./run-code"
 export { createSetCharacterPoseTool } from "./set-character-pose"
+export { createTaskSuggestTool, type TaskSuggestCallback, type TaskSuggestion } from "./task-suggest"
 export { createCanvasTools, type CanvasToolRuntime } from "./canvas-tools"
 export { createSoulTools } from "./soul-tools"
+export { createMcpTools } from "./mcp-tools"
+export { makeToolCallLimiter, getToolResourceKey, type ToolCallLimiter } from "./tool-concurrency"
 export { compactToolResult, resetResultCounter } from "./tool-result-store"
 export {
   TOOL_GROUPS,
@@ -328,10 +442,18 @@ export {
   compilePatterns,
   matchesAny,
   makeToolPolicyMatcher,
+  makeApprovalMatcher,
+  mcpGroupName,
   expandToolGroups,
   resolveProfileAllowList,
   resolveEffectivePolicy,
+  resolveModelToolPolicy,
+  resolveProviderToolPolicy,
+  resolveProviderPolicy,
+  parseModelRef,
+  DEFAULT_MODEL_PROVIDER,
   filterToolsByPolicy,
   type CompiledPattern,
   type ToolPolicy,
+  type ProviderToolPolicyInput,
 } from "./tool-policy"
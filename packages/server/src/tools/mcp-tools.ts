@@ -0,0 +1,102 @@
+import { toMcpToolName } from "@bibboy/shared"
+import type { McpContentBlock, McpServerTools, McpToolInfo } from "../mcp"
+import type { AgentTool, ToolParameterSchema } from "./types"
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type ParameterProperty = ToolParameterSchema["properties"][string]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Pick a single JSON Schema type for a property (`["string", "null"]` →
+ * "string"); untyped properties are treated as strings.
+ */
+function toPropertyType(type: unknown): string {
+  if (typeof type === "string") return type
+  if (Array.isArray(type)) {
+    const first = type.find((t): t is string => typeof t === "string" && t !== "null")
+    if (first) return first
+  }
+  return "string"
+}
+
+/**
+ * Adapt an MCP tool's `inputSchema` to the tool parameter schema. Extra
+ * JSON Schema keywords (items, nested properties) are passed through.
+ */
+function toToolParameters(inputSchema: McpToolInfo["inputSchema"]): ToolParameterSchema {
+  const properties: Record<string, ParameterProperty> = {}
+  const rawProperties = isRecord(inputSchema?.properties) ? inputSchema.properties : {}
+
+  for (const [name, schema] of Object.entries(rawProperties)) {
+    const property = isRecord(schema) ? schema : {}
+    properties[name] = { ...property, type: toPropertyType(property.type) }
+  }
+
+  const required = Array.isArray(inputSchema?.required)
+    ? inputSchema.required.filter((name): name is string => typeof name === "string" && name in properties)
+    : []
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  }
+}
+
+function formatContentBlock(block: McpContentBlock): string {
+  if (block.type === "text" && typeof block.text === "string") return block.text
+  if (block.type === "resource" && isRecord(block.resource) && typeof block.resource.text === "string") {
+    return block.resource.text
+  }
+  const mimeType = typeof block.mimeType === "string" ? ` ${block.mimeType}` : ""
+  return `[${block.type}${mimeType} content omitted]`
+}
+
+// ============================================================================
+// MCP Tools
+// ============================================================================
+
+/**
+ * Adapt the tools of a connected MCP server to agent tools named
+ * `mcp__<server>__<tool>`.
+ */
+export function createMcpTools({ server, client, tools }: McpServerTools): AgentTool[] {
+  const agentTools: AgentTool[] = []
+  const names = new Set<string>()
+
+  for (const tool of tools) {
+    // Truncation or sanitizing can make two tool names collide; keep the first
+    const name = toMcpToolName(server, tool.name)
+    if (names.has(name)) continue
+    names.add(name)
+
+    agentTools.push({
+      label: `${server}: ${tool.name}`,
+      name,
+      description: tool.description ?? `Tool "${tool.name}" from the ${server} MCP server`,
+      parameters: toToolParameters(tool.inputSchema),
+      execute: async (toolCallId, args) => {
+        const result = await client.callTool(tool.name, args)
+        const text = result.content.map(formatContentBlock).join("\n\n")
+
+        if (result.isError) {
+          const error = text || `MCP tool ${tool.name} failed`
+          return {
+            toolCallId,
+            content: [{ type: "text", text: JSON.stringify({ error }) }],
+            error,
+          }
+        }
+        return { toolCallId, content: [{ type: "text", text }] }
+      },
+    })
+  }
+
+  return agentTools
+}
@@ -22,15 +22,16 @@ const DEFAULT_MIN_SCORE = 0.35
  */
 export function createMemorySearchTool(
   agentConfig: ResolvedAgentConfig,
-  getSessionMessages: () => ChatMessage[]
+  getSessionMessages: () => ChatMessage[],
+  userId?: string
 ): AgentTool {
-  const memoryService = createMemoryService(agentConfig, getSessionMessages)
+  const memoryService = createMemoryService(agentConfig, getSessionMessages, userId)
 
   return {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Search current session conversation history and memory files for relevant context. Always searches the current session transcript. Use before answering questions about what was discussed earlier in this conversation, prior decisions, preferences, or any information the user shared.",
+      "Search current session conversation history and memory files for relevant context. Always searches the current session transcript; the user's past conversations appear as 'session:<user>/<id>' paths when session memory is enabled. Use before answering questions about what was discussed earlier in this conversation, prior decisions, preferences, or any information the user shared.",
     parameters: {
       type: "object",
       properties: {
@@ -97,15 +98,16 @@ export function createMemorySearchTool(
  */
 export function createMemoryGetTool(
   agentConfig: ResolvedAgentConfig,
-  getSessionMessages: () => ChatMessage[]
+  getSessionMessages: () => ChatMessage[],
+  userId?: string
 ): AgentTool {
-  const memoryService = createMemoryService(agentConfig, getSessionMessages)
+  const memoryService = createMemoryService(agentConfig, getSessionMessages, userId)
 
   return {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Retrieve specific content from session transcript or memory files. Use path='session' with from/lines to read session messages by index (from memory_search results). Use other paths for memory/*.md files.",
+      "Retrieve specific content from session transcript or memory files. Use path='session' with from/lines to read session messages by index (from memory_search results). Use 'session:<user>/<id>' paths (from memory_search results) with from/lines to read past conversation transcripts. Use other paths for memory/*.md files.",
     parameters: {
       type: "object",
       properties: {
@@ -0,0 +1,194 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import type { ToolExecutionResult } from "@bibboy/shared"
+import type { AgentTool } from "./types"
+import { jsonResult, errorResult, readNumberParam, readStringParam } from "./types"
+import { getWorkspaceDir } from "../workspace"
+import {
+  DEFAULT_SANDBOX_LIMITS,
+  buildSandboxCommand,
+  detectSandboxBackend,
+  findExecutable,
+  runProcess,
+  type SandboxBackend,
+  type SandboxLimits,
+} from "./sandbox"
+
+// ============================================================================
+// Run Code Tool
+// ============================================================================
+
+type CodeLanguage = "javascript" | "typescript" | "python"
+
+/** Stays below the 30s tool timeout so the sandbox is always cleaned up first */
+const MAX_TIMEOUT_SECONDS = 25
+const MAX_CODE_CHARS = 100_000
+
+interface RunCodeResult {
+  language: CodeLanguage
+  exitCode: number | null
+  signal: string | null
+  stdout: string
+  stderr: string
+  timedOut: boolean
+  truncated: boolean
+  tookMs: number
+  disabled?: boolean
+  error?: string
+}
+
+export interface RunCodeToolOptions {
+  /** Override backend detection (null disables the tool) */
+  backend?: SandboxBackend | null
+  limits?: Partial<SandboxLimits>
+}
+
+/**
+ * Command that reads the program from stdin, per language. Python is only
+ * offered when python3 is installed.
+ */
+function resolveRuntimes(): Partial<Record<CodeLanguage, string[]>> {
+  const bun = process.versions.bun ? process.execPath : findExecutable("bun")
+  const python = findExecutable("python3")
+  return {
+    ...(bun
+      ? {
+          javascript: [bun, "run", "--no-install", "-"],
+          typescript: [bun, "run", "--no-install", "-"],
+        }
+      : {}),
+    // -I: ignore PYTHON* variables and the user site directory
+    ...(python ? { python: [python, "-I", "-"] } : {}),
+  }
+}
+
+/** Describe why a run failed, for the model */
+function describeFailure(run: Omit<RunCodeResult, "language" | "error">, limits: SandboxLimits): string | undefined {
+  if (run.timedOut) return `Timed out after ${Math.round(limits.timeoutMs / 1000)}s`
+  if (run.truncated) return `Output exceeded ${limits.maxOutputBytes} bytes; the run was stopped`
+  // The CPU limit is hard, so the kernel kills the run outright
+  if (run.signal === "SIGXCPU" || run.signal === "SIGKILL") {
+    return `Killed after exceeding the CPU time limit of ${limits.cpuSeconds}s or the memory limit`
+  }
+  if (run.signal === "SIGXFSZ") return `File size limit of ${limits.maxFileMb} MB exceeded`
+  return undefined
+}
+
+export function createRunCodeTool(agentId: string, options: RunCodeToolOptions = {}): AgentTool {
+  const backend = options.backend === undefined ? detectSandboxBackend() : options.backend
+  const baseLimits: SandboxLimits = { ...DEFAULT_SANDBOX_LIMITS, ...options.limits }
+  const runtimes = resolveRuntimes()
+  const languages = Object.keys(runtimes) as CodeLanguage[]
+
+  return {
+    label: "Run Code",
+    name: "run_code",
+    description:
+      "Run a short program in a sandbox and get its stdout, stderr and exit code. " +
+      "The program runs in the workspace directory with no network access; outside the workspace only system files can be read. " +
+      `Languages: ${languages.join(", ") || "none available"}. JavaScript and TypeScript run on Bun. ` +
+      "Use it for calculations, data processing and checking code; print the results you need.",
+    parameters: {
+      type: "object",
+      properties: {
+        language: {
+          type: "string",
+          description: "Language of the code.",
+          enum: languages,
+        },
+        code: {
+          type: "string",
+          description: "Program source. It is read from stdin, so it cannot read input itself.",
+        },
+        timeout_seconds: {
+          type: "number",
+          description: `Wall-clock limit in seconds (default ${Math.round(baseLimits.timeoutMs / 1000)}, max ${MAX_TIMEOUT_SECONDS}).`,
+          minimum: 1,
+          maximum: MAX_TIMEOUT_SECONDS,
+        },
+      },
+      required: ["language", "code"],
+    },
+    execute: async (_toolCallId, args): Promise<ToolExecutionResult> => {
+      const language = readStringParam(args, "language").toLowerCase() as CodeLanguage
+      const code = typeof args.code === "string" ? args.code : ""
+
+      // Graceful handling when the host cannot isolate the code
+      if (!backend) {
+        return jsonResult({
+          language,
+          exitCode: null,
+          signal: null,
+          stdout: "",
+          stderr: "",
+          timedOut: false,
+          truncated: false,
+          tookMs: 0,
+          disabled: true,
+          error: "Code execution requires a sandbox: bubblewrap (bwrap) on Linux or sandbox-exec on macOS.",
+        } satisfies RunCodeResult)
+      }
+
+      const runtime = runtimes[language]
+      if (!runtime) {
+        return errorResult(`Unsupported language: ${language || "(none)"}. Available: ${languages.join(", ")}`)
+      }
+      if (!code.trim()) {
+        return errorResult("Missing required parameter: code")
+      }
+      if (code.length > MAX_CODE_CHARS) {
+        return errorResult(`Code is too long (${code.length} chars, max ${MAX_CODE_CHARS})`)
+      }
+
+      const timeoutSeconds = readNumberParam(args, "timeout_seconds", { min: 1, max: MAX_TIMEOUT_SECONDS })
+      const limits: SandboxLimits = {
+        ...baseLimits,
+        timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : baseLimits.timeoutMs,
+      }
+
+      fs.mkdirSync(getWorkspaceDir(agentId), { recursive: true })
+      // Sandbox profiles match real paths (/var is /private/var on macOS)
+      const workspaceDir = fs.realpathSync(getWorkspaceDir(agentId))
+      const tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "bibboy-run-")))
+
+      try {
+        const run = await runProcess(
+          buildSandboxCommand({ backend, workspaceDir, tmpDir, limits, command: runtime }),
+          {
+            cwd: workspaceDir,
+            // Nothing from the server environment (API keys) reaches the code
+            env: {
+              PATH: process.env.PATH ?? "/usr/local/bin:/usr/bin:/bin",
+              HOME: tmpDir,
+              TMPDIR: tmpDir,
+              LANG: "C.UTF-8",
+              NO_COLOR: "1",
+            },
+            stdin: code,
+            timeoutMs: limits.timeoutMs,
+            maxOutputBytes: limits.maxOutputBytes,
+          }
+        )
+
+        const result = {
+          exitCode: run.exitCode,
+          signal: run.signal,
+          stdout: run.stdout,
+          stderr: run.stderr,
+          timedOut: run.timedOut,
+          truncated: run.truncated,
+          tookMs: run.durationMs,
+        }
+        const error = describeFailure(result, limits)
+        if (!error) return jsonResult({ language, ...result } satisfies RunCodeResult)
+        // Runs stopped by a limit count as failed calls (partial output is kept)
+        return { ...jsonResult({ language, ...result, error } satisfies RunCodeResult), error }
+      } catch (error) {
+        return errorResult(`Failed to start the sandbox: ${error instanceof Error ? error.message : String(error)}`)
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true })
+      }
+    },
+  }
+}
@@ -0,0 +1,283 @@
+import { spawn } from "node:child_process"
+import fs from "node:fs"
+import path from "node:path"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * OS facility that isolates a run: bubblewrap on Linux, Seatbelt
+ * (`sandbox-exec`) on macOS.
+ */
+export type SandboxBackend = "bwrap" | "sandbox-exec"
+
+export interface SandboxLimits {
+  /** Wall-clock limit; the process group is killed when it is exceeded */
+  timeoutMs: number
+  /** CPU time limit (ulimit -t) */
+  cpuSeconds: number
+  /** Address space limit (ulimit -v); not enforced on macOS */
+  memoryMb: number
+  /** Largest file the code may write (ulimit -f) */
+  maxFileMb: number
+  /** Bytes kept per output stream; the process is killed once exceeded */
+  maxOutputBytes: number
+}
+
+export interface SandboxCommandOptions {
+  backend: SandboxBackend
+  /** The only writable directory besides the private temp dir */
+  workspaceDir: string
+  /** Private, writable temp dir for the run (HOME and TMPDIR) */
+  tmpDir: string
+  limits: SandboxLimits
+  /** Runtime command, e.g. `["/usr/bin/bun", "run", "-"]` */
+  command: string[]
+}
+
+export interface RunProcessOptions {
+  cwd: string
+  env: Record<string, string>
+  stdin?: string
+  timeoutMs: number
+  maxOutputBytes: number
+}
+
+export interface ProcessResult {
+  exitCode: number | null
+  signal: string | null
+  stdout: string
+  stderr: string
+  timedOut: boolean
+  /** Output went past maxOutputBytes and the process was stopped */
+  truncated: boolean
+  durationMs: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 10_000,
+  cpuSeconds: 10,
+  memoryMb: 1024,
+  maxFileMb: 10,
+  maxOutputBytes: 64 * 1024,
+}
+
+/**
+ * Host paths a bwrap run can read: the system directories the runtimes and
+ * /bin/sh need. Everything else (the agent state dir, .env files, home
+ * directories) is not mounted at all.
+ */
+export const SANDBOX_SYSTEM_PATHS: readonly string[] = [
+  "/usr",
+  "/bin",
+  "/sbin",
+  "/lib",
+  "/lib32",
+  "/lib64",
+  "/etc/alternatives",
+  "/etc/ld.so.cache",
+  "/etc/ssl",
+  "/etc/ca-certificates",
+  "/etc/localtime",
+]
+
+/** Where macOS keeps user data; a Seatbelt run can't read them */
+const SEATBELT_PRIVATE_PATHS: readonly string[] = ["/Users", "/private/var/folders", "/Volumes"]
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Find an executable on PATH, or null when it is not installed.
+ */
+export function findExecutable(name: string): string | null {
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+    if (!dir) continue
+    const candidate = path.join(dir, name)
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK)
+      return candidate
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null
+}
+
+/**
+ * Sandbox backend available on this host, or null when code cannot be run
+ * safely here.
+ */
+export function detectSandboxBackend(): SandboxBackend | null {
+  if (process.platform === "linux" && findExecutable("bwrap")) return "bwrap"
+  if (process.platform === "darwin" && findExecutable("sandbox-exec")) return "sandbox-exec"
+  return null
+}
+
+// ============================================================================
+// Command Building
+// ============================================================================
+
+/**
+ * Wrap a command in a shell that applies the resource limits, then execs it.
+ * Limits the platform rejects (ulimit -v on macOS) are skipped.
+ */
+function withResourceLimits(limits: SandboxLimits, command: string[]): string[] {
+  const script = [
+    `ulimit -t ${limits.cpuSeconds}`,
+    `ulimit -v ${limits.memoryMb * 1024} 2>/dev/null`,
+    // ulimit -f counts 512-byte blocks
+    `ulimit -f ${limits.maxFileMb * 2048}`,
+    'exec "$@"',
+  ].join("; ")
+  return ["/bin/sh", "-c", script, "sh", ...command]
+}
+
+/**
+ * Directory of the runtime executable when it lives outside the system
+ * paths (e.g. ~/.bun/bin), so the sandbox can still start it.
+ */
+function runtimeDir(command: string[], systemPaths: readonly string[]): string | null {
+  const executable = command[0]
+  if (!executable || !path.isAbsolute(executable)) return null
+  const dir = path.dirname(executable)
+  const isSystem = systemPaths.some((p) => dir === p || dir.startsWith(`${p}/`))
+  return isSystem ? null : dir
+}
+
+/**
+ * Seatbelt profile: no network, no reads of user data besides the workspace,
+ * temp dir and runtime, writes only to the workspace and temp dir
+ */
+function buildSeatbeltProfile(workspaceDir: string, tmpDir: string, command: string[]): string {
+  const readable = [workspaceDir, tmpDir, runtimeDir(command, ["/usr", "/bin", "/opt"])]
+    .filter((dir): dir is string => dir !== null)
+    .map((dir) => `(subpath ${JSON.stringify(dir)})`)
+  return [
+    "(version 1)",
+    "(allow default)",
+    "(deny network*)",
+    `(deny file-read* ${SEATBELT_PRIVATE_PATHS.map((p) => `(subpath ${JSON.stringify(p)})`).join(" ")})`,
+    `(allow file-read* ${readable.join(" ")})`,
+    "(deny file-write*)",
+    `(allow file-write* (subpath ${JSON.stringify(workspaceDir)}) (subpath ${JSON.stringify(tmpDir)}) (literal "/dev/null"))`,
+  ].join("\n")
+}
+
+/**
+ * Build the argv that runs `command` in the sandbox: no network, only the
+ * system directories and the runtime visible (read-only), the workspace
+ * writable, and the resource limits applied inside.
+ */
+export function buildSandboxCommand(options: SandboxCommandOptions): string[] {
+  const { backend, workspaceDir, tmpDir, limits, command } = options
+  const limited = withResourceLimits(limits, command)
+
+  switch (backend) {
+    case "bwrap": {
+      const runtime = runtimeDir(command, SANDBOX_SYSTEM_PATHS)
+      return [
+        "bwrap",
+        // -try: skip paths this distribution doesn't have (e.g. /lib32)
+        ...SANDBOX_SYSTEM_PATHS.flatMap((p) => ["--ro-bind-try", p, p]),
+        ...(runtime ? ["--ro-bind", runtime, runtime] : []),
+        "--dev", "/dev",
+        "--proc", "/proc",
+        "--tmpfs", "/tmp",
+        "--bind", workspaceDir, workspaceDir,
+        "--bind", tmpDir, tmpDir,
+        "--unshare-all",
+        "--die-with-parent",
+        "--new-session",
+        "--chdir", workspaceDir,
+        ...limited,
+      ]
+    }
+    case "sandbox-exec":
+      return ["sandbox-exec", "-p", buildSeatbeltProfile(workspaceDir, tmpDir, command), ...limited]
+  }
+}
+
+// ============================================================================
+// Process Runner
+// ============================================================================
+
+/**
+ * Run a command to completion, feeding it `stdin` and collecting its output.
+ * The whole process group is killed on timeout or when an output stream
+ * grows past `maxOutputBytes`. Never rejects once the process has spawned.
+ */
+export function runProcess(argv: string[], options: RunProcessOptions): Promise<ProcessResult> {
+  const startedAt = Date.now()
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ["pipe", "pipe", "pipe"],
+      // Own process group so the runtime's children are killed with it
+      detached: true,
+    })
+
+    const output = { stdout: [] as Buffer[], stderr: [] as Buffer[] }
+    const sizes = { stdout: 0, stderr: 0 }
+    let timedOut = false
+    let truncated = false
+
+    const killGroup = () => {
+      if (child.pid === undefined) return
+      try {
+        process.kill(-child.pid, "SIGKILL")
+      } catch {
+        // Already exited
+      }
+    }
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      killGroup()
+    }, options.timeoutMs)
+
+    const collect = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      const room = options.maxOutputBytes - sizes[stream]
+      const kept = chunk.length > room ? chunk.subarray(0, Math.max(0, room)) : chunk
+      output[stream].push(kept)
+      sizes[stream] += kept.length
+      if (kept !== chunk && !truncated) {
+        truncated = true
+        killGroup()
+      }
+    }
+
+    child.stdout.on("data", collect("stdout"))
+    child.stderr.on("data", collect("stderr"))
+    // The code may exit without reading its input
+    child.stdin.on("error", () => {})
+
+    child.on("error", (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+
+    child.on("close", (exitCode, signal) => {
+      clearTimeout(timer)
+      resolve({
+        exitCode,
+        signal,
+        stdout: Buffer.concat(output.stdout).toString("utf8"),
+        stderr: Buffer.concat(output.stderr).toString("utf8"),
+        timedOut,
+        truncated,
+        durationMs: Date.now() - startedAt,
+      })
+    })
+
+    child.stdin.end(options.stdin ?? "")
+  })
+}
@@ -1,11 +1,9 @@
-/** A suggested task for the user. */
-export interface TaskSuggestion {
-  id: string
-  text: string
-}
+import type { TaskSuggestion } from "@bibboy/shared"
 import type { AgentTool } from "./types"
 import { jsonResult, errorResult } from "./types"
 
+export type { TaskSuggestion }
+
 /**
  * Callback to emit task suggestions to the client via WebSocket.
  */
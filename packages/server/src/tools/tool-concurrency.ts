@@ -0,0 +1,85 @@
+import { Effect } from "effect"
+import type { ResolvedToolConcurrency } from "../agents/AgentConfig"
+import { compilePattern, matchesAny, type CompiledPattern } from "./tool-policy"
+import type { ToolCallRequest } from "./types"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Gates the calls of one turn: a global slot, a slot of the first matching
+ * per-tool limit, and exclusive access to the resource a call writes.
+ */
+export interface ToolCallLimiter {
+  run: <A, E, R>(call: ToolCallRequest, effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Tools that write the resource named by an argument. Calls on the same
+ * resource run one at a time, in the order the model made them.
+ */
+const RESOURCE_ARGUMENTS: Record<string, string> = {
+  write_file: "filename",
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resource key of a call (e.g. `file:notes.md`), or null when the call can
+ * overlap with any other.
+ */
+export function getToolResourceKey(call: ToolCallRequest): string | null {
+  const argument = RESOURCE_ARGUMENTS[call.name]
+  if (!argument) return null
+  const value = call.args[argument]
+  return typeof value === "string" ? `file:${value.trim()}` : null
+}
+
+// ============================================================================
+// Limiter
+// ============================================================================
+
+/**
+ * Create a limiter for one batch of tool calls. Without limits only the
+ * per-resource locks apply.
+ */
+export function makeToolCallLimiter(limits?: ResolvedToolConcurrency): ToolCallLimiter {
+  const global = limits ? Effect.unsafeMakeSemaphore(limits.maxParallel) : null
+  const perTool: Array<{ patterns: CompiledPattern[]; semaphore: Effect.Semaphore }> = Object.entries(
+    limits?.perTool ?? {}
+  ).map(([pattern, max]) => ({
+    patterns: compilePattern(pattern),
+    semaphore: Effect.unsafeMakeSemaphore(max),
+  }))
+  const resources = new Map<string, Effect.Semaphore>()
+
+  const getResourceLock = (call: ToolCallRequest): Effect.Semaphore | null => {
+    const key = getToolResourceKey(call)
+    if (!key) return null
+    let lock = resources.get(key)
+    if (!lock) {
+      lock = Effect.unsafeMakeSemaphore(1)
+      resources.set(key, lock)
+    }
+    return lock
+  }
+
+  return {
+    run: (call, effect) => {
+      // Acquire the narrowest slot first so queued calls never hold a global slot
+      let gated = global ? global.withPermits(1)(effect) : effect
+      const toolLimit = perTool.find(({ patterns }) => matchesAny(call.name, patterns))
+      if (toolLimit) gated = toolLimit.semaphore.withPermits(1)(gated)
+      const resourceLock = getResourceLock(call)
+      if (resourceLock) gated = resourceLock.withPermits(1)(gated)
+      return gated
+    },
+  }
+}
@@ -1,4 +1,6 @@
-import type { ToolGroupName } from "./types"
+import { DEFAULT_MODEL_PROVIDER, parseModelRef } from "@bibboy/agent-runtime"
+import { MCP_TOOL_PREFIX, normalizeMcpServerName } from "@bibboy/shared"
+import type { McpToolGroupName, ToolGroupName } from "./types"
 
 // ============================================================================
 // Tool Policy (OpenClaw-inspired compiled pattern matching)
@@ -21,6 +23,7 @@ const BASE_TOOL_GROUPS: Record<Exclude<ToolGroupKey, "group:all">, string[]> = {
   ],
   "group:soul": ["soul_observe_trait", "soul_get_state"],
   "group:workspace": ["read_file", "write_file", "list_files"],
+  "group:exec": ["run_code"],
 }
 
 // Build group:all dynamically from all other groups
@@ -35,12 +38,36 @@ function isToolGroupKey(value: string): value is ToolGroupKey {
   return value in TOOL_GROUPS
 }
 
+/** "group:mcp" covers every MCP tool, "group:mcp:<name>" the tools of one server */
+const MCP_GROUP = "group:mcp"
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Group name for the tools of an MCP server (request_tools, getGroups).
+ */
+export function mcpGroupName(server: string): McpToolGroupName {
+  return `mcp:${normalizeMcpServerName(server)}`
+}
+
+function compileMcpGroup(pattern: string): CompiledPattern[] {
+  if (pattern === MCP_GROUP) {
+    return [{ kind: "regex", value: new RegExp(`^${escapeRegex(MCP_TOOL_PREFIX)}`) }]
+  }
+  const server = normalizeMcpServerName(pattern.slice(MCP_GROUP.length + 1))
+  if (!server) return []
+  const prefix = escapeRegex(`${MCP_TOOL_PREFIX}${server}__`)
+  return [{ kind: "regex", value: new RegExp(`^${prefix}`) }]
+}
+
 /**
  * Tool profiles using group:* syntax for composable tool sets.
  */
 export const TOOL_PROFILES: Record<ToolProfileName, string[]> = {
   minimal: ["group:core"],
-  coding: ["group:core", "group:web", "group:workspace"],
+  coding: ["group:core", "group:web", "group:workspace", "group:exec"],
   messaging: ["group:core", "group:web", "group:canvas", "group:soul", "request_tools"],
   full: [], // Empty = all tools allowed
 }
@@ -64,6 +91,7 @@ export type CompiledPattern =
  * - "*" → matches all
  * - "web_*" → regex /^web_.*$/
  * - "group:core" → expanded to individual tool names
+ * - "group:mcp:github" → regex over the server's `mcp__github__*` tools
  * - "exec" → exact match
  */
 export function compilePattern(pattern: string): CompiledPattern[] {
@@ -73,6 +101,11 @@ export function compilePattern(pattern: string): CompiledPattern[] {
     return [{ kind: "all" }]
   }
 
+  // MCP tools are discovered at runtime, so their groups match by prefix
+  if (trimmed === MCP_GROUP || trimmed.startsWith(`${MCP_GROUP}:`)) {
+    return compileMcpGroup(trimmed)
+  }
+
   // Expand group references to individual tool names
   if (trimmed.startsWith("group:")) {
     if (!isToolGroupKey(trimmed)) return []
@@ -214,6 +247,91 @@ export function resolveEffectivePolicy(input: ResolvedToolPolicyInput): (name: s
   })
 }
 
+// ============================================================================
+// Per-Provider Policy Layering
+// ============================================================================
+
+// Model refs are shared with the model clients in agent-runtime
+export { DEFAULT_MODEL_PROVIDER, parseModelRef }
+
+export interface ProviderToolPolicyInput {
+  profile?: string
+  allow?: string[]
+  alsoAllow?: string[]
+  deny?: string[]
+}
+
+/**
+ * Find the byProvider block for a model. Most specific key wins:
+ * "provider/model" → "model" → "provider" (keys compared case-insensitively).
+ */
+export function resolveProviderPolicy(
+  byProvider: Readonly<Record<string, ProviderToolPolicyInput>>,
+  model: string
+): ProviderToolPolicyInput | undefined {
+  const entries = new Map(
+    Object.entries(byProvider).map(([key, value]) => [key.trim().toLowerCase(), value])
+  )
+  if (entries.size === 0) return undefined
+
+  const { provider, modelId } = parseModelRef(model)
+  const candidates = [`${provider}/${modelId}`, modelId, provider].map((key) => key.toLowerCase())
+  for (const key of candidates) {
+    const policy = entries.get(key)
+    if (policy) return policy
+  }
+  return undefined
+}
+
+/**
+ * Matcher for the provider-specific block of a model alone
+ * (accepts everything when no block applies).
+ */
+export function resolveProviderToolPolicy(
+  byProvider: Readonly<Record<string, ProviderToolPolicyInput>>,
+  model: string
+): (name: string) => boolean {
+  const providerPolicy = resolveProviderPolicy(byProvider, model)
+  if (!providerPolicy) return () => true
+
+  return resolveEffectivePolicy({
+    profile: providerPolicy.profile ?? null,
+    allow: providerPolicy.allow ?? [],
+    alsoAllow: providerPolicy.alsoAllow ?? [],
+    deny: providerPolicy.deny ?? [],
+  })
+}
+
+/**
+ * Resolve the effective policy for the model in use: the agent policy layered
+ * with the provider-specific block. A tool must pass both, so provider blocks
+ * can only narrow the tool set (e.g. restrict weaker fallback models).
+ */
+export function resolveModelToolPolicy(
+  input: ResolvedToolPolicyInput & {
+    byProvider: Readonly<Record<string, ProviderToolPolicyInput>>
+  },
+  model: string
+): (name: string) => boolean {
+  const base = resolveEffectivePolicy(input)
+  const provider = resolveProviderToolPolicy(input.byProvider, model)
+  return (name) => base(name) && provider(name)
+}
+
+// ============================================================================
+// Approval Policy
+// ============================================================================
+
+/**
+ * Create a matcher for tools that need the user's approval before they run
+ * (tools.requireApproval). Accepts the same patterns as allow/deny; an empty
+ * list means no tool needs approval.
+ */
+export function makeApprovalMatcher(requireApproval: string[]): (name: string) => boolean {
+  const patterns = compilePatterns(requireApproval)
+  return (name: string): boolean => patterns.length > 0 && matchesAny(name, patterns)
+}
+
 /**
  * Filter a list of tool names by policy.
  */
@@ -1,4 +1,6 @@
+import type { Effect } from "effect"
 import type { ToolExecutionResult } from "@bibboy/shared"
+import type { ResolvedToolConcurrency } from "../agents/AgentConfig"
 
 // ============================================================================
 // Tool Types (OpenClaw-inspired)
@@ -39,13 +41,18 @@ export interface AgentTool {
 /**
  * Tool group names for dynamic tool loading.
  */
-export type ToolGroupName = "core" | "web" | "canvas" | "soul" | "workspace"
+export type ToolGroupName = "core" | "web" | "canvas" | "soul" | "workspace" | "exec"
+
+/**
+ * Group of the tools discovered on one MCP server (`mcp:<server>`).
+ */
+export type McpToolGroupName = `mcp:${string}`
 
 /**
  * Tool group metadata for the request_tools meta-tool.
  */
 export interface ToolGroupInfo {
-  name: ToolGroupName
+  name: ToolGroupName | McpToolGroupName
   description: string
   toolNames: string[]
   loaded: boolean
@@ -58,15 +65,22 @@ export interface ToolGroupInfo {
 export interface ToolRegistry {
   tools: AgentTool[]
   get: (name: string) => AgentTool | undefined
-  getDefinitions: () => FunctionToolDefinition[]
+  /** Definitions exposed to a model; pass `model` to apply its tools.byProvider block */
+  getDefinitions: (model?: string) => FunctionToolDefinition[]
+  /** Whether a registered tool may be used by a model (tools.byProvider) */
+  isAllowedForModel?: (name: string, model: string) => boolean
+  /** Whether calls to a tool wait for the user's approval (tools.requireApproval) */
+  requiresApproval?: (name: string) => boolean
+  /** Limits for calls made in the same turn (tools.concurrency) */
+  concurrency?: ResolvedToolConcurrency
   /** Dynamically add tools to the registry mid-conversation */
   addTools: (newTools: AgentTool[]) => void
   /** Get tool group metadata for request_tools */
   getGroups: () => ToolGroupInfo[]
   /** Mark a group as loaded */
-  markGroupLoaded: (group: ToolGroupName) => void
+  markGroupLoaded: (group: ToolGroupName | McpToolGroupName) => void
   /** Check if a group is loaded */
-  isGroupLoaded: (group: ToolGroupName) => boolean
+  isGroupLoaded: (group: ToolGroupName | McpToolGroupName) => boolean
   /** Get a compact summary of available tools for system prompt injection */
   getToolSummary: () => string
 }
@@ -95,8 +109,42 @@ export interface ToolExecutionContext {
   iteration?: number
   /** Per-session metrics tracker */
   metrics?: ToolExecutionMetrics
+  /** Model that issued the tool calls (enforces tools.byProvider) */
+  model?: string
+  /** Asks the user about calls to tools that require approval */
+  requestApproval?: ToolApprovalHandler
+  /** Called when a call starts running, after waiting for its concurrency slot */
+  onToolStart?: (call: ToolCallRequest) => Effect.Effect<void>
+  /** Called as soon as a call finishes, in completion order */
+  onToolEnd?: (call: ToolCallRequest, result: ToolExecutionResult) => Effect.Effect<void>
+  /** Receives every finished call, including denied and unknown ones, for the audit log */
+  recordToolCall?: (record: ToolCallRecord) => void
 }
 
+/** A finished tool call and how long it ran. */
+export interface ToolCallRecord {
+  call: ToolCallRequest
+  result: ToolExecutionResult
+  durationMs: number
+}
+
+/** A function call made by the model. */
+export interface ToolCallRequest {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+/** A tool call awaiting the user's approval. */
+export interface ToolApprovalCall {
+  toolCallId: string
+  toolName: string
+  args: Record<string, unknown>
+}
+
+/** Ask the user to approve a tool call; succeeds with whether it may run. */
+export type ToolApprovalHandler = (call: ToolApprovalCall) => Effect.Effect<boolean>
+
 // ============================================================================
 // Tool Execution Metrics (per-session tracking)
 // ============================================================================
@@ -3,7 +3,7 @@ import type {
   AgentStreamEvent,
   ToolExecutionResult,
 } from "@bibboy/shared"
-import type { GeminiContent } from "@bibboy/agent-runtime"
+import type { ModelClient, ModelMessage, ModelRequest } from "@bibboy/agent-runtime"
 import { describe, expect, it, vi } from "vitest"
 import {
   orchestrateAgentStreamIterations,
@@ -48,16 +48,22 @@ async function collectEvents(
   )
 }
 
-const initialContents: GeminiContent[] = [
-  {
-    role: "user",
-    parts: [{ text: "Hi" }],
-  },
-]
+function createModelClientMock(
+  stream: (request: ModelRequest) => Stream.Stream<AgentStreamEvent, Error>
+) {
+  const client: ModelClient = {
+    provider: "test",
+    generate: () => Effect.fail(new Error("not used")),
+    stream,
+  }
+  return { client, model: "gemini-3-flash-preview" }
+}
+
+const initialMessages: ModelMessage[] = [{ role: "user", content: "Hi" }]
 
 describe("orchestrateAgentStreamIterations", () => {
   it("streams text deltas and emits final done without tools", async () => {
-    const streamGeminiFn = vi.fn(() =>
+    const streamFn = vi.fn(() =>
       Stream.fromIterable<AgentStreamEvent>([
         { type: "text_delta", delta: "Hello" },
       ])
@@ -65,24 +71,23 @@ describe("orchestrateAgentStreamIterations", () => {
 
     const events = await collectEvents(
       orchestrateAgentStreamIterations({
-        apiKey: "test-key",
+        modelClient: createModelClientMock(streamFn),
         model: "gemini-3-flash-preview",
         enableTools: false,
         toolRegistry: createToolRegistryMock(),
-        initialContents,
+        initialMessages,
         systemInstruction: "You are helpful",
         agentId: "agent-1",
         maxToolIterations: 3,
         softLimitIterations: 1,
         toolTimeoutMs: 30_000,
         deps: {
-          streamGeminiFn,
           generateMessageIdFn: () => "msg_test_1",
         },
       })
     )
 
-    expect(streamGeminiFn).toHaveBeenCalledTimes(1)
+    expect(streamFn).toHaveBeenCalledTimes(1)
     expect(events).toHaveLength(2)
     expect(events[0]).toEqual({ type: "text_delta", delta: "Hello" })
 
@@ -115,7 +120,7 @@ describe("orchestrateAgentStreamIterations", () => {
     ]
 
     let callIndex = 0
-    const streamGeminiFn = vi.fn(() => {
+    const streamFn = vi.fn((_request: ModelRequest) => {
       callIndex += 1
       if (callIndex === 1) {
         return Stream.fromIterable<AgentStreamEvent>([
@@ -149,46 +154,53 @@ describe("orchestrateAgentStreamIterations", () => {
       ) => Effect.succeed([toolResult])
     )
 
-    const compactFunctionResponsesFn = vi.fn(
+    const compactToolResultsFn = vi.fn(
       async (
-        _calls: ReadonlyArray<{ name: string }>,
+        _calls: ReadonlyArray<{ id: string; name: string }>,
         _results: ReadonlyArray<Pick<ToolExecutionResult, "content">>,
         _agentId: string,
         _iteration: number
-      ) => [
+      ): Promise<ModelMessage[]> => [
         {
-          functionResponse: {
-            name: "memory_search",
-            response: { result: '{"hits":1}' },
-          },
+          role: "tool",
+          toolCallId: "call_1",
+          name: "memory_search",
+          content: '{"hits":1}',
         },
       ]
     )
 
     const events = await collectEvents(
       orchestrateAgentStreamIterations({
-        apiKey: "test-key",
+        modelClient: createModelClientMock(streamFn),
         model: "gemini-3-flash-preview",
         enableTools: true,
         toolRegistry: createToolRegistryMock(definitions),
-        initialContents,
+        initialMessages,
         systemInstruction: "You are helpful",
         agentId: "agent-1",
         maxToolIterations: 3,
         softLimitIterations: 1,
         toolTimeoutMs: 30_000,
         deps: {
-          streamGeminiFn,
           executeToolsFn,
-          compactFunctionResponsesFn,
+          compactToolResultsFn,
           generateMessageIdFn: () => "msg_test_2",
         },
       })
     )
 
-    expect(streamGeminiFn).toHaveBeenCalledTimes(2)
+    expect(streamFn).toHaveBeenCalledTimes(2)
     expect(executeToolsFn).toHaveBeenCalledTimes(1)
-    expect(compactFunctionResponsesFn).toHaveBeenCalledTimes(1)
+    expect(compactToolResultsFn).toHaveBeenCalledTimes(1)
+    expect(streamFn.mock.calls[1]?.[0].messages.slice(1)).toEqual([
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [{ id: "call_1", name: "memory_search", args: { query: "project" } }],
+      },
+      { role: "tool", toolCallId: "call_1", name: "memory_search", content: '{"hits":1}' },
+    ])
     expect(events.map((event) => event.type)).toEqual([
       "tool_start",
       "tool_end",
@@ -1,8 +1,9 @@
-import { Effect } from "effect"
+import { Effect, Stream } from "effect"
 import type { ChatMessage, CompactingNotification } from "@bibboy/shared"
 import { describe, expect, it, vi } from "vitest"
 import { maybeCompactSessionMessages } from "../src/services/chat-processor-compaction"
 import type { CompactionResult } from "../src/services/ConversationMemory"
+import type { ModelClient } from "@bibboy/agent-runtime"
 
 const baseMessages: ChatMessage[] = [
   {
@@ -19,6 +20,12 @@ const baseMessages: ChatMessage[] = [
   },
 ]
 
+const modelClient: ModelClient = {
+  provider: "test",
+  generate: () => Effect.fail(new Error("not used")),
+  stream: () => Stream.empty,
+}
+
 function createNotificationMock() {
   return vi.fn((_params: CompactingNotification["params"]) => Effect.void)
 }
@@ -28,7 +35,7 @@ function createReplaceMock() {
 }
 
 describe("maybeCompactSessionMessages", () => {
-  it("returns original messages when api key is missing", async () => {
+  it("returns original messages when no model client is configured", async () => {
     const sendCompactionNotification = createNotificationMock()
     const replaceSessionMessages = createReplaceMock()
     const shouldCompactFn = vi.fn(() => true)
@@ -41,7 +48,7 @@ describe("maybeCompactSessionMessages", () => {
         sessionId: "s1",
         messageId: "m1",
         model: "gemini-3-flash-preview",
-        apiKey: null,
+        client: null,
         sessionMessages: baseMessages,
         sendCompactionNotification,
         replaceSessionMessages,
@@ -74,7 +81,7 @@ describe("maybeCompactSessionMessages", () => {
         sessionId: "s1",
         messageId: "m1",
         model: "gemini-3-flash-preview",
-        apiKey: "api-key",
+        client: modelClient,
         sessionMessages: baseMessages,
         sendCompactionNotification,
         replaceSessionMessages,
@@ -117,7 +124,7 @@ describe("maybeCompactSessionMessages", () => {
         sessionId: "s1",
         messageId: "m1",
         model: "gemini-3-flash-preview",
-        apiKey: "api-key",
+        client: modelClient,
         sessionMessages: baseMessages,
         sendCompactionNotification,
         replaceSessionMessages,
@@ -150,7 +157,7 @@ describe("maybeCompactSessionMessages", () => {
         sessionId: "s1",
         messageId: "m1",
         model: "gemini-3-flash-preview",
-        apiKey: "api-key",
+        client: modelClient,
         sessionMessages: baseMessages,
         sendCompactionNotification,
         replaceSessionMessages,
@@ -0,0 +1,168 @@
+import fs from "node:fs"
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { Effect, Layer, Option } from "effect"
+import type { ServerWebSocket } from "bun"
+import type { ToolExecutionResult } from "@bibboy/shared"
+import type { ScriptedFixture } from "@bibboy/agent-runtime"
+
+// Everything is configured before the services load their config
+const env = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("node:fs")
+  const { join } = await import("node:path")
+  const { tmpdir } = await import("node:os")
+  const root = mkdtempSync(join(tmpdir(), "bibboy-chat-scripted-"))
+  process.env.SCRIPTED_MODEL_FIXTURE = join(root, "fixture.json")
+  process.env.WORKSPACE_DIR = join(root, "workspace")
+  process.env.AGENT_STATE_DIR = join(root, "state")
+  return { root, fixturePath: process.env.SCRIPTED_MODEL_FIXTURE }
+})
+
+// The memory and audit stores need bun:sqlite, which is unavailable under vitest
+vi.mock("../src/tools/memory-search", () => {
+  const mockTool = (name: string) => ({
+    label: name,
+    name,
+    description: `Mock ${name} tool`,
+    parameters: { type: "object", properties: {}, required: [] },
+    execute: async (toolCallId: string): Promise<ToolExecutionResult> => ({
+      toolCallId,
+      content: [{ type: "text", text: JSON.stringify({ hits: 2 }) }],
+    }),
+  })
+  return {
+    createMemorySearchTool: () => mockTool("memory_search"),
+    createMemoryGetTool: () => mockTool("memory_get"),
+  }
+})
+vi.mock("../src/memory/MemoryService", () => ({
+  getSessionTranscriptIndexer: () => null,
+}))
+vi.mock("../src/audit", () => ({
+  createToolAuditRecorder: () => () => {},
+}))
+
+import { ChatProcessor } from "../src/services/ChatProcessor"
+import { ChatSessionManager, type SessionData } from "../src/services/ChatSessionManager"
+import { CanvasStateService } from "../src/services/CanvasStateService"
+import { resetScriptedModelClients } from "../src/services/agent-service-model"
+import { agentConfig } from "../src/agents/AgentConfig"
+import { resetGlobalConfig } from "../src/config"
+
+const TestLayer = Layer.provideMerge(
+  ChatProcessor.DefaultWithoutDependencies,
+  Layer.mergeAll(ChatSessionManager.Default, CanvasStateService.Default)
+)
+
+/** Records the method (notifications) or type (response events) of everything sent */
+const fakeSocket = (sessionId: string) => {
+  const received: string[] = []
+  const ws = {
+    data: { sessionId, connectionId: "conn-1", connectedAt: 0 },
+    send: (json: string) => {
+      const payload = JSON.parse(json)
+      received.push(payload.method ?? payload.type)
+      return json.length
+    },
+  } as unknown as ServerWebSocket<SessionData>
+  return { ws, received }
+}
+
+const writeFixture = (fixture: ScriptedFixture) => {
+  fs.writeFileSync(env.fixturePath, JSON.stringify(fixture))
+  resetScriptedModelClients()
+}
+
+describe("ChatProcessor with a scripted model", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    agentConfig.load({
+      defaults: {
+        model: { primary: "scripted/e2e" },
+        tools: { allow: ["memory_search"] },
+      },
+    })
+  })
+
+  afterAll(() => {
+    vi.restoreAllMocks()
+    resetScriptedModelClients()
+    fs.rmSync(env.root, { recursive: true, force: true })
+    delete process.env.SCRIPTED_MODEL_FIXTURE
+    delete process.env.WORKSPACE_DIR
+    delete process.env.AGENT_STATE_DIR
+    resetGlobalConfig()
+  })
+
+  /** Send `message` and wait for the response to finish, returning what the socket saw */
+  const runMessage = (sessionId: string, message: string) =>
+    Effect.gen(function* () {
+      const sessions = yield* ChatSessionManager
+      const processor = yield* ChatProcessor
+      const socket = fakeSocket(sessionId)
+      yield* sessions.createSession(sessionId, "user-1")
+      yield* sessions.attachSocket(sessionId, socket.ws)
+
+      yield* processor.processMessage(sessionId, message)
+      yield* Effect.promise(() =>
+        vi.waitFor(() => expect(socket.received).toContain("response.completed"), {
+          timeout: 5_000,
+        })
+      )
+
+      const session = yield* sessions.getSession(sessionId)
+      return {
+        events: socket.received.filter((event) => event.startsWith("response.")),
+        messages: yield* sessions.getMessages(sessionId),
+        toolCalls: session.pipe(Option.map((s) => s.toolCalls), Option.getOrElse(() => [])),
+      }
+    }).pipe(Effect.provide(TestLayer))
+
+  it("streams a tool loop to the session's sockets in order", async () => {
+    writeFixture({
+      turns: [
+        { toolCalls: [{ name: "memory_search", args: { query: "cats" } }] },
+        { text: ["Found ", "two cats."] },
+      ],
+    })
+
+    const { events, messages, toolCalls } = await Effect.runPromise(
+      runMessage("session-1", "Any cats?")
+    )
+
+    expect(events).toEqual([
+      "response.created",
+      "response.in_progress",
+      "response.output_item.added",
+      "response.content_part.added",
+      // The tool call and its result
+      "response.output_item.added",
+      "response.function_call_arguments.delta",
+      "response.function_call_arguments.done",
+      "response.output_item.done",
+      "response.output_item.added",
+      "response.output_item.done",
+      // The answer
+      "response.output_text.delta",
+      "response.output_text.delta",
+      "response.output_text.done",
+      "response.content_part.done",
+      "response.output_item.done",
+      "response.completed",
+    ])
+    expect(messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "Any cats?"],
+      ["assistant", "Found two cats."],
+    ])
+    expect(toolCalls).toEqual([
+      expect.objectContaining({ toolName: "memory_search", arguments: { query: "cats" } }),
+    ])
+  })
+
+  it("replays each test's fixture from its first turn", async () => {
+    writeFixture({ turns: [{ text: "Hello again" }] })
+
+    const { messages } = await Effect.runPromise(runMessage("session-2", "Hi"))
+
+    expect(messages.at(-1)?.content).toBe("Hello again")
+  })
+})
@@ -1,5 +1,5 @@
 import { Effect, HashMap, Option, Ref } from "effect"
-import type { AgentStreamEvent, ChatMessage } from "@bibboy/shared"
+import type { AgentStreamEvent, ChatMessage, SessionToolCall } from "@bibboy/shared"
 import { describe, expect, it, vi } from "vitest"
 import {
   cleanupSessionStreamingState,
@@ -11,9 +11,15 @@ type HandleEventParams = Parameters<typeof handleAgentStreamEvent>[0]
 type TestSessionManager = HandleEventParams["sessionManager"]
 type TestEmitter = HandleEventParams["emitter"]
 
-function createSessionManagerMock() {
+function createSessionManagerMock(session: { toolCalls: SessionToolCall[] } = { toolCalls: [] }) {
   return {
     addMessage: vi.fn((_sessionId: string, _message: ChatMessage) => Effect.void),
+    updateSession: vi.fn(
+      (_sessionId: string, fn: (s: typeof session) => typeof session) =>
+        Effect.sync(() => {
+          session.toolCalls = fn(session).toolCalls
+        })
+    ),
     setActiveMessage: vi.fn((_sessionId: string, _messageId: string | null) => Effect.void),
     setStreaming: vi.fn((_sessionId: string, _isStreaming: boolean) => Effect.void),
   } as unknown as TestSessionManager
@@ -98,6 +104,52 @@ describe("chat-processor-stream-handlers", () => {
     )
   })
 
+  it("records tool calls and their results on the session", async () => {
+    const session = { toolCalls: [] as SessionToolCall[] }
+    const sessionManager = createSessionManagerMock(session)
+    const emitter = createEmitterMock()
+    const state = createStreamEventState()
+
+    const events: AgentStreamEvent[] = [
+      {
+        type: "tool_start",
+        toolCallId: "call_1",
+        toolName: "web_search",
+        arguments: { query: "effect" },
+      },
+      {
+        type: "tool_end",
+        toolCallId: "call_1",
+        toolName: "web_search",
+        result: { toolCallId: "call_1", content: [{ type: "text", text: "found" }] },
+      },
+    ]
+
+    for (const event of events) {
+      await Effect.runPromise(
+        handleAgentStreamEvent({
+          event,
+          abortSignal: new AbortController().signal,
+          emitter,
+          sessionManager,
+          sessionId: "session-1",
+          messageId: "message-1",
+          state,
+        })
+      )
+    }
+
+    expect(session.toolCalls).toHaveLength(1)
+    expect(session.toolCalls[0]).toMatchObject({
+      toolCallId: "call_1",
+      messageId: "message-1_response",
+      toolName: "web_search",
+      arguments: { query: "effect" },
+      result: { content: [{ type: "text", text: "found" }] },
+    })
+    expect(session.toolCalls[0].completedAt).toBeTypeOf("number")
+  })
+
   it("ignores events when abort signal is already aborted", async () => {
     const sessionManager = createSessionManagerMock()
     const emitter = createEmitterMock()
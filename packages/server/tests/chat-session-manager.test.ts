@@ -0,0 +1,422 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Layer, Option } from "effect"
+import type { ServerWebSocket } from "bun"
+import type { ChatMessage } from "@bibboy/shared"
+import { ChatSessionManager, type SessionData } from "../src/services/ChatSessionManager"
+import {
+  ChatSessionStore,
+  InMemorySessionStore,
+  SESSION_TTL_MS,
+} from "../src/services/SessionStore"
+
+// Each run builds a fresh manager over the given store, simulating a restart.
+const runWithStore = <A, E>(
+  store: InMemorySessionStore,
+  effect: Effect.Effect<A, E, ChatSessionManager>
+): Promise<A> =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.provide(
+        Layer.provide(
+          ChatSessionManager.DefaultWithoutDependencies,
+          Layer.succeed(ChatSessionStore, store)
+        )
+      )
+    )
+  )
+
+const userMessage = (id: string, content: string): ChatMessage => ({
+  id,
+  role: "user",
+  content,
+  timestamp: Date.now(),
+})
+
+describe("ChatSessionManager persistence", () => {
+  it("rehydrates sessions and messages after a restart", async () => {
+    const store = new InMemorySessionStore()
+
+    await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.addMessage("session-a", userMessage("m1", "hello"))
+        yield* manager.setActiveMessage("session-a", "m1")
+        yield* manager.setStreaming("session-a", true)
+      })
+    )
+
+    const restored = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        const before = yield* manager.getSession("session-a")
+        const session = yield* manager.restoreSession("session-a")
+        const messages = yield* manager.getMessages("session-a")
+        return { before, session, messages }
+      })
+    )
+
+    expect(Option.isNone(restored.before)).toBe(true)
+    expect(Option.isSome(restored.session)).toBe(true)
+    expect(restored.messages.map((m) => m.content)).toEqual(["hello"])
+
+    const session = Option.getOrThrow(restored.session)
+    expect(session.isStreaming).toBe(false)
+    expect(session.activeMessageId).toBeNull()
+  })
+
+  it("writes only durable changes to the store", async () => {
+    class CountingStore extends InMemorySessionStore {
+      saves = 0
+      save(...args: Parameters<InMemorySessionStore["save"]>) {
+        this.saves++
+        super.save(...args)
+      }
+    }
+    const store = new CountingStore()
+
+    const saves = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        const afterCreate = store.saves
+
+        yield* manager.setActiveMessage("session-a", "resp_1")
+        yield* manager.setStreaming("session-a", true)
+        yield* manager.setStreaming("session-a", false)
+        yield* manager.setActiveMessage("session-a", null)
+        const afterFlags = store.saves
+
+        yield* manager.addMessage("session-a", userMessage("m1", "hello"))
+        yield* manager.updateSession("session-a", (s) => ({ ...s, title: "Plans" }))
+        return { afterCreate, afterFlags, afterDurable: store.saves }
+      })
+    )
+
+    expect(saves).toEqual({ afterCreate: 1, afterFlags: 1, afterDurable: 3 })
+    expect(store.load("session-a")?.title).toBe("Plans")
+  })
+
+  it("keeps branches and restores the active leaf after a restart", async () => {
+    const store = new InMemorySessionStore()
+    const assistantMessage = (id: string, content: string): ChatMessage => ({
+      ...userMessage(id, content),
+      role: "assistant",
+    })
+
+    await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.addMessage("session-a", userMessage("m1", "hello"))
+        yield* manager.addMessage("session-a", assistantMessage("m2", "hi"))
+        // Regenerate: a second reply under the same user message
+        yield* manager.updateSession("session-a", (s) => ({ ...s, activeLeafId: "m1" }))
+        yield* manager.addMessage("session-a", assistantMessage("m2b", "hey"))
+      })
+    )
+
+    const restored = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        const session = yield* manager.restoreSession("session-a")
+        const messages = yield* manager.getMessages("session-a")
+        return { session: Option.getOrThrow(session), messages }
+      })
+    )
+
+    expect(restored.session.messages).toHaveLength(3)
+    expect(restored.session.activeLeafId).toBe("m2b")
+    expect(restored.messages.map((m) => m.content)).toEqual(["hello", "hey"])
+  })
+
+  it("links flat histories saved before branching", async () => {
+    const store = new InMemorySessionStore()
+    const now = Date.now()
+    store.save({
+      sessionId: "legacy",
+      userId: null,
+      agentId: null,
+      title: null,
+      connectedAt: now,
+      lastActivity: now,
+      messages: [userMessage("m1", "hello"), userMessage("m2", "again")],
+      activeLeafId: null,
+      toolCalls: [],
+      messageQueue: [],
+      activeMessageId: null,
+      disconnectedAt: now,
+      pendingNotifications: [],
+      expiresAt: now + SESSION_TTL_MS,
+    })
+
+    const messages = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.restoreSession("legacy")
+        return yield* manager.getMessages("legacy")
+      })
+    )
+
+    expect(messages.map((m) => [m.id, m.parentId])).toEqual([
+      ["m1", null],
+      ["m2", "m1"],
+    ])
+  })
+
+  it("replaces the tree with a linear history", async () => {
+    const store = new InMemorySessionStore()
+
+    const session = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.addMessage("session-a", userMessage("m1", "hello"))
+        yield* manager.updateSession("session-a", (s) => ({ ...s, activeLeafId: null }))
+        yield* manager.addMessage("session-a", userMessage("m1b", "hello again"))
+        yield* manager.replaceMessages("session-a", [
+          { id: "summary", role: "system", content: "summary", timestamp: 0 },
+          userMessage("m1b", "hello again"),
+        ])
+        return Option.getOrThrow(yield* manager.getSession("session-a"))
+      })
+    )
+
+    expect(session.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ["summary", null],
+      ["m1b", "summary"],
+    ])
+    expect(session.activeLeafId).toBe("m1b")
+  })
+
+  it("restores queued messages after a restart", async () => {
+    const store = new InMemorySessionStore()
+    const queued = { id: "queued_1", message: "and then?", createdAt: 1 }
+
+    await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.updateSession("session-a", (s) => ({ ...s, messageQueue: [queued] }))
+      })
+    )
+
+    const session = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        return Option.getOrThrow(yield* manager.restoreSession("session-a"))
+      })
+    )
+
+    expect(session.messageQueue).toEqual([queued])
+  })
+
+  it("returns none for unknown sessions", async () => {
+    const store = new InMemorySessionStore()
+
+    const result = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        return yield* manager.restoreSession("missing")
+      })
+    )
+
+    expect(Option.isNone(result)).toBe(true)
+  })
+
+  it("drops expired sessions instead of restoring them", async () => {
+    const store = new InMemorySessionStore()
+    const lastActivity = Date.now() - SESSION_TTL_MS - 1_000
+    store.save({
+      sessionId: "stale",
+      userId: null,
+      agentId: null,
+      title: null,
+      connectedAt: lastActivity,
+      lastActivity,
+      messages: [],
+      activeMessageId: null,
+      disconnectedAt: lastActivity,
+      pendingNotifications: [],
+      expiresAt: lastActivity + SESSION_TTL_MS,
+    })
+
+    const result = await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        return yield* manager.restoreSession("stale")
+      })
+    )
+
+    expect(Option.isNone(result)).toBe(true)
+    expect(store.load("stale")).toBeNull()
+  })
+
+  it("removes deleted sessions from the store", async () => {
+    const store = new InMemorySessionStore()
+
+    await runWithStore(
+      store,
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-b")
+        yield* manager.deleteSession("session-b")
+      })
+    )
+
+    expect(store.listSessionIds()).toEqual([])
+  })
+})
+
+describe("ChatSessionManager sockets", () => {
+  // Records the method (notifications) or type (response events) of everything sent to it
+  const fakeSocket = (connectionId: string, lastSequence?: number) => {
+    const received: string[] = []
+    const ws = {
+      data: { sessionId: "session-a", connectionId, connectedAt: 0, lastSequence },
+      send: (json: string) => {
+        const payload = JSON.parse(json)
+        received.push(payload.method ?? `${payload.type}#${payload.sequence_number}`)
+        return json.length
+      },
+    } as unknown as ServerWebSocket<SessionData>
+    return { ws, received }
+  }
+
+  const responseEvent = (type: "response.in_progress" | "response.queued") =>
+    ({
+      type,
+      sequence_number: 0,
+      response: {
+        id: "resp_1",
+        object: "response",
+        created_at: 0,
+        status: "in_progress",
+        model: "test",
+        output: [],
+        usage: { input_tokens: 0, output_tokens: 0, total_tokens: 0 },
+      },
+    }) as const
+
+  it("replays missed response events to a reconnecting socket", async () => {
+    const first = fakeSocket("conn_a")
+    const reconnected = fakeSocket("conn_b", 1)
+
+    await runWithStore(
+      new InMemorySessionStore(),
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.attachSocket("session-a", first.ws)
+        yield* manager.send("session-a", responseEvent("response.queued"))
+        yield* manager.detachSocket("session-a", "conn_a")
+
+        // Sent while disconnected: buffered for replay, not kept as pending
+        yield* manager.send("session-a", responseEvent("response.in_progress"))
+        yield* manager.attachSocket("session-a", reconnected.ws)
+        yield* manager.flushPendingNotifications("session-a")
+        yield* manager.send("session-a", responseEvent("response.in_progress"))
+      })
+    )
+
+    expect(first.received).toEqual(["session.presence", "response.queued#1"])
+    expect(reconnected.received).toEqual([
+      "response.in_progress#2",
+      "session.presence",
+      "response.in_progress#3",
+    ])
+  })
+
+  it("broadcasts to every attached socket and reports presence", async () => {
+    const tabA = fakeSocket("conn_a")
+    const tabB = fakeSocket("conn_b")
+
+    const result = await runWithStore(
+      new InMemorySessionStore(),
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.attachSocket("session-a", tabA.ws)
+        yield* manager.attachSocket("session-a", tabB.ws)
+        yield* manager.send("session-a", {
+          jsonrpc: "2.0",
+          method: "character.pose_change",
+          params: { pose: "dancing" },
+        })
+
+        yield* manager.detachSocket("session-a", "conn_b")
+        const stillConnected = Option.getOrThrow(yield* manager.getSession("session-a"))
+
+        yield* manager.detachSocket("session-a", "conn_a")
+        const disconnected = Option.getOrThrow(yield* manager.getSession("session-a"))
+        const connected = yield* manager.isConnected("session-a")
+        return { stillConnected, disconnected, connected }
+      })
+    )
+
+    expect(tabA.received).toEqual([
+      "session.presence",
+      "session.presence",
+      "character.pose_change",
+      "session.presence",
+    ])
+    expect(tabB.received).toEqual(["session.presence", "character.pose_change"])
+    expect(result.stillConnected.disconnectedAt).toBeNull()
+    expect(result.disconnected.disconnectedAt).not.toBeNull()
+    expect(result.connected).toBe(false)
+  })
+
+  it("keeps notifications for the next socket when none is attached", async () => {
+    const tab = fakeSocket("conn_a")
+
+    await runWithStore(
+      new InMemorySessionStore(),
+      Effect.gen(function* () {
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-a")
+        yield* manager.send("session-a", {
+          jsonrpc: "2.0",
+          method: "character.pose_change",
+          params: { pose: "dancing" },
+        })
+        yield* manager.attachSocket("session-a", tab.ws)
+        yield* manager.flushPendingNotifications("session-a")
+      })
+    )
+
+    expect(tab.received).toEqual(["session.presence", "character.pose_change"])
+  })
+})
+
+describe("InMemorySessionStore", () => {
+  it("deletes only expired sessions", () => {
+    const store = new InMemorySessionStore()
+    const base = {
+      userId: null,
+      agentId: null,
+      title: null,
+      connectedAt: 0,
+      lastActivity: 0,
+      messages: [],
+      activeMessageId: null,
+      disconnectedAt: null,
+      pendingNotifications: [],
+    }
+    store.save({ ...base, sessionId: "old", expiresAt: 100 })
+    store.save({ ...base, sessionId: "new", expiresAt: 300 })
+
+    expect(store.deleteExpired(200)).toBe(1)
+    expect(store.listSessionIds()).toEqual(["new"])
+  })
+})
@@ -12,6 +12,16 @@ import {
   RECENT_TURNS_TO_KEEP,
 } from "../src/services/ConversationMemory"
 import type { ChatMessage } from "@bibboy/shared"
+import type { ModelClient, ModelRequest } from "@bibboy/agent-runtime"
+import { Effect, Stream } from "effect"
+
+function createSummaryClient(text: string) {
+  const generate = vi.fn((_request: ModelRequest) =>
+    Effect.succeed({ text, toolCalls: [] })
+  )
+  const client: ModelClient = { provider: "test", generate, stream: () => Stream.empty }
+  return { client, generate }
+}
 
 // ============================================================================
 // Helpers
@@ -157,14 +167,19 @@ describe("getContextUsage", () => {
 })
 
 // ============================================================================
-// compactIfNeeded (integration — mocked Gemini)
+// compactIfNeeded (integration — mocked model client)
 // ============================================================================
 
 describe("compactIfNeeded", () => {
   it("returns original messages when compaction not needed", async () => {
     const messages = makeConversation(3)
 
-    const result = await compactIfNeeded(messages, 2000, "fake-key", "gemini-3-flash-preview")
+    const result = await compactIfNeeded(
+      messages,
+      2000,
+      createSummaryClient("unused").client,
+      "gemini-3-flash-preview"
+    )
 
     expect(result.compacted).toBe(false)
     expect(result.messages).toHaveLength(messages.length)
@@ -185,8 +200,25 @@ describe("compactIfNeeded", () => {
     expect(recentUserCount).toBe(RECENT_TURNS_TO_KEEP)
   })
 
+  it("summarizes old messages with the agent's model client", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const { client, generate } = createSummaryClient("User likes hiking.")
+    const messages = makeLargeConversation(100_000)
+
+    const result = await compactIfNeeded(messages, 2000, client, "qwen2.5:7b")
+
+    expect(result.compacted).toBe(true)
+    expect(result.messages[0]?.content).toContain("User likes hiking.")
+    expect(generate.mock.calls[0]?.[0].model).toBe("qwen2.5:7b")
+  })
+
   it("handles empty message array", async () => {
-    const result = await compactIfNeeded([], 2000, "fake-key", "gemini-3-flash-preview")
+    const result = await compactIfNeeded(
+      [],
+      2000,
+      createSummaryClient("unused").client,
+      "gemini-3-flash-preview"
+    )
 
     expect(result.compacted).toBe(false)
     expect(result.messages).toHaveLength(0)
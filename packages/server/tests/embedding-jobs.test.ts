@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { EMBEDDING_BATCH_SIZE, EmbeddingJobRunner } from "../src/memory/EmbeddingJobs"
+
+const texts = (count: number) => Array.from({ length: count }, (_, i) => `chunk ${i}`)
+
+describe("EmbeddingJobRunner", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it("splits chunks into batches and keeps results in order", async () => {
+    const runner = new EmbeddingJobRunner()
+    const embedBatch = vi.fn(async (batch: string[]) =>
+      batch.map((text) => [Number(text.split(" ")[1])])
+    )
+
+    const { job, embeddings } = runner.start("a.md", texts(EMBEDDING_BATCH_SIZE + 5), embedBatch, {
+      concurrency: 2,
+      timeoutMinutes: 1,
+    })
+    expect(job.status).toBe("running")
+
+    const result = await embeddings
+
+    expect(embedBatch).toHaveBeenCalledTimes(2)
+    expect(result.map((vector) => vector[0])).toEqual(
+      Array.from({ length: EMBEDDING_BATCH_SIZE + 5 }, (_, i) => i)
+    )
+    expect(job).toMatchObject({
+      status: "completed",
+      totalBatches: 2,
+      completedBatches: 2,
+      embeddedChunks: EMBEDDING_BATCH_SIZE + 5,
+      failedChunks: 0,
+    })
+  })
+
+  it("bounds the number of batches in flight", async () => {
+    const runner = new EmbeddingJobRunner()
+    let inFlight = 0
+    let maxInFlight = 0
+    const embedBatch = async (batch: string[]) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      inFlight--
+      return batch.map(() => [1])
+    }
+
+    await runner.start("a.md", texts(EMBEDDING_BATCH_SIZE * 5), embedBatch, {
+      concurrency: 2,
+      timeoutMinutes: 1,
+    }).embeddings
+
+    expect(maxInFlight).toBe(2)
+  })
+
+  it("leaves failed batches unembedded without failing the whole job", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const runner = new EmbeddingJobRunner()
+    let calls = 0
+    const embedBatch = async (batch: string[]) => {
+      if (calls++ === 0) throw new Error("rate limited")
+      return batch.map(() => [1])
+    }
+
+    const { job, embeddings } = runner.start("a.md", texts(EMBEDDING_BATCH_SIZE + 1), embedBatch, {
+      concurrency: 1,
+      timeoutMinutes: 1,
+    })
+    const result = await embeddings
+
+    expect(result[0]).toEqual([])
+    expect(result[EMBEDDING_BATCH_SIZE]).toEqual([1])
+    expect(job).toMatchObject({
+      status: "completed",
+      embeddedChunks: 1,
+      failedChunks: EMBEDDING_BATCH_SIZE,
+      error: "rate limited",
+    })
+  })
+
+  it("stops at the job deadline", async () => {
+    vi.useFakeTimers()
+    const runner = new EmbeddingJobRunner()
+    const embedBatch = () => new Promise<number[][]>(() => {})
+
+    const { job, embeddings } = runner.start("a.md", texts(3), embedBatch, {
+      concurrency: 1,
+      timeoutMinutes: 1,
+    })
+    await vi.advanceTimersByTimeAsync(60_000)
+    const result = await embeddings
+
+    expect(result).toEqual([[], [], []])
+    expect(job.status).toBe("timed_out")
+    expect(job.failedChunks).toBe(3)
+  })
+
+  it("tracks a job while it runs", async () => {
+    const runner = new EmbeddingJobRunner()
+    let release: () => void = () => {}
+    const gate = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    const embedBatch = async (batch: string[]) => {
+      await gate
+      return batch.map(() => [1])
+    }
+
+    const { job, embeddings } = runner.start("a.md", texts(1), embedBatch, {
+      concurrency: 1,
+      timeoutMinutes: 1,
+    })
+    expect(runner.getJob(job.id)?.status).toBe("running")
+
+    release()
+    await embeddings
+    expect(runner.getJob(job.id)?.status).toBe("completed")
+    expect(runner.listJobs()).toEqual([job])
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  createEmbeddingProvider,
+  embedLocal,
+  LOCAL_EMBEDDING_DIMENSIONS,
+  LOCAL_EMBEDDING_MODEL,
+} from "../src/memory/EmbeddingProvider"
+import { cosineSimilarity } from "../src/memory/EmbeddingService"
+
+describe("EmbeddingProvider", () => {
+  const originalApiKey = process.env.GEMINI_API_KEY
+
+  beforeEach(() => {
+    delete process.env.GEMINI_API_KEY
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    if (originalApiKey === undefined) {
+      delete process.env.GEMINI_API_KEY
+    } else {
+      process.env.GEMINI_API_KEY = originalApiKey
+    }
+  })
+
+  describe("local hashing embeddings", () => {
+    it("is deterministic and unit length", () => {
+      const a = embedLocal("The quick brown fox")
+      const b = embedLocal("The quick brown fox")
+
+      expect(a).toEqual(b)
+      expect(a).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS)
+      expect(Math.hypot(...a)).toBeCloseTo(1)
+    })
+
+    it("scores related text above unrelated text", () => {
+      const query = embedLocal("project codename Zorblax")
+      const related = embedLocal("The codename for the project is Zorblax")
+      const unrelated = embedLocal("Dogs bark loudly at night")
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(
+        cosineSimilarity(query, unrelated)
+      )
+    })
+
+    it("returns a zero vector for empty text", () => {
+      expect(embedLocal("   ").every((value) => value === 0)).toBe(true)
+    })
+  })
+
+  describe("provider selection", () => {
+    const base = { model: "gemini-embedding-001", fallback: "none" as const }
+
+    it("uses the local provider when requested", async () => {
+      const fetchMock = vi.fn()
+      vi.stubGlobal("fetch", fetchMock)
+
+      const provider = createEmbeddingProvider({ ...base, provider: "local" })
+      const vectors = await provider.embedBatch(["a", "b"])
+
+      expect(provider.id).toBe("local")
+      expect(provider.model).toBe(LOCAL_EMBEDDING_MODEL)
+      expect(vectors).toHaveLength(2)
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it("warns once that local model files are not supported yet", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const local = { modelPath: "/models/embed.gguf" }
+
+      expect(createEmbeddingProvider({ ...base, provider: "local", local }).model).toBe(
+        LOCAL_EMBEDDING_MODEL
+      )
+      createEmbeddingProvider({ ...base, provider: "local", local })
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn.mock.calls[0]?.[0]).toContain("not supported yet")
+      expect(warn.mock.calls[0]?.[0]).toContain("/models/embed.gguf")
+    })
+
+    it("falls back to local in auto mode without an API key", () => {
+      const provider = createEmbeddingProvider({ ...base, provider: "auto" })
+      expect(provider.id).toBe("local")
+    })
+
+    it("uses Gemini in auto mode when an API key is configured", () => {
+      const provider = createEmbeddingProvider({ ...base, provider: "auto", apiKey: "key" })
+      expect(provider.id).toBe("gemini")
+      expect(provider.model).toBe("gemini-embedding-001")
+    })
+
+    it("switches to the local fallback after a Gemini failure", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+      const fetchMock = vi.fn(async () => new Response("unavailable", { status: 503 }))
+      vi.stubGlobal("fetch", fetchMock)
+
+      const provider = createEmbeddingProvider({
+        ...base,
+        provider: "gemini",
+        fallback: "local",
+        apiKey: "key",
+      })
+
+      const first = await provider.embed("hello")
+      const second = await provider.embed("world")
+
+      expect(first).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS)
+      expect(second).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS)
+      expect(provider.id).toBe("local")
+      // Fallback is sticky, so Gemini is only tried once
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it("surfaces Gemini errors when no fallback is configured", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response("bad", { status: 500 })))
+
+      const provider = createEmbeddingProvider({ ...base, provider: "gemini", apiKey: "key" })
+
+      await expect(provider.embed("hello")).rejects.toThrow("Gemini embedding error: 500")
+    })
+  })
+})
@@ -7,8 +7,29 @@ import {
   embeddingToBuffer,
   bufferToEmbedding,
   chunkText,
+  hashEmbeddingText,
+  type EmbeddingCache,
 } from "../src/memory/EmbeddingService"
 
+class MapEmbeddingCache implements EmbeddingCache {
+  entries = new Map<string, number[]>()
+
+  get(model: string, hashes: readonly string[]): Map<string, number[]> {
+    const found = new Map<string, number[]>()
+    for (const hash of hashes) {
+      const embedding = this.entries.get(`${model}:${hash}`)
+      if (embedding) found.set(hash, embedding)
+    }
+    return found
+  }
+
+  set(model: string, entries: ReadonlyArray<{ hash: string; embedding: number[] }>): void {
+    for (const entry of entries) {
+      this.entries.set(`${model}:${entry.hash}`, entry.embedding)
+    }
+  }
+}
+
 describe("EmbeddingService", () => {
   const originalApiKey = process.env.GEMINI_API_KEY
 
@@ -127,4 +148,55 @@ describe("EmbeddingService", () => {
       expect(mockFetch).not.toHaveBeenCalled()
     })
   })
+
+  describe("embedding cache", () => {
+    const batchResponse = (count: number, value: number) =>
+      new Response(
+        JSON.stringify({ embeddings: Array.from({ length: count }, () => ({ values: [value] })) }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      )
+
+    it("serves cached single embeddings without calling the API", async () => {
+      const cache = new MapEmbeddingCache()
+      cache.set("gemini-embedding-001", [{ hash: hashEmbeddingText("hello"), embedding: [0.5] }])
+      const mockFetch = vi.fn(async () => new Response("", { status: 500 }))
+      vi.stubGlobal("fetch", mockFetch)
+
+      const result = await generateEmbedding("hello", { cache })
+
+      expect(result.embedding).toEqual([0.5])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it("only embeds uncached texts in a batch, once per unique text", async () => {
+      const cache = new MapEmbeddingCache()
+      cache.set("gemini-embedding-001", [{ hash: hashEmbeddingText("cached"), embedding: [1] }])
+      const mockFetch = vi.fn(async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body)) as { requests: unknown[] }
+        return batchResponse(body.requests.length, 2)
+      })
+      vi.stubGlobal("fetch", mockFetch)
+
+      const result = await generateEmbeddings(["cached", "new", "new"], { cache })
+
+      expect(result.embeddings).toEqual([[1], [2], [2]])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const body = JSON.parse(String(mockFetch.mock.calls[0][1]?.body)) as { requests: unknown[] }
+      expect(body.requests).toHaveLength(1)
+
+      // Second run is fully cached
+      await generateEmbeddings(["cached", "new"], { cache })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it("keys cache entries by model", async () => {
+      const cache = new MapEmbeddingCache()
+      cache.set("other-model", [{ hash: hashEmbeddingText("hello"), embedding: [9] }])
+      vi.stubGlobal("fetch", vi.fn(async () => batchResponse(1, 3)))
+
+      const result = await generateEmbeddings(["hello"], { cache })
+
+      expect(result.embeddings).toEqual([[3]])
+    })
+  })
 })
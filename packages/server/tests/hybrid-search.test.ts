@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildFtsQuery,
+  mergeHybridScores,
+  normalizeBm25Scores,
+} from "../src/memory/HybridSearch"
+import { resolveMemorySearchConfig } from "../src/agents/AgentConfig"
+
+describe("buildFtsQuery", () => {
+  it("quotes tokens and joins them with OR", () => {
+    expect(buildFtsQuery("deploy bibboy-server v2.1")).toBe(
+      '"deploy" OR "bibboy" OR "server" OR "v2" OR "1"'
+    )
+  })
+
+  it("dedupes tokens case-insensitively", () => {
+    expect(buildFtsQuery("Alice alice ALICE")).toBe('"alice"')
+  })
+
+  it("returns null when nothing is searchable", () => {
+    expect(buildFtsQuery("  ?!  ")).toBeNull()
+  })
+})
+
+describe("normalizeBm25Scores", () => {
+  it("maps relevance s = -rank to s / (1 + s)", () => {
+    const scores = normalizeBm25Scores([
+      { id: 1, rank: -4 },
+      { id: 2, rank: -1 },
+    ])
+    expect(scores.get(1)).toBe(0.8)
+    expect(scores.get(2)).toBe(0.5)
+  })
+
+  it("does not scale scores against the best match", () => {
+    const scores = normalizeBm25Scores([{ id: 7, rank: -0.1 }])
+    expect(scores.get(7)).toBeCloseTo(0.1 / 1.1)
+    expect(normalizeBm25Scores([{ id: 8, rank: 0.5 }]).get(8)).toBe(0)
+  })
+})
+
+describe("mergeHybridScores", () => {
+  const weights = { vectorWeight: 0.7, textWeight: 0.3 }
+
+  it("fuses vector and keyword scores with the configured weights", () => {
+    const merged = mergeHybridScores(
+      [
+        { id: 1, vectorScore: 0.9, textScore: 0 },
+        { id: 2, vectorScore: 0.5, textScore: 1 },
+      ],
+      weights,
+      0
+    )
+    expect(merged.map((m) => m.id)).toEqual([2, 1])
+    expect(merged[0].score).toBeCloseTo(0.65)
+    expect(merged[1].score).toBeCloseTo(0.63)
+  })
+
+  it("drops results with neither score above minScore and clamps negative similarity", () => {
+    const merged = mergeHybridScores(
+      [
+        { id: 1, vectorScore: -0.4, textScore: 1 },
+        { id: 2, vectorScore: 0.1, textScore: 0 },
+      ],
+      weights,
+      0.2
+    )
+    expect(merged).toEqual([{ id: 1, score: 0.3 }])
+  })
+
+  it("keeps keyword-only matches with the default config", () => {
+    const { query } = resolveMemorySearchConfig(undefined, undefined, "agent-1")
+
+    const merged = mergeHybridScores(
+      [
+        { id: 1, vectorScore: 0, textScore: 1 },
+        { id: 2, vectorScore: 0.6, textScore: 0 },
+        { id: 3, vectorScore: 0.1, textScore: 0.2 },
+      ],
+      query.hybrid,
+      query.minScore
+    )
+
+    expect(merged.map((m) => m.id)).toEqual([2, 1])
+    expect(merged[1].score).toBeCloseTo(query.hybrid.textWeight)
+  })
+
+  it("drops a weak keyword-only hit even when it is the only keyword match", () => {
+    const { query } = resolveMemorySearchConfig(undefined, undefined, "agent-1")
+    const textScores = normalizeBm25Scores([{ id: 1, rank: -0.2 }])
+
+    const merged = mergeHybridScores(
+      [
+        { id: 1, vectorScore: 0, textScore: textScores.get(1) ?? 0 },
+        { id: 2, vectorScore: 0.6, textScore: 0 },
+      ],
+      query.hybrid,
+      query.minScore
+    )
+
+    expect(merged.map((m) => m.id)).toEqual([2])
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest"
 import {
   validateAgentRequest,
   validateFilePath,
+  validateResponsesRequest,
   sanitizeString,
 } from "../src/api/input-validation"
 
@@ -247,3 +248,67 @@ describe("validateFilePath", () => {
     }
   })
 })
+
+describe("validateResponsesRequest", () => {
+  it("accepts a string input", () => {
+    const result = validateResponsesRequest({ model: "default", input: "Hello" })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data).toMatchObject({
+        model: "default",
+        message: "Hello",
+        history: [],
+        stream: false,
+        enableTools: true,
+      })
+    }
+  })
+
+  it("splits message input into history, instructions and the final user message", () => {
+    const result = validateResponsesRequest({
+      instructions: "Be brief.",
+      stream: true,
+      tool_choice: "none",
+      input: [
+        { role: "developer", content: "Answer in English." },
+        { role: "user", content: [{ type: "input_text", text: "Hi" }] },
+        { type: "message", role: "assistant", content: [{ type: "output_text", text: "Hello!" }] },
+        { role: "user", content: "What's new?" },
+      ],
+    })
+
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.message).toBe("What's new?")
+      expect(result.data.instructions).toBe("Be brief.\n\nAnswer in English.")
+      expect(result.data.history.map(({ role, content }) => ({ role, content }))).toEqual([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+      ])
+      expect(result.data.stream).toBe(true)
+      expect(result.data.enableTools).toBe(false)
+    }
+  })
+
+  it("rejects input that does not end with a user message", () => {
+    const result = validateResponsesRequest({
+      input: [{ role: "assistant", content: "Hello!" }],
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toContain("end with a user message")
+    }
+  })
+
+  it("rejects non-text content and unsupported items", () => {
+    const image = validateResponsesRequest({
+      input: [{ role: "user", content: [{ type: "input_image", image_url: "https://x" }] }],
+    })
+    expect(image.success).toBe(false)
+
+    const toolOutput = validateResponsesRequest({
+      input: [{ type: "function_call_output", call_id: "call_1", output: "{}" }],
+    })
+    expect(toolOutput.success).toBe(false)
+  })
+})
@@ -0,0 +1,229 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { getToolDisplay, parseMcpToolName, toMcpToolName } from "@bibboy/shared"
+
+// Memory tools pull in bun:sqlite, which is unavailable under vitest
+vi.mock("../src/tools/memory-search", () => ({
+  createMemorySearchTool: () => undefined,
+  createMemoryGetTool: () => undefined,
+}))
+
+import { McpClient, closeMcpServers, discoverMcpTools } from "../src/mcp"
+import { createMcpTools, createToolRegistry } from "../src/tools"
+import {
+  agentConfig,
+  initializeAgentConfig,
+  type McpServerConfig,
+  type ResolvedAgentConfig,
+} from "../src/agents/AgentConfig"
+
+// Minimal newline-delimited JSON-RPC MCP server
+const FAKE_STDIO_SERVER = `
+const readline = require("node:readline")
+const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n")
+const tools = [
+  {
+    name: "echo",
+    description: "Echo the text back",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" }, tags: { type: ["array", "null"], items: { type: "string" } } },
+      required: ["text"],
+    },
+  },
+  { name: "fail", inputSchema: { type: "object" } },
+]
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const message = JSON.parse(line)
+  if (message.id === undefined) return
+  if (message.method === "initialize") {
+    send({ jsonrpc: "2.0", id: message.id, result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: "fake", version: "1" } } })
+  } else if (message.method === "tools/list") {
+    const page = message.params.cursor ? tools.slice(1) : tools.slice(0, 1)
+    send({ jsonrpc: "2.0", id: message.id, result: { tools: page, ...(message.params.cursor ? {} : { nextCursor: "2" }) } })
+  } else if (message.method === "tools/call" && message.params.name === "echo") {
+    send({ jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "echo: " + message.params.arguments.text }] } })
+  } else if (message.method === "tools/call") {
+    send({ jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "it broke" }], isError: true } })
+  } else {
+    send({ jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Unknown method" } })
+  }
+})
+`
+
+const stdioServer = (name: string): McpServerConfig => ({
+  name,
+  command: process.execPath,
+  args: ["-e", FAKE_STDIO_SERVER],
+  timeoutMs: 5000,
+})
+
+function getDefaultAgent(): ResolvedAgentConfig {
+  const agent = agentConfig.getAgent(agentConfig.getDefaultAgentId())
+  if (!agent) throw new Error("default agent missing")
+  return agent
+}
+
+describe("MCP tool names", () => {
+  it("prefixes tools with the normalized server name", () => {
+    expect(toMcpToolName("My Files", "read.file")).toBe("mcp__my-files__read_file")
+    expect(parseMcpToolName("mcp__my-files__read_file")).toEqual({
+      server: "my-files",
+      tool: "read_file",
+    })
+    expect(parseMcpToolName("web_fetch")).toBeNull()
+    expect(toMcpToolName("s", "x".repeat(100))).toHaveLength(64)
+  })
+
+  it("shows MCP tools with the generic plug icon", () => {
+    const display = getToolDisplay("mcp__files__read_file")
+    expect(display.icon).toBe("plug")
+    expect(display.label).toBe("Read File")
+  })
+})
+
+describe("MCP stdio servers", () => {
+  beforeEach(() => {
+    initializeAgentConfig()
+  })
+
+  afterEach(async () => {
+    await closeMcpServers()
+  })
+
+  it("discovers tools across pages and adapts them to agent tools", async () => {
+    const agent = { ...getDefaultAgent(), mcpServers: [stdioServer("Files")] }
+
+    const [server] = await discoverMcpTools(agent)
+    expect(server.server).toBe("files")
+    expect(server.tools.map((tool) => tool.name)).toEqual(["echo", "fail"])
+
+    const [echo, fail] = createMcpTools(server)
+    expect(echo.name).toBe("mcp__files__echo")
+    expect(echo.parameters).toEqual({
+      type: "object",
+      properties: { text: { type: "string" }, tags: { type: "array", items: { type: "string" } } },
+      required: ["text"],
+    })
+
+    const ok = await echo.execute("tc_1", { text: "hi" })
+    expect(ok.content[0].text).toBe("echo: hi")
+    expect(ok.error).toBeUndefined()
+
+    const failed = await fail.execute("tc_2", {})
+    expect(failed.error).toBe("it broke")
+  })
+
+  it("reuses connections across discoveries", async () => {
+    const agent = { ...getDefaultAgent(), mcpServers: [stdioServer("files")] }
+
+    const [first] = await discoverMcpTools(agent)
+    const [second] = await discoverMcpTools(agent)
+    expect(second.client).toBe(first.client)
+  })
+
+  it("skips servers that fail to start", async () => {
+    const agent = {
+      ...getDefaultAgent(),
+      mcpServers: [
+        { name: "broken", command: process.execPath, args: ["-e", "process.exit(1)"] },
+        stdioServer("files"),
+      ],
+    }
+
+    const servers = await discoverMcpTools(agent)
+    expect(servers.map((server) => server.server)).toEqual(["files"])
+  })
+
+  it("filters MCP tools by policy and keeps denied servers out of request_tools", async () => {
+    const base = getDefaultAgent()
+    const agent: ResolvedAgentConfig = {
+      ...base,
+      mcpServers: [stdioServer("files"), stdioServer("notes")],
+      tools: { ...base.tools, profile: null, allow: ["group:mcp:files", "request_tools"], deny: [] },
+    }
+    const servers = await discoverMcpTools(agent)
+    const registry = createToolRegistry(agent, () => [], undefined, undefined, undefined, undefined, servers)
+
+    expect(registry.get("mcp__files__echo")).toBeDefined()
+    expect(registry.get("mcp__notes__echo")).toBeUndefined()
+    expect(registry.isGroupLoaded("mcp:files")).toBe(true)
+    expect(registry.getGroups().find((group) => group.name === "mcp:notes")).toMatchObject({
+      toolNames: ["mcp__notes__echo", "mcp__notes__fail"],
+      loaded: false,
+    })
+
+    const result = await registry.get("request_tools")!.execute("tc_1", { groups: "mcp:notes" })
+    expect(JSON.parse(result.content[0].text).invalidGroups).toEqual(["mcp:notes"])
+    expect(registry.get("mcp__notes__echo")).toBeUndefined()
+  })
+
+  it("loads allowed MCP servers through request_tools", async () => {
+    const base = getDefaultAgent()
+    const agent: ResolvedAgentConfig = {
+      ...base,
+      mcpServers: [stdioServer("notes")],
+      tools: { ...base.tools, profile: null, allow: ["group:mcp:notes", "request_tools"], deny: [] },
+    }
+    const servers = await discoverMcpTools(agent)
+    const registry = createToolRegistry(agent, () => [], undefined, undefined, undefined, undefined, servers)
+
+    expect(registry.get("request_tools")!.description).toContain("mcp:notes")
+    expect(registry.getToolSummary()).toContain("mcp:notes: mcp__notes__echo, mcp__notes__fail")
+  })
+})
+
+describe("MCP HTTP servers", () => {
+  let server: Server
+  let url: string
+  const sessionIds: Array<string | undefined> = []
+
+  beforeEach(async () => {
+    sessionIds.length = 0
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", (chunk) => (body += chunk))
+      req.on("end", () => {
+        sessionIds.push(req.headers["mcp-session-id"] as string | undefined)
+        const message = body ? JSON.parse(body) : {}
+        if (message.id === undefined) {
+          res.writeHead(202).end()
+          return
+        }
+        const result =
+          message.method === "initialize"
+            ? { protocolVersion: message.params.protocolVersion, capabilities: {} }
+            : message.method === "tools/list"
+              ? { tools: [{ name: "lookup", inputSchema: { type: "object", properties: {} } }] }
+              : { content: [{ type: "text", text: "found" }] }
+        // Answer tool calls as an event stream, everything else as JSON
+        if (message.method === "tools/call") {
+          res.writeHead(200, { "Content-Type": "text/event-stream" })
+          res.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: message.id, result })}\n\n`)
+          return
+        }
+        res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": "session-1" })
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: message.id, result }))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it("talks JSON and event streams and keeps the session id", async () => {
+    const client = await McpClient.connect({ name: "remote", url })
+    const tools = await client.listTools()
+    const result = await client.callTool("lookup", {})
+    client.close()
+
+    expect(tools.map((tool) => tool.name)).toEqual(["lookup"])
+    expect(result).toEqual({ content: [{ type: "text", text: "found" }], isError: false })
+    // Every request after initialize carries the session id
+    expect(sessionIds.slice(0, 4)).toEqual([undefined, "session-1", "session-1", "session-1"])
+  })
+})
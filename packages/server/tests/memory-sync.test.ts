@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { resolveMemorySearchConfig } from "../src/agents/AgentConfig"
+import { MemorySync, type MemorySyncTarget } from "../src/memory/MemorySync"
+
+class FakeStore implements MemorySyncTarget {
+  sources = new Map<string, string>()
+  indexCalls: string[] = []
+
+  async indexFile(filePath: string, content: string): Promise<number> {
+    this.indexCalls.push(filePath)
+    if (this.sources.get(filePath) === content) return 0
+    this.sources.set(filePath, content)
+    return 1
+  }
+
+  listSources() {
+    return [...this.sources.keys()].map((path) => ({ path, hash: "", indexedAt: 0 }))
+  }
+
+  removeSource(source: string): void {
+    this.sources.delete(source)
+  }
+}
+
+describe("MemorySync", () => {
+  let root = ""
+  let workspaceDir = ""
+  let extraDir = ""
+
+  const createSync = (store: FakeStore, extraPaths: string[] = []) =>
+    new MemorySync({
+      agentId: "agent-1",
+      workspaceDir,
+      store,
+      config: resolveMemorySearchConfig(
+        { extraPaths, sync: { watch: false, watchDebounceMs: 10 } },
+        undefined,
+        "agent-1"
+      ),
+    })
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "bibboy-memory-sync-"))
+    workspaceDir = join(root, "workspace")
+    extraDir = join(root, "notes")
+    mkdirSync(join(workspaceDir, "journal"), { recursive: true })
+    mkdirSync(extraDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it("indexes workspace markdown with relative sources and extra paths with absolute ones", async () => {
+    writeFileSync(join(workspaceDir, "MEMORY.md"), "likes tea")
+    writeFileSync(join(workspaceDir, "journal", "day1.md"), "went hiking")
+    writeFileSync(join(workspaceDir, "image.png"), "binary")
+    writeFileSync(join(extraDir, "ideas.md"), "build a robot")
+
+    const store = new FakeStore()
+    const result = await createSync(store, [extraDir]).reconcile()
+
+    expect(result).toEqual({ indexed: 3, removed: 0 })
+    expect([...store.sources.keys()].sort()).toEqual(
+      [join(extraDir, "ideas.md"), "MEMORY.md", join("journal", "day1.md")].sort()
+    )
+  })
+
+  it("removes stale sources but leaves sources owned elsewhere", async () => {
+    const store = new FakeStore()
+    store.sources.set("DELETED.md", "old")
+    store.sources.set("session:abc", "transcript")
+    writeFileSync(join(workspaceDir, "MEMORY.md"), "likes tea")
+
+    const result = await createSync(store).reconcile()
+
+    expect(result).toEqual({ indexed: 1, removed: 1 })
+    expect([...store.sources.keys()].sort()).toEqual(["MEMORY.md", "session:abc"])
+  })
+
+  it("skips unchanged files on repeated reconciles", async () => {
+    writeFileSync(join(workspaceDir, "MEMORY.md"), "likes tea")
+    const store = new FakeStore()
+    const sync = createSync(store)
+
+    await sync.reconcile()
+    const second = await sync.reconcile()
+
+    expect(second).toEqual({ indexed: 0, removed: 0 })
+  })
+
+  it("debounces changes and handles edits and deletions", async () => {
+    const store = new FakeStore()
+    const sync = createSync(store)
+    const file = join(workspaceDir, "MEMORY.md")
+
+    writeFileSync(file, "v1")
+    sync.scheduleChange(file)
+    writeFileSync(file, "v2")
+    sync.scheduleChange(file)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    await sync.flush()
+
+    expect(store.indexCalls).toEqual(["MEMORY.md"])
+    expect(store.sources.get("MEMORY.md")).toBe("v2")
+
+    unlinkSync(file)
+    sync.scheduleChange(file)
+    await sync.flush()
+    sync.stop()
+
+    expect(store.sources.size).toBe(0)
+  })
+
+  it("ignores changes outside the watched roots", async () => {
+    const store = new FakeStore()
+    const outside = join(root, "outside.md")
+    writeFileSync(outside, "nope")
+
+    const sync = createSync(store)
+    sync.scheduleChange(outside)
+    const result = await sync.flush()
+    sync.stop()
+
+    expect(result).toEqual({ indexed: 0, removed: 0 })
+    expect(store.sources.size).toBe(0)
+  })
+})
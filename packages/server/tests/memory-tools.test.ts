@@ -55,9 +55,18 @@ const createMockAgentConfig = (): ResolvedAgentConfig => ({
     },
     cache: { enabled: true },
   },
-  tools: { profile: null, allow: [], alsoAllow: [], deny: [], byProvider: {} },
+  tools: {
+    profile: null,
+    allow: [],
+    alsoAllow: [],
+    deny: [],
+    requireApproval: [],
+    concurrency: { maxParallel: 4, perTool: {} },
+    byProvider: {},
+  },
   thinkingLevel: "off",
   timeFormat: "auto",
+  mcpServers: [],
 })
 
 const mockGetSessionMessages = (): ChatMessage[] => []
@@ -0,0 +1,96 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { Effect, Stream } from "effect"
+import type { AgentRequest } from "@bibboy/shared"
+
+const mocks = vi.hoisted(() => {
+  process.env.RESPONSES_API_KEY = "test-responses-key"
+  return {
+    requests: [] as AgentRequest[],
+    interrupted: { value: false },
+  }
+})
+
+vi.mock("../src/tools/memory-search", () => {
+  const mockTool = (name: string) => ({
+    label: name,
+    name,
+    description: `Mock ${name} tool`,
+    parameters: { type: "object", properties: {}, required: [] },
+    execute: async () => ({ toolCallId: name, content: [] }),
+  })
+  return {
+    createMemorySearchTool: () => mockTool("memory_search"),
+    createMemoryGetTool: () => mockTool("memory_get"),
+  }
+})
+
+vi.mock("../src/services/agent-service-model", () => ({
+  isModelConfigured: () => true,
+}))
+
+vi.mock("../src/services/AgentService", () => ({
+  createAgentServiceLive: () => ({
+    runStream: (request: AgentRequest) => {
+      mocks.requests.push(request)
+      return Stream.never.pipe(
+        Stream.ensuring(Effect.sync(() => {
+          mocks.interrupted.value = true
+        }))
+      )
+    },
+  }),
+}))
+
+import { handleResponsesRequest } from "../src/api/openai-responses"
+import { resetGlobalConfig } from "../src/config"
+import { initializeAgentConfig } from "../src/agents/AgentConfig"
+
+function responsesRequest(body: unknown, apiKey?: string): Request {
+  return new Request("http://localhost/v1/responses", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+describe("POST /v1/responses", () => {
+  beforeEach(() => {
+    initializeAgentConfig()
+    mocks.requests.length = 0
+    mocks.interrupted.value = false
+  })
+
+  afterAll(() => {
+    delete process.env.RESPONSES_API_KEY
+    resetGlobalConfig()
+  })
+
+  it("rejects requests without the configured API key", async () => {
+    for (const apiKey of [undefined, "wrong-key"]) {
+      const response = await handleResponsesRequest(responsesRequest({ input: "hi" }, apiKey))
+      expect(response.status).toBe(401)
+      expect(response.headers.get("Access-Control-Allow-Origin")).not.toBe("*")
+      const body = (await response.json()) as { error: { code: string } }
+      expect(body.error.code).toBe("invalid_api_key")
+    }
+    expect(mocks.requests).toEqual([])
+  })
+
+  it("aborts the agent run when the stream is cancelled", async () => {
+    const response = await handleResponsesRequest(
+      responsesRequest({ input: "hi", stream: true }, "test-responses-key")
+    )
+    expect(response.status).toBe(200)
+
+    const reader = response.body!.getReader()
+    const first = await reader.read()
+    expect(new TextDecoder().decode(first.value)).toContain("event: response.created")
+    expect(mocks.requests[0]?.enableTools).toBe(true)
+
+    await reader.cancel()
+    await vi.waitFor(() => expect(mocks.interrupted.value).toBe(true))
+  })
+})
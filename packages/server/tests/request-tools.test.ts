@@ -70,4 +70,58 @@ describe("request_tools", () => {
     expect(secondPayload.alreadyLoaded).toEqual(["canvas"])
     expect(secondPayload.invalidGroups).toEqual(["still_invalid"])
   })
+
+  it("only offers groups the agent's tool policy allows", async () => {
+    const resolved = agentConfig.getAgent(agentConfig.getDefaultAgentId())
+    expect(resolved).toBeDefined()
+    if (!resolved) return
+
+    const registry = createToolRegistry(
+      { ...resolved, tools: { ...resolved.tools, profile: "messaging", allow: [], deny: [] } },
+      () => []
+    )
+    const requestTools = registry.get("request_tools")
+    expect(requestTools).toBeDefined()
+    if (!requestTools) return
+
+    expect(requestTools.description).not.toContain("exec")
+    const payload = parseRequestToolsPayload(
+      await requestTools.execute("tc_1", { groups: "exec,workspace" })
+    )
+    expect(payload.loaded).toEqual([])
+    expect(payload.invalidGroups).toEqual(["exec", "workspace"])
+    expect(registry.get("run_code")).toBeUndefined()
+  })
+})
+
+describe("task_suggest registration", () => {
+  beforeEach(() => {
+    initializeAgentConfig()
+  })
+
+  it("registers task_suggest only when suggestions can be emitted", async () => {
+    const resolved = agentConfig.getAgent(agentConfig.getDefaultAgentId())
+    expect(resolved).toBeDefined()
+    if (!resolved) return
+
+    expect(createToolRegistry(resolved, () => []).get("task_suggest")).toBeUndefined()
+
+    const emitTaskSuggest = vi.fn()
+    const registry = createToolRegistry(
+      resolved,
+      () => [],
+      undefined,
+      undefined,
+      undefined,
+      emitTaskSuggest
+    )
+    const tool = registry.get("task_suggest")
+    expect(tool).toBeDefined()
+    if (!tool) return
+
+    await tool.execute("tc_1", { tasks: [{ text: "Water the plants" }] })
+    expect(emitTaskSuggest).toHaveBeenCalledWith([
+      expect.objectContaining({ text: "Water the plants" }),
+    ])
+  })
 })
@@ -0,0 +1,158 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_SANDBOX_LIMITS,
+  SANDBOX_SYSTEM_PATHS,
+  buildSandboxCommand,
+  detectSandboxBackend,
+  runProcess,
+} from "../src/tools/sandbox"
+import { createRunCodeTool } from "../src/tools/run-code"
+import { resolveProfileAllowList } from "../src/tools/tool-policy"
+
+const runNode = (script: string, options: { stdin?: string; timeoutMs?: number; maxOutputBytes?: number } = {}) =>
+  runProcess([process.execPath, "-e", script], {
+    cwd: process.cwd(),
+    env: { PATH: process.env.PATH ?? "" },
+    stdin: options.stdin,
+    timeoutMs: options.timeoutMs ?? 5000,
+    maxOutputBytes: options.maxOutputBytes ?? 1024,
+  })
+
+describe("buildSandboxCommand", () => {
+  const base = {
+    workspaceDir: "/ws/agent",
+    tmpDir: "/tmp/run-1",
+    limits: DEFAULT_SANDBOX_LIMITS,
+    command: ["/usr/bin/bun", "run", "-"],
+  }
+
+  it("isolates bwrap runs from the network and mounts only the workspace writable", () => {
+    const argv = buildSandboxCommand({ ...base, backend: "bwrap" })
+    const joined = argv.join(" ")
+
+    expect(argv[0]).toBe("bwrap")
+    expect(joined).toContain("--ro-bind-try /usr /usr")
+    expect(joined).toContain("--bind /ws/agent /ws/agent")
+    expect(joined).toContain("--unshare-all")
+    expect(joined).toContain("--chdir /ws/agent")
+    expect(argv.slice(-3)).toEqual(["/usr/bin/bun", "run", "-"])
+  })
+
+  it("mounts only the system directories, the runtime and the run's directories", () => {
+    const argv = buildSandboxCommand({
+      ...base,
+      backend: "bwrap",
+      command: ["/home/me/.bun/bin/bun", "run", "-"],
+    })
+    const mounted = argv.flatMap((arg, i) =>
+      ["--ro-bind", "--ro-bind-try", "--bind"].includes(arg) ? [argv[i + 1]] : []
+    )
+
+    expect(mounted).not.toContain("/")
+    expect(mounted).toEqual([
+      ...SANDBOX_SYSTEM_PATHS,
+      "/home/me/.bun/bin",
+      "/ws/agent",
+      "/tmp/run-1",
+    ])
+  })
+
+  it.skipIf(!detectSandboxBackend())("can't read files outside the workspace", async () => {
+    const secretDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-secret-")))
+    const workspaceDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-ws-")))
+    const tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "sandbox-tmp-")))
+    const secret = path.join(secretDir, ".env")
+    fs.writeFileSync(secret, "API_KEY=secret")
+
+    try {
+      const result = await runProcess(
+        buildSandboxCommand({
+          backend: detectSandboxBackend()!,
+          workspaceDir,
+          tmpDir,
+          limits: DEFAULT_SANDBOX_LIMITS,
+          command: ["/bin/cat", secret],
+        }),
+        { cwd: workspaceDir, env: { PATH: "/usr/bin:/bin" }, timeoutMs: 5000, maxOutputBytes: 1024 }
+      )
+
+      expect(result.exitCode).not.toBe(0)
+      expect(result.stdout).not.toContain("secret")
+    } finally {
+      for (const dir of [secretDir, workspaceDir, tmpDir]) {
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+    }
+  })
+
+  it("applies the resource limits inside the sandbox", () => {
+    const argv = buildSandboxCommand({ ...base, backend: "bwrap" })
+    const script = argv[argv.indexOf("/bin/sh") + 2]
+
+    expect(script).toContain("ulimit -t 10")
+    expect(script).toContain(`ulimit -v ${1024 * 1024}`)
+    expect(script).toContain("ulimit -f 20480")
+    expect(script).toMatch(/exec "\$@"$/)
+  })
+
+  it("denies network and writes outside the workspace on macOS", () => {
+    const argv = buildSandboxCommand({ ...base, backend: "sandbox-exec" })
+    const profile = argv[2]
+
+    expect(argv.slice(0, 2)).toEqual(["sandbox-exec", "-p"])
+    expect(profile).toContain("(deny network*)")
+    expect(profile).toContain("(deny file-write*)")
+    expect(profile).toContain('(deny file-read* (subpath "/Users")')
+    expect(profile).toContain('(allow file-read* (subpath "/ws/agent") (subpath "/tmp/run-1"))')
+    expect(profile).toContain('(subpath "/ws/agent")')
+  })
+})
+
+describe("runProcess", () => {
+  it("feeds stdin and collects output and the exit code", async () => {
+    const result = await runNode(
+      "let s='';process.stdin.on('data',d=>s+=d).on('end',()=>{console.log(s.toUpperCase());console.error('warn');process.exit(3)})",
+      { stdin: "hello" }
+    )
+
+    expect(result).toMatchObject({ exitCode: 3, stdout: "HELLO\n", stderr: "warn\n", timedOut: false, truncated: false })
+  })
+
+  it("kills runs that exceed the time limit", async () => {
+    const result = await runNode("setInterval(() => {}, 1000)", { timeoutMs: 200 })
+
+    expect(result.timedOut).toBe(true)
+    expect(result.signal).toBe("SIGKILL")
+  })
+
+  it("stops runs whose output exceeds the limit", async () => {
+    const result = await runNode("for (;;) process.stdout.write('x'.repeat(1000))", { maxOutputBytes: 4096 })
+
+    expect(result.truncated).toBe(true)
+    expect(result.stdout).toBe("x".repeat(4096))
+  })
+})
+
+describe("run_code tool", () => {
+  it("reports that code execution is disabled without a sandbox", async () => {
+    const tool = createRunCodeTool("default", { backend: null })
+    const result = await tool.execute("tc_1", { language: "javascript", code: "console.log(1)" })
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ disabled: true, exitCode: null })
+  })
+
+  it("rejects unknown languages", async () => {
+    const tool = createRunCodeTool("default", { backend: "bwrap" })
+    const result = await tool.execute("tc_1", { language: "cobol", code: "DISPLAY 'HI'" })
+
+    expect(result.error).toContain("Unsupported language: cobol")
+  })
+
+  it("is part of the coding profile", () => {
+    expect(resolveProfileAllowList("coding")).toContain("run_code")
+    expect(resolveProfileAllowList("minimal")).not.toContain("run_code")
+  })
+})
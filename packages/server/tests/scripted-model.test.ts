@@ -0,0 +1,144 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { Effect, Option, Stream } from "effect"
+import type { AgentStreamEvent, ToolExecutionResult } from "@bibboy/shared"
+import type { ScriptedFixture } from "@bibboy/agent-runtime"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { loadConfigSync, type AppConfigData } from "../src/config"
+import {
+  callModelWithRetry,
+  isModelConfigured,
+  resetScriptedModelClients,
+  resolveModelClient,
+} from "../src/services/agent-service-model"
+import { orchestrateAgentStreamIterations } from "../src/services/agent-service-stream-orchestrator"
+import type { ToolRegistry } from "../src/tools/types"
+
+const tempDirs: string[] = []
+
+function configWithFixture(fixture: ScriptedFixture): AppConfigData {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bibboy-scripted-"))
+  tempDirs.push(dir)
+  const fixturePath = path.join(dir, "fixture.json")
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture))
+  return { ...loadConfigSync(), scriptedModelFixture: Option.some(fixturePath) }
+}
+
+const toolRegistry: ToolRegistry = {
+  tools: [],
+  get: () => undefined,
+  getDefinitions: () => [
+    {
+      type: "function",
+      name: "memory_search",
+      description: "Search memory",
+      parameters: { type: "object", properties: { query: { type: "string" } } },
+    },
+  ],
+  addTools: () => {},
+  getGroups: () => [],
+  markGroupLoaded: () => {},
+  isGroupLoaded: () => false,
+  getToolSummary: () => "memory_search",
+}
+
+describe("scripted model provider", () => {
+  afterEach(() => {
+    resetScriptedModelClients()
+    for (const dir of tempDirs.splice(0)) {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it("is configured only when a fixture file is set", () => {
+    expect(isModelConfigured({ ...loadConfigSync(), scriptedModelFixture: Option.none() }, "scripted/e2e")).toBe(false)
+    expect(isModelConfigured(configWithFixture({ turns: [] }), "scripted/e2e")).toBe(true)
+  })
+
+  it("replays a tool loop through the stream orchestrator", async () => {
+    const appConfig = configWithFixture({
+      turns: [
+        { toolCalls: [{ name: "memory_search", args: { query: "cats" } }] },
+        {
+          text: ["Found ", "two cats."],
+          usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16 },
+        },
+      ],
+    })
+    const modelClient = await Effect.runPromise(resolveModelClient(appConfig, "scripted/e2e"))
+
+    const toolResult: ToolExecutionResult = {
+      toolCallId: "call_0_0",
+      content: [{ type: "text", text: '{"hits":2}' }],
+    }
+    const executeToolsFn = vi.fn(() => Effect.succeed([toolResult]))
+
+    const events = await Effect.runPromise(
+      Stream.runCollect(
+        orchestrateAgentStreamIterations({
+          modelClient,
+          model: "scripted/e2e",
+          enableTools: true,
+          toolRegistry,
+          initialMessages: [{ role: "user", content: "Any cats?" }],
+          systemInstruction: "You are helpful",
+          agentId: "agent-1",
+          maxToolIterations: 3,
+          softLimitIterations: 2,
+          toolTimeoutMs: 30_000,
+          deps: { executeToolsFn, generateMessageIdFn: () => "msg_e2e" },
+        })
+      ).pipe(Effect.map((chunk): AgentStreamEvent[] => [...chunk]))
+    )
+
+    expect(events.map((event) => event.type)).toEqual([
+      "tool_start",
+      "tool_end",
+      "text_delta",
+      "text_delta",
+      "done",
+    ])
+    const done = events[4]
+    if (done?.type === "done") {
+      expect(done.message.content).toBe("Found two cats.")
+      expect(done.toolCalls).toEqual([
+        { id: "call_0_0", name: "memory_search", arguments: { query: "cats" } },
+      ])
+    }
+
+    expect(executeToolsFn).toHaveBeenCalledTimes(1)
+  })
+
+  it("surfaces injected errors as tagged agent errors", async () => {
+    const appConfig = configWithFixture({
+      turns: [{ error: { kind: "context_overflow" } }, { text: "Recovered" }],
+    })
+    const callScripted = () =>
+      callModelWithRetry(
+        appConfig,
+        [{ role: "user", content: "Hi" }],
+        "You are helpful",
+        [],
+        "scripted/primary",
+        []
+      )
+
+    const error = await Effect.runPromise(Effect.flip(callScripted()))
+    expect(error._tag).toBe("ContextOverflowError")
+
+    const response = await Effect.runPromise(callScripted())
+    expect(response.text).toBe("Recovered")
+    expect(response.modelUsed).toBe("scripted/primary")
+  })
+
+  it("fails when the fixture file is not valid", async () => {
+    const appConfig = configWithFixture({ turns: [] })
+    const fixturePath = Option.getOrThrow(appConfig.scriptedModelFixture)
+    fs.writeFileSync(fixturePath, JSON.stringify({ turns: [{ text: 42 }] }))
+
+    const error = await Effect.runPromise(Effect.flip(resolveModelClient(appConfig, "scripted/e2e")))
+
+    expect(error._tag).toBe("AgentError")
+  })
+})
@@ -0,0 +1,364 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Either, Layer, Schema } from "effect"
+import type { ServerWebSocket } from "bun"
+import {
+  SessionExportSchema,
+  WS_CLOSE_CODES,
+  createDefaultCanvasBlueprint,
+  createDefaultSoulState,
+  type ChatMessage,
+  type SessionExport,
+} from "@bibboy/shared"
+import { ChatSessionManager, type SessionData } from "../src/services/ChatSessionManager"
+import { CanvasStateService, CanvasStateServiceLive } from "../src/services/CanvasStateService"
+import { ChatSessionStore, InMemorySessionStore } from "../src/services/SessionStore"
+import {
+  deleteSession,
+  exportSession,
+  forkSession,
+  getSessionTranscript,
+  importSession,
+  listSessionSummaries,
+  renameSession,
+} from "../src/services/SessionManagement"
+import { renderSessionMarkdown } from "../src/services/session-markdown"
+
+const run = <A, E>(
+  store: InMemorySessionStore,
+  effect: Effect.Effect<A, E, ChatSessionManager | CanvasStateService>
+): Promise<A> =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          Layer.provide(
+            ChatSessionManager.DefaultWithoutDependencies,
+            Layer.succeed(ChatSessionStore, store)
+          ),
+          CanvasStateServiceLive
+        )
+      )
+    )
+  )
+
+const USER = "user-a"
+const OTHER_USER = "user-b"
+
+const noTurn = () => Effect.void
+
+const message = (id: string, role: ChatMessage["role"], content: string): ChatMessage => ({
+  id,
+  role,
+  content,
+  timestamp: Date.now(),
+})
+
+const seed = Effect.gen(function* () {
+  const manager = yield* ChatSessionManager
+  yield* manager.createSession("session-a", USER)
+  yield* manager.addMessage("session-a", message("m1", "user", "hello"))
+  yield* manager.addMessage("session-a", message("m2", "assistant", "hi there"))
+  yield* manager.addMessage("session-a", message("m3", "user", "tell me more"))
+})
+
+describe("session management", () => {
+  it("lists sessions with metadata", async () => {
+    const store = new InMemorySessionStore()
+
+    const sessions = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        return yield* listSessionSummaries(USER)
+      })
+    )
+
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0]).toMatchObject({
+      sessionId: "session-a",
+      title: null,
+      messageCount: 3,
+      connected: false,
+    })
+  })
+
+  it("lists persisted sessions as disconnected after a restart", async () => {
+    const store = new InMemorySessionStore()
+    await run(store, seed)
+
+    const sessions = await run(store, listSessionSummaries(USER))
+
+    expect(sessions.map((s) => [s.sessionId, s.connected])).toEqual([["session-a", false]])
+  })
+
+  it("renames a session and rejects empty titles", async () => {
+    const store = new InMemorySessionStore()
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const renamed = yield* renameSession("session-a", USER, "  Planning  ")
+        const empty = yield* Effect.either(renameSession("session-a", USER, "   "))
+        return { renamed, empty }
+      })
+    )
+
+    expect(result.renamed.title).toBe("Planning")
+    expect(Either.isLeft(result.empty)).toBe(true)
+  })
+
+  it("forks a session at a message", async () => {
+    const store = new InMemorySessionStore()
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        yield* renameSession("session-a", USER, "Planning")
+        const fork = yield* forkSession("session-a", USER, "m2")
+        const transcript = yield* getSessionTranscript(fork.sessionId, USER)
+        const missing = yield* Effect.either(forkSession("session-a", USER, "nope"))
+        return { fork, transcript, missing }
+      })
+    )
+
+    expect(result.fork.sessionId).not.toBe("session-a")
+    expect(result.fork.title).toBe("Planning (fork)")
+    expect(result.fork.connected).toBe(false)
+    expect(result.transcript.messages.map((m) => m.id)).toEqual(["m1", "m2"])
+    expect(Either.isLeft(result.missing)).toBe(true)
+  })
+
+  it("forks from a message on an inactive branch", async () => {
+    const store = new InMemorySessionStore()
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const manager = yield* ChatSessionManager
+        // Edit m3: a sibling user message under m2 becomes the active branch
+        yield* manager.updateSession("session-a", (s) => ({ ...s, activeLeafId: "m2" }))
+        yield* manager.addMessage("session-a", message("m3b", "user", "tell me less"))
+
+        const transcript = yield* getSessionTranscript("session-a", USER)
+        const fork = yield* forkSession("session-a", USER, "m3")
+        const forkTranscript = yield* getSessionTranscript(fork.sessionId, USER)
+        return { transcript, forkTranscript }
+      })
+    )
+
+    expect(result.transcript.messages.map((m) => m.id)).toEqual(["m1", "m2", "m3b"])
+    expect(result.transcript.session.messageCount).toBe(3)
+    expect(result.forkTranscript.messages.map((m) => m.id)).toEqual(["m1", "m2", "m3"])
+  })
+
+  it("deletes a session, its canvas state and its transcripts", async () => {
+    const store = new InMemorySessionStore()
+    const forgotten: string[] = []
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const canvas = yield* CanvasStateService
+        yield* canvas.ensureSession("session-a")
+        yield* deleteSession("session-a", USER, noTurn, (sessionId, userId) =>
+          Effect.sync(() => {
+            forgotten.push(`${userId}/${sessionId}`)
+          })
+        )
+        const canvasAfter = yield* canvas.getSnapshot("session-a")
+        const transcript = yield* Effect.either(getSessionTranscript("session-a", USER))
+        return { canvasAfter, transcript }
+      })
+    )
+
+    expect(result.canvasAfter._tag).toBe("None")
+    expect(Either.isLeft(result.transcript)).toBe(true)
+    expect(Either.isLeft(result.transcript) && result.transcript.left._tag).toBe(
+      "SessionNotFoundError"
+    )
+    expect(store.load("session-a")).toBeNull()
+    expect(forgotten).toEqual([`${USER}/session-a`])
+  })
+
+  it("stops the active turn and closes attached sockets on delete", async () => {
+    const store = new InMemorySessionStore()
+    const cancelled: string[] = []
+    const closed: number[] = []
+    const ws = {
+      data: { sessionId: "session-a", connectionId: "conn_a", connectedAt: 0 },
+      send: (json: string) => json.length,
+      close: (code: number) => {
+        closed.push(code)
+      },
+    } as unknown as ServerWebSocket<SessionData>
+
+    await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const manager = yield* ChatSessionManager
+        yield* manager.attachSocket("session-a", ws)
+        yield* deleteSession(
+          "session-a",
+          USER,
+          (sessionId) =>
+            Effect.sync(() => {
+              cancelled.push(sessionId)
+            }),
+          noTurn
+        )
+      })
+    )
+
+    expect(cancelled).toEqual(["session-a"])
+    expect(closed).toEqual([WS_CLOSE_CODES.SESSION_DELETED])
+  })
+
+  it("hides sessions from other users", async () => {
+    const store = new InMemorySessionStore()
+    let cancelled = false
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const manager = yield* ChatSessionManager
+        yield* manager.createSession("session-b", OTHER_USER)
+
+        const cancelTurn = () =>
+          Effect.sync(() => {
+            cancelled = true
+          })
+        const attempts = [
+          yield* Effect.either(getSessionTranscript("session-a", OTHER_USER)),
+          yield* Effect.either(renameSession("session-a", OTHER_USER, "Mine now")),
+          yield* Effect.either(forkSession("session-a", OTHER_USER, "m2")),
+          yield* Effect.either(exportSession("session-a", OTHER_USER)),
+          yield* Effect.either(deleteSession("session-a", OTHER_USER, cancelTurn, cancelTurn)),
+        ]
+
+        return {
+          attempts,
+          mine: yield* listSessionSummaries(USER),
+          theirs: yield* listSessionSummaries(OTHER_USER),
+          transcript: yield* getSessionTranscript("session-a", USER),
+        }
+      })
+    )
+
+    for (const attempt of result.attempts) {
+      expect(Either.isLeft(attempt) && attempt.left._tag).toBe("SessionNotFoundError")
+    }
+    expect(result.mine.map((s) => s.sessionId)).toEqual(["session-a"])
+    expect(result.theirs.map((s) => s.sessionId)).toEqual(["session-b"])
+    // Untouched by the other user's attempts
+    expect(result.transcript.session.title).toBeNull()
+    expect(result.transcript.messages).toHaveLength(3)
+    expect(cancelled).toBe(false)
+    expect(store.load("session-a")).not.toBeNull()
+  })
+
+  it("exports a session and imports it under a new id", async () => {
+    const store = new InMemorySessionStore()
+
+    const result = await run(
+      store,
+      Effect.gen(function* () {
+        yield* seed
+        const manager = yield* ChatSessionManager
+        yield* manager.updateSession("session-a", (s) => ({
+          ...s,
+          toolCalls: [
+            {
+              toolCallId: "call_1",
+              messageId: "m2",
+              toolName: "web_search",
+              arguments: { query: "effect" },
+              startedAt: 1,
+            },
+          ],
+        }))
+        const canvas = yield* CanvasStateService
+        yield* canvas.applyOperation("session-a", { type: "set_pose", pose: "wave" })
+
+        const exported = yield* exportSession("session-a", USER)
+        const imported = yield* importSession(exported, USER)
+        const reexported = yield* exportSession(imported.sessionId, USER)
+        return { exported, imported, reexported }
+      })
+    )
+
+    // The export is valid against the shared schema
+    expect(Schema.is(SessionExportSchema)(result.exported)).toBe(true)
+    expect(result.exported.toolCalls.map((call) => call.toolCallId)).toEqual(["call_1"])
+    expect(result.exported.canvas?.pose).toBe("wave")
+
+    expect(result.imported.sessionId).not.toBe("session-a")
+    expect(result.imported.connected).toBe(false)
+    expect(result.reexported.messages).toEqual(result.exported.messages)
+    expect(result.reexported.toolCalls).toEqual(result.exported.toolCalls)
+    expect(result.reexported.canvas).toEqual(result.exported.canvas)
+  })
+
+  it("restores imported soul state into the new session", async () => {
+    const store = new InMemorySessionStore()
+    const soul = { ...createDefaultSoulState(), stage: "forming" as const, interactionCount: 12 }
+    const data: SessionExport = {
+      version: 1,
+      exportedAt: 1,
+      session: { sessionId: "old", title: null, agentId: null, createdAt: 1, lastActivity: 1 },
+      messages: [message("m1", "user", "hello")],
+      toolCalls: [],
+      canvas: null,
+      soul,
+    }
+
+    const imported = await run(store, importSession(data, OTHER_USER))
+
+    expect(imported.soulStage).toBe("forming")
+  })
+})
+
+describe("renderSessionMarkdown", () => {
+  it("renders messages with their tool calls and the companion state", () => {
+    const markdown = renderSessionMarkdown({
+      version: 1,
+      exportedAt: Date.UTC(2026, 0, 2),
+      session: {
+        sessionId: "session-a",
+        title: "Planning",
+        agentId: "default",
+        createdAt: Date.UTC(2026, 0, 1),
+        lastActivity: Date.UTC(2026, 0, 1),
+      },
+      messages: [
+        { id: "m1", role: "user", content: "search for ```fences```", timestamp: Date.UTC(2026, 0, 1) },
+        { id: "m2", role: "assistant", content: "Found it.", timestamp: Date.UTC(2026, 0, 1) },
+      ],
+      toolCalls: [
+        {
+          toolCallId: "call_1",
+          messageId: "m2",
+          toolName: "web_search",
+          arguments: { query: "fences" },
+          result: { toolCallId: "call_1", content: [{ type: "text", text: "a ``` b" }] },
+          startedAt: 1,
+        },
+      ],
+      canvas: createDefaultCanvasBlueprint(),
+      soul: createDefaultSoulState(),
+    })
+
+    expect(markdown).toContain("# Planning")
+    expect(markdown).toContain("### User · 2026-01-01 00:00:00")
+    expect(markdown).toContain("<details><summary>Tool: web_search</summary>")
+    // Tool output containing a fence gets a longer fence
+    expect(markdown).toContain("````\na ``` b\n````")
+    expect(markdown.indexOf("Tool: web_search")).toBeLessThan(markdown.indexOf("Found it."))
+    expect(markdown).toContain("## Companion")
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import type { ResponseStreamEvent } from "@bibboy/shared"
+import { createResponsesStreamEmitter } from "../src/services/ResponsesStreamEmitter"
+import {
+  EMPTY_STREAM_REPLAY,
+  REPLAY_BUFFER_SIZE,
+  getCatchUp,
+  recordStreamEvent,
+  type StreamReplay,
+} from "../src/services/session-stream-replay"
+
+// Runs a response through the emitter and records its events in order
+const recordResponse = (replay: StreamReplay, deltas: string[]): StreamReplay => {
+  const events: ResponseStreamEvent[] = []
+  const emitter = createResponsesStreamEmitter({
+    model: "test",
+    emit: (event) => {
+      if ("type" in event) events.push(event)
+    },
+  })
+  emitter.start()
+  for (const delta of deltas) emitter.addTextDelta(delta)
+  emitter.complete("completed")
+
+  return events.reduce((current, event) => recordStreamEvent(current, event).replay, replay)
+}
+
+describe("session stream replay", () => {
+  it("numbers events across responses", () => {
+    const first = recordResponse(EMPTY_STREAM_REPLAY, ["a"])
+    const second = recordResponse(first, ["b"])
+
+    const numbers = second.events.map((event) => event.sequence_number)
+    expect(numbers).toEqual(numbers.map((_, index) => index + 1))
+    expect(second.lastSequence).toBe(numbers.length)
+  })
+
+  it("replays exactly the events after the cursor", () => {
+    const replay = recordResponse(EMPTY_STREAM_REPLAY, ["Hel", "lo"])
+    const delta = replay.events.find((event) => event.type === "response.output_text.delta")!
+
+    const catchUp = getCatchUp(replay, delta.sequence_number)
+
+    expect(catchUp.type).toBe("replay")
+    const events = catchUp.type === "replay" ? catchUp.events : []
+    expect(events[0].sequence_number).toBe(delta.sequence_number + 1)
+    expect(events.at(-1)?.type).toBe("response.completed")
+    expect(getCatchUp(replay, replay.lastSequence)).toEqual({ type: "none" })
+  })
+
+  it("falls back to a snapshot once missed events leave the buffer", () => {
+    const deltas = Array.from({ length: REPLAY_BUFFER_SIZE }, (_, i) => `${i} `)
+    const replay = recordResponse(EMPTY_STREAM_REPLAY, deltas)
+
+    expect(replay.events).toHaveLength(REPLAY_BUFFER_SIZE)
+    expect(getCatchUp(replay, 0)).toEqual({ type: "snapshot" })
+    expect(getCatchUp(replay, replay.lastSequence - 1).type).toBe("replay")
+  })
+
+  it("tracks the text of the response in progress", () => {
+    const events: ResponseStreamEvent[] = []
+    const emitter = createResponsesStreamEmitter({
+      model: "test",
+      emit: (event) => {
+        if ("type" in event) events.push(event)
+      },
+    })
+    emitter.start()
+    emitter.addTextDelta("Hel")
+    emitter.addTextDelta("lo")
+
+    const replay = events.reduce(
+      (current, event) => recordStreamEvent(current, event).replay,
+      EMPTY_STREAM_REPLAY
+    )
+    expect(replay.inProgress).toEqual({ responseId: emitter.responseId, text: "Hello" })
+  })
+
+  it("sends a snapshot to a cursor ahead of the buffer", () => {
+    // Numbering restarts with the server while a client keeps its old cursor
+    const replay = recordResponse(EMPTY_STREAM_REPLAY, ["new"])
+
+    expect(getCatchUp(EMPTY_STREAM_REPLAY, 42)).toEqual({ type: "snapshot" })
+    expect(getCatchUp(replay, replay.lastSequence + 1)).toEqual({ type: "snapshot" })
+  })
+})
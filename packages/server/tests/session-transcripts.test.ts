@@ -0,0 +1,274 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import type { ChatMessage } from "@bibboy/shared"
+import { resolveMemorySearchConfig } from "../src/agents/AgentConfig"
+import type { MemorySyncTarget } from "../src/memory/MemorySync"
+import type { MemoryStoreSearchOptions } from "../src/memory/MemoryStore"
+import {
+  formatTranscriptMessages,
+  parseSessionTranscriptSource,
+  SessionTranscriptIndexer,
+  sessionTranscriptSource,
+} from "../src/memory/SessionTranscripts"
+import {
+  MemoryService,
+  deleteSessionTranscripts,
+  getSessionTranscriptIndexer,
+} from "../src/memory/MemoryService"
+import { resetGlobalConfig } from "../src/config"
+
+class FakeStore implements MemorySyncTarget {
+  indexed: Array<{ source: string; content: string }> = []
+  removed: string[] = []
+  searches: MemoryStoreSearchOptions[] = []
+
+  async indexFile(source: string, content: string): Promise<number> {
+    this.indexed.push({ source, content })
+    return 1
+  }
+
+  listSources() {
+    return []
+  }
+
+  removeSource(source: string): void {
+    this.removed.push(source)
+  }
+
+  async search(_query: string, options?: MemoryStoreSearchOptions) {
+    this.searches.push(options ?? {})
+    return []
+  }
+}
+
+// The SQLite store needs bun:sqlite, which is unavailable under vitest
+const memoryStore = vi.hoisted(() => ({ current: null as unknown }))
+vi.mock("../src/memory/MemoryStore", () => ({
+  getMemoryStore: () => memoryStore.current,
+}))
+
+const message = (id: string, role: ChatMessage["role"], content: string, timestamp: number): ChatMessage => ({
+  id,
+  role,
+  content,
+  timestamp,
+})
+
+describe("session transcript sources", () => {
+  it("round-trips owners and session ids", () => {
+    expect(sessionTranscriptSource("user-1", "abc")).toBe("session:user-1/abc")
+    expect(parseSessionTranscriptSource("session:user-1/abc")).toEqual({
+      userId: "user-1",
+      sessionId: "abc",
+    })
+    expect(parseSessionTranscriptSource("MEMORY.md")).toBeNull()
+    expect(parseSessionTranscriptSource("session:")).toBeNull()
+    expect(parseSessionTranscriptSource("session:abc")).toBeNull()
+    expect(parseSessionTranscriptSource("session:user-1/")).toBeNull()
+  })
+
+  it("formats user and assistant turns and skips summaries", () => {
+    const text = formatTranscriptMessages([
+      message("s", "system", "[Conversation Summary]\nolder stuff", 0),
+      message("u1", "user", "I live in Lisbon", Date.UTC(2026, 0, 1)),
+      message("a1", "assistant", "Nice city!", Date.UTC(2026, 0, 1, 0, 0, 1)),
+    ])
+
+    expect(text).toBe(
+      "### user · 2026-01-01T00:00:00.000Z\nI live in Lisbon\n\n" +
+        "### assistant · 2026-01-01T00:00:01.000Z\nNice city!\n\n"
+    )
+  })
+})
+
+describe("SessionTranscriptIndexer", () => {
+  let dir = ""
+  let store: FakeStore
+
+  const createIndexer = (deltaMessages: number) =>
+    new SessionTranscriptIndexer({
+      agentId: "agent-1",
+      dir,
+      store,
+      config: resolveMemorySearchConfig(
+        { sync: { sessions: { deltaMessages, deltaBytes: 1_000_000 } } },
+        undefined,
+        "agent-1"
+      ),
+    })
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bibboy-transcripts-"))
+    store = new FakeStore()
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("indexes only once the message delta threshold is crossed", async () => {
+    const indexer = createIndexer(3)
+    const history = [message("u1", "user", "hello", 1000), message("a1", "assistant", "hi", 2000)]
+
+    expect(await indexer.indexSession("u", "s1", history)).toBe(false)
+    expect(store.indexed).toHaveLength(0)
+
+    history.push(message("u2", "user", "my cat is Miso", 3000))
+    expect(await indexer.indexSession("u", "s1", history)).toBe(true)
+
+    expect(store.indexed).toHaveLength(1)
+    expect(store.indexed[0].source).toBe("session:u/s1")
+    expect(store.indexed[0].content).toContain("my cat is Miso")
+  })
+
+  it("keeps compacted turns in the transcript", async () => {
+    const indexer = createIndexer(100)
+    await indexer.indexSession("u", "s1", [
+      message("u1", "user", "remember the code 4242", 1000),
+      message("a1", "assistant", "noted", 2000),
+    ])
+
+    // After compaction the live history is a summary plus recent turns
+    await indexer.indexSession(
+      "u",
+      "s1",
+      [
+        message("summary", "system", "[Conversation Summary]\nuser shared a code", 2500),
+        message("a1", "assistant", "noted", 2000),
+        message("u2", "user", "what was it?", 3000),
+      ],
+      { force: true }
+    )
+
+    const transcript = readFileSync(indexer.transcriptPath("u", "s1"), "utf-8")
+    expect(transcript.match(/^### /gm)).toHaveLength(3)
+    expect(transcript).toContain("remember the code 4242")
+    expect(transcript).not.toContain("Conversation Summary")
+    expect(store.indexed).toHaveLength(1)
+  })
+
+  it("flushes pending messages and skips sessions with nothing new", async () => {
+    const indexer = createIndexer(100)
+    await indexer.indexSession("u", "s1", [message("u1", "user", "hello", 1000)])
+
+    expect(await indexer.flushSession("s1")).toBe(true)
+    expect(await indexer.flushSession("s1")).toBe(false)
+    expect(await indexer.flushSession("unknown")).toBe(false)
+  })
+
+  it("continues a flushed session from the transcript on disk", async () => {
+    const indexer = createIndexer(100)
+    const history = [message("u1", "user", "hello", 1000), message("a1", "assistant", "hi", 2000)]
+    await indexer.indexSession("u", "s1", history)
+    expect(await indexer.flushSession("s1")).toBe(true)
+
+    await indexer.indexSession("u", "s1", [...history, message("u2", "user", "back again", 3000)])
+
+    expect(indexer.readTranscript("u", "s1")?.match(/^### /gm)).toHaveLength(3)
+    expect(await indexer.flushSession("s1")).toBe(true)
+    expect(store.indexed.at(-1)?.content).toContain("back again")
+  })
+
+  it("resumes after a restart without duplicating messages", async () => {
+    const history = [message("u1", "user", "hello", 1000), message("a1", "assistant", "hi", 2000)]
+    await createIndexer(100).indexSession("u", "s1", history)
+
+    const restarted = createIndexer(100)
+    await restarted.indexSession("u", "s1", [...history, message("u2", "user", "again", 3000)])
+
+    expect(restarted.readTranscript("u", "s1")?.match(/^### /gm)).toHaveLength(3)
+  })
+
+  it("reads transcript lines for citations", async () => {
+    const indexer = createIndexer(100)
+    await indexer.indexSession("u", "s1", [
+      message("u1", "user", "first", 1000),
+      message("a1", "assistant", "second", 2000),
+    ])
+
+    expect(indexer.readTranscript("u", "s1", 4, 2)).toBe(
+      "### assistant · 1970-01-01T00:00:02.000Z\nsecond"
+    )
+    expect(indexer.readTranscript("u", "missing")).toBeNull()
+  })
+
+  it("keeps each user's transcripts in their own directory", async () => {
+    const indexer = createIndexer(100)
+    await indexer.indexSession("alice", "s1", [message("u1", "user", "alice's secret", 1000)])
+
+    expect(indexer.transcriptPath("alice", "s1")).toBe(join(dir, "alice", "s1.md"))
+    expect(indexer.readTranscript("alice", "s1")).toContain("alice's secret")
+    expect(indexer.readTranscript("bob", "s1")).toBeNull()
+  })
+
+  it("drops the transcript file and memory source of a deleted session", async () => {
+    const indexer = createIndexer(100)
+    await indexer.indexSession("u", "s1", [message("u1", "user", "hello", 1000)], { force: true })
+
+    await indexer.deleteSession("u", "s1")
+
+    expect(existsSync(indexer.transcriptPath("u", "s1"))).toBe(false)
+    expect(store.removed).toEqual(["session:u/s1"])
+    expect(await indexer.flushSession("s1")).toBe(false)
+  })
+})
+
+describe("MemoryService session transcripts", () => {
+  let stateDir = ""
+  let store: FakeStore
+  const config = resolveMemorySearchConfig(
+    { sources: ["memory", "sessions"], experimental: { sessionMemory: true } },
+    undefined,
+    "agent-1"
+  )
+
+  beforeAll(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "bibboy-state-"))
+    process.env.AGENT_STATE_DIR = stateDir
+    resetGlobalConfig()
+  })
+
+  afterAll(() => {
+    delete process.env.AGENT_STATE_DIR
+    resetGlobalConfig()
+    rmSync(stateDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    store = new FakeStore()
+    memoryStore.current = store
+  })
+
+  it("searches memory files and only the caller's own transcripts", async () => {
+    await new MemoryService("agent-search", config, () => [], "alice").search("cats")
+    await new MemoryService("agent-search", config, () => []).search("cats")
+
+    expect(store.searches.map((options) => options.sources)).toEqual([
+      [{ exclude: ["session:"] }, { include: ["session:alice/"] }],
+      [{ exclude: ["session:"] }],
+    ])
+  })
+
+  it("refuses to read another user's transcript", async () => {
+    const indexer = getSessionTranscriptIndexer("agent-get", config)
+    await indexer?.indexSession("alice", "s1", [message("u1", "user", "alice's secret", 1000)])
+
+    const asAlice = new MemoryService("agent-get", config, () => [], "alice")
+    const asBob = new MemoryService("agent-get", config, () => [], "bob")
+    expect(asAlice.get("session:alice/s1")).toContain("alice's secret")
+    expect(asBob.get("session:alice/s1")).toBeNull()
+    expect(new MemoryService("agent-get", config, () => []).get("session:alice/s1")).toBeNull()
+  })
+
+  it("forgets a deleted session's transcripts", async () => {
+    const indexer = getSessionTranscriptIndexer("agent-delete", config)
+    await indexer?.indexSession("alice", "s1", [message("u1", "user", "hello", 1000)])
+
+    await deleteSessionTranscripts("alice", "s1", [{ id: "agent-delete", memorySearch: config }] as never)
+
+    expect(indexer?.readTranscript("alice", "s1")).toBeNull()
+    expect(store.removed).toEqual(["session:alice/s1"])
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { tmpdir } from "node:os"
+import { SoulStateStore } from "../src/services/SoulStateStore"
+import { SoulSession } from "../src/services/SoulStateService"
+
+describe("SoulStateStore", () => {
+  let tempRoot = ""
+
+  beforeEach(() => {
+    tempRoot = mkdtempSync(join(tmpdir(), "bibboy-souls-"))
+  })
+
+  afterEach(() => {
+    rmSync(tempRoot, { recursive: true, force: true })
+  })
+
+  it("returns null for unknown identities", () => {
+    const store = new SoulStateStore({ dir: tempRoot })
+    expect(store.load("user_1")).toBeNull()
+  })
+
+  it("accumulates soul state across sessions for the same identity", () => {
+    const first = new SoulSession("session-a", undefined, undefined, {
+      identity: "user_1",
+      store: new SoulStateStore({ dir: tempRoot }),
+    })
+    for (let i = 0; i < 3; i++) {
+      first.observeTrait("curious", 0.9)
+    }
+    expect(first.getState().stage).toBe("nascent")
+
+    // A fresh store simulates a server restart
+    const second = new SoulSession("session-b", undefined, undefined, {
+      identity: "user_1",
+      store: new SoulStateStore({ dir: tempRoot }),
+    })
+    const state = second.getState()
+
+    expect(state.stage).toBe("nascent")
+    expect(state.interactionCount).toBe(3)
+    expect(state.traits.curious).toBeGreaterThan(0)
+    expect(state.history).toHaveLength(1)
+  })
+
+  it("keeps sessions without an identity ephemeral", () => {
+    const session = new SoulSession("session-c")
+    session.observeTrait("calm", 0.5)
+
+    expect(session.getState().interactionCount).toBe(1)
+    expect(readdirSync(tempRoot)).toEqual([])
+  })
+
+  it("sanitizes identities into file names", () => {
+    const store = new SoulStateStore({ dir: tempRoot })
+    const session = new SoulSession("session-d", undefined, undefined, {
+      identity: "../escape",
+      store,
+    })
+    session.observeTrait("bold", 1)
+
+    expect(readdirSync(tempRoot)).toEqual(["___escape.json"])
+  })
+
+  it("ignores corrupt state files", () => {
+    writeFileSync(join(tempRoot, "user_2.json"), "{ not json", "utf-8")
+    const store = new SoulStateStore({ dir: tempRoot })
+
+    expect(store.load("user_2")).toBeNull()
+  })
+})
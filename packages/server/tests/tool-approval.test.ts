@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest"
+import { Deferred, Effect, Fiber } from "effect"
+import type { ToolApprovalRequest, ToolExecutionResult } from "@bibboy/shared"
+import { executeTools } from "../src/services/agent-service-tool-execution"
+import { makeToolApprovals } from "../src/services/chat-processor-approvals"
+import type { AgentTool, ToolApprovalHandler, ToolRegistry } from "../src/tools"
+import { makeApprovalMatcher } from "../src/tools/tool-policy"
+
+const makeTool = (name: string): AgentTool => ({
+  label: name,
+  name,
+  description: name,
+  parameters: { type: "object", properties: {} },
+  execute: vi.fn(
+    async (toolCallId: string): Promise<ToolExecutionResult> => ({
+      toolCallId,
+      content: [{ type: "text", text: JSON.stringify({ ran: name }) }],
+    })
+  ),
+})
+
+const makeRegistry = (tools: AgentTool[], requireApproval: string[]): ToolRegistry => ({
+  tools,
+  get: (name) => tools.find((tool) => tool.name === name),
+  getDefinitions: () => [],
+  requiresApproval: makeApprovalMatcher(requireApproval),
+  addTools: () => {},
+  getGroups: () => [],
+  markGroupLoaded: () => {},
+  isGroupLoaded: () => false,
+  getToolSummary: () => "",
+})
+
+describe("tool approval", () => {
+  it("asks before running tools that require approval", async () => {
+    const writeFile = makeTool("write_file")
+    const readFile = makeTool("read_file")
+    const requestApproval = vi.fn<ToolApprovalHandler>(() => Effect.succeed(true))
+
+    const results = await Effect.runPromise(
+      executeTools(
+        makeRegistry([writeFile, readFile], ["write_*"]),
+        [
+          { id: "call_1", name: "write_file", args: { path: "USER.md" } },
+          { id: "call_2", name: "read_file", args: {} },
+        ],
+        { requestApproval }
+      )
+    )
+
+    expect(requestApproval).toHaveBeenCalledTimes(1)
+    expect(requestApproval).toHaveBeenCalledWith({
+      toolCallId: "call_1",
+      toolName: "write_file",
+      args: { path: "USER.md" },
+    })
+    expect(results.map((result) => result.error)).toEqual([undefined, undefined])
+    expect(writeFile.execute).toHaveBeenCalledTimes(1)
+  })
+
+  it("returns an error result without running a denied tool", async () => {
+    const writeFile = makeTool("write_file")
+
+    const [result] = await Effect.runPromise(
+      executeTools(
+        makeRegistry([writeFile], ["write_file"]),
+        [{ id: "call_1", name: "write_file", args: {} }],
+        { requestApproval: () => Effect.succeed(false) }
+      )
+    )
+
+    expect(result.toolCallId).toBe("call_1")
+    expect(result.error).toBe("The user denied the write_file call")
+    expect(writeFile.execute).not.toHaveBeenCalled()
+  })
+
+  it("denies tools that require approval when no one can be asked", async () => {
+    const webFetch = makeTool("web_fetch")
+
+    const [result] = await Effect.runPromise(
+      executeTools(makeRegistry([webFetch], ["web_*"]), [
+        { id: "call_1", name: "web_fetch", args: {} },
+      ])
+    )
+
+    expect(result.error).toMatch(/requires user approval/)
+    expect(webFetch.execute).not.toHaveBeenCalled()
+  })
+
+  it("keeps a call waiting for approval out of the concurrency slots", async () => {
+    const writeFile = makeTool("write_file")
+    const readFile = makeTool("read_file")
+    const registry: ToolRegistry = {
+      ...makeRegistry([writeFile, readFile], ["write_file"]),
+      concurrency: { maxParallel: 1, perTool: {} },
+    }
+    const events: string[] = []
+
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const answer = yield* Deferred.make<boolean>()
+        const fiber = yield* Effect.fork(
+          executeTools(
+            registry,
+            [
+              { id: "call_1", name: "write_file", args: {} },
+              { id: "call_2", name: "read_file", args: {} },
+            ],
+            {
+              requestApproval: () => Deferred.await(answer),
+              onToolStart: (call) => Effect.sync(() => events.push(`start:${call.id}`)),
+              onToolEnd: (call) => Effect.sync(() => events.push(`end:${call.id}`)),
+            }
+          )
+        )
+
+        // The read finishes while the write still waits for the user
+        yield* Effect.promise(() => vi.waitFor(() => expect(events).toContain("end:call_2")))
+        expect(events).toEqual(["start:call_2", "end:call_2"])
+
+        yield* Deferred.succeed(answer, true)
+        return yield* Fiber.join(fiber)
+      })
+    )
+
+    expect(results.map((result) => result.error)).toEqual([undefined, undefined])
+    expect(events).toEqual(["start:call_2", "end:call_2", "start:call_1", "end:call_1"])
+  })
+})
+
+describe("pending tool approvals", () => {
+  const request = (approvalId: string): ToolApprovalRequest => ({
+    approvalId,
+    toolCallId: `call_${approvalId}`,
+    toolName: "write_file",
+    arguments: {},
+  })
+
+  it("resolves a wait with the user's answer", async () => {
+    const answered = await Effect.runPromise(
+      Effect.gen(function* () {
+        const approvals = yield* makeToolApprovals()
+        const fiber = yield* Effect.fork(approvals.wait("s1", request("a1"), Effect.void))
+        yield* Effect.yieldNow()
+
+        const wrongSession = yield* approvals.resolve("s2", "a1", true)
+        const resolved = yield* approvals.resolve("s1", "a1", true)
+        const approved = yield* Fiber.join(fiber)
+        return { wrongSession, resolved, approved, left: yield* approvals.list("s1") }
+      })
+    )
+
+    expect(answered).toEqual({ wrongSession: false, resolved: true, approved: true, left: [] })
+  })
+
+  it("denies a call nobody answers before the timeout", async () => {
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const approvals = yield* makeToolApprovals("20 millis")
+        const approved = yield* approvals.wait("s1", request("a1"), Effect.void)
+        return { approved, left: yield* approvals.list("s1") }
+      })
+    )
+
+    expect(result).toEqual({ approved: false, left: [] })
+  })
+
+  it("denies waiting calls when their session disconnects or goes away", async () => {
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const approvals = yield* makeToolApprovals()
+        const disconnected = yield* Effect.fork(approvals.wait("s1", request("a1"), Effect.void))
+        const expired = yield* Effect.fork(approvals.wait("s2", request("a2"), Effect.void))
+        const live = yield* Effect.fork(approvals.wait("s3", request("a3"), Effect.void))
+        yield* Effect.yieldNow()
+
+        const deniedOnDisconnect = yield* approvals.denyAll("s1")
+        const deniedOnCleanup = yield* approvals.prune(["s1", "s3"])
+        const stillWaiting = yield* approvals.list("s3")
+        yield* Fiber.interrupt(live)
+
+        return {
+          deniedOnDisconnect,
+          deniedOnCleanup,
+          answers: [yield* Fiber.join(disconnected), yield* Fiber.join(expired)],
+          stillWaiting: stillWaiting.map((waiting) => waiting.approvalId),
+        }
+      })
+    )
+
+    expect(result).toEqual({
+      deniedOnDisconnect: 1,
+      deniedOnCleanup: 1,
+      answers: [false, false],
+      stillWaiting: ["a3"],
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+import { Effect } from "effect"
+import type { ToolExecutionResult } from "@bibboy/shared"
+import {
+  buildToolAuditQuery,
+  sanitizeAuditArgs,
+  DEFAULT_AUDIT_QUERY_LIMIT,
+  MAX_AUDIT_QUERY_LIMIT,
+} from "../src/audit/tool-audit-query"
+import { executeTools } from "../src/services/agent-service-tool-execution"
+import type { AgentTool, ToolCallRecord, ToolRegistry } from "../src/tools"
+
+describe("sanitizeAuditArgs", () => {
+  it("redacts secret-looking keys at any depth", () => {
+    expect(
+      sanitizeAuditArgs({
+        url: "https://example.com",
+        apiKey: "sk-123",
+        headers: { Authorization: "Bearer abc", accept: "text/html" },
+        items: [{ password: "hunter2" }],
+      })
+    ).toEqual({
+      url: "https://example.com",
+      apiKey: "[redacted]",
+      headers: { Authorization: "[redacted]", accept: "text/html" },
+      items: [{ password: "[redacted]" }],
+    })
+  })
+
+  it("truncates long strings and collapses deep nesting", () => {
+    const sanitized = sanitizeAuditArgs({
+      content: "x".repeat(600),
+      a: { b: { c: { d: { e: { f: 1 } } } } },
+    })
+    expect(sanitized.content).toBe(`${"x".repeat(500)}… [100 more chars]`)
+    expect(sanitized.a).toEqual({ b: { c: { d: { e: "[nested]" } } } })
+  })
+})
+
+describe("buildToolAuditQuery", () => {
+  it("returns the newest calls with the default limit", () => {
+    expect(buildToolAuditQuery()).toEqual({
+      sql: "SELECT * FROM tool_audit ORDER BY created_at DESC, id DESC LIMIT ?",
+      params: [DEFAULT_AUDIT_QUERY_LIMIT],
+    })
+  })
+
+  it("combines filters and matches arguments literally", () => {
+    const { sql, params } = buildToolAuditQuery({
+      sessionId: "s1",
+      toolName: "web_fetch",
+      status: "error",
+      search: "100%_done",
+      since: 10,
+      until: 20,
+      limit: 5,
+    })
+    expect(sql).toBe(
+      "SELECT * FROM tool_audit WHERE session_id = ? AND tool_name = ? AND error IS NOT NULL" +
+        " AND args LIKE ? ESCAPE '\\' AND created_at >= ? AND created_at < ?" +
+        " ORDER BY created_at DESC, id DESC LIMIT ?"
+    )
+    expect(params).toEqual(["s1", "web_fetch", "%100\\%\\_done%", 10, 20, 5])
+  })
+
+  it("turns tool name wildcards into LIKE patterns and caps the limit", () => {
+    const { sql, params } = buildToolAuditQuery({ toolName: "mcp__*", status: "ok", limit: 10_000 })
+    expect(sql).toContain("tool_name LIKE ? ESCAPE '\\' AND error IS NULL")
+    expect(params).toEqual(["mcp\\_\\_%", MAX_AUDIT_QUERY_LIMIT])
+  })
+
+  it("scopes the query to a set of sessions", () => {
+    const scoped = buildToolAuditQuery({ sessionIds: ["s1", "s2"] })
+    expect(scoped.sql).toBe(
+      "SELECT * FROM tool_audit WHERE session_id IN (?, ?) ORDER BY created_at DESC, id DESC LIMIT ?"
+    )
+    expect(scoped.params).toEqual(["s1", "s2", DEFAULT_AUDIT_QUERY_LIMIT])
+
+    const empty = buildToolAuditQuery({ sessionIds: [] })
+    expect(empty.sql).toBe("SELECT * FROM tool_audit WHERE 0 ORDER BY created_at DESC, id DESC LIMIT ?")
+  })
+})
+
+describe("executeTools audit hook", () => {
+  it("records finished and unknown calls with their results", async () => {
+    const tool: AgentTool = {
+      label: "echo",
+      name: "echo",
+      description: "echo",
+      parameters: { type: "object", properties: {} },
+      execute: async (toolCallId): Promise<ToolExecutionResult> => ({
+        toolCallId,
+        content: [{ type: "text", text: "hello" }],
+      }),
+    }
+    const registry: ToolRegistry = {
+      tools: [tool],
+      get: (name) => (name === "echo" ? tool : undefined),
+      getDefinitions: () => [],
+      addTools: () => {},
+      getGroups: () => [],
+      markGroupLoaded: () => {},
+      isGroupLoaded: () => false,
+      getToolSummary: () => "",
+    }
+    const records: ToolCallRecord[] = []
+
+    await Effect.runPromise(
+      executeTools(
+        registry,
+        [
+          { id: "a", name: "echo", args: { text: "hi" } },
+          { id: "b", name: "missing", args: {} },
+        ],
+        { recordToolCall: (record) => records.push(record) }
+      )
+    )
+
+    // Calls run concurrently, so records arrive in completion order
+    records.sort((a, b) => a.call.id.localeCompare(b.call.id))
+    expect(records.map((record) => [record.call.id, record.result.error])).toEqual([
+      ["a", undefined],
+      ["b", "Unknown tool: missing"],
+    ])
+    expect(records[0].result.content[0].text).toBe("hello")
+    expect(records[0].durationMs).toBeGreaterThanOrEqual(0)
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest"
+import { Effect, Stream } from "effect"
+import type { AgentStreamEvent, ToolExecutionResult } from "@bibboy/shared"
+import type { ModelClient, ModelMessage } from "@bibboy/agent-runtime"
+import { executeTools } from "../src/services/agent-service-tool-execution"
+import { orchestrateAgentStreamIterations } from "../src/services/agent-service-stream-orchestrator"
+import { getToolResourceKey } from "../src/tools/tool-concurrency"
+import type { AgentTool, ToolRegistry } from "../src/tools"
+import type { ResolvedToolConcurrency } from "../src/agents/AgentConfig"
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** Records when each call starts and ends, and the peak number in flight */
+function createTracker() {
+  const log: string[] = []
+  let running = 0
+  let peak = 0
+
+  const makeTool = (name: string, durationMs: (args: Record<string, unknown>) => number): AgentTool => ({
+    label: name,
+    name,
+    description: name,
+    parameters: { type: "object", properties: {} },
+    execute: async (toolCallId, args): Promise<ToolExecutionResult> => {
+      running++
+      peak = Math.max(peak, running)
+      log.push(`start:${toolCallId}`)
+      await sleep(durationMs(args))
+      log.push(`end:${toolCallId}`)
+      running--
+      return { toolCallId, content: [{ type: "text", text: toolCallId }] }
+    },
+  })
+
+  return { log, makeTool, peak: () => peak }
+}
+
+const makeRegistry = (tools: AgentTool[], concurrency?: ResolvedToolConcurrency): ToolRegistry => ({
+  tools,
+  get: (name) => tools.find((tool) => tool.name === name),
+  getDefinitions: () => [],
+  concurrency,
+  addTools: () => {},
+  getGroups: () => [],
+  markGroupLoaded: () => {},
+  isGroupLoaded: () => false,
+  getToolSummary: () => "",
+})
+
+describe("executeTools concurrency", () => {
+  it("runs calls concurrently and returns results in call order", async () => {
+    const tracker = createTracker()
+    const fetch = tracker.makeTool("web_fetch", (args) => Number(args.ms))
+
+    const results = await Effect.runPromise(
+      executeTools(makeRegistry([fetch], { maxParallel: 4, perTool: {} }), [
+        { id: "slow", name: "web_fetch", args: { ms: 60 } },
+        { id: "fast", name: "web_fetch", args: { ms: 10 } },
+      ])
+    )
+
+    expect(results.map((result) => result.toolCallId)).toEqual(["slow", "fast"])
+    expect(tracker.log).toEqual(["start:slow", "start:fast", "end:fast", "end:slow"])
+  })
+
+  it("applies the global and per-tool limits", async () => {
+    const tracker = createTracker()
+    const fetch = tracker.makeTool("web_fetch", () => 10)
+    const calls = ["a", "b", "c", "d", "e"].map((id) => ({ id, name: "web_fetch", args: {} }))
+
+    await Effect.runPromise(
+      executeTools(makeRegistry([fetch], { maxParallel: 4, perTool: { "web_*": 2 } }), calls)
+    )
+    expect(tracker.peak()).toBe(2)
+
+    const serial = createTracker()
+    await Effect.runPromise(
+      executeTools(
+        makeRegistry([serial.makeTool("web_fetch", () => 5)], { maxParallel: 1, perTool: {} }),
+        calls
+      )
+    )
+    expect(serial.peak()).toBe(1)
+  })
+
+  it("serializes writes to the same file in call order", async () => {
+    const tracker = createTracker()
+    const write = tracker.makeTool("write_file", (args) => (args.filename === "other.md" ? 5 : 20))
+
+    await Effect.runPromise(
+      executeTools(makeRegistry([write]), [
+        { id: "first", name: "write_file", args: { filename: "notes.md" } },
+        { id: "second", name: "write_file", args: { filename: " notes.md" } },
+        { id: "other", name: "write_file", args: { filename: "other.md" } },
+      ])
+    )
+
+    expect(tracker.log.indexOf("end:first")).toBeLessThan(tracker.log.indexOf("start:second"))
+    expect(tracker.log.indexOf("start:other")).toBeLessThan(tracker.log.indexOf("end:first"))
+    expect(getToolResourceKey({ id: "x", name: "read_file", args: { filename: "notes.md" } })).toBeNull()
+  })
+
+  it("reports starts and ends as they happen", async () => {
+    const tracker = createTracker()
+    const fetch = tracker.makeTool("web_fetch", (args) => Number(args.ms))
+    const events: string[] = []
+
+    await Effect.runPromise(
+      executeTools(
+        makeRegistry([fetch], { maxParallel: 1, perTool: {} }),
+        [
+          { id: "a", name: "web_fetch", args: { ms: 10 } },
+          { id: "b", name: "web_fetch", args: { ms: 10 } },
+        ],
+        {
+          onToolStart: (call) => Effect.sync(() => events.push(`start:${call.id}`)),
+          onToolEnd: (call) => Effect.sync(() => events.push(`end:${call.id}`)),
+        }
+      )
+    )
+
+    // With one slot the second call only starts once the first has ended
+    expect(events).toEqual(["start:a", "end:a", "start:b", "end:b"])
+  })
+})
+
+describe("orchestrateAgentStreamIterations with parallel tools", () => {
+  it("streams tool events as calls overlap and answers the model in call order", async () => {
+    const tracker = createTracker()
+    const fetch = tracker.makeTool("web_fetch", (args) => Number(args.ms))
+    const requests: ModelMessage[][] = []
+    const client: ModelClient = {
+      provider: "test",
+      generate: () => Effect.fail(new Error("not used")),
+      stream: (request) => {
+        requests.push([...request.messages])
+        return requests.length === 1
+          ? Stream.fromIterable<AgentStreamEvent>([
+              { type: "tool_start", toolCallId: "slow", toolName: "web_fetch", arguments: { ms: 60 } },
+              { type: "tool_start", toolCallId: "fast", toolName: "web_fetch", arguments: { ms: 10 } },
+            ])
+          : Stream.fromIterable<AgentStreamEvent>([{ type: "text_delta", delta: "Done" }])
+      },
+    }
+
+    const events = await Effect.runPromise(
+      Stream.runCollect(
+        orchestrateAgentStreamIterations({
+          modelClient: { client, model: "test" },
+          model: "test/test",
+          enableTools: true,
+          toolRegistry: makeRegistry([fetch], { maxParallel: 4, perTool: {} }),
+          initialMessages: [{ role: "user", content: "Fetch both" }],
+          systemInstruction: "",
+          agentId: "agent-1",
+          maxToolIterations: 3,
+          softLimitIterations: 2,
+          toolTimeoutMs: 5_000,
+          deps: {
+            compactToolResultsFn: async (calls, results) =>
+              calls.map((call, index) => ({
+                role: "tool" as const,
+                toolCallId: call.id,
+                name: call.name,
+                content: results[index].content[0].text,
+              })),
+          },
+        })
+      )
+    )
+
+    expect(
+      [...events].flatMap((event) =>
+        event.type === "tool_start" || event.type === "tool_end"
+          ? [`${event.type}:${event.toolCallId}`]
+          : []
+      )
+    ).toEqual(["tool_start:slow", "tool_start:fast", "tool_end:fast", "tool_end:slow"])
+
+    const toolMessages = requests[1].filter((message) => message.role === "tool")
+    expect(toolMessages.map((message) => message.toolCallId)).toEqual(["slow", "fast"])
+  })
+})
@@ -4,10 +4,15 @@ import {
   compilePatterns,
   matchesAny,
   makeToolPolicyMatcher,
+  makeApprovalMatcher,
+  mcpGroupName,
   expandToolGroups,
   filterToolsByPolicy,
   resolveEffectivePolicy,
   resolveProfileAllowList,
+  resolveModelToolPolicy,
+  resolveProviderPolicy,
+  parseModelRef,
   TOOL_GROUPS,
   TOOL_PROFILES,
 } from "../src/tools/tool-policy"
@@ -259,6 +264,72 @@ describe("resolveEffectivePolicy", () => {
   })
 })
 
+// ============================================================================
+// Per-provider policies (tools.byProvider)
+// ============================================================================
+
+describe("parseModelRef", () => {
+  it("splits provider-prefixed models", () => {
+    expect(parseModelRef("openai/gpt-4o-mini")).toEqual({ provider: "openai", modelId: "gpt-4o-mini" })
+  })
+
+  it("treats bare model ids as Gemini", () => {
+    expect(parseModelRef("gemini-2.0-flash")).toEqual({ provider: "gemini", modelId: "gemini-2.0-flash" })
+  })
+})
+
+describe("resolveProviderPolicy", () => {
+  const byProvider = {
+    gemini: { deny: ["web_fetch"] },
+    "gemini-2.0-flash-lite": { profile: "minimal" as const },
+    "OpenAI/gpt-4o-mini": { allow: ["memory_search"] },
+  }
+
+  it("prefers provider/model over model over provider keys", () => {
+    expect(resolveProviderPolicy(byProvider, "openai/gpt-4o-mini")).toEqual({ allow: ["memory_search"] })
+    expect(resolveProviderPolicy(byProvider, "gemini-2.0-flash-lite")).toEqual({ profile: "minimal" })
+    expect(resolveProviderPolicy(byProvider, "gemini-3-flash-preview")).toEqual({ deny: ["web_fetch"] })
+  })
+
+  it("returns undefined when no block applies", () => {
+    expect(resolveProviderPolicy(byProvider, "openai/gpt-4o")).toBeUndefined()
+    expect(resolveProviderPolicy({}, "gemini-3-flash-preview")).toBeUndefined()
+  })
+})
+
+describe("resolveModelToolPolicy", () => {
+  const tools = {
+    profile: "coding",
+    allow: [],
+    alsoAllow: [],
+    deny: [],
+    byProvider: { "gemini-2.0-flash-lite": { profile: "minimal" as const, deny: ["memory_get"] } },
+  }
+
+  it("uses the agent policy when the model has no provider block", () => {
+    const policy = resolveModelToolPolicy(tools, "gemini-3-flash-preview")
+    expect(policy("web_search")).toBe(true)
+    expect(policy("memory_get")).toBe(true)
+    expect(policy("canvas_undo")).toBe(false)
+  })
+
+  it("narrows the agent policy with the provider block", () => {
+    const policy = resolveModelToolPolicy(tools, "gemini-2.0-flash-lite")
+    expect(policy("memory_search")).toBe(true)
+    expect(policy("memory_get")).toBe(false)
+    expect(policy("web_search")).toBe(false)
+  })
+
+  it("never widens the agent policy", () => {
+    const policy = resolveModelToolPolicy(
+      { ...tools, byProvider: { gemini: { allow: ["canvas_undo", "web_search"] } } },
+      "gemini-3-flash-preview"
+    )
+    expect(policy("canvas_undo")).toBe(false)
+    expect(policy("web_search")).toBe(true)
+  })
+})
+
 // ============================================================================
 // filterToolsByPolicy
 // ============================================================================
@@ -341,3 +412,45 @@ describe("ToolExecutionMetrics", () => {
     expect(metrics.getSummary()).toBe("")
   })
 })
+
+describe("makeApprovalMatcher", () => {
+  it("matches exact names, wildcards and groups", () => {
+    const needsApproval = makeApprovalMatcher(["write_file", "web_*", "group:canvas"])
+    expect(needsApproval("write_file")).toBe(true)
+    expect(needsApproval("web_fetch")).toBe(true)
+    expect(needsApproval("canvas_reset_character")).toBe(true)
+    expect(needsApproval("read_file")).toBe(false)
+  })
+
+  it("requires no approval when the list is empty", () => {
+    expect(makeApprovalMatcher([])("write_file")).toBe(false)
+  })
+})
+
+describe("MCP groups", () => {
+  it("matches every MCP tool with group:mcp", () => {
+    const allowed = makeToolPolicyMatcher({ allow: ["group:mcp"] })
+    expect(allowed("mcp__github__create_issue")).toBe(true)
+    expect(allowed("mcp__files__read")).toBe(true)
+    expect(allowed("web_fetch")).toBe(false)
+  })
+
+  it("matches one server's tools with group:mcp:<name>", () => {
+    const allowed = makeToolPolicyMatcher({ allow: ["group:core", "group:mcp:GitHub"] })
+    expect(allowed("mcp__github__create_issue")).toBe(true)
+    expect(allowed("mcp__github-enterprise__create_issue")).toBe(false)
+    expect(allowed("mcp__files__read")).toBe(false)
+    expect(allowed("memory_search")).toBe(true)
+  })
+
+  it("denies a server's tools and requires approval for them", () => {
+    const allowed = makeToolPolicyMatcher({ deny: ["group:mcp:files"] })
+    expect(allowed("mcp__files__delete")).toBe(false)
+    expect(allowed("mcp__github__create_issue")).toBe(true)
+    expect(makeApprovalMatcher(["group:mcp:files"])("mcp__files__delete")).toBe(true)
+  })
+
+  it("names the group after the normalized server name", () => {
+    expect(mcpGroupName("My Server")).toBe("mcp:my-server")
+  })
+})
@@ -27,10 +27,17 @@ export {
   RateLimitError,
   ChatErrorSchema,
   RateLimitErrorSchema,
+  createConversationTree,
+  getActivePath,
+  appendToConversation,
+  getMessageBranch,
+  selectConversationBranch,
 } from "./schemas/chat"
 export type {
   MessageRole,
   ChatMessage,
+  ConversationTree,
+  MessageBranch,
   SearchResult,
   ToolResult,
   ChatRequest,
@@ -71,12 +78,16 @@ export {
   WorkspaceFileSchema,
   WorkspaceFilesResponseSchema,
   WorkspaceFileResponseSchema,
+  ToolAuditEntrySchema,
+  ToolAuditResponseSchema,
   // API error schemas
   ApiKeyNotConfiguredErrorSchema,
   ValidationErrorSchema,
+  UnauthorizedErrorSchema,
   FileNotFoundErrorSchema,
   FileNotFoundError,
   ValidationError,
+  UnauthorizedError,
 } from "./schemas/agent"
 export type {
   ToolParameter,
@@ -100,9 +111,12 @@ export type {
   WorkspaceFileInfo,
   WorkspaceFilesResponse,
   WorkspaceFileResponse,
+  ToolAuditEntry,
+  ToolAuditResponse,
   // API error types
   ApiKeyNotConfiguredErrorSchemaType,
   ValidationErrorSchemaType,
+  UnauthorizedErrorSchemaType,
   FileNotFoundErrorSchemaType,
 } from "./schemas/agent"
 
@@ -160,6 +174,10 @@ export {
   getToolStatusColor,
   resolveToolDisplay,
   formatToolSummary,
+  MCP_TOOL_PREFIX,
+  normalizeMcpServerName,
+  toMcpToolName,
+  parseMcpToolName,
 } from "./schemas/toolDisplay"
 export type { ToolDisplayConfig, ResolvedToolDisplay } from "./schemas/toolDisplay"
 
@@ -278,12 +296,48 @@ export type {
   SoulStateSnapshotPayload,
 } from "./schemas/soul"
 
+// Session management API schemas
+export {
+  SessionSummarySchema,
+  SessionListResponseSchema,
+  SessionTranscriptResponseSchema,
+  SessionRenameRequestSchema,
+  SessionForkRequestSchema,
+  SessionResponseSchema,
+  SessionDeleteResponseSchema,
+  SessionNotFoundErrorSchema,
+  SessionExportSchema,
+  SESSION_EXPORT_FORMATS,
+} from "./schemas/session"
+export type {
+  SessionSummary,
+  SessionListResponse,
+  SessionTranscriptResponse,
+  SessionRenameRequest,
+  SessionForkRequest,
+  SessionResponse,
+  SessionDeleteResponse,
+  SessionNotFoundErrorSchemaType,
+  SessionExport,
+  SessionExportFormat,
+} from "./schemas/session"
+
 // WebSocket schemas and types
 export {
   // JSON-RPC base
   JsonRpcVersionSchema,
+  // Message queue
+  QueuedMessageSchema,
+  ChatSendResultSchema,
+  ToolApprovalRequestSchema,
   // Client messages
   ChatSendRequestSchema,
+  ChatEditRequestSchema,
+  ChatRegenerateRequestSchema,
+  ChatSelectBranchRequestSchema,
+  ChatQueueRemoveRequestSchema,
+  ChatToolApproveRequestSchema,
+  ChatToolDenyRequestSchema,
   ChatCancelRequestSchema,
   PingRequestSchema,
   ClientMessageSchema,
@@ -301,11 +355,17 @@ export {
   ErrorNotificationSchema,
   CompactingNotificationSchema,
   SessionResumedNotificationSchema,
+  SessionPresenceNotificationSchema,
+  SessionSnapshotNotificationSchema,
+  QueueUpdatedNotificationSchema,
+  ToolApprovalRequestNotificationSchema,
   PoseChangeNotificationSchema,
   CanvasStatePatchNotificationSchema,
   CanvasStateSnapshotNotificationSchema,
   SoulStageChangeNotificationSchema,
   SoulStateSnapshotNotificationSchema,
+  TaskSuggestionSchema,
+  TasksSuggestedNotificationSchema,
   ServerNotificationSchema,
   ServerMessageSchema,
   // Session types
@@ -316,9 +376,19 @@ export {
   InvalidMessageError,
   SessionExpiredError,
   JSON_RPC_ERRORS,
+  WS_CLOSE_CODES,
 } from "./schemas/websocket"
 export type {
+  QueuedMessage,
+  ChatSendResult,
+  ToolApprovalRequest,
   ChatSendRequest,
+  ChatEditRequest,
+  ChatRegenerateRequest,
+  ChatSelectBranchRequest,
+  ChatQueueRemoveRequest,
+  ChatToolApproveRequest,
+  ChatToolDenyRequest,
   ChatCancelRequest,
   PingRequest,
   ClientMessage,
@@ -334,11 +404,17 @@ export type {
   ErrorNotification,
   CompactingNotification,
   SessionResumedNotification,
+  SessionPresenceNotification,
+  SessionSnapshotNotification,
+  QueueUpdatedNotification,
+  ToolApprovalRequestNotification,
   PoseChangeNotification,
   CanvasStatePatchNotification,
   CanvasStateSnapshotNotification,
   SoulStageChangeNotification,
   SoulStateSnapshotNotification,
+  TaskSuggestion,
+  TasksSuggestedNotification,
   ServerNotification,
   ServerMessage,
   SessionToolCall,
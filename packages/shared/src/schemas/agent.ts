@@ -338,6 +338,35 @@ export const WorkspaceFileResponseSchema = Schema.Struct({
 
 export type WorkspaceFileResponse = Schema.Schema.Type<typeof WorkspaceFileResponseSchema>
 
+/**
+ * Schema for one recorded tool invocation in the audit log.
+ */
+export const ToolAuditEntrySchema = Schema.Struct({
+  id: Schema.Number,
+  sessionId: Schema.NullOr(Schema.String),
+  agentId: Schema.String,
+  toolCallId: Schema.String,
+  toolName: Schema.String,
+  /** Arguments with secrets redacted and long values truncated */
+  arguments: StringKeyedMap,
+  durationMs: Schema.Number,
+  error: Schema.NullOr(Schema.String),
+  /** Characters of result text returned to the model */
+  resultSize: Schema.Number,
+  createdAt: Schema.Number,
+})
+
+export type ToolAuditEntry = Schema.Schema.Type<typeof ToolAuditEntrySchema>
+
+/**
+ * Schema for tool audit log API response (newest first).
+ */
+export const ToolAuditResponseSchema = Schema.Struct({
+  entries: Schema.Array(ToolAuditEntrySchema),
+})
+
+export type ToolAuditResponse = Schema.Schema.Type<typeof ToolAuditResponseSchema>
+
 // ============================================================================
 // API Error Schemas
 // ============================================================================
@@ -362,6 +391,16 @@ export const ValidationErrorSchema = Schema.Struct({
 
 export type ValidationErrorSchemaType = Schema.Schema.Type<typeof ValidationErrorSchema>
 
+/**
+ * Schema for unauthorized error response (missing or wrong credentials).
+ */
+export const UnauthorizedErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("UnauthorizedError"),
+  error: Schema.String,
+})
+
+export type UnauthorizedErrorSchemaType = Schema.Schema.Type<typeof UnauthorizedErrorSchema>
+
 /**
  * Schema for file not found error response.
  */
@@ -385,3 +424,10 @@ export class FileNotFoundError extends Data.TaggedError("FileNotFoundError")<{
 export class ValidationError extends Data.TaggedError("ValidationError")<{
   readonly error: string
 }> {}
+
+/**
+ * Tagged error for requests without valid credentials.
+ */
+export class UnauthorizedError extends Data.TaggedError("UnauthorizedError")<{
+  readonly error: string
+}> {}
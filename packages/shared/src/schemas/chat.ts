@@ -17,16 +17,141 @@ export type MessageRole = Schema.Schema.Type<typeof MessageRoleSchema>
 
 /**
  * A single chat message.
+ * `parentId` links the message into a conversation tree (null for a root).
+ * Flat histories omit it and are linked in order.
  */
 export const ChatMessageSchema = Schema.Struct({
   id: Schema.String,
   role: MessageRoleSchema,
   content: Schema.String,
   timestamp: Schema.Number,
+  parentId: Schema.optional(Schema.NullOr(Schema.String)),
 })
 
 export type ChatMessage = Schema.Schema.Type<typeof ChatMessageSchema>
 
+// ============================================================================
+// Conversation Tree
+// ============================================================================
+
+/**
+ * All messages of a conversation, including alternate branches created by
+ * edits and regenerations, plus the leaf of the branch being shown.
+ * Messages are kept in insertion order.
+ */
+export interface ConversationTree {
+  readonly messages: readonly ChatMessage[]
+  readonly activeLeafId: string | null
+}
+
+/** Position of a message among its alternatives (siblings with the same parent) */
+export interface MessageBranch {
+  /** Zero-based index of the message among its siblings */
+  readonly index: number
+  /** Number of alternatives, including the message itself */
+  readonly count: number
+  /** Sibling message IDs, oldest first */
+  readonly siblingIds: readonly string[]
+}
+
+/**
+ * Build a tree from messages, linking any message without a `parentId`
+ * to the message before it. The last message becomes the active leaf
+ * unless one is given.
+ */
+export function createConversationTree(
+  messages: readonly ChatMessage[],
+  activeLeafId?: string | null
+): ConversationTree {
+  const linked = messages.map((message, index) =>
+    message.parentId === undefined
+      ? { ...message, parentId: index === 0 ? null : messages[index - 1].id }
+      : message
+  )
+  return {
+    messages: linked,
+    activeLeafId: activeLeafId ?? linked.at(-1)?.id ?? null,
+  }
+}
+
+/**
+ * Messages from the root to the active leaf: the conversation as shown
+ * and as sent to the model.
+ */
+export function getActivePath(
+  tree: ConversationTree,
+  leafId: string | null = tree.activeLeafId
+): ChatMessage[] {
+  const byId = new Map(tree.messages.map((message) => [message.id, message]))
+  const path: ChatMessage[] = []
+  const seen = new Set<string>()
+
+  let current = leafId ? byId.get(leafId) : undefined
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.push(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+
+  return path.reverse()
+}
+
+/**
+ * Add a message as a child of the active leaf and make it the new leaf.
+ */
+export function appendToConversation(
+  tree: ConversationTree,
+  message: ChatMessage
+): ConversationTree {
+  return {
+    messages: [...tree.messages, { ...message, parentId: tree.activeLeafId }],
+    activeLeafId: message.id,
+  }
+}
+
+/**
+ * Position of a message among its siblings.
+ */
+export function getMessageBranch(
+  tree: ConversationTree,
+  messageId: string
+): MessageBranch | null {
+  const message = tree.messages.find((m) => m.id === messageId)
+  if (!message) return null
+
+  const parentId = message.parentId ?? null
+  const siblingIds = tree.messages
+    .filter((m) => (m.parentId ?? null) === parentId)
+    .map((m) => m.id)
+
+  return { index: siblingIds.indexOf(messageId), count: siblingIds.length, siblingIds }
+}
+
+/**
+ * Make the branch through `messageId` active. The new leaf is found by
+ * following the most recent child from that message down.
+ */
+export function selectConversationBranch(
+  tree: ConversationTree,
+  messageId: string
+): ConversationTree {
+  const latestChild = new Map<string, string>()
+  for (const message of tree.messages) {
+    if (message.parentId) latestChild.set(message.parentId, message.id)
+  }
+
+  let leafId = messageId
+  const seen = new Set<string>([leafId])
+  let next = latestChild.get(leafId)
+  while (next && !seen.has(next)) {
+    seen.add(next)
+    leafId = next
+    next = latestChild.get(leafId)
+  }
+
+  return { ...tree, activeLeafId: leafId }
+}
+
 // ============================================================================
 // Tool Calls (for web search, etc.)
 // ============================================================================
@@ -0,0 +1,129 @@
+import { Schema } from "effect"
+import { CanvasCharacterBlueprintSchema } from "./canvas"
+import { ChatMessageSchema } from "./chat"
+import { SoulStageSchema, SoulStateSchema } from "./soul"
+import { SessionToolCallSchema } from "./websocket"
+
+// ============================================================================
+// Session Management API
+// ============================================================================
+
+/**
+ * Session metadata for listings.
+ */
+export const SessionSummarySchema = Schema.Struct({
+  sessionId: Schema.String,
+  /** User-assigned title, null until renamed */
+  title: Schema.NullOr(Schema.String),
+  /** Agent of the most recent message, null before the first message */
+  agentId: Schema.NullOr(Schema.String),
+  messageCount: Schema.Number,
+  lastActivity: Schema.Number,
+  /** Companion soul stage, null when no soul state exists yet */
+  soulStage: Schema.NullOr(SoulStageSchema),
+  /** Whether a WebSocket is currently attached */
+  connected: Schema.Boolean,
+})
+
+export type SessionSummary = Schema.Schema.Type<typeof SessionSummarySchema>
+
+/**
+ * Schema for GET /api/sessions response.
+ */
+export const SessionListResponseSchema = Schema.Struct({
+  sessions: Schema.Array(SessionSummarySchema),
+})
+
+export type SessionListResponse = Schema.Schema.Type<typeof SessionListResponseSchema>
+
+/**
+ * Schema for GET /api/sessions/:sessionId response.
+ */
+export const SessionTranscriptResponseSchema = Schema.Struct({
+  session: SessionSummarySchema,
+  messages: Schema.Array(ChatMessageSchema),
+})
+
+export type SessionTranscriptResponse = Schema.Schema.Type<typeof SessionTranscriptResponseSchema>
+
+/**
+ * Schema for PATCH /api/sessions/:sessionId payload.
+ */
+export const SessionRenameRequestSchema = Schema.Struct({
+  title: Schema.String,
+})
+
+export type SessionRenameRequest = Schema.Schema.Type<typeof SessionRenameRequestSchema>
+
+/**
+ * Schema for POST /api/sessions/:sessionId/fork payload.
+ * The fork keeps messages up to and including `messageId`.
+ */
+export const SessionForkRequestSchema = Schema.Struct({
+  messageId: Schema.String,
+})
+
+export type SessionForkRequest = Schema.Schema.Type<typeof SessionForkRequestSchema>
+
+/**
+ * Schema for single-session responses (rename, fork).
+ */
+export const SessionResponseSchema = Schema.Struct({
+  session: SessionSummarySchema,
+})
+
+export type SessionResponse = Schema.Schema.Type<typeof SessionResponseSchema>
+
+/**
+ * Schema for DELETE /api/sessions/:sessionId response.
+ */
+export const SessionDeleteResponseSchema = Schema.Struct({
+  deleted: Schema.Boolean,
+})
+
+export type SessionDeleteResponse = Schema.Schema.Type<typeof SessionDeleteResponseSchema>
+
+/**
+ * Schema for session not found error response.
+ */
+export const SessionNotFoundErrorSchema = Schema.Struct({
+  _tag: Schema.Literal("SessionNotFoundError"),
+  sessionId: Schema.String,
+})
+
+export type SessionNotFoundErrorSchemaType = Schema.Schema.Type<typeof SessionNotFoundErrorSchema>
+
+// ============================================================================
+// Session Export / Import
+// ============================================================================
+
+/**
+ * Formats for GET /api/sessions/:sessionId/export.
+ */
+export const SESSION_EXPORT_FORMATS = ["json", "markdown"] as const
+export type SessionExportFormat = (typeof SESSION_EXPORT_FORMATS)[number]
+
+/**
+ * Portable snapshot of a session: the JSON export, and the payload for
+ * POST /api/sessions/import.
+ */
+export const SessionExportSchema = Schema.Struct({
+  /** Export format version */
+  version: Schema.Literal(1),
+  exportedAt: Schema.Number,
+  session: Schema.Struct({
+    sessionId: Schema.String,
+    title: Schema.NullOr(Schema.String),
+    agentId: Schema.NullOr(Schema.String),
+    createdAt: Schema.Number,
+    lastActivity: Schema.Number,
+  }),
+  messages: Schema.Array(ChatMessageSchema),
+  toolCalls: Schema.Array(SessionToolCallSchema),
+  /** Companion canvas blueprint, null when the session never built one */
+  canvas: Schema.NullOr(CanvasCharacterBlueprintSchema),
+  /** Soul state including its evolution history, null when none exists */
+  soul: Schema.NullOr(SoulStateSchema),
+})
+
+export type SessionExport = Schema.Schema.Type<typeof SessionExportSchema>
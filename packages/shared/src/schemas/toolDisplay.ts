@@ -152,6 +152,18 @@ export const TOOL_DISPLAY_CONFIG: Record<string, ToolDisplayConfig> = {
     argKeys: ["command"],
     resultKeys: ["output"],
   },
+  run_code: {
+    emoji: "▶️",
+    icon: "terminal",
+    label: "Run Code",
+    colors: {
+      running: "bg-zinc-100 border-zinc-300 text-zinc-700",
+      completed: "bg-emerald-50 border-emerald-200 text-emerald-700",
+      error: "bg-red-50 border-red-200 text-red-700",
+    },
+    argKeys: ["language"],
+    resultKeys: ["stdout", "stderr"],
+  },
   
   // Memory tools
   memory_search: {
@@ -330,11 +342,67 @@ const DEFAULT_TOOL_CONFIG: ToolDisplayConfig = {
   },
 }
 
+/**
+ * Generic config for tools provided by MCP servers.
+ */
+const MCP_TOOL_CONFIG: ToolDisplayConfig = {
+  emoji: "🔌",
+  icon: "plug",
+  label: "MCP",
+  colors: {
+    running: "bg-sky-50 border-sky-200 text-sky-700",
+    completed: "bg-emerald-50 border-emerald-200 text-emerald-700",
+    error: "bg-red-50 border-red-200 text-red-700",
+  },
+}
+
+// ============================================================================
+// MCP Tool Names
+// ============================================================================
+
+/** MCP tools are exposed to the model as `mcp__<server>__<tool>` */
+export const MCP_TOOL_PREFIX = "mcp__"
+
+/** Longest tool name accepted by the model APIs */
+const MAX_TOOL_NAME_LENGTH = 64
+
+/**
+ * Normalize an MCP server name for use in tool names and `group:mcp:<name>`.
+ */
+export function normalizeMcpServerName(name: string): string {
+  return name.trim().replace(/[^A-Za-z0-9-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase()
+}
+
+/**
+ * Model-facing name of a tool provided by an MCP server.
+ */
+export function toMcpToolName(server: string, tool: string): string {
+  const safeTool = tool.replace(/[^A-Za-z0-9_-]/g, "_")
+  return `${MCP_TOOL_PREFIX}${normalizeMcpServerName(server)}__${safeTool}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Split an MCP tool name into its server and tool parts (null for other tools).
+ */
+export function parseMcpToolName(name: string): { server: string; tool: string } | null {
+  if (!name.startsWith(MCP_TOOL_PREFIX)) return null
+  const rest = name.slice(MCP_TOOL_PREFIX.length)
+  const separator = rest.indexOf("__")
+  if (separator <= 0 || separator + 2 >= rest.length) return null
+  return { server: rest.slice(0, separator), tool: rest.slice(separator + 2) }
+}
+
 /**
  * Get display configuration for a tool.
  */
 export function getToolDisplay(toolName: string): ToolDisplayConfig {
-  return TOOL_DISPLAY_CONFIG[toolName] ?? { ...DEFAULT_TOOL_CONFIG, label: formatToolName(toolName) }
+  const configured = TOOL_DISPLAY_CONFIG[toolName]
+  if (configured) return configured
+
+  const mcpTool = parseMcpToolName(toolName)
+  if (mcpTool) return { ...MCP_TOOL_CONFIG, label: formatToolName(mcpTool.tool) }
+
+  return { ...DEFAULT_TOOL_CONFIG, label: formatToolName(toolName) }
 }
 
 /**
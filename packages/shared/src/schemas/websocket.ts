@@ -20,12 +20,58 @@ import {
  */
 export const JsonRpcVersionSchema = Schema.Literal("2.0")
 
+// ============================================================================
+// Message Queue
+// ============================================================================
+
+/**
+ * A user message sent while the agent was busy. The session processes
+ * queued messages in order once the current response finishes.
+ */
+export const QueuedMessageSchema = Schema.Struct({
+  id: Schema.String,
+  message: Schema.String,
+  createdAt: Schema.Number,
+  agentId: Schema.optional(Schema.String),
+  characterState: Schema.optional(CharacterStateSchema),
+})
+
+export type QueuedMessage = Schema.Schema.Type<typeof QueuedMessageSchema>
+
+/**
+ * Result of `chat.send`: the response that was started, or the queue entry
+ * when the agent is busy.
+ */
+export const ChatSendResultSchema = Schema.Union(
+  Schema.Struct({ messageId: Schema.String }),
+  Schema.Struct({ queued: QueuedMessageSchema })
+)
+
+export type ChatSendResult = Schema.Schema.Type<typeof ChatSendResultSchema>
+
+// ============================================================================
+// Tool Approval
+// ============================================================================
+
+/**
+ * A tool call waiting for the user's consent (tools.requireApproval). The
+ * agent loop is paused until the call is approved or denied.
+ */
+export const ToolApprovalRequestSchema = Schema.Struct({
+  approvalId: Schema.String,
+  toolCallId: Schema.String,
+  toolName: Schema.String,
+  arguments: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+})
+
+export type ToolApprovalRequest = Schema.Schema.Type<typeof ToolApprovalRequestSchema>
+
 // ============================================================================
 // Client → Server Requests
 // ============================================================================
 
 /**
- * Request to send a chat message
+ * Request to send a chat message (queued if a response is in progress)
  */
 export const ChatSendRequestSchema = Schema.Struct({
   jsonrpc: JsonRpcVersionSchema,
@@ -40,6 +86,101 @@ export const ChatSendRequestSchema = Schema.Struct({
 
 export type ChatSendRequest = Schema.Schema.Type<typeof ChatSendRequestSchema>
 
+/**
+ * Request to edit a user message and re-run the agent from it.
+ * The edit starts a new branch next to the original message.
+ */
+export const ChatEditRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.edit"),
+  params: Schema.Struct({
+    messageId: Schema.String,
+    message: Schema.String,
+    agentId: Schema.optional(Schema.String),
+    characterState: Schema.optional(CharacterStateSchema),
+  }),
+})
+
+export type ChatEditRequest = Schema.Schema.Type<typeof ChatEditRequestSchema>
+
+/**
+ * Request another reply to the last user message.
+ * The new reply starts a branch next to the previous one.
+ */
+export const ChatRegenerateRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.regenerate"),
+  params: Schema.optionalWith(
+    Schema.Struct({
+      agentId: Schema.optional(Schema.String),
+      characterState: Schema.optional(CharacterStateSchema),
+    }),
+    { default: () => ({}) }
+  ),
+})
+
+export type ChatRegenerateRequest = Schema.Schema.Type<typeof ChatRegenerateRequestSchema>
+
+/**
+ * Request to show another branch of the conversation tree.
+ * The server continues from the most recent leaf under `messageId`.
+ */
+export const ChatSelectBranchRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.select_branch"),
+  params: Schema.Struct({
+    messageId: Schema.String,
+  }),
+})
+
+export type ChatSelectBranchRequest = Schema.Schema.Type<typeof ChatSelectBranchRequestSchema>
+
+/**
+ * Request to drop a message from the session's queue
+ */
+export const ChatQueueRemoveRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.queue_remove"),
+  params: Schema.Struct({
+    queueId: Schema.String,
+  }),
+})
+
+export type ChatQueueRemoveRequest = Schema.Schema.Type<typeof ChatQueueRemoveRequestSchema>
+
+/**
+ * Request to run a tool call that is waiting for approval
+ */
+export const ChatToolApproveRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.tool_approve"),
+  params: Schema.Struct({
+    approvalId: Schema.String,
+  }),
+})
+
+export type ChatToolApproveRequest = Schema.Schema.Type<typeof ChatToolApproveRequestSchema>
+
+/**
+ * Request to reject a tool call that is waiting for approval; the agent
+ * gets an error result for it
+ */
+export const ChatToolDenyRequestSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  id: Schema.String,
+  method: Schema.Literal("chat.tool_deny"),
+  params: Schema.Struct({
+    approvalId: Schema.String,
+  }),
+})
+
+export type ChatToolDenyRequest = Schema.Schema.Type<typeof ChatToolDenyRequestSchema>
+
 /**
  * Request to cancel current message generation
  */
@@ -67,6 +208,12 @@ export type PingRequest = Schema.Schema.Type<typeof PingRequestSchema>
  */
 export const ClientMessageSchema = Schema.Union(
   ChatSendRequestSchema,
+  ChatEditRequestSchema,
+  ChatRegenerateRequestSchema,
+  ChatSelectBranchRequestSchema,
+  ChatQueueRemoveRequestSchema,
+  ChatToolApproveRequestSchema,
+  ChatToolDenyRequestSchema,
   ChatCancelRequestSchema,
   PingRequestSchema
 )
@@ -251,11 +398,95 @@ export const SessionResumedNotificationSchema = Schema.Struct({
   params: Schema.Struct({
     sessionId: Schema.String,
     messageCount: Schema.Number,
+    queue: Schema.Array(QueuedMessageSchema),
+    /** Tool calls still waiting for approval */
+    pendingApprovals: Schema.Array(ToolApprovalRequestSchema),
+    /** Latest response event sequence number; the cursor for the next reconnect */
+    lastSequence: Schema.Number,
   }),
 })
 
 export type SessionResumedNotification = Schema.Schema.Type<typeof SessionResumedNotificationSchema>
 
+/**
+ * Number of sockets attached to the session changed (another tab or device
+ * joined or left). Sent to every attached socket.
+ */
+export const SessionPresenceNotificationSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  method: Schema.Literal("session.presence"),
+  params: Schema.Struct({
+    sessionId: Schema.String,
+    connectionCount: Schema.Number,
+  }),
+})
+
+export type SessionPresenceNotification = Schema.Schema.Type<
+  typeof SessionPresenceNotificationSchema
+>
+
+/**
+ * Full session state, sent on reconnect instead of a replay when the missed
+ * response events are no longer buffered. Replaces the client's conversation.
+ */
+export const SessionSnapshotNotificationSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  method: Schema.Literal("session.snapshot"),
+  params: Schema.Struct({
+    sessionId: Schema.String,
+    /** Every message of the conversation tree */
+    messages: Schema.Array(ChatMessageSchema),
+    activeLeafId: Schema.NullOr(Schema.String),
+    /** Response still streaming, with the text produced so far */
+    inProgress: Schema.NullOr(
+      Schema.Struct({
+        responseId: Schema.String,
+        text: Schema.String,
+      })
+    ),
+    lastSequence: Schema.Number,
+  }),
+})
+
+export type SessionSnapshotNotification = Schema.Schema.Type<
+  typeof SessionSnapshotNotificationSchema
+>
+
+/**
+ * Message queue changed. `started` is set when a queued message was taken
+ * off the queue and its response is starting.
+ */
+export const QueueUpdatedNotificationSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  method: Schema.Literal("chat.queue_updated"),
+  params: Schema.Struct({
+    queue: Schema.Array(QueuedMessageSchema),
+    started: Schema.optional(
+      Schema.Struct({
+        queueId: Schema.String,
+        messageId: Schema.String,
+        message: Schema.String,
+      })
+    ),
+  }),
+})
+
+export type QueueUpdatedNotification = Schema.Schema.Type<typeof QueueUpdatedNotificationSchema>
+
+/**
+ * A tool call needs the user's approval before it runs. Answered with
+ * `chat.tool_approve` or `chat.tool_deny`.
+ */
+export const ToolApprovalRequestNotificationSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  method: Schema.Literal("chat.tool_approval_request"),
+  params: ToolApprovalRequestSchema,
+})
+
+export type ToolApprovalRequestNotification = Schema.Schema.Type<
+  typeof ToolApprovalRequestNotificationSchema
+>
+
 /**
  * Character pose change notification (agent → client)
  */
@@ -313,6 +544,29 @@ export const SoulStateSnapshotNotificationSchema = Schema.Struct({
 
 export type SoulStateSnapshotNotification = Schema.Schema.Type<typeof SoulStateSnapshotNotificationSchema>
 
+/**
+ * Task suggested by the agent (task_suggest tool)
+ */
+export const TaskSuggestionSchema = Schema.Struct({
+  id: Schema.String,
+  text: Schema.String,
+})
+
+export type TaskSuggestion = Schema.Schema.Type<typeof TaskSuggestionSchema>
+
+/**
+ * Tasks suggested notification (agent → client task list)
+ */
+export const TasksSuggestedNotificationSchema = Schema.Struct({
+  jsonrpc: JsonRpcVersionSchema,
+  method: Schema.Literal("tasks.suggested"),
+  params: Schema.Struct({
+    tasks: Schema.Array(TaskSuggestionSchema),
+  }),
+})
+
+export type TasksSuggestedNotification = Schema.Schema.Type<typeof TasksSuggestedNotificationSchema>
+
 /**
  * Union of all server notifications
  */
@@ -326,11 +580,16 @@ export const ServerNotificationSchema = Schema.Union(
   ErrorNotificationSchema,
   CompactingNotificationSchema,
   SessionResumedNotificationSchema,
+  SessionPresenceNotificationSchema,
+  SessionSnapshotNotificationSchema,
+  QueueUpdatedNotificationSchema,
+  ToolApprovalRequestNotificationSchema,
   PoseChangeNotificationSchema,
   CanvasStatePatchNotificationSchema,
   CanvasStateSnapshotNotificationSchema,
   SoulStageChangeNotificationSchema,
-  SoulStateSnapshotNotificationSchema
+  SoulStateSnapshotNotificationSchema,
+  TasksSuggestedNotificationSchema
 )
 
 export type ServerNotification = Schema.Schema.Type<typeof ServerNotificationSchema>
@@ -355,6 +614,8 @@ export type ServerMessage = Schema.Schema.Type<typeof ServerMessageSchema>
  */
 export const SessionToolCallSchema = Schema.Struct({
   toolCallId: Schema.String,
+  /** Assistant message the call was made for */
+  messageId: Schema.optional(Schema.String),
   toolName: Schema.String,
   arguments: StringKeyedMap,
   result: Schema.optional(ToolExecutionResultSchema),
@@ -428,3 +689,13 @@ export const JSON_RPC_ERRORS = {
   RATE_LIMITED: -32002,
   AGENT_ERROR: -32003,
 } as const
+
+// ============================================================================
+// Close Codes
+// ============================================================================
+
+/** Application close codes (4000-4999) the server closes chat sockets with */
+export const WS_CLOSE_CODES = {
+  /** The session was deleted; clients should not reconnect to it */
+  SESSION_DELETED: 4404,
+} as const
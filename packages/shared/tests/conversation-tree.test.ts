@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import {
+  appendToConversation,
+  createConversationTree,
+  getActivePath,
+  getMessageBranch,
+  selectConversationBranch,
+  type ChatMessage,
+} from "../src/schemas/chat"
+
+const message = (id: string, role: ChatMessage["role"], content = id): ChatMessage => ({
+  id,
+  role,
+  content,
+  timestamp: 0,
+})
+
+const ids = (messages: readonly ChatMessage[]) => messages.map((m) => m.id)
+
+describe("conversation tree helpers", () => {
+  it("links a flat history in order", () => {
+    const tree = createConversationTree([message("u1", "user"), message("a1", "assistant")])
+
+    expect(tree.messages.map((m) => m.parentId)).toEqual([null, "u1"])
+    expect(tree.activeLeafId).toBe("a1")
+    expect(ids(getActivePath(tree))).toEqual(["u1", "a1"])
+  })
+
+  it("keeps regenerated replies as siblings and follows the active one", () => {
+    let tree = createConversationTree([message("u1", "user"), message("a1", "assistant")])
+
+    // Regenerate: branch from the user message and append a new reply
+    tree = appendToConversation({ ...tree, activeLeafId: "u1" }, message("a2", "assistant"))
+
+    expect(ids(getActivePath(tree))).toEqual(["u1", "a2"])
+    expect(getMessageBranch(tree, "a2")).toEqual({
+      index: 1,
+      count: 2,
+      siblingIds: ["a1", "a2"],
+    })
+    expect(ids(getActivePath(selectConversationBranch(tree, "a1")))).toEqual(["u1", "a1"])
+  })
+
+  it("selects the most recent leaf under an edited branch", () => {
+    let tree = createConversationTree([
+      message("u1", "user"),
+      message("a1", "assistant"),
+      message("u2", "user"),
+      message("a2", "assistant"),
+    ])
+
+    // Edit u2: a sibling user message under a1, then its reply
+    tree = appendToConversation({ ...tree, activeLeafId: "a1" }, message("u2b", "user"))
+    tree = appendToConversation(tree, message("a2b", "assistant"))
+
+    expect(ids(getActivePath(tree))).toEqual(["u1", "a1", "u2b", "a2b"])
+    expect(getMessageBranch(tree, "u2")?.count).toBe(2)
+
+    const original = selectConversationBranch(tree, "u2")
+    expect(original.activeLeafId).toBe("a2")
+
+    const back = selectConversationBranch(original, "u2b")
+    expect(back.activeLeafId).toBe("a2b")
+  })
+
+  it("treats root messages as siblings of each other", () => {
+    let tree = createConversationTree([message("u1", "user")])
+    tree = appendToConversation({ ...tree, activeLeafId: null }, message("u1b", "user"))
+
+    expect(getMessageBranch(tree, "u1")?.siblingIds).toEqual(["u1", "u1b"])
+    expect(getMessageBranch(tree, "missing")).toBeNull()
+  })
+})